@@ -3,34 +3,113 @@ import { NavBar } from './components/NavBar';
 import { FileUploader } from './components/FileUploader';
 import { DateRangePicker } from './components/DateRangePicker';
 import { PayrollTable } from './components/PayrollTable';
+import { PayrollRunPanel } from './components/PayrollRunPanel';
+import { AdjustmentsPanel } from './components/AdjustmentsPanel';
+import { OffCyclePayrollPanel } from './components/OffCyclePayrollPanel';
+import { ThirteenthMonthPanel } from './components/ThirteenthMonthPanel';
+import { RecurringDeductionsPanel } from './components/RecurringDeductionsPanel';
+import { EarningsPanel } from './components/EarningsPanel';
+import { LeavePanel } from './components/LeavePanel';
 import { StaffManagement } from './components/StaffManagement/StaffManagement';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { AIStatusIndicator } from './components/AIStatusIndicator';
 import { ErrorInvestigator } from './components/ErrorInvestigator';
+import { Settings } from './components/Settings/Settings';
 import { useEmployees } from './hooks/useEmployees';
 import { usePayroll } from './hooks/usePayroll';
+import { useHolidays } from './hooks/useHolidays';
+import { useSettings } from './hooks/useSettings';
+import { usePayrollRuns } from './hooks/usePayrollRuns';
+import { useAdjustments } from './hooks/useAdjustments';
+import { useRecurringDeductions } from './hooks/useRecurringDeductions';
+import { useEarnings } from './hooks/useEarnings';
+import { useAttendanceReviews } from './hooks/useAttendanceReviews';
+import { useLeave } from './hooks/useLeave';
+import { findRunForPeriod } from './utils/payrollRuns';
+import { findAlreadyAppliedAdjustments, getAdjustmentsForPeriod } from './utils/payrollAdjustments';
+import { findAlreadyPaidInstallments, getScheduledDeductions } from './utils/recurringDeductions';
+import { getScheduledEarnings } from './utils/earnings';
+import { getScheduledLeave } from './utils/leave';
+import { TARDINESS_MODE_LABELS } from './utils/tardiness';
+import { OVERTIME_MODE_LABELS } from './utils/payrollCalculator';
+import { Employee, PayrollRun } from './types';
 
-type Page = 'payroll' | 'staff' | 'errors';
+type Page = 'payroll' | 'staff' | 'errors' | 'settings';
 
 function App() {
   const [currentPage, setCurrentPage] = useState<Page>('payroll');
+  const [finalPayEmployee, setFinalPayEmployee] = useState<Employee | null>(null);
 
   // Custom hooks for state management
   const employees = useEmployees();
-  const payroll = usePayroll();
+  const settings = useSettings();
+  const payroll = usePayroll(
+    settings.settings.attendance,
+    settings.settings.pay_schedule,
+    settings.settings.breaks,
+    settings.settings.vocabulary,
+    settings.settings.payroll_rules
+  );
+  const holidays = useHolidays();
+  const payrollRuns = usePayrollRuns();
+  const adjustments = useAdjustments();
+  const recurringDeductions = useRecurringDeductions();
+  const earnings = useEarnings();
+  const attendanceReviews = useAttendanceReviews();
+  const leave = useLeave();
+
+  // A run for the selected period shows its frozen results instead of the live calculation
+  const selectedPeriod = { start: payroll.startDate, end: payroll.endDate };
+  const periodRun = findRunForPeriod(payrollRuns.runs, selectedPeriod);
+  const displayedSummaries = periodRun ? periodRun.summaries : payroll.payrollSummaries;
+
+  // Adjustments paid by an approved run are tied to it so later periods do not pay them again,
+  // and the loan and cash advance installments it took come off their balances
+  const handleRunApproved = async (run: PayrollRun) => {
+    const ids = run.summaries.flatMap(summary => (summary.adjustments || []).map(adjustment => adjustment.id));
+    await adjustments.markAdjustmentsApplied(ids, run.id);
+    await recurringDeductions.recordRunPayments(run);
+  };
+
+  // Open drafts can freeze the same pending adjustments and installments, so one approved after
+  // another has paid them must be recalculated rather than paying or deducting them twice
+  const checkRunApproval = (run: PayrollRun): string | null => {
+    const settled = [
+      ...findAlreadyAppliedAdjustments(run, adjustments.adjustments).map(adjustment => adjustment.label),
+      ...findAlreadyPaidInstallments(run, recurringDeductions.deductions).map(installment => installment.label)
+    ];
+    if (settled.length > 0) {
+      return `${settled.join(', ')} already settled by another run. Recalculate or recreate this run before approving it.`;
+    }
+    return null;
+  };
+
+  // Deactivating an employee opens their final pay on the payroll page
+  const handleEmployeeDeactivated = (employee: Employee) => {
+    setFinalPayEmployee(employee);
+    setCurrentPage('payroll');
+  };
 
   // Auto-refresh payroll when employees or date range changes
   useEffect(() => {
     const refreshAsync = async () => {
       try {
-        await payroll.refreshPayroll(employees.employees);
+        await payroll.refreshPayroll(employees.employees, {
+          holidays: holidays.holidays,
+          adjustments: getAdjustmentsForPeriod(adjustments.adjustments, selectedPeriod, periodRun),
+          earnings: getScheduledEarnings(earnings.earningTypes, earnings.assignments, selectedPeriod),
+          recurringDeductions: getScheduledDeductions(recurringDeductions.deductions, selectedPeriod, periodRun),
+          leave: getScheduledLeave(leave.requests, selectedPeriod, settings.settings.payroll_rules, holidays.holidays),
+          netPayFloor: settings.settings.deductions.net_pay_floor,
+          tardiness: settings.settings.tardiness
+        });
       } catch (error) {
         console.error('Error refreshing payroll:', error);
       }
     };
     
     refreshAsync();
-  }, [employees.employees, payroll.startDate, payroll.endDate, payroll.slackMessages]);
+  }, [employees.employees, payroll.startDate, payroll.endDate, payroll.slackMessages, holidays.holidays, settings.settings, adjustments.adjustments, earnings.earningTypes, earnings.assignments, recurringDeductions.deductions, leave.requests, periodRun?.status]);
 
   const renderPayrollPage = () => (
     <div className="container mx-auto px-4 py-8">
@@ -108,6 +187,17 @@ function App() {
           <FileUploader 
             onDataLoad={payroll.loadSlackMessages} 
             employees={employees.employees} 
+            holidays={holidays.holidays}
+            attendanceSettings={settings.settings.attendance}
+            tardiness={settings.settings.tardiness}
+            payrollRules={settings.settings.payroll_rules}
+            vocabulary={settings.settings.vocabulary}
+            onCreateEmployee={employees.createEmployee}
+            onUpdateEmployee={employees.updateEmployee}
+            onAddAlias={employees.addAlias}
+            onRecordReviews={attendanceReviews.recordReviews}
+            reviewHistory={attendanceReviews.reviews}
+            leaveRequests={leave.requests}
           />
         </ErrorBoundary>
 
@@ -118,15 +208,105 @@ function App() {
             endDate={payroll.endDate}
             onStartDateChange={(date) => payroll.setDateRange(date, payroll.endDate)}
             onEndDateChange={(date) => payroll.setDateRange(payroll.startDate, date)}
+            payPeriods={payroll.payPeriods}
             onPeriodPresetSelect={payroll.setPeriodPreset}
           />
         </ErrorBoundary>
 
+        {/* Payroll Run */}
+        <ErrorBoundary>
+          <PayrollRunPanel
+            period={selectedPeriod}
+            liveSummaries={payroll.payrollSummaries}
+            runInputs={payroll.runInputs}
+            payrollRuns={payrollRuns}
+            onSelectPeriod={payroll.setDateRange}
+            onRunApproved={handleRunApproved}
+            checkApproval={checkRunApproval}
+          />
+        </ErrorBoundary>
+
+        {/* Adjustments Ledger */}
+        <ErrorBoundary>
+          <AdjustmentsPanel
+            period={selectedPeriod}
+            periodRun={periodRun}
+            liveSummaries={payroll.payrollSummaries}
+            employees={employees.employees}
+            adjustments={adjustments}
+          />
+        </ErrorBoundary>
+
+        {/* Allowances and Bonuses */}
+        <ErrorBoundary>
+          <EarningsPanel
+            period={selectedPeriod}
+            employees={employees.employees}
+            earnings={earnings}
+          />
+        </ErrorBoundary>
+
+        {/* Loans and Cash Advances */}
+        <ErrorBoundary>
+          <RecurringDeductionsPanel
+            employees={employees.employees}
+            defaultStartDate={payroll.startDate}
+            recurringDeductions={recurringDeductions}
+          />
+        </ErrorBoundary>
+
+        {/* Leave Requests and Balances */}
+        <ErrorBoundary>
+          <LeavePanel
+            employees={employees.employees}
+            leaveSettings={settings.settings.leave}
+            holidays={holidays.holidays}
+            payrollRules={settings.settings.payroll_rules}
+            timezone={settings.settings.attendance.timezone}
+            leave={leave}
+          />
+        </ErrorBoundary>
+
+        {/* Off-Cycle and Final Pay Runs */}
+        <ErrorBoundary>
+          <OffCyclePayrollPanel
+            employees={employees.employees}
+            holidays={holidays.holidays}
+            adjustments={adjustments.adjustments}
+            recurringDeductions={recurringDeductions.deductions}
+            earningTypes={earnings.earningTypes}
+            earningAssignments={earnings.assignments}
+            leaveRequests={leave.requests}
+            leaveSettings={settings.settings.leave}
+            netPayFloor={settings.settings.deductions.net_pay_floor}
+            paySchedule={settings.settings.pay_schedule}
+            payrollRules={settings.settings.payroll_rules}
+            tardiness={settings.settings.tardiness}
+            payrollRuns={payrollRuns}
+            calculatePayrollFor={payroll.calculatePayrollFor}
+            finalPayEmployee={finalPayEmployee}
+            onFinalPayClosed={() => setFinalPayEmployee(null)}
+            onRunApproved={handleRunApproved}
+            checkApproval={checkRunApproval}
+            onExportCSV={(run) => payroll.exportCSV(run.summaries, run)}
+          />
+        </ErrorBoundary>
+
+        {/* 13th Month Pay */}
+        <ErrorBoundary>
+          <ThirteenthMonthPanel
+            employees={employees.employees}
+            attendanceSettings={settings.settings.attendance}
+            payrollRules={settings.settings.payroll_rules}
+            payrollRuns={payrollRuns}
+          />
+        </ErrorBoundary>
+
         {/* Payroll Table */}
         <ErrorBoundary>
           <PayrollTable
-            payrollSummaries={payroll.payrollSummaries}
-            onExportCSV={payroll.exportCSV}
+            payrollSummaries={displayedSummaries}
+            onExportCSV={() => payroll.exportCSV(displayedSummaries)}
           />
         </ErrorBoundary>
       </div>
@@ -135,7 +315,7 @@ function App() {
       <div className="mt-16 text-center text-gray-500 text-sm">
         <p>Internal Payroll Tracking Tool - MVP Phase 0</p>
         <p className="mt-1">
-          Parsing Rules: 5min late grace period, $10 late deduction, $50 offline deduction, 1.5x overtime after 8hrs
+          Parsing Rules: {settings.settings.attendance.default_start_time} start ({settings.settings.attendance.timezone}), {settings.settings.attendance.grace_period_minutes}min late grace period, {settings.settings.tardiness.mode === 'flat' ? `$${settings.settings.tardiness.flat_amount} late deduction` : TARDINESS_MODE_LABELS[settings.settings.tardiness.mode].toLowerCase()}, $50 offline deduction, unpaid breaks, {settings.settings.payroll_rules.overtime_multiplier}x {OVERTIME_MODE_LABELS[settings.settings.payroll_rules.overtime_mode].toLowerCase()} overtime, holiday, rest day and night differential premiums{settings.settings.payroll_rules.statutory_deductions_enabled ? ', SSS/PhilHealth/Pag-IBIG and withholding tax' : ''}
         </p>
       </div>
     </div>
@@ -143,7 +323,7 @@ function App() {
 
   const renderStaffPage = () => (
     <ErrorBoundary>
-      <StaffManagement />
+      <StaffManagement onEmployeeDeactivated={handleEmployeeDeactivated} />
     </ErrorBoundary>
   );
 
@@ -155,6 +335,12 @@ function App() {
     </ErrorBoundary>
   );
 
+  const renderSettingsPage = () => (
+    <ErrorBoundary>
+      <Settings holidays={holidays} settings={settings} earnings={earnings} />
+    </ErrorBoundary>
+  );
+
   return (
     <ErrorBoundary>
       <div className="min-h-screen bg-gray-100">
@@ -164,10 +350,11 @@ function App() {
         {/* Page Content */}
         {currentPage === 'staff' ? renderStaffPage() : 
          currentPage === 'errors' ? renderErrorPage() : 
+         currentPage === 'settings' ? renderSettingsPage() :
          renderPayrollPage()}
         
         {/* Loading Overlay */}
-        {(employees.isLoading || payroll.isLoading) && (
+        {(employees.isLoading || payroll.isLoading || holidays.isLoading || settings.isLoading || payrollRuns.isLoading || adjustments.isLoading || recurringDeductions.isLoading || earnings.isLoading || leave.isLoading) && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white rounded-lg p-6 flex items-center space-x-3">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { AdjustmentFormData, AdjustmentType, Employee, PayPeriodRange, PayrollRun, PayrollSummary } from '../types';
+import { UseAdjustmentsActions, UseAdjustmentsState } from '../hooks/useAdjustments';
+import { ADJUSTMENT_TYPE_LABELS, computeRetroAdjustments, getAdjustmentsForPeriod, validateAdjustment } from '../utils/payrollAdjustments';
+import { isRunLocked } from '../utils/payrollRuns';
+import { addDaysToDateKey } from '../utils/timezone';
+
+interface AdjustmentsPanelProps {
+  period: PayPeriodRange;
+  periodRun?: PayrollRun;
+  liveSummaries: PayrollSummary[];
+  employees: Employee[];
+  adjustments: UseAdjustmentsState & UseAdjustmentsActions;
+}
+
+const emptyForm = (applyFrom: string): AdjustmentFormData => ({
+  employee_id: '',
+  type: 'earning',
+  amount: '',
+  label: '',
+  apply_from: applyFrom,
+  created_by: ''
+});
+
+export function AdjustmentsPanel({ period, periodRun, liveSummaries, employees, adjustments }: AdjustmentsPanelProps) {
+  const isLocked = periodRun !== undefined && isRunLocked(periodRun);
+  // New entries land in this period while it is open, otherwise in the one after it
+  const defaultApplyFrom = isLocked ? addDaysToDateKey(period.end, 1) : period.start;
+  const [formData, setFormData] = useState<AdjustmentFormData>(emptyForm(defaultApplyFrom));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const periodAdjustments = getAdjustmentsForPeriod(adjustments.adjustments, period, periodRun);
+  const retroDrafts = periodRun && isLocked
+    ? computeRetroAdjustments(periodRun, liveSummaries, adjustments.adjustments, addDaysToDateKey(periodRun.end, 1))
+    : [];
+
+  const employeeName = (id: string) => employees.find(employee => employee.id === id)?.name || id;
+  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+  const formatSigned = (type: AdjustmentType, amount: number) => `${type === 'earning' ? '+' : '−'}${formatCurrency(amount)}`;
+
+  const handleInputChange = (field: keyof AdjustmentFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleOpenForm = () => {
+    setFormData(emptyForm(defaultApplyFrom));
+    setErrors({});
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateAdjustment(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await adjustments.createAdjustment(formData);
+    if (result.success) {
+      setIsFormOpen(false);
+    }
+  };
+
+  const handleCarryRetro = async () => {
+    if (window.confirm(`Carry ${retroDrafts.length} retro correction(s) into the next open period?`)) {
+      await adjustments.createAdjustments(retroDrafts);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm('Delete this adjustment?')) {
+      await adjustments.deleteAdjustment(id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Adjustments</h2>
+        {!isFormOpen && (
+          <button
+            onClick={handleOpenForm}
+            className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
+          >
+            Add Adjustment
+          </button>
+        )}
+      </div>
+
+      {adjustments.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3 mb-4 flex justify-between">
+          <span>{adjustments.error}</span>
+          <button onClick={adjustments.clearError} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      {retroDrafts.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm">
+          <p className="text-yellow-800 font-medium">Retro corrections for this locked period</p>
+          <ul className="mt-2 text-yellow-700 space-y-1">
+            {retroDrafts.map(draft => (
+              <li key={draft.employee_id}>
+                {employeeName(draft.employee_id)}: {formatSigned(draft.type, draft.amount)}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleCarryRetro}
+            className="mt-3 px-3 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 text-sm"
+          >
+            Carry to Next Period
+          </button>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-md">
+          <div>
+            <label htmlFor="adjustment-employee" className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+            <select
+              id="adjustment-employee"
+              value={formData.employee_id}
+              onChange={(e) => handleInputChange('employee_id', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose an employee…</option>
+              {employees.map(employee => (
+                <option key={employee.id} value={employee.id}>{employee.name}</option>
+              ))}
+            </select>
+            {errors.employee_id && <p className="text-red-500 text-xs mt-1">{errors.employee_id}</p>}
+          </div>
+          <div>
+            <label htmlFor="adjustment-type" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              id="adjustment-type"
+              value={formData.type}
+              onChange={(e) => handleInputChange('type', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(ADJUSTMENT_TYPE_LABELS) as AdjustmentType[]).map(type => (
+                <option key={type} value={type}>{ADJUSTMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="adjustment-amount" className="block text-sm font-medium text-gray-700 mb-1">Amount ($)</label>
+            <input
+              id="adjustment-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={formData.amount}
+              onChange={(e) => handleInputChange('amount', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.amount && <p className="text-red-500 text-xs mt-1">{errors.amount}</p>}
+          </div>
+          <div>
+            <label htmlFor="adjustment-label" className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+            <input
+              id="adjustment-label"
+              type="text"
+              value={formData.label}
+              onChange={(e) => handleInputChange('label', e.target.value)}
+              placeholder="e.g. Equipment reimbursement"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.label && <p className="text-red-500 text-xs mt-1">{errors.label}</p>}
+          </div>
+          <div>
+            <label htmlFor="adjustment-apply-from" className="block text-sm font-medium text-gray-700 mb-1">Apply From</label>
+            <input
+              id="adjustment-apply-from"
+              type="date"
+              value={formData.apply_from}
+              onChange={(e) => handleInputChange('apply_from', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.apply_from && <p className="text-red-500 text-xs mt-1">{errors.apply_from}</p>}
+          </div>
+          <div>
+            <label htmlFor="adjustment-created-by" className="block text-sm font-medium text-gray-700 mb-1">Entered By</label>
+            <input
+              id="adjustment-created-by"
+              type="text"
+              value={formData.created_by}
+              onChange={(e) => handleInputChange('created_by', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+            >
+              Save Adjustment
+            </button>
+          </div>
+        </form>
+      )}
+
+      {periodAdjustments.length === 0 ? (
+        <p className="text-sm text-gray-500">No adjustments in this period.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="px-2 py-1 text-left">Employee</th>
+              <th className="px-2 py-1 text-left">Label</th>
+              <th className="px-2 py-1 text-left">Amount</th>
+              <th className="px-2 py-1 text-left">Status</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {periodAdjustments.map(adjustment => (
+              <tr key={adjustment.id}>
+                <td className="px-2 py-1 text-gray-900">{employeeName(adjustment.employee_id)}</td>
+                <td className="px-2 py-1 text-gray-900">
+                  {adjustment.label}
+                  {adjustment.source === 'retro' && <span className="ml-2 text-xs text-yellow-700">retro</span>}
+                </td>
+                <td className={`px-2 py-1 ${adjustment.type === 'earning' ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatSigned(adjustment.type, adjustment.amount)}
+                </td>
+                <td className="px-2 py-1 text-gray-500">{adjustment.applied_run_id ? 'Paid' : 'Pending'}</td>
+                <td className="px-2 py-1 text-right">
+                  {!adjustment.applied_run_id && (
+                    <button onClick={() => handleDelete(adjustment.id)} className="text-red-600 hover:text-red-800 text-xs">
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,30 @@
+import { PayPeriod, PayPeriodPreset } from '../types';
+
 interface DateRangePickerProps {
   startDate: string;
   endDate: string;
+  payPeriods: PayPeriod[];
   onStartDateChange: (date: string) => void;
   onEndDateChange: (date: string) => void;
-  onPeriodPresetSelect: (period: 'first-half' | 'second-half' | 'full-month') => void;
+  onPeriodPresetSelect: (preset: PayPeriodPreset) => void;
 }
 
 export function DateRangePicker({
   startDate,
   endDate,
+  payPeriods,
   onStartDateChange,
   onEndDateChange,
   onPeriodPresetSelect,
 }: DateRangePickerProps) {
-  const getCurrentMonth = () => {
-    const now = new Date();
-    return {
-      year: now.getFullYear(),
-      monthName: now.toLocaleString('default', { month: 'long' })
-    };
-  };
+  const selectedPeriod = payPeriods.find(period => period.start === startDate && period.end === endDate);
 
-  const { year, monthName } = getCurrentMonth();
+  const handlePeriodSelect = (start: string) => {
+    const period = payPeriods.find(p => p.start === start);
+    if (period) {
+      onPeriodPresetSelect(period);
+    }
+  };
 
   return (
     <div className="bg-white p-6 rounded-lg shadow-md">
@@ -29,26 +32,33 @@ export function DateRangePicker({
       
       {/* Quick Presets */}
       <div className="mb-6">
-        <h3 className="text-sm font-medium text-gray-700 mb-2">Quick Presets ({monthName} {year})</h3>
-        <div className="flex space-x-2">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Pay Calendar</h3>
+        <div className="flex flex-wrap items-center gap-2">
           <button
-            onClick={() => onPeriodPresetSelect('first-half')}
+            onClick={() => onPeriodPresetSelect('current')}
             className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
           >
-            1st - 15th
+            Current Period
           </button>
           <button
-            onClick={() => onPeriodPresetSelect('second-half')}
+            onClick={() => onPeriodPresetSelect('previous')}
             className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
           >
-            16th - End of Month
+            Previous Period
           </button>
-          <button
-            onClick={() => onPeriodPresetSelect('full-month')}
-            className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
+          <select
+            aria-label="Pay period"
+            value={selectedPeriod?.start || ''}
+            onChange={(e) => handlePeriodSelect(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
-            Full Month
-          </button>
+            <option value="" disabled>Choose a period…</option>
+            {payPeriods.map(period => (
+              <option key={period.start} value={period.start}>
+                {period.label} (paid {period.pay_date})
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
@@ -86,6 +96,11 @@ export function DateRangePicker({
           <div className="text-sm text-gray-600">
             Selected Period: <span className="font-medium">{startDate}</span> to <span className="font-medium">{endDate}</span>
           </div>
+          {selectedPeriod && (
+            <div className="text-xs text-gray-500 mt-1">
+              Cutoff {selectedPeriod.cutoff_date} · Pay date {selectedPeriod.pay_date}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { EarningAssignment, EarningAssignmentFormData, Employee, PayPeriodRange } from '../types';
+import { UseEarningsActions, UseEarningsState } from '../hooks/useEarnings';
+import { EARNING_CALCULATION_LABELS, getScheduledEarnings, validateEarningAssignment } from '../utils/earnings';
+
+interface EarningsPanelProps {
+  period: PayPeriodRange;
+  employees: Employee[];
+  earnings: UseEarningsState & UseEarningsActions;
+}
+
+type AssignmentScope = 'recurring' | 'period';
+
+const emptyForm = (startDate: string): EarningAssignmentFormData => ({
+  earning_type_id: '',
+  employee_id: '',
+  amount: '',
+  start_date: startDate,
+  end_date: '',
+  created_by: ''
+});
+
+export function EarningsPanel({ period, employees, earnings }: EarningsPanelProps) {
+  const [formData, setFormData] = useState<EarningAssignmentFormData>(emptyForm(period.start));
+  const [scope, setScope] = useState<AssignmentScope>('recurring');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [employeeFilter, setEmployeeFilter] = useState('');
+
+  const dueIds = new Set(
+    getScheduledEarnings(earnings.earningTypes, earnings.assignments, period).map(earning => earning.assignment_id)
+  );
+  const shown = earnings.assignments.filter(assignment => !employeeFilter || assignment.employee_id === employeeFilter);
+  const selectedType = earnings.earningTypes.find(type => type.id === formData.earning_type_id);
+  const isOneOff = selectedType?.calculation === 'one_off';
+
+  const employeeName = (id: string) => employees.find(employee => employee.id === id)?.name || id;
+  const earningType = (id: string) => earnings.earningTypes.find(type => type.id === id);
+  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+  const handleInputChange = (field: keyof EarningAssignmentFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  // Picking an earning fills in its catalog amount
+  const handleTypeChange = (id: string) => {
+    const type = earningType(id);
+    setFormData(prev => ({ ...prev, earning_type_id: id, amount: type ? String(type.default_amount) : prev.amount }));
+    setErrors(prev => ({ ...prev, earning_type_id: '', amount: '' }));
+  };
+
+  const handleOpenForm = () => {
+    setFormData({ ...emptyForm(period.start), employee_id: employeeFilter });
+    setScope('recurring');
+    setErrors({});
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // A one-off is paid in the period containing its date; a period-only earning spans the selected period
+    const submitted: EarningAssignmentFormData = isOneOff
+      ? { ...formData, end_date: '' }
+      : scope === 'period'
+        ? { ...formData, start_date: period.start, end_date: period.end }
+        : formData;
+
+    const validation = validateEarningAssignment(submitted);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await earnings.assignEarning(submitted);
+    if (result.success) {
+      setIsFormOpen(false);
+    }
+  };
+
+  const handleEnd = async (assignment: EarningAssignment) => {
+    const name = earningType(assignment.earning_type_id)?.name || 'this earning';
+    if (window.confirm(`Stop paying ${name} to ${employeeName(assignment.employee_id)} after ${period.end}?`)) {
+      await earnings.endAssignment(assignment.id, period.end);
+    }
+  };
+
+  const handleDelete = async (assignment: EarningAssignment) => {
+    const name = earningType(assignment.earning_type_id)?.name || 'this earning';
+    if (window.confirm(`Remove ${name} for ${employeeName(assignment.employee_id)}? Locked payroll runs keep what they paid.`)) {
+      await earnings.deleteAssignment(assignment.id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Allowances & Bonuses</h2>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Filter by employee"
+            value={employeeFilter}
+            onChange={(e) => setEmployeeFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All employees</option>
+            {employees.map(employee => (
+              <option key={employee.id} value={employee.id}>{employee.name}</option>
+            ))}
+          </select>
+          {!isFormOpen && (
+            <button
+              onClick={handleOpenForm}
+              disabled={earnings.earningTypes.length === 0}
+              title={earnings.earningTypes.length === 0 ? 'Add allowances and bonuses to the catalog in Settings first' : undefined}
+              className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm disabled:opacity-50"
+            >
+              Assign Earning
+            </button>
+          )}
+        </div>
+      </div>
+
+      {earnings.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3 mb-4 flex justify-between">
+          <span>{earnings.error}</span>
+          <button onClick={earnings.clearError} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-md">
+          <div>
+            <label htmlFor="earning-employee" className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+            <select
+              id="earning-employee"
+              value={formData.employee_id}
+              onChange={(e) => handleInputChange('employee_id', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose an employee…</option>
+              {employees.map(employee => (
+                <option key={employee.id} value={employee.id}>{employee.name}</option>
+              ))}
+            </select>
+            {errors.employee_id && <p className="text-red-500 text-xs mt-1">{errors.employee_id}</p>}
+          </div>
+          <div>
+            <label htmlFor="earning-type" className="block text-sm font-medium text-gray-700 mb-1">Earning</label>
+            <select
+              id="earning-type"
+              value={formData.earning_type_id}
+              onChange={(e) => handleTypeChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose an earning…</option>
+              {earnings.earningTypes.map(type => (
+                <option key={type.id} value={type.id}>{type.name} ({EARNING_CALCULATION_LABELS[type.calculation]})</option>
+              ))}
+            </select>
+            {errors.earning_type_id && <p className="text-red-500 text-xs mt-1">{errors.earning_type_id}</p>}
+          </div>
+          <div>
+            <label htmlFor="earning-amount" className="block text-sm font-medium text-gray-700 mb-1">
+              Amount ($){selectedType?.calculation === 'per_day' && ' per day'}
+            </label>
+            <input
+              id="earning-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={formData.amount}
+              onChange={(e) => handleInputChange('amount', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.amount && <p className="text-red-500 text-xs mt-1">{errors.amount}</p>}
+          </div>
+          {isOneOff ? (
+            <div>
+              <label htmlFor="earning-start" className="block text-sm font-medium text-gray-700 mb-1">Pay In Period Containing</label>
+              <input
+                id="earning-start"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => handleInputChange('start_date', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.start_date && <p className="text-red-500 text-xs mt-1">{errors.start_date}</p>}
+            </div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="earning-scope" className="block text-sm font-medium text-gray-700 mb-1">Applies To</label>
+                <select
+                  id="earning-scope"
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as AssignmentScope)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="recurring">Every period</option>
+                  <option value="period">{period.start} to {period.end} only</option>
+                </select>
+              </div>
+              {scope === 'recurring' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label htmlFor="earning-start" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                    <input
+                      id="earning-start"
+                      type="date"
+                      value={formData.start_date}
+                      onChange={(e) => handleInputChange('start_date', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {errors.start_date && <p className="text-red-500 text-xs mt-1">{errors.start_date}</p>}
+                  </div>
+                  <div>
+                    <label htmlFor="earning-end" className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                    <input
+                      id="earning-end"
+                      type="date"
+                      value={formData.end_date}
+                      onChange={(e) => handleInputChange('end_date', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {errors.end_date && <p className="text-red-500 text-xs mt-1">{errors.end_date}</p>}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+          <div>
+            <label htmlFor="earning-created-by" className="block text-sm font-medium text-gray-700 mb-1">Entered By</label>
+            <input
+              id="earning-created-by"
+              type="text"
+              value={formData.created_by}
+              onChange={(e) => handleInputChange('created_by', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+            >
+              Save Earning
+            </button>
+          </div>
+        </form>
+      )}
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">No allowances or bonuses assigned.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="px-2 py-1 text-left">Employee</th>
+              <th className="px-2 py-1 text-left">Earning</th>
+              <th className="px-2 py-1 text-left">Amount</th>
+              <th className="px-2 py-1 text-left">Dates</th>
+              <th className="px-2 py-1 text-left">This Period</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {shown.map(assignment => {
+              const type = earningType(assignment.earning_type_id);
+              return (
+                <tr key={assignment.id} className="hover:bg-gray-50">
+                  <td className="px-2 py-1 text-gray-900">{employeeName(assignment.employee_id)}</td>
+                  <td className="px-2 py-1 text-gray-900">
+                    {type?.name || 'Removed earning'}
+                    {type && !type.taxable && <span className="ml-2 text-xs text-green-700">Non-taxable</span>}
+                  </td>
+                  <td className="px-2 py-1">
+                    {formatCurrency(assignment.amount)}
+                    {type && <span className="ml-1 text-xs text-gray-500">{EARNING_CALCULATION_LABELS[type.calculation].toLowerCase()}</span>}
+                  </td>
+                  <td className="px-2 py-1 text-gray-500">
+                    {type?.calculation === 'one_off'
+                      ? assignment.start_date
+                      : `${assignment.start_date} to ${assignment.end_date || 'ongoing'}`}
+                  </td>
+                  <td className="px-2 py-1">
+                    {dueIds.has(assignment.id) ? <span className="text-green-600">Due</span> : <span className="text-gray-400">—</span>}
+                  </td>
+                  <td className="px-2 py-1 text-right space-x-2">
+                    {type?.calculation !== 'one_off' && !assignment.end_date && assignment.start_date <= period.end && (
+                      <button onClick={() => handleEnd(assignment)} className="text-amber-600 hover:text-amber-800 text-xs">
+                        End after period
+                      </button>
+                    )}
+                    <button onClick={() => handleDelete(assignment)} className="text-red-600 hover:text-red-800 text-xs">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
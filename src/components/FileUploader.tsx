@@ -1,17 +1,54 @@
 import React, { useRef, useState } from 'react';
-import { SlackMessage, Employee } from '../types';
+import {
+  SlackMessage,
+  Employee,
+  EmployeeFormData,
+  Holiday,
+  AttendanceReviewRecord,
+  PayrollRules,
+  LeaveRequest,
+  AttendanceSettings,
+  TardinessPolicy,
+  VocabularyEntry
+} from '../types';
 import { SlackTextParser } from './SlackTextParser/SlackTextParser';
+import { SlackExportImporter } from './SlackExportImporter';
 
 interface FileUploaderProps {
   onDataLoad: (messages: SlackMessage[]) => void;
   employees: Employee[];
+  holidays?: Holiday[];
+  attendanceSettings?: AttendanceSettings;
+  tardiness?: TardinessPolicy;
+  payrollRules?: PayrollRules;
+  vocabulary?: VocabularyEntry[];
+  onCreateEmployee?: (formData: EmployeeFormData) => Promise<{ success: boolean; error?: string }>;
+  onUpdateEmployee?: (id: string, formData: EmployeeFormData) => Promise<{ success: boolean; error?: string }>;
+  onAddAlias?: (employeeId: string, alias: string) => Promise<{ success: boolean; error?: string }>;
+  onRecordReviews?: (records: AttendanceReviewRecord[]) => Promise<{ success: boolean; error?: string }>;
+  reviewHistory?: AttendanceReviewRecord[];
+  leaveRequests?: LeaveRequest[];
 }
 
-export function FileUploader({ onDataLoad, employees }: FileUploaderProps) {
+export function FileUploader({
+  onDataLoad,
+  employees,
+  holidays = [],
+  attendanceSettings,
+  tardiness,
+  payrollRules,
+  vocabulary,
+  onCreateEmployee,
+  onUpdateEmployee,
+  onAddAlias,
+  onRecordReviews,
+  reviewHistory,
+  leaveRequests
+}: FileUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [uploadMode, setUploadMode] = useState<'file' | 'text' | 'slack'>('file');
+  const [uploadMode, setUploadMode] = useState<'file' | 'text' | 'slack' | 'export'>('file');
 
   const handleFileRead = (content: string) => {
     try {
@@ -154,6 +191,16 @@ export function FileUploader({ onDataLoad, employees }: FileUploaderProps) {
         >
           Import from Slack
         </button>
+        <button
+          onClick={() => setUploadMode('export')}
+          className={`px-4 py-2 rounded ${
+            uploadMode === 'export' 
+              ? 'bg-purple-600 text-white' 
+              : 'bg-gray-200 text-gray-700'
+          }`}
+        >
+          Slack Export (.zip)
+        </button>
         <button
           onClick={loadSampleData}
           className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
@@ -213,7 +260,26 @@ export function FileUploader({ onDataLoad, employees }: FileUploaderProps) {
       {uploadMode === 'slack' && (
         <SlackTextParser 
           employees={employees} 
+          holidays={holidays}
+          attendanceSettings={attendanceSettings}
+          tardiness={tardiness}
+          payrollRules={payrollRules}
+          vocabulary={vocabulary}
           onDataLoad={onDataLoad} 
+          onAddAlias={onAddAlias}
+          onRecordReviews={onRecordReviews}
+          reviewHistory={reviewHistory}
+          leaveRequests={leaveRequests}
+        />
+      )}
+
+      {uploadMode === 'export' && (
+        <SlackExportImporter
+          employees={employees}
+          attendanceSettings={attendanceSettings}
+          onDataLoad={onDataLoad}
+          onCreateEmployee={onCreateEmployee}
+          onUpdateEmployee={onUpdateEmployee}
         />
       )}
     </div>
@@ -0,0 +1,333 @@
+import React, { useState } from 'react';
+import {
+  Employee,
+  Holiday,
+  LeaveRequest,
+  LeaveRequestFormData,
+  LeaveRequestStatus,
+  LeaveSettings,
+  LeaveType,
+  PayrollRules
+} from '../types';
+import { UseLeaveActions, UseLeaveState } from '../hooks/useLeave';
+import {
+  calculateLeaveBalances,
+  LEAVE_STATUS_LABELS,
+  LEAVE_TYPE_LABELS,
+  validateLeaveApproval,
+  validateLeaveRequest
+} from '../utils/leave';
+import { getZonedDateString } from '../utils/timezone';
+
+interface LeavePanelProps {
+  employees: Employee[];
+  leaveSettings: LeaveSettings;
+  holidays: Holiday[];
+  payrollRules: PayrollRules;
+  timezone: string;
+  leave: UseLeaveState & UseLeaveActions;
+}
+
+const STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700'
+};
+
+const emptyForm = (date: string): LeaveRequestFormData => ({
+  employee_id: '',
+  leave_type: 'vacation',
+  start_date: date,
+  end_date: date,
+  reason: '',
+  approval_code: ''
+});
+
+export function LeavePanel({ employees, leaveSettings, holidays, payrollRules, timezone, leave }: LeavePanelProps) {
+  const today = getZonedDateString(new Date(), timezone);
+  const [formData, setFormData] = useState<LeaveRequestFormData>(emptyForm(today));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [approver, setApprover] = useState('');
+  const [decisionErrors, setDecisionErrors] = useState<Record<string, string>>({});
+
+  const activeEmployees = employees.filter(employee => employee.status === 'active');
+  const employeeName = (id: string) => employees.find(employee => employee.id === id)?.name || id;
+
+  const handleInputChange = (field: keyof LeaveRequestFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleOpenForm = () => {
+    setFormData(emptyForm(today));
+    setErrors({});
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateLeaveRequest(formData, payrollRules, holidays);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await leave.createRequest(formData, payrollRules, holidays);
+    if (result.success) {
+      setIsFormOpen(false);
+    }
+  };
+
+  // Paid leave is only approved while the balance covers it; approving takes the days off the balance
+  const handleApprove = async (request: LeaveRequest) => {
+    const employee = employees.find(other => other.id === request.employee_id);
+    const error = employee
+      ? validateLeaveApproval(request, employee, leave.requests, leaveSettings, approver, payrollRules, holidays)
+      : 'Employee not found';
+    setDecisionErrors(prev => ({ ...prev, [request.id]: error || '' }));
+    if (error) return;
+
+    await leave.approveRequest(request.id, approver);
+  };
+
+  const handleReject = async (request: LeaveRequest) => {
+    if (!approver.trim()) {
+      setDecisionErrors(prev => ({ ...prev, [request.id]: 'Approver is required' }));
+      return;
+    }
+    setDecisionErrors(prev => ({ ...prev, [request.id]: '' }));
+    await leave.rejectRequest(request.id, approver);
+  };
+
+  const handleDelete = async (request: LeaveRequest) => {
+    const message = request.status === 'approved'
+      ? 'Delete this approved leave? The days go back to the balance and payroll.'
+      : 'Delete this leave request?';
+    if (window.confirm(message)) {
+      await leave.deleteRequest(request.id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Leave</h2>
+        {!isFormOpen && (
+          <button
+            onClick={handleOpenForm}
+            className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
+          >
+            Request Leave
+          </button>
+        )}
+      </div>
+
+      {leave.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3 mb-4 flex justify-between">
+          <span>{leave.error}</span>
+          <button onClick={leave.clearError} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-md">
+          <div>
+            <label htmlFor="leave-employee" className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+            <select
+              id="leave-employee"
+              value={formData.employee_id}
+              onChange={(e) => handleInputChange('employee_id', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose an employee…</option>
+              {activeEmployees.map(employee => (
+                <option key={employee.id} value={employee.id}>{employee.name}</option>
+              ))}
+            </select>
+            {errors.employee_id && <p className="text-red-500 text-xs mt-1">{errors.employee_id}</p>}
+          </div>
+          <div>
+            <label htmlFor="leave-type" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              id="leave-type"
+              value={formData.leave_type}
+              onChange={(e) => handleInputChange('leave_type', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(type => (
+                <option key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            {errors.leave_type && <p className="text-red-500 text-xs mt-1">{errors.leave_type}</p>}
+          </div>
+          <div>
+            <label htmlFor="leave-approval-code" className="block text-sm font-medium text-gray-700 mb-1">Approval Code</label>
+            <input
+              id="leave-approval-code"
+              type="text"
+              value={formData.approval_code}
+              onChange={(e) => handleInputChange('approval_code', e.target.value)}
+              placeholder="e.g. JSP Approved"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.approval_code && <p className="text-red-500 text-xs mt-1">{errors.approval_code}</p>}
+          </div>
+          <div>
+            <label htmlFor="leave-start" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="leave-start"
+              type="date"
+              value={formData.start_date}
+              onChange={(e) => handleInputChange('start_date', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.start_date && <p className="text-red-500 text-xs mt-1">{errors.start_date}</p>}
+          </div>
+          <div>
+            <label htmlFor="leave-end" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="leave-end"
+              type="date"
+              value={formData.end_date}
+              onChange={(e) => handleInputChange('end_date', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.end_date && <p className="text-red-500 text-xs mt-1">{errors.end_date}</p>}
+          </div>
+          <div>
+            <label htmlFor="leave-reason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input
+              id="leave-reason"
+              type="text"
+              value={formData.reason}
+              onChange={(e) => handleInputChange('reason', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.reason && <p className="text-red-500 text-xs mt-1">{errors.reason}</p>}
+          </div>
+          <div className="md:col-span-3 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+            >
+              Submit Request
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex items-center gap-2 mb-3 text-sm">
+        <label htmlFor="leave-approver" className="font-medium text-gray-700">Approver</label>
+        <input
+          id="leave-approver"
+          type="text"
+          value={approver}
+          onChange={(e) => setApprover(e.target.value)}
+          placeholder="Your name"
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {leave.requests.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">No leave requests yet.</p>
+      ) : (
+        <table className="min-w-full text-sm mb-6">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="px-2 py-1 text-left">Employee</th>
+              <th className="px-2 py-1 text-left">Type</th>
+              <th className="px-2 py-1 text-left">Dates</th>
+              <th className="px-2 py-1 text-left">Days</th>
+              <th className="px-2 py-1 text-left">Status</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {leave.requests.map(request => (
+              <tr key={request.id}>
+                <td className="px-2 py-1 text-gray-900">
+                  {employeeName(request.employee_id)}
+                  {request.reason && <div className="text-xs text-gray-500">{request.reason}</div>}
+                </td>
+                <td className="px-2 py-1 text-gray-900">{LEAVE_TYPE_LABELS[request.leave_type]}</td>
+                <td className="px-2 py-1 text-gray-500">
+                  {request.start_date === request.end_date ? request.start_date : `${request.start_date} – ${request.end_date}`}
+                </td>
+                <td className="px-2 py-1 text-gray-900">{request.days}</td>
+                <td className="px-2 py-1">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[request.status]}`}>
+                    {LEAVE_STATUS_LABELS[request.status]}
+                  </span>
+                  {request.approver && <div className="text-xs text-gray-500">by {request.approver}</div>}
+                  {request.approval_code && <div className="text-xs text-gray-500">{request.approval_code}</div>}
+                </td>
+                <td className="px-2 py-1 text-right space-x-2 whitespace-nowrap">
+                  {request.status === 'pending' && (
+                    <>
+                      <button onClick={() => handleApprove(request)} className="text-green-600 hover:text-green-800 text-xs">
+                        Approve
+                      </button>
+                      <button onClick={() => handleReject(request)} className="text-gray-600 hover:text-gray-800 text-xs">
+                        Reject
+                      </button>
+                    </>
+                  )}
+                  <button onClick={() => handleDelete(request)} className="text-red-600 hover:text-red-800 text-xs">
+                    Delete
+                  </button>
+                  {decisionErrors[request.id] && <p className="text-red-500 text-xs mt-1">{decisionErrors[request.id]}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h3 className="font-medium text-gray-900 mb-2">Balances as of {today}</h3>
+      {activeEmployees.length === 0 ? (
+        <p className="text-sm text-gray-500">No active employees.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="px-2 py-1 text-left">Employee</th>
+              {leaveSettings.accrual_rules.map(rule => (
+                <th key={rule.leave_type} className="px-2 py-1 text-left">{LEAVE_TYPE_LABELS[rule.leave_type]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {activeEmployees.map(employee => {
+              const balances = calculateLeaveBalances(employee, leave.requests, leaveSettings, today, payrollRules, holidays);
+              return (
+                <tr key={employee.id}>
+                  <td className="px-2 py-1 text-gray-900">{employee.name}</td>
+                  {leaveSettings.accrual_rules.map(rule => {
+                    const balance = balances.find(entry => entry.leave_type === rule.leave_type)!;
+                    return (
+                      <td key={rule.leave_type} className={`px-2 py-1 ${balance.available < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {balance.available}
+                        {balance.pending > 0 && <span className="ml-1 text-xs text-yellow-700">({balance.pending} pending)</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,489 @@
+import React, { useEffect, useState } from 'react';
+import {
+  EarningAssignment,
+  EarningType,
+  Employee,
+  Holiday,
+  LeaveRequest,
+  LeaveSettings,
+  PayrollAdjustment,
+  PayrollRules,
+  PayrollRun,
+  PayrollRunStatus,
+  PaySchedule,
+  RecurringDeduction,
+  TardinessPolicy
+} from '../types';
+import { UsePayrollRunsActions, UsePayrollRunsState } from '../hooks/usePayrollRuns';
+import { UsePayrollActions } from '../hooks/usePayroll';
+import { PayrollTable } from './PayrollTable';
+import { isRegularRun, PAYROLL_RUN_KIND_LABELS, PAYROLL_RUN_STATUS_LABELS } from '../utils/payrollRuns';
+import { getOutstandingAdjustments } from '../utils/payrollAdjustments';
+import { buildFinalPayLines, getFinalPayPeriod, getUnusedLeaveDays, validateFinalPayOptions } from '../utils/finalPay';
+import { getScheduledDeductions } from '../utils/recurringDeductions';
+import { getScheduledLeave } from '../utils/leave';
+import { getScheduledEarnings } from '../utils/earnings';
+
+interface OffCyclePayrollPanelProps {
+  employees: Employee[];
+  holidays: Holiday[];
+  adjustments: PayrollAdjustment[];
+  recurringDeductions: RecurringDeduction[];
+  earningTypes: EarningType[];
+  earningAssignments: EarningAssignment[];
+  leaveRequests: LeaveRequest[];
+  leaveSettings: LeaveSettings;
+  netPayFloor: number;
+  paySchedule: PaySchedule;
+  payrollRules: PayrollRules;
+  tardiness: TardinessPolicy;
+  payrollRuns: UsePayrollRunsState & UsePayrollRunsActions;
+  calculatePayrollFor: UsePayrollActions['calculatePayrollFor'];
+  finalPayEmployee: Employee | null; // Set when an employee is deactivated, opens the final pay form for them
+  onFinalPayClosed: () => void;
+  onRunApproved?: (run: PayrollRun) => Promise<unknown>;
+  checkApproval?: (run: PayrollRun) => string | null; // Why the run cannot be approved as calculated
+  onExportCSV: (run: PayrollRun) => void;
+}
+
+interface OffCycleFormData {
+  label: string;
+  start: string;
+  end: string;
+  employee_ids: string[];
+  include_adjustments: boolean;
+}
+
+interface FinalPayFormData {
+  employee_id: string;
+  separation_date: string;
+  unused_leave_days: string;
+}
+
+const STATUS_STYLES: Record<PayrollRunStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  approved: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700'
+};
+
+const emptyOffCycleForm: OffCycleFormData = {
+  label: '',
+  start: '',
+  end: '',
+  employee_ids: [],
+  include_adjustments: true
+};
+
+export function OffCyclePayrollPanel({
+  employees,
+  holidays,
+  adjustments,
+  recurringDeductions,
+  earningTypes,
+  earningAssignments,
+  leaveRequests,
+  leaveSettings,
+  netPayFloor,
+  paySchedule,
+  payrollRules,
+  tardiness,
+  payrollRuns,
+  calculatePayrollFor,
+  finalPayEmployee,
+  onFinalPayClosed,
+  onRunApproved,
+  checkApproval,
+  onExportCSV
+}: OffCyclePayrollPanelProps) {
+  const [openForm, setOpenForm] = useState<'off_cycle' | 'final_pay' | null>(null);
+  const [offCycleForm, setOffCycleForm] = useState<OffCycleFormData>(emptyOffCycleForm);
+  const [finalPayForm, setFinalPayForm] = useState<FinalPayFormData>({ employee_id: '', separation_date: '', unused_leave_days: '0' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [viewedRunId, setViewedRunId] = useState<string | null>(null);
+
+  const offCycleRuns = payrollRuns.runs.filter(run => !isRegularRun(run));
+  const viewedRun = offCycleRuns.find(run => run.id === viewedRunId);
+
+  // The deactivated employee may be newer than the list the payroll page loaded
+  const findEmployee = (id: string) => (finalPayEmployee?.id === id ? finalPayEmployee : employees.find(employee => employee.id === id));
+
+  // Unused leave defaults to the employee's paid leave balance on the last working day
+  const getDefaultLeaveDays = (employeeId: string, separationDate: string) => {
+    const employee = findEmployee(employeeId);
+    if (!employee || !/^\d{4}-\d{2}-\d{2}$/.test(separationDate)) return '0';
+    return String(getUnusedLeaveDays(employee, leaveRequests, leaveSettings, separationDate, payrollRules, holidays));
+  };
+
+  // Deactivating an employee opens their final pay form, prefilled with the last working day
+  useEffect(() => {
+    if (!finalPayEmployee) return;
+    const separationDate = finalPayEmployee.separation_date || '';
+    setFinalPayForm({
+      employee_id: finalPayEmployee.id,
+      separation_date: separationDate,
+      unused_leave_days: getDefaultLeaveDays(finalPayEmployee.id, separationDate)
+    });
+    setErrors({});
+    setOpenForm('final_pay');
+  }, [finalPayEmployee]);
+
+  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+  const totalNetPay = (run: PayrollRun) => run.summaries.reduce((sum, summary) => sum + summary.net_pay, 0);
+  const getEarningsFor = (employeeIds: string[], period: { start: string; end: string }) =>
+    getScheduledEarnings(earningTypes, earningAssignments, period).filter(earning => employeeIds.includes(earning.employee_id));
+
+  const handleCloseForm = () => {
+    setOpenForm(null);
+    setErrors({});
+    if (finalPayEmployee) {
+      onFinalPayClosed();
+    }
+  };
+
+  const toggleEmployee = (id: string) => {
+    setOffCycleForm(prev => ({
+      ...prev,
+      employee_ids: prev.employee_ids.includes(id)
+        ? prev.employee_ids.filter(existing => existing !== id)
+        : [...prev.employee_ids, id]
+    }));
+  };
+
+  const handleCreateOffCycle = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formErrors: Record<string, string> = {};
+    if (!offCycleForm.label.trim()) formErrors.label = 'Label is required';
+    if (!offCycleForm.start || !offCycleForm.end) formErrors.dates = 'Start and end dates are required';
+    else if (offCycleForm.start > offCycleForm.end) formErrors.dates = 'Start date must be on or before the end date';
+    if (offCycleForm.employee_ids.length === 0) formErrors.employee_ids = 'Select at least one employee';
+    if (Object.keys(formErrors).length > 0) {
+      setErrors(formErrors);
+      return;
+    }
+
+    setIsCalculating(true);
+    try {
+      const selected = employees.filter(employee => offCycleForm.employee_ids.includes(employee.id));
+      const period = { start: offCycleForm.start, end: offCycleForm.end };
+      const { summaries, inputs } = await calculatePayrollFor(selected, period, {
+        holidays,
+        leave: getScheduledLeave(leaveRequests, period, payrollRules, holidays),
+        earnings: getEarningsFor(offCycleForm.employee_ids, period),
+        tardiness,
+        adjustments: offCycleForm.include_adjustments ? getOutstandingAdjustments(adjustments, offCycleForm.employee_ids) : []
+      });
+
+      const result = await payrollRuns.createRun(period, summaries, inputs, {
+        kind: 'off_cycle',
+        label: offCycleForm.label,
+        employee_ids: offCycleForm.employee_ids
+      });
+      if (result.success && result.run) {
+        setOffCycleForm(emptyOffCycleForm);
+        setOpenForm(null);
+        setViewedRunId(result.run.id);
+      }
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  // Prorated pay since the last locked regular run, plus every outstanding ledger entry, unused
+  // leave conversion and the prorated 13th month, less loan and cash advance balances as far as
+  // the net pay floor allows. The template lines live only in the run.
+  const handleCreateFinalPay = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const employee = findEmployee(finalPayForm.employee_id);
+    const options = {
+      separation_date: finalPayForm.separation_date,
+      unused_leave_days: parseFloat(finalPayForm.unused_leave_days || '0')
+    };
+    const formErrors: Record<string, string> = employee ? validateFinalPayOptions(options) : { employee_id: 'Employee is required' };
+    if (!employee || Object.keys(formErrors).length > 0) {
+      setErrors(formErrors);
+      return;
+    }
+
+    setIsCalculating(true);
+    try {
+      const period = getFinalPayPeriod(employee, options.separation_date, payrollRuns.runs, paySchedule);
+      const outstanding = getOutstandingAdjustments(adjustments, [employee.id]);
+      const balances = getScheduledDeductions(
+        recurringDeductions.filter(deduction => deduction.employee_id === employee.id),
+        period,
+        undefined,
+        true
+      );
+      const leave = getScheduledLeave(leaveRequests, period, payrollRules, holidays);
+      const earnings = getEarningsFor([employee.id], period);
+      const prorated = await calculatePayrollFor([employee], period, { holidays, leave, earnings, adjustments: outstanding, tardiness });
+      const lines = buildFinalPayLines(employee, prorated.summaries[0], payrollRuns.runs, options, payrollRules);
+      const { summaries, inputs } = await calculatePayrollFor([employee], period, {
+        holidays,
+        leave,
+        earnings,
+        adjustments: [...outstanding, ...lines],
+        recurringDeductions: balances,
+        netPayFloor,
+        tardiness
+      });
+
+      const result = await payrollRuns.createRun(period, summaries, inputs, {
+        kind: 'final_pay',
+        label: `Final pay: ${employee.name}`,
+        employee_ids: [employee.id]
+      });
+      if (result.success && result.run) {
+        setViewedRunId(result.run.id);
+        handleCloseForm();
+      }
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const handleApprove = async (run: PayrollRun) => {
+    if (window.confirm(`Approve "${run.label || PAYROLL_RUN_KIND_LABELS[run.kind || 'off_cycle']}"? Its results will be locked.`)) {
+      const result = await payrollRuns.approveRun(run.id, undefined, checkApproval);
+      setErrors(result.success ? {} : { approve: result.error || 'Failed to approve payroll run' });
+      if (result.success && result.run) {
+        await onRunApproved?.(result.run);
+      }
+    }
+  };
+
+  const handleMarkPaid = async (run: PayrollRun) => {
+    if (window.confirm(`Mark "${run.label || PAYROLL_RUN_KIND_LABELS[run.kind || 'off_cycle']}" as paid?`)) {
+      await payrollRuns.markRunPaid(run.id);
+    }
+  };
+
+  const handleDelete = async (run: PayrollRun) => {
+    if (window.confirm(`Discard the draft "${run.label || PAYROLL_RUN_KIND_LABELS[run.kind || 'off_cycle']}"?`)) {
+      const result = await payrollRuns.deleteRun(run.id);
+      if (result.success && viewedRunId === run.id) {
+        setViewedRunId(null);
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Off-Cycle & Final Pay</h2>
+        {openForm === null && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setErrors({}); setOpenForm('off_cycle'); }}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+            >
+              New Off-Cycle Run
+            </button>
+            <button
+              onClick={() => { setErrors({}); setOpenForm('final_pay'); }}
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+            >
+              Final Pay
+            </button>
+          </div>
+        )}
+      </div>
+
+      {openForm === 'off_cycle' && (
+        <form onSubmit={handleCreateOffCycle} className="border border-gray-200 rounded-md p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+              <input
+                type="text"
+                value={offCycleForm.label}
+                onChange={(e) => setOffCycleForm(prev => ({ ...prev, label: e.target.value }))}
+                placeholder="e.g. Missed hours correction"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.label && <p className="text-red-600 text-xs mt-1">{errors.label}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+              <input
+                type="date"
+                value={offCycleForm.start}
+                onChange={(e) => setOffCycleForm(prev => ({ ...prev, start: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End</label>
+              <input
+                type="date"
+                value={offCycleForm.end}
+                onChange={(e) => setOffCycleForm(prev => ({ ...prev, end: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          {errors.dates && <p className="text-red-600 text-xs">{errors.dates}</p>}
+          <p className="text-xs text-gray-500">
+            Attendance in these dates is paid again if a regular run already covers them.
+          </p>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Employees</span>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-1 text-sm">
+              {employees.map(employee => (
+                <label key={employee.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={offCycleForm.employee_ids.includes(employee.id)}
+                    onChange={() => toggleEmployee(employee.id)}
+                  />
+                  <span className={employee.status === 'inactive' ? 'text-gray-400' : ''}>{employee.name}</span>
+                </label>
+              ))}
+            </div>
+            {errors.employee_ids && <p className="text-red-600 text-xs mt-1">{errors.employee_ids}</p>}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={offCycleForm.include_adjustments}
+              onChange={(e) => setOffCycleForm(prev => ({ ...prev, include_adjustments: e.target.checked }))}
+            />
+            Settle every pending adjustment for these employees
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={handleCloseForm} className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCalculating}
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              {isCalculating ? 'Calculating...' : 'Create Draft Run'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {openForm === 'final_pay' && (
+        <form onSubmit={handleCreateFinalPay} className="border border-gray-200 rounded-md p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+              <select
+                value={finalPayForm.employee_id}
+                onChange={(e) => setFinalPayForm(prev => ({
+                  ...prev,
+                  employee_id: e.target.value,
+                  unused_leave_days: getDefaultLeaveDays(e.target.value, prev.separation_date)
+                }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select employee</option>
+                {finalPayEmployee && !employees.some(employee => employee.id === finalPayEmployee.id) && (
+                  <option value={finalPayEmployee.id}>{finalPayEmployee.name}</option>
+                )}
+                {employees.map(employee => (
+                  <option key={employee.id} value={employee.id}>{employee.name}</option>
+                ))}
+              </select>
+              {errors.employee_id && <p className="text-red-600 text-xs mt-1">{errors.employee_id}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Last Working Day</label>
+              <input
+                type="date"
+                value={finalPayForm.separation_date}
+                onChange={(e) => setFinalPayForm(prev => ({
+                  ...prev,
+                  separation_date: e.target.value,
+                  unused_leave_days: getDefaultLeaveDays(prev.employee_id, e.target.value)
+                }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.separation_date && <p className="text-red-600 text-xs mt-1">{errors.separation_date}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Unused Leave (days)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={finalPayForm.unused_leave_days}
+                onChange={(e) => setFinalPayForm(prev => ({ ...prev, unused_leave_days: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.unused_leave_days
+                ? <p className="text-red-600 text-xs mt-1">{errors.unused_leave_days}</p>
+                : <p className="text-gray-500 text-xs mt-1">From the leave balance on the last working day; edit to override</p>}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Pays the days since the last locked regular run, every pending adjustment, unused leave at the daily
+            rate and the prorated 13th month pay for the year, less outstanding loan and cash advance balances.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={handleCloseForm} className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCalculating}
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              {isCalculating ? 'Calculating...' : 'Create Final Pay Draft'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {errors.approve && <p className="text-red-600 text-sm mb-2">{errors.approve}</p>}
+
+      {offCycleRuns.length === 0 ? (
+        <p className="text-sm text-gray-600">No off-cycle or final pay runs yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {offCycleRuns.map(run => (
+            <li key={run.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+              <button
+                onClick={() => setViewedRunId(viewedRunId === run.id ? null : run.id)}
+                className="text-left text-blue-600 hover:text-blue-800"
+              >
+                {run.label || PAYROLL_RUN_KIND_LABELS[run.kind || 'off_cycle']}
+                <span className="text-gray-500"> · {run.start} to {run.end}</span>
+              </button>
+              <span className="flex items-center gap-3">
+                <span className="text-gray-600">{formatCurrency(totalNetPay(run))}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+                  {PAYROLL_RUN_STATUS_LABELS[run.status]}
+                </span>
+                {run.status === 'draft' && (
+                  <>
+                    <button onClick={() => handleApprove(run)} className="text-blue-600 hover:text-blue-800">Approve</button>
+                    <button onClick={() => handleDelete(run)} className="text-red-600 hover:text-red-800">Discard</button>
+                  </>
+                )}
+                {run.status === 'approved' && (
+                  <button onClick={() => handleMarkPaid(run)} className="text-green-600 hover:text-green-800">Mark Paid</button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {viewedRun && (
+        <div className="mt-4">
+          <PayrollTable payrollSummaries={viewedRun.summaries} onExportCSV={() => onExportCSV(viewedRun)} />
+        </div>
+      )}
+    </div>
+  );
+}
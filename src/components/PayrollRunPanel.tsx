@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { PayPeriodRange, PayrollRun, PayrollRunInputs, PayrollRunStatus, PayrollSummary } from '../types';
+import { UsePayrollRunsActions, UsePayrollRunsState } from '../hooks/usePayrollRuns';
+import { diffPayrollRun, findRunForPeriod, isRegularRun, PAYROLL_RUN_STATUS_LABELS } from '../utils/payrollRuns';
+
+interface PayrollRunPanelProps {
+  period: PayPeriodRange;
+  liveSummaries: PayrollSummary[];
+  runInputs: PayrollRunInputs | null;
+  payrollRuns: UsePayrollRunsState & UsePayrollRunsActions;
+  onSelectPeriod: (start: string, end: string) => void;
+  onRunApproved?: (run: PayrollRun) => Promise<unknown>;
+  checkApproval?: (run: PayrollRun) => string | null; // Why the run cannot be approved as calculated
+}
+
+const STATUS_STYLES: Record<PayrollRunStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  approved: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700'
+};
+
+const RECENT_RUN_COUNT = 6;
+
+export function PayrollRunPanel({
+  period,
+  liveSummaries,
+  runInputs,
+  payrollRuns,
+  onSelectPeriod,
+  onRunApproved,
+  checkApproval
+}: PayrollRunPanelProps) {
+  const [approvedBy, setApprovedBy] = useState('');
+  const run = findRunForPeriod(payrollRuns.runs, period);
+  const drift = run ? diffPayrollRun(run, liveSummaries) : [];
+  const canFreeze = liveSummaries.length > 0 && runInputs !== null;
+  const regularRuns = payrollRuns.runs.filter(isRegularRun);
+
+  const formatCurrency = (amount?: number) => (amount === undefined ? '—' : `$${amount.toFixed(2)}`);
+  const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+  const totalNetPay = (target: PayrollRun) => target.summaries.reduce((sum, summary) => sum + summary.net_pay, 0);
+
+  const handleCreate = async () => {
+    if (!runInputs) return;
+    await payrollRuns.createRun(period, liveSummaries, runInputs);
+  };
+
+  const handleRecalculate = async () => {
+    if (!run || !runInputs) return;
+    await payrollRuns.recalculateRun(run.id, liveSummaries, runInputs);
+  };
+
+  const handleApprove = async () => {
+    if (!run) return;
+    if (window.confirm(`Approve payroll for ${run.start} to ${run.end}? Its results will be locked.`)) {
+      const result = await payrollRuns.approveRun(run.id, approvedBy, checkApproval);
+      if (result.success && result.run) {
+        setApprovedBy('');
+        await onRunApproved?.(result.run);
+      }
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (!run) return;
+    if (window.confirm(`Mark payroll for ${run.start} to ${run.end} as paid?`)) {
+      await payrollRuns.markRunPaid(run.id);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!run) return;
+    if (window.confirm(`Discard the draft payroll run for ${run.start} to ${run.end}?`)) {
+      await payrollRuns.deleteRun(run.id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Payroll Run</h2>
+        {run && (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+            {PAYROLL_RUN_STATUS_LABELS[run.status]}
+          </span>
+        )}
+      </div>
+
+      {payrollRuns.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3 mb-4 flex justify-between">
+          <span>{payrollRuns.error}</span>
+          <button onClick={payrollRuns.clearError} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      {!run ? (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            No run for {period.start} to {period.end}. Results below are calculated live.
+          </p>
+          <button
+            onClick={handleCreate}
+            disabled={!canFreeze}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Draft Run
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-600">
+            Calculated {formatTimestamp(run.calculated_at)} · {run.summaries.length} employees · Net pay {formatCurrency(totalNetPay(run))}
+            {run.approved_at && (
+              <div className="text-xs text-gray-500 mt-1">
+                Approved {formatTimestamp(run.approved_at)}{run.approved_by && ` by ${run.approved_by}`}
+                {run.paid_at && ` · Paid ${formatTimestamp(run.paid_at)}`}
+              </div>
+            )}
+          </div>
+
+          {drift.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm">
+              <p className="text-yellow-800 font-medium">
+                {run.status === 'draft'
+                  ? 'Attendance, rates or rules changed since this draft was calculated.'
+                  : 'Attendance, rates or rules changed after this run was locked. The locked results are shown below.'}
+              </p>
+              <ul className="mt-2 text-yellow-700 space-y-1">
+                {drift.map(item => (
+                  <li key={item.employee_id}>
+                    {item.employee_name}: {formatCurrency(item.frozen_net_pay)} in run, {formatCurrency(item.live_net_pay)} live
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            {run.status === 'draft' && (
+              <>
+                <button
+                  onClick={handleRecalculate}
+                  disabled={!canFreeze || drift.length === 0}
+                  className="px-3 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Recalculate
+                </button>
+                <input
+                  type="text"
+                  aria-label="Approved by"
+                  value={approvedBy}
+                  onChange={(e) => setApprovedBy(e.target.value)}
+                  placeholder="Approved by"
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleApprove}
+                  className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-2 text-red-600 hover:text-red-800 text-sm"
+                >
+                  Discard Draft
+                </button>
+              </>
+            )}
+            {run.status === 'approved' && (
+              <button
+                onClick={handleMarkPaid}
+                className="px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700 text-sm"
+              >
+                Mark Paid
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {regularRuns.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Recent Runs</h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {regularRuns.slice(0, RECENT_RUN_COUNT).map(recent => (
+              <li key={recent.id} className="flex items-center justify-between py-2">
+                <button
+                  onClick={() => onSelectPeriod(recent.start, recent.end)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  {recent.start} to {recent.end}
+                </button>
+                <span className="flex items-center gap-3">
+                  <span className="text-gray-600">{formatCurrency(totalNetPay(recent))}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[recent.status]}`}>
+                    {PAYROLL_RUN_STATUS_LABELS[recent.status]}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
+import { Fragment, useState } from 'react';
 import { PayrollSummary } from '../types';
+import { formatCompensation, getCompensationRate, getCompensationType } from '../utils/compensation';
 
 interface PayrollTableProps {
   payrollSummaries: PayrollSummary[];
@@ -6,13 +8,27 @@ interface PayrollTableProps {
 }
 
 export function PayrollTable({ payrollSummaries, onExportCSV }: PayrollTableProps) {
+  const [expandedEmployeeId, setExpandedEmployeeId] = useState<string | null>(null);
   const totalGrossPay = payrollSummaries.reduce((sum, summary) => sum + summary.gross_pay, 0);
   const totalNetPay = payrollSummaries.reduce((sum, summary) => sum + summary.net_pay, 0);
-  const totalDeductions = payrollSummaries.reduce((sum, summary) => sum + summary.late_deductions + summary.offline_deductions, 0);
+  const totalDeductions = payrollSummaries.reduce(
+    (sum, summary) =>
+      sum + summary.late_deductions + (summary.undertime_deductions || 0) + summary.offline_deductions + (summary.statutory_deductions || 0) + (summary.recurring_deductions_total || 0),
+    0
+  );
   const totalHours = payrollSummaries.reduce((sum, summary) => sum + summary.total_hours, 0);
 
   const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
   const formatHours = (hours: number) => `${hours.toFixed(2)}h`;
+  const hasRateChange = (summary: PayrollSummary) => {
+    const days = summary.daily_breakdown || [];
+    if (days.length === 0) return false;
+    return (summary.employee.rate_history || []).some(change =>
+      change.effective_from > days[0].date && change.effective_from <= days[days.length - 1].date
+    );
+  };
+  const getAnomalyCount = (summary: PayrollSummary) =>
+    (summary.daily_breakdown || []).reduce((sum, day) => sum + (day.anomalies || []).length, 0);
 
   if (payrollSummaries.length === 0) {
     return (
@@ -101,7 +117,7 @@ export function PayrollTable({ payrollSummaries, onExportCSV }: PayrollTableProp
               </svg>
             </div>
           </div>
-          <div className="text-xs text-red-500 mt-1">Late + offline</div>
+          <div className="text-xs text-red-500 mt-1">Late + offline + statutory</div>
         </div>
         <div className="bg-green-50 p-4 rounded-lg border border-green-200">
           <div className="flex items-center justify-between">
@@ -145,6 +161,9 @@ export function PayrollTable({ payrollSummaries, onExportCSV }: PayrollTableProp
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Deductions
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Statutory
+              </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Net Pay
               </th>
@@ -155,13 +174,25 @@ export function PayrollTable({ payrollSummaries, onExportCSV }: PayrollTableProp
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {payrollSummaries.map((summary) => (
-              <tr key={summary.employee.id} className="hover:bg-gray-50">
+              <Fragment key={summary.employee.id}>
+              <tr
+                className="hover:bg-gray-50 cursor-pointer"
+                onClick={() => setExpandedEmployeeId(expandedEmployeeId === summary.employee.id ? null : summary.employee.id)}
+              >
                 <td className="px-4 py-4 whitespace-nowrap">
                   <div className="text-sm font-medium text-gray-900">{summary.employee.name}</div>
                   <div className="text-sm text-gray-500">{summary.employee.email}</div>
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                   {formatHours(summary.total_hours)}
+                  {(summary.break_minutes || 0) > 0 && (
+                    <div className="text-xs text-gray-500">less {summary.break_minutes} min breaks</div>
+                  )}
+                  {(summary.overlong_breaks || 0) > 0 && (
+                    <div className="text-xs text-amber-600">
+                      {summary.overlong_breaks} overlong {summary.overlong_breaks === 1 ? 'break' : 'breaks'} (+{summary.overlong_break_minutes} min)
+                    </div>
+                  )}
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                   {formatHours(summary.regular_hours)}
@@ -174,22 +205,81 @@ export function PayrollTable({ payrollSummaries, onExportCSV }: PayrollTableProp
                   )}
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                  {formatCurrency(summary.employee.hourly_rate)}
+                  {formatCompensation(getCompensationType(summary.employee), getCompensationRate(summary.employee))}
+                  {hasRateChange(summary) && (
+                    <div className="text-xs text-blue-600">rate changed in period</div>
+                  )}
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                   {formatCurrency(summary.gross_pay)}
+                  {(summary.holiday_pay || 0) > 0 && (
+                    <div className="text-xs font-normal text-purple-600">
+                      incl. {formatCurrency(summary.holiday_pay)} holiday
+                    </div>
+                  )}
+                  {(summary.rest_day_pay || 0) > 0 && (
+                    <div className="text-xs font-normal text-purple-600">
+                      incl. {formatCurrency(summary.rest_day_pay)} rest day
+                    </div>
+                  )}
+                  {(summary.night_differential_pay || 0) > 0 && (
+                    <div className="text-xs font-normal text-indigo-600">
+                      incl. {formatCurrency(summary.night_differential_pay)} night diff
+                    </div>
+                  )}
+                  {(summary.earnings || []).filter(line => line.amount > 0).map(line => (
+                    <div key={line.assignment_id} className="text-xs font-normal text-green-600">
+                      incl. {formatCurrency(line.amount)} {line.name}
+                      {line.calculation === 'per_day' && ` (${line.quantity} × ${formatCurrency(line.rate)})`}
+                      {!line.taxable && <span className="text-gray-500"> · non-taxable</span>}
+                    </div>
+                  ))}
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                  {summary.late_deductions + summary.offline_deductions > 0 ? (
+                  {summary.late_deductions + (summary.undertime_deductions || 0) + summary.offline_deductions > 0 ? (
                     <span className="text-red-600">
-                      {formatCurrency(summary.late_deductions + summary.offline_deductions)}
+                      {formatCurrency(summary.late_deductions + (summary.undertime_deductions || 0) + summary.offline_deductions)}
                     </span>
                   ) : (
                     formatCurrency(0)
                   )}
+                  {(summary.late_minutes || 0) > 0 && (
+                    <div className="text-xs text-gray-500">{summary.late_minutes} min late</div>
+                  )}
+                  {(summary.undertime_minutes || 0) > 0 && (
+                    <div className="text-xs text-gray-500">
+                      {summary.undertime_minutes} min undertime{summary.undertime_deductions ? ` · ${formatCurrency(summary.undertime_deductions)}` : ''}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                  <div className="text-red-600">{formatCurrency(summary.statutory_deductions || 0)}</div>
+                  <div className="text-xs text-gray-500">
+                    SSS {formatCurrency(summary.sss_employee || 0)} · PhilHealth {formatCurrency(summary.philhealth_employee || 0)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Pag-IBIG {formatCurrency(summary.pagibig_employee || 0)} · Tax {formatCurrency(summary.withholding_tax || 0)}
+                  </div>
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-green-600">
                   {formatCurrency(summary.net_pay)}
+                  {(summary.adjustments || []).map(adjustment => (
+                    <div
+                      key={adjustment.id}
+                      className={`text-xs font-normal ${adjustment.type === 'earning' ? 'text-green-600' : 'text-red-600'}`}
+                    >
+                      {adjustment.type === 'earning' ? '+' : '−'}{formatCurrency(adjustment.amount)} {adjustment.label}
+                    </div>
+                  ))}
+                  {(summary.recurring_deductions || []).filter(line => line.amount > 0 || line.scheduled_amount > 0).map(line => (
+                    <div key={line.deduction_id} className="text-xs font-normal text-red-600">
+                      −{formatCurrency(line.amount)} {line.label}
+                      <span className="text-gray-500">
+                        {line.amount < line.scheduled_amount && ` (of ${formatCurrency(line.scheduled_amount)}, net pay floor)`}
+                        {' · '}{formatCurrency(line.remaining_balance)} left
+                      </span>
+                    </div>
+                  ))}
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm">
                   <div className="flex space-x-1">
@@ -203,9 +293,85 @@ export function PayrollTable({ payrollSummaries, onExportCSV }: PayrollTableProp
                         {summary.offline_days} offline
                       </span>
                     )}
+                    {(summary.absent_days || 0) > 0 && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {summary.absent_days} absent
+                      </span>
+                    )}
+                    {((summary.paid_leave_days || 0) + (summary.unpaid_leave_days || 0)) > 0 && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        {(summary.paid_leave_days || 0) + (summary.unpaid_leave_days || 0)} on leave
+                      </span>
+                    )}
+                    {summary.net_pay < 0 && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        negative net pay
+                      </span>
+                    )}
+                    {getAnomalyCount(summary) > 0 && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                        {getAnomalyCount(summary)} unpaired
+                      </span>
+                    )}
                   </div>
                 </td>
               </tr>
+              {expandedEmployeeId === summary.employee.id && (
+                <tr className="bg-gray-50">
+                  <td colSpan={10} className="px-4 py-3">
+                    {(summary.daily_breakdown || []).length === 0 ? (
+                      <div className="text-sm text-gray-500">No attendance days in this period</div>
+                    ) : (
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-xs text-gray-500 uppercase">
+                            <th className="px-2 py-1 text-left">Date</th>
+                            <th className="px-2 py-1 text-left">Worked</th>
+                            <th className="px-2 py-1 text-left">Regular</th>
+                            <th className="px-2 py-1 text-left">Overtime</th>
+                            <th className="px-2 py-1 text-left">Night</th>
+                            <th className="px-2 py-1 text-left">Rate</th>
+                            <th className="px-2 py-1 text-left">Pay</th>
+                            <th className="px-2 py-1 text-left">Flags</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {summary.daily_breakdown.map((day) => (
+                            <tr key={day.date}>
+                              <td className="px-2 py-1 text-gray-900">{day.date}</td>
+                              <td className="px-2 py-1 text-gray-900">{formatHours(day.hours_worked)}</td>
+                              <td className="px-2 py-1 text-gray-900">{formatHours(day.regular_hours)}</td>
+                              <td className={`px-2 py-1 ${day.overtime_hours > 0 ? 'text-amber-600 font-medium' : 'text-gray-900'}`}>
+                                {formatHours(day.overtime_hours)}
+                              </td>
+                              <td className="px-2 py-1 text-gray-900">
+                                {formatHours((day.night_hours || 0) + (day.night_overtime_hours || 0))}
+                              </td>
+                              <td className="px-2 py-1 text-gray-900">{formatCurrency(day.hourly_rate)}</td>
+                              <td className="px-2 py-1 text-gray-900">
+                                {formatCurrency(
+                                  day.regular_pay + day.overtime_pay + day.holiday_pay + (day.rest_day_pay || 0) + (day.night_differential_pay || 0)
+                                )}
+                              </td>
+                              <td className="px-2 py-1 text-gray-500">
+                                {[
+                                  day.holiday_type && (day.holiday_type === 'regular' ? 'regular holiday' : 'special holiday'),
+                                  day.is_rest_day && 'rest day',
+                                  day.is_absent && 'absent',
+                                  day.is_late && 'late',
+                                  day.is_offline && 'offline',
+                                  ...(day.anomalies || []).map(anomaly => anomaly.message.toLowerCase())
+                                ].filter(Boolean).join(', ') || '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </td>
+                </tr>
+              )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -0,0 +1,315 @@
+import React, { Fragment, useState } from 'react';
+import { Employee, RecurringDeduction, RecurringDeductionFormData, RecurringDeductionKind } from '../types';
+import { UseRecurringDeductionsActions, UseRecurringDeductionsState } from '../hooks/useRecurringDeductions';
+import {
+  getRemainingBalance,
+  getRepaidAmount,
+  RECURRING_DEDUCTION_KIND_LABELS,
+  RECURRING_DEDUCTION_STATUS_LABELS,
+  validateRecurringDeduction
+} from '../utils/recurringDeductions';
+
+interface RecurringDeductionsPanelProps {
+  employees: Employee[];
+  defaultStartDate: string;
+  recurringDeductions: UseRecurringDeductionsState & UseRecurringDeductionsActions;
+}
+
+const emptyForm = (startDate: string): RecurringDeductionFormData => ({
+  employee_id: '',
+  kind: 'cash_advance',
+  label: '',
+  principal: '',
+  installment_mode: 'amount',
+  installment_value: '',
+  start_date: startDate,
+  created_by: ''
+});
+
+export function RecurringDeductionsPanel({ employees, defaultStartDate, recurringDeductions }: RecurringDeductionsPanelProps) {
+  const [formData, setFormData] = useState<RecurringDeductionFormData>(emptyForm(defaultStartDate));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [employeeFilter, setEmployeeFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const shown = recurringDeductions.deductions.filter(deduction => !employeeFilter || deduction.employee_id === employeeFilter);
+  const outstanding = shown
+    .filter(deduction => deduction.status === 'active')
+    .reduce((sum, deduction) => sum + getRemainingBalance(deduction), 0);
+
+  const employeeName = (id: string) => employees.find(employee => employee.id === id)?.name || id;
+  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+  const handleInputChange = (field: keyof RecurringDeductionFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleOpenForm = () => {
+    setFormData({ ...emptyForm(defaultStartDate), employee_id: employeeFilter });
+    setErrors({});
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateRecurringDeduction(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await recurringDeductions.createDeduction(formData);
+    if (result.success) {
+      setIsFormOpen(false);
+    }
+  };
+
+  const handleCancel = async (deduction: RecurringDeduction) => {
+    if (window.confirm(`Stop "${deduction.label}"? The remaining ${formatCurrency(getRemainingBalance(deduction))} will no longer be deducted.`)) {
+      await recurringDeductions.cancelDeduction(deduction.id);
+    }
+  };
+
+  const handleDelete = async (deduction: RecurringDeduction) => {
+    if (window.confirm(`Delete "${deduction.label}"?`)) {
+      await recurringDeductions.deleteDeduction(deduction.id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Loans & Cash Advances</h2>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Filter by employee"
+            value={employeeFilter}
+            onChange={(e) => setEmployeeFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All employees</option>
+            {employees.map(employee => (
+              <option key={employee.id} value={employee.id}>{employee.name}</option>
+            ))}
+          </select>
+          {!isFormOpen && (
+            <button
+              onClick={handleOpenForm}
+              className="px-3 py-2 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 text-sm"
+            >
+              Add Deduction
+            </button>
+          )}
+        </div>
+      </div>
+
+      {recurringDeductions.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3 mb-4 flex justify-between">
+          <span>{recurringDeductions.error}</span>
+          <button onClick={recurringDeductions.clearError} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-md">
+          <div>
+            <label htmlFor="deduction-employee" className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+            <select
+              id="deduction-employee"
+              value={formData.employee_id}
+              onChange={(e) => handleInputChange('employee_id', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose an employee…</option>
+              {employees.map(employee => (
+                <option key={employee.id} value={employee.id}>{employee.name}</option>
+              ))}
+            </select>
+            {errors.employee_id && <p className="text-red-500 text-xs mt-1">{errors.employee_id}</p>}
+          </div>
+          <div>
+            <label htmlFor="deduction-kind" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              id="deduction-kind"
+              value={formData.kind}
+              onChange={(e) => handleInputChange('kind', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(RECURRING_DEDUCTION_KIND_LABELS) as RecurringDeductionKind[]).map(kind => (
+                <option key={kind} value={kind}>{RECURRING_DEDUCTION_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="deduction-label" className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+            <input
+              id="deduction-label"
+              type="text"
+              value={formData.label}
+              onChange={(e) => handleInputChange('label', e.target.value)}
+              placeholder="e.g. Laptop loan"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.label && <p className="text-red-500 text-xs mt-1">{errors.label}</p>}
+          </div>
+          <div>
+            <label htmlFor="deduction-principal" className="block text-sm font-medium text-gray-700 mb-1">Principal ($)</label>
+            <input
+              id="deduction-principal"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={formData.principal}
+              onChange={(e) => handleInputChange('principal', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.principal && <p className="text-red-500 text-xs mt-1">{errors.principal}</p>}
+          </div>
+          <div>
+            <label htmlFor="deduction-installment" className="block text-sm font-medium text-gray-700 mb-1">Installments</label>
+            <div className="flex gap-2">
+              <select
+                aria-label="Installment mode"
+                value={formData.installment_mode}
+                onChange={(e) => handleInputChange('installment_mode', e.target.value)}
+                className="px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="amount">$ per period</option>
+                <option value="count">Number of periods</option>
+              </select>
+              <input
+                id="deduction-installment"
+                type="number"
+                step={formData.installment_mode === 'count' ? '1' : '0.01'}
+                min={formData.installment_mode === 'count' ? '1' : '0.01'}
+                value={formData.installment_value}
+                onChange={(e) => handleInputChange('installment_value', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {errors.installment_value && <p className="text-red-500 text-xs mt-1">{errors.installment_value}</p>}
+          </div>
+          <div>
+            <label htmlFor="deduction-start" className="block text-sm font-medium text-gray-700 mb-1">First Period</label>
+            <input
+              id="deduction-start"
+              type="date"
+              value={formData.start_date}
+              onChange={(e) => handleInputChange('start_date', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.start_date && <p className="text-red-500 text-xs mt-1">{errors.start_date}</p>}
+          </div>
+          <div>
+            <label htmlFor="deduction-created-by" className="block text-sm font-medium text-gray-700 mb-1">Entered By</label>
+            <input
+              id="deduction-created-by"
+              type="text"
+              value={formData.created_by}
+              onChange={(e) => handleInputChange('created_by', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+            >
+              Save Deduction
+            </button>
+          </div>
+        </form>
+      )}
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">No loans or cash advances on record.</p>
+      ) : (
+        <>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="px-2 py-1 text-left">Employee</th>
+                <th className="px-2 py-1 text-left">Label</th>
+                <th className="px-2 py-1 text-left">Principal</th>
+                <th className="px-2 py-1 text-left">Per Period</th>
+                <th className="px-2 py-1 text-left">Repaid</th>
+                <th className="px-2 py-1 text-left">Balance</th>
+                <th className="px-2 py-1 text-left">Status</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shown.map(deduction => (
+                <Fragment key={deduction.id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === deduction.id ? null : deduction.id)}
+                  >
+                    <td className="px-2 py-1 text-gray-900">{employeeName(deduction.employee_id)}</td>
+                    <td className="px-2 py-1 text-gray-900">
+                      {deduction.label}
+                      <span className="ml-2 text-xs text-gray-500">{RECURRING_DEDUCTION_KIND_LABELS[deduction.kind]}</span>
+                    </td>
+                    <td className="px-2 py-1">{formatCurrency(deduction.principal)}</td>
+                    <td className="px-2 py-1">{formatCurrency(deduction.installment_amount)}</td>
+                    <td className="px-2 py-1 text-green-600">{formatCurrency(getRepaidAmount(deduction))}</td>
+                    <td className="px-2 py-1 text-red-600">{formatCurrency(getRemainingBalance(deduction))}</td>
+                    <td className="px-2 py-1 text-gray-500">{RECURRING_DEDUCTION_STATUS_LABELS[deduction.status]}</td>
+                    <td className="px-2 py-1 text-right" onClick={(e) => e.stopPropagation()}>
+                      {deduction.status === 'active' && deduction.payments.length > 0 && (
+                        <button onClick={() => handleCancel(deduction)} className="text-red-600 hover:text-red-800 text-xs">
+                          Stop
+                        </button>
+                      )}
+                      {deduction.payments.length === 0 && (
+                        <button onClick={() => handleDelete(deduction)} className="text-red-600 hover:text-red-800 text-xs">
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === deduction.id && (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-2 bg-gray-50 text-xs text-gray-600">
+                        From the period containing {deduction.start_date}
+                        {deduction.created_by && ` · Entered by ${deduction.created_by}`}
+                        {deduction.payments.length === 0 ? (
+                          <p className="mt-1">No installments taken yet.</p>
+                        ) : (
+                          <ul className="mt-1 space-y-0.5">
+                            {deduction.payments.map((payment, index) => (
+                              <li key={payment.run_id}>
+                                {payment.period_start} to {payment.period_end}: {formatCurrency(payment.amount)}
+                                {/* Short of a full installment without being the one that cleared the balance */}
+                                {payment.amount < deduction.installment_amount &&
+                                  (index < deduction.payments.length - 1 || deduction.status !== 'completed') &&
+                                  ' (capped by net pay floor)'}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-3 text-sm text-gray-600">Outstanding: {formatCurrency(outstanding)}</p>
+        </>
+      )}
+    </div>
+  );
+}
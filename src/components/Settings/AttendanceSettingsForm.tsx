@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { AttendanceSettings } from '../../types';
+import { validateAttendanceSettings } from '../../utils/attendanceSettings';
+
+interface AttendanceSettingsFormProps {
+  settings: AttendanceSettings;
+  error: string | null;
+  onSave: (settings: AttendanceSettings) => Promise<{ success: boolean; error?: string }>;
+  onClearError: () => void;
+}
+
+const COMMON_TIMEZONES = [
+  'Asia/Manila',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'UTC'
+];
+
+export function AttendanceSettingsForm({ settings, error, onSave, onClearError }: AttendanceSettingsFormProps) {
+  const [formData, setFormData] = useState({
+    default_start_time: settings.default_start_time,
+    timezone: settings.timezone,
+    grace_period_minutes: String(settings.grace_period_minutes),
+    review_confidence_threshold: String(Math.round(settings.review_confidence_threshold * 100))
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when saved settings finish loading
+  useEffect(() => {
+    setFormData({
+      default_start_time: settings.default_start_time,
+      timezone: settings.timezone,
+      grace_period_minutes: String(settings.grace_period_minutes),
+      review_confidence_threshold: String(Math.round(settings.review_confidence_threshold * 100))
+    });
+  }, [settings]);
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setSaved(false);
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const updated: AttendanceSettings = {
+      default_start_time: formData.default_start_time.trim(),
+      timezone: formData.timezone.trim(),
+      grace_period_minutes: Number(formData.grace_period_minutes),
+      review_confidence_threshold: Number(formData.review_confidence_threshold) / 100
+    };
+
+    const validation = validateAttendanceSettings(updated);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(updated);
+    setSaved(result.success);
+  };
+
+  const inputClass = (field: string) =>
+    `block w-full px-3 py-2 border rounded-md text-sm ${errors[field] ? 'border-red-300' : 'border-gray-300'}`;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">⏰ Attendance</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Lateness and attendance days are evaluated in this timezone. Employees can override the start time,
+        timezone and grace period in Staff Management.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 flex justify-between items-center">
+          <div className="text-red-800 text-sm">{error}</div>
+          <button onClick={onClearError} className="text-red-400 hover:text-red-600 text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="default_start_time" className="block text-sm font-medium text-gray-700 mb-1">
+            Default Start Time
+          </label>
+          <input
+            id="default_start_time"
+            type="text"
+            value={formData.default_start_time}
+            onChange={(e) => handleInputChange('default_start_time', e.target.value)}
+            className={inputClass('default_start_time')}
+            placeholder="10:00 AM"
+          />
+          {errors.default_start_time && <p className="mt-1 text-sm text-red-600">{errors.default_start_time}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">
+            Timezone
+          </label>
+          <input
+            id="timezone"
+            type="text"
+            list="attendance-timezones"
+            value={formData.timezone}
+            onChange={(e) => handleInputChange('timezone', e.target.value)}
+            className={inputClass('timezone')}
+            placeholder="Asia/Manila"
+          />
+          <datalist id="attendance-timezones">
+            {COMMON_TIMEZONES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          {errors.timezone && <p className="mt-1 text-sm text-red-600">{errors.timezone}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="grace_period_minutes" className="block text-sm font-medium text-gray-700 mb-1">
+            Grace Period (minutes)
+          </label>
+          <input
+            id="grace_period_minutes"
+            type="number"
+            min="0"
+            max="240"
+            value={formData.grace_period_minutes}
+            onChange={(e) => handleInputChange('grace_period_minutes', e.target.value)}
+            className={inputClass('grace_period_minutes')}
+          />
+          {errors.grace_period_minutes && <p className="mt-1 text-sm text-red-600">{errors.grace_period_minutes}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="review_confidence_threshold" className="block text-sm font-medium text-gray-700 mb-1">
+            Review Names Matched Below (%)
+          </label>
+          <input
+            id="review_confidence_threshold"
+            type="number"
+            min="0"
+            max="100"
+            value={formData.review_confidence_threshold}
+            onChange={(e) => handleInputChange('review_confidence_threshold', e.target.value)}
+            className={inputClass('review_confidence_threshold')}
+          />
+          <p className="mt-1 text-xs text-gray-500">Pasted attendance matched with less confidence waits in the review queue.</p>
+          {errors.review_confidence_threshold && <p className="mt-1 text-sm text-red-600">{errors.review_confidence_threshold}</p>}
+        </div>
+
+        <div className="md:col-span-2 flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Attendance Settings
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { BreakSettings } from '../../types';
+import { parseBreakMarkers, validateBreakSettings } from '../../utils/breaks';
+
+interface BreakSettingsFormProps {
+  settings: BreakSettings;
+  onSave: (settings: BreakSettings) => Promise<{ success: boolean; error?: string }>;
+}
+
+interface BreakFormFields {
+  start_markers: string;
+  end_markers: string;
+  allowed_break_minutes: string;
+  auto_deduct_after_hours: string;
+  auto_deduct_minutes: string;
+}
+
+const toFields = (settings: BreakSettings): BreakFormFields => ({
+  start_markers: settings.start_markers.join(', '),
+  end_markers: settings.end_markers.join(', '),
+  allowed_break_minutes: String(settings.allowed_break_minutes),
+  auto_deduct_after_hours: String(settings.auto_deduct_after_hours),
+  auto_deduct_minutes: String(settings.auto_deduct_minutes)
+});
+
+export function BreakSettingsForm({ settings, onSave }: BreakSettingsFormProps) {
+  const [fields, setFields] = useState<BreakFormFields>(toFields(settings));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when the saved settings finish loading
+  useEffect(() => {
+    setFields(toFields(settings));
+  }, [settings]);
+
+  const handleChange = (field: keyof BreakFormFields, value: string) => {
+    setFields(prev => ({ ...prev, [field]: value }));
+    setSaved(false);
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+    const draft: BreakSettings = {
+      start_markers: parseBreakMarkers(fields.start_markers),
+      end_markers: parseBreakMarkers(fields.end_markers),
+      allowed_break_minutes: toNumber(fields.allowed_break_minutes),
+      auto_deduct_after_hours: toNumber(fields.auto_deduct_after_hours),
+      auto_deduct_minutes: toNumber(fields.auto_deduct_minutes)
+    };
+
+    const validation = validateBreakSettings(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(draft);
+    setSaved(result.success);
+  };
+
+  const renderField = (field: keyof BreakFormFields, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        id={field}
+        value={fields[field]}
+        onChange={(e) => handleChange(field, e.target.value)}
+        className={`block w-full px-3 py-2 border rounded-md text-sm ${errors[field] ? 'border-red-300' : 'border-gray-300'}`}
+        {...props}
+      />
+      {errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">☕ Breaks</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Messages with these markers start or end an unpaid break, which is taken out of hours worked.
+        Separate markers with commas; emoji such as :brb: match anywhere, words such as lunch only when they are the whole message.
+      </p>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderField('start_markers', 'Break Start Markers', { type: 'text', placeholder: ':brb:, lunch' })}
+        {renderField('end_markers', 'Break End Markers', { type: 'text', placeholder: ':back:, back' })}
+        {renderField('allowed_break_minutes', 'Allowed Break (minutes)', { type: 'number', min: 1, max: 480 })}
+        <div />
+        {renderField('auto_deduct_after_hours', 'Auto-deduct on Days Over (hours, 0 = never)', { type: 'number', min: 0, max: 24, step: 0.5 })}
+        {renderField('auto_deduct_minutes', 'Auto-deducted Break (minutes)', { type: 'number', min: 1, max: 480 })}
+
+        <div className="md:col-span-2 flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Break Settings
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { DeductionSettings } from '../../types';
+import { validateDeductionSettings } from '../../utils/recurringDeductions';
+
+interface DeductionSettingsFormProps {
+  settings: DeductionSettings;
+  onSave: (settings: DeductionSettings) => Promise<{ success: boolean; error?: string }>;
+}
+
+export function DeductionSettingsForm({ settings, onSave }: DeductionSettingsFormProps) {
+  const [netPayFloor, setNetPayFloor] = useState(String(settings.net_pay_floor));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when the saved settings finish loading
+  useEffect(() => {
+    setNetPayFloor(String(settings.net_pay_floor));
+  }, [settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const draft: DeductionSettings = { net_pay_floor: netPayFloor.trim() === '' ? NaN : Number(netPayFloor) };
+    const validation = validateDeductionSettings(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(draft);
+    setSaved(result.success);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">💳 Loans & Cash Advances</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Installments are cut short when taking them in full would leave net pay below the floor. The
+        shortfall stays on the balance for later periods.
+      </p>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="net_pay_floor" className="block text-sm font-medium text-gray-700 mb-1">
+            Net Pay Floor ($)
+          </label>
+          <input
+            id="net_pay_floor"
+            type="number"
+            min="0"
+            step="0.01"
+            value={netPayFloor}
+            onChange={(e) => {
+              setNetPayFloor(e.target.value);
+              setSaved(false);
+              setErrors({});
+            }}
+            className={`block w-full px-3 py-2 border rounded-md text-sm ${errors.net_pay_floor ? 'border-red-300' : 'border-gray-300'}`}
+          />
+          {errors.net_pay_floor && <p className="mt-1 text-sm text-red-600">{errors.net_pay_floor}</p>}
+        </div>
+
+        <div className="md:col-span-2 flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Deduction Settings
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { EarningCalculation, EarningType, EarningTypeFormData } from '../../types';
+import { UseEarningsActions, UseEarningsState } from '../../hooks/useEarnings';
+import { EARNING_CALCULATION_LABELS, validateEarningType } from '../../utils/earnings';
+
+interface EarningCatalogProps {
+  earnings: UseEarningsState & UseEarningsActions;
+}
+
+const EMPTY_FORM: EarningTypeFormData = { name: '', taxable: true, calculation: 'fixed', default_amount: '' };
+
+export function EarningCatalog({ earnings }: EarningCatalogProps) {
+  const [formData, setFormData] = useState<EarningTypeFormData>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const assignedCount = (id: string) => earnings.assignments.filter(assignment => assignment.earning_type_id === id).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateEarningType(formData);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = editingId
+      ? await earnings.updateEarningType(editingId, formData)
+      : await earnings.createEarningType(formData);
+
+    if (result.success) {
+      setFormData(EMPTY_FORM);
+      setEditingId(null);
+      setErrors({});
+    }
+  };
+
+  const handleEdit = (earningType: EarningType) => {
+    setEditingId(earningType.id);
+    setErrors({});
+    setFormData({
+      name: earningType.name,
+      taxable: earningType.taxable,
+      calculation: earningType.calculation,
+      default_amount: String(earningType.default_amount)
+    });
+  };
+
+  const handleDelete = async (earningType: EarningType) => {
+    if (window.confirm(`Remove ${earningType.name} from the earnings catalog?`)) {
+      await earnings.deleteEarningType(earningType.id);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">🎁 Allowances & Bonuses</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Earnings added to gross pay. Non-taxable earnings are left out of SSS, PhilHealth, Pag-IBIG and withholding tax.
+      </p>
+
+      {earnings.error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 flex justify-between items-center">
+          <div className="text-red-800 text-sm">{earnings.error}</div>
+          <button onClick={earnings.clearError} className="text-red-400 hover:text-red-600 text-sm">Dismiss</button>
+        </div>
+      )}
+
+      {/* Add / Edit Form */}
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6">
+        <div className="md:col-span-2">
+          <input
+            type="text"
+            aria-label="Earning name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Internet allowance"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name}</p>}
+        </div>
+        <select
+          aria-label="Calculation"
+          value={formData.calculation}
+          onChange={(e) => setFormData(prev => ({ ...prev, calculation: e.target.value as EarningCalculation }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {(Object.keys(EARNING_CALCULATION_LABELS) as EarningCalculation[]).map(calculation => (
+            <option key={calculation} value={calculation}>{EARNING_CALCULATION_LABELS[calculation]}</option>
+          ))}
+        </select>
+        <div>
+          <input
+            type="number"
+            aria-label="Default amount"
+            step="0.01"
+            min="0"
+            value={formData.default_amount}
+            onChange={(e) => setFormData(prev => ({ ...prev, default_amount: e.target.value }))}
+            placeholder="Default amount ($)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          {errors.default_amount && <p className="text-red-500 text-xs mt-1">{errors.default_amount}</p>}
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={formData.taxable}
+            onChange={(e) => setFormData(prev => ({ ...prev, taxable: e.target.checked }))}
+          />
+          <span>Taxable</span>
+        </label>
+        <div className="md:col-span-5 flex justify-end space-x-2">
+          {editingId && (
+            <button
+              type="button"
+              onClick={() => { setEditingId(null); setFormData(EMPTY_FORM); setErrors({}); }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+          <button type="submit" className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            {editingId ? 'Update' : 'Add Earning'}
+          </button>
+        </div>
+      </form>
+
+      {earnings.earningTypes.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">No allowances or bonuses in the catalog</div>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calculation</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Default</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {earnings.earningTypes.map(earningType => (
+                <tr key={earningType.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{earningType.name}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{EARNING_CALCULATION_LABELS[earningType.calculation]}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">${earningType.default_amount.toFixed(2)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      earningType.taxable ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {earningType.taxable ? 'Taxable' : 'Non-taxable'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{assignedCount(earningType.id)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm space-x-2">
+                    <button onClick={() => handleEdit(earningType)} className="text-blue-600 hover:text-blue-900">Edit</button>
+                    {assignedCount(earningType.id) === 0 && (
+                      <button onClick={() => handleDelete(earningType)} className="text-red-600 hover:text-red-900">Remove</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
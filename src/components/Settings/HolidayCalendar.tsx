@@ -0,0 +1,221 @@
+import React, { useRef, useState } from 'react';
+import { Holiday, HolidayFormData, HolidayType } from '../../types';
+import { UseHolidaysActions } from '../../hooks/useHolidays';
+import { parseHolidayICS, parseHolidayJSON } from '../../utils/holidayCalendar';
+import philippineHolidays2025 from '../../data/holidays-ph-2025.json';
+
+interface HolidayCalendarProps {
+  holidays: Holiday[];
+  error: string | null;
+  actions: UseHolidaysActions;
+}
+
+const EMPTY_FORM: HolidayFormData = { date: '', name: '', type: 'regular' };
+
+const HOLIDAY_TYPE_LABELS: Record<HolidayType, string> = {
+  regular: 'Regular Holiday',
+  special_non_working: 'Special Non-Working'
+};
+
+export function HolidayCalendar({ holidays, error, actions }: HolidayCalendarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [formData, setFormData] = useState<HolidayFormData>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [yearFilter, setYearFilter] = useState<string>(String(new Date().getFullYear()));
+
+  const years = Array.from(new Set([yearFilter, ...holidays.map(holiday => holiday.date.slice(0, 4))])).sort();
+  const visibleHolidays = holidays.filter(holiday => holiday.date.startsWith(`${yearFilter}-`));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = editingId
+      ? await actions.updateHoliday(editingId, formData)
+      : await actions.createHoliday(formData);
+
+    if (result.success) {
+      setFormData(EMPTY_FORM);
+      setEditingId(null);
+    }
+  };
+
+  const handleEdit = (holiday: Holiday) => {
+    setEditingId(holiday.id);
+    setFormData({ date: holiday.date, name: holiday.name, type: holiday.type });
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (window.confirm(`Remove ${holiday.name} (${holiday.date}) from the holiday calendar?`)) {
+      await actions.deleteHoliday(holiday.id);
+    }
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      const content = e.target?.result as string;
+      try {
+        const parsed = file.name.toLowerCase().endsWith('.ics')
+          ? parseHolidayICS(content)
+          : parseHolidayJSON(content);
+        const result = await actions.importHolidays(parsed);
+        setImportMessage(result.success ? `Imported ${result.count} holidays from ${file.name}` : null);
+      } catch (err) {
+        setImportMessage(null);
+        alert('Error importing holidays: ' + (err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const loadSampleHolidays = async () => {
+    const result = await actions.importHolidays(parseHolidayJSON(JSON.stringify(philippineHolidays2025)));
+    setImportMessage(result.success ? `Loaded ${result.count} Philippine holidays for 2025` : null);
+    setYearFilter('2025');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">🎉 Holiday Calendar</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Holidays drive holiday pay premiums and are skipped by no-show detection
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.ics"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Import JSON / ICS
+          </button>
+          <button
+            onClick={loadSampleHolidays}
+            className="px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            Load PH 2025
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 flex justify-between items-center">
+          <div className="text-red-800 text-sm">{error}</div>
+          <button onClick={actions.clearError} className="text-red-400 hover:text-red-600 text-sm">Dismiss</button>
+        </div>
+      )}
+
+      {importMessage && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4 text-sm text-green-800">
+          {importMessage}
+        </div>
+      )}
+
+      {/* Add / Edit Form */}
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <input
+          type="date"
+          value={formData.date}
+          onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          required
+        />
+        <input
+          type="text"
+          value={formData.name}
+          onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Holiday name"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          required
+        />
+        <select
+          value={formData.type}
+          onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as HolidayType }))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="regular">{HOLIDAY_TYPE_LABELS.regular}</option>
+          <option value="special_non_working">{HOLIDAY_TYPE_LABELS.special_non_working}</option>
+        </select>
+        <div className="flex space-x-2">
+          <button type="submit" className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            {editingId ? 'Update' : 'Add Holiday'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={() => { setEditingId(null); setFormData(EMPTY_FORM); }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Year Filter */}
+      <div className="flex items-center space-x-2 mb-3">
+        <span className="text-sm text-gray-600">Year:</span>
+        {years.map(year => (
+          <button
+            key={year}
+            onClick={() => setYearFilter(year)}
+            className={`px-3 py-1 rounded text-sm ${
+              yearFilter === year ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {year}
+          </button>
+        ))}
+      </div>
+
+      {visibleHolidays.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">No holidays configured for {yearFilter}</div>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleHolidays.map(holiday => (
+                <tr key={holiday.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{holiday.date}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{holiday.name}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      holiday.type === 'regular' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                    }`}>
+                      {HOLIDAY_TYPE_LABELS[holiday.type]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm space-x-2">
+                    <button onClick={() => handleEdit(holiday)} className="text-blue-600 hover:text-blue-900">Edit</button>
+                    <button onClick={() => handleDelete(holiday)} className="text-red-600 hover:text-red-900">Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
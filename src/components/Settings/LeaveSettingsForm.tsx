@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { LeaveSettings, PaidLeaveType } from '../../types';
+import { LEAVE_TYPE_LABELS, PAID_LEAVE_TYPES, validateLeaveSettings } from '../../utils/leave';
+
+interface LeaveSettingsFormProps {
+  settings: LeaveSettings;
+  onSave: (settings: LeaveSettings) => Promise<{ success: boolean; error?: string }>;
+}
+
+type RuleDrafts = Record<PaidLeaveType, { days_per_month: string; max_balance: string }>;
+
+function toDrafts(settings: LeaveSettings): RuleDrafts {
+  return Object.fromEntries(PAID_LEAVE_TYPES.map(leaveType => {
+    const rule = settings.accrual_rules.find(entry => entry.leave_type === leaveType);
+    return [leaveType, {
+      days_per_month: String(rule?.days_per_month ?? 0),
+      max_balance: rule?.max_balance === null || rule?.max_balance === undefined ? '' : String(rule.max_balance)
+    }];
+  })) as RuleDrafts;
+}
+
+export function LeaveSettingsForm({ settings, onSave }: LeaveSettingsFormProps) {
+  const [drafts, setDrafts] = useState<RuleDrafts>(toDrafts(settings));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when the saved settings finish loading
+  useEffect(() => {
+    setDrafts(toDrafts(settings));
+  }, [settings]);
+
+  const updateDraft = (leaveType: PaidLeaveType, field: 'days_per_month' | 'max_balance', value: string) => {
+    setDrafts(prev => ({ ...prev, [leaveType]: { ...prev[leaveType], [field]: value } }));
+    setSaved(false);
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const draft: LeaveSettings = {
+      accrual_rules: PAID_LEAVE_TYPES.map(leaveType => ({
+        leave_type: leaveType,
+        days_per_month: drafts[leaveType].days_per_month.trim() === '' ? NaN : Number(drafts[leaveType].days_per_month),
+        max_balance: drafts[leaveType].max_balance.trim() === '' ? null : Number(drafts[leaveType].max_balance)
+      }))
+    };
+    const validation = validateLeaveSettings(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(draft);
+    setSaved(result.success);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">🌴 Leave Accrual</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Paid leave is credited once a month from each employee's first day and stops growing at the cap.
+        Leave a cap blank for no limit. Unpaid leave has no balance.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {PAID_LEAVE_TYPES.map(leaveType => (
+          <div key={leaveType} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+            <div className="text-sm font-medium text-gray-700 md:pt-7">{LEAVE_TYPE_LABELS[leaveType]}</div>
+            <div>
+              <label htmlFor={`${leaveType}_days_per_month`} className="block text-sm font-medium text-gray-700 mb-1">
+                Days per Month
+              </label>
+              <input
+                id={`${leaveType}_days_per_month`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={drafts[leaveType].days_per_month}
+                onChange={(e) => updateDraft(leaveType, 'days_per_month', e.target.value)}
+                className={`block w-full px-3 py-2 border rounded-md text-sm ${errors[`${leaveType}_days_per_month`] ? 'border-red-300' : 'border-gray-300'}`}
+              />
+              {errors[`${leaveType}_days_per_month`] && (
+                <p className="mt-1 text-sm text-red-600">{errors[`${leaveType}_days_per_month`]}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor={`${leaveType}_max_balance`} className="block text-sm font-medium text-gray-700 mb-1">
+                Balance Cap (days)
+              </label>
+              <input
+                id={`${leaveType}_max_balance`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={drafts[leaveType].max_balance}
+                onChange={(e) => updateDraft(leaveType, 'max_balance', e.target.value)}
+                placeholder="No cap"
+                className={`block w-full px-3 py-2 border rounded-md text-sm ${errors[`${leaveType}_max_balance`] ? 'border-red-300' : 'border-gray-300'}`}
+              />
+              {errors[`${leaveType}_max_balance`] && (
+                <p className="mt-1 text-sm text-red-600">{errors[`${leaveType}_max_balance`]}</p>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Leave Settings
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { PayFrequency, PaySchedule } from '../../types';
+import { generatePayPeriods, PAY_FREQUENCY_LABELS, validatePaySchedule } from '../../utils/payCalendar';
+import { getZonedDateString } from '../../utils/timezone';
+
+interface PayScheduleFormProps {
+  schedule: PaySchedule;
+  timezone: string;
+  onSave: (schedule: PaySchedule) => Promise<{ success: boolean; error?: string }>;
+}
+
+const UPCOMING_PERIOD_COUNT = 4;
+
+const toFormData = (schedule: PaySchedule) => ({
+  frequency: schedule.frequency,
+  anchor_date: schedule.anchor_date,
+  first_cutoff: String(schedule.semi_monthly_cutoffs[0]),
+  second_cutoff: String(schedule.semi_monthly_cutoffs[1]),
+  pay_date_offset_days: String(schedule.pay_date_offset_days)
+});
+
+export function PayScheduleForm({ schedule, timezone, onSave }: PayScheduleFormProps) {
+  const [formData, setFormData] = useState(toFormData(schedule));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when the saved schedule finishes loading
+  useEffect(() => {
+    setFormData(toFormData(schedule));
+  }, [schedule]);
+
+  const draft: PaySchedule = {
+    frequency: formData.frequency,
+    anchor_date: formData.anchor_date,
+    semi_monthly_cutoffs: [Number(formData.first_cutoff), Number(formData.second_cutoff)],
+    pay_date_offset_days: Number(formData.pay_date_offset_days)
+  };
+  const draftIsValid = validatePaySchedule(draft).isValid;
+  const upcomingPeriods = draftIsValid
+    ? generatePayPeriods(getZonedDateString(new Date(), timezone), UPCOMING_PERIOD_COUNT, draft)
+    : [];
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setSaved(false);
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validatePaySchedule(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(draft);
+    setSaved(result.success);
+  };
+
+  const inputClass = (field: string) =>
+    `block w-full px-3 py-2 border rounded-md text-sm ${errors[field] ? 'border-red-300' : 'border-gray-300'}`;
+
+  const usesAnchor = formData.frequency === 'weekly' || formData.frequency === 'bi_weekly';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">📆 Pay Schedule</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Pay periods offered on the payroll page are generated from this schedule.
+      </p>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="pay_frequency" className="block text-sm font-medium text-gray-700 mb-1">
+            Frequency
+          </label>
+          <select
+            id="pay_frequency"
+            value={formData.frequency}
+            onChange={(e) => handleInputChange('frequency', e.target.value as PayFrequency)}
+            className={inputClass('frequency')}
+          >
+            {(Object.keys(PAY_FREQUENCY_LABELS) as PayFrequency[]).map(frequency => (
+              <option key={frequency} value={frequency}>{PAY_FREQUENCY_LABELS[frequency]}</option>
+            ))}
+          </select>
+          {errors.frequency && <p className="mt-1 text-sm text-red-600">{errors.frequency}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="pay_date_offset_days" className="block text-sm font-medium text-gray-700 mb-1">
+            Pay Date (days after cutoff)
+          </label>
+          <input
+            id="pay_date_offset_days"
+            type="number"
+            min="0"
+            max="31"
+            value={formData.pay_date_offset_days}
+            onChange={(e) => handleInputChange('pay_date_offset_days', e.target.value)}
+            className={inputClass('pay_date_offset_days')}
+          />
+          {errors.pay_date_offset_days && <p className="mt-1 text-sm text-red-600">{errors.pay_date_offset_days}</p>}
+        </div>
+
+        {usesAnchor && (
+          <div>
+            <label htmlFor="anchor_date" className="block text-sm font-medium text-gray-700 mb-1">
+              First Day of Any Period
+            </label>
+            <input
+              id="anchor_date"
+              type="date"
+              value={formData.anchor_date}
+              onChange={(e) => handleInputChange('anchor_date', e.target.value)}
+              className={inputClass('anchor_date')}
+            />
+            {errors.anchor_date && <p className="mt-1 text-sm text-red-600">{errors.anchor_date}</p>}
+          </div>
+        )}
+
+        {formData.frequency === 'semi_monthly' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cutoff Days</label>
+            <div className="flex items-center space-x-2">
+              <input
+                aria-label="First cutoff day"
+                type="number"
+                min="1"
+                max="31"
+                value={formData.first_cutoff}
+                onChange={(e) => handleInputChange('first_cutoff', e.target.value)}
+                className={inputClass('semi_monthly_cutoffs')}
+              />
+              <span className="text-gray-500 text-sm">and</span>
+              <input
+                aria-label="Second cutoff day"
+                type="number"
+                min="1"
+                max="31"
+                value={formData.second_cutoff}
+                onChange={(e) => handleInputChange('second_cutoff', e.target.value)}
+                className={inputClass('semi_monthly_cutoffs')}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Use 31 for the last day of the month</p>
+            {errors.semi_monthly_cutoffs && <p className="mt-1 text-sm text-red-600">{errors.semi_monthly_cutoffs}</p>}
+          </div>
+        )}
+
+        <div className="md:col-span-2">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Upcoming Periods</h3>
+          {upcomingPeriods.length > 0 ? (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-4 font-medium">Period</th>
+                  <th className="py-1 pr-4 font-medium">Cutoff</th>
+                  <th className="py-1 font-medium">Pay Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {upcomingPeriods.map(period => (
+                  <tr key={period.start} className="border-t border-gray-100">
+                    <td className="py-1 pr-4">{period.label}</td>
+                    <td className="py-1 pr-4">{period.cutoff_date}</td>
+                    <td className="py-1">{period.pay_date}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">Fix the errors above to preview the pay calendar.</p>
+          )}
+        </div>
+
+        <div className="md:col-span-2 flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Pay Schedule
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
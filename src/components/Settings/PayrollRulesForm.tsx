@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { OvertimeMode, PayrollRules } from '../../types';
+import { OVERTIME_MODE_LABELS, validatePayrollRules } from '../../utils/payrollCalculator';
+
+interface PayrollRulesFormProps {
+  rules: PayrollRules;
+  onSave: (rules: PayrollRules) => Promise<{ success: boolean; error?: string }>;
+}
+
+interface PayrollRulesFields {
+  overtime_mode: OvertimeMode;
+  overtime_multiplier: string;
+  standard_work_hours: string;
+  weekly_overtime_threshold_hours: string;
+  week_start_day: string;
+  rest_day_multiplier: string;
+  night_differential_start_hour: string;
+  night_differential_end_hour: string;
+  night_differential_multiplier: string;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const toFields = (rules: PayrollRules): PayrollRulesFields => ({
+  overtime_mode: rules.overtime_mode,
+  overtime_multiplier: String(rules.overtime_multiplier),
+  standard_work_hours: String(rules.standard_work_hours),
+  weekly_overtime_threshold_hours: String(rules.weekly_overtime_threshold_hours),
+  week_start_day: String(rules.week_start_day),
+  rest_day_multiplier: String(rules.rest_day_multiplier),
+  night_differential_start_hour: String(rules.night_differential_start_hour),
+  night_differential_end_hour: String(rules.night_differential_end_hour),
+  night_differential_multiplier: String(rules.night_differential_multiplier)
+});
+
+export function PayrollRulesForm({ rules, onSave }: PayrollRulesFormProps) {
+  const [fields, setFields] = useState<PayrollRulesFields>(toFields(rules));
+  const [statutoryEnabled, setStatutoryEnabled] = useState(rules.statutory_deductions_enabled);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when the saved rules finish loading
+  useEffect(() => {
+    setFields(toFields(rules));
+    setStatutoryEnabled(rules.statutory_deductions_enabled);
+  }, [rules]);
+
+  const handleChange = (field: keyof PayrollRulesFields, value: string) => {
+    setFields(prev => ({ ...prev, [field]: value }));
+    setSaved(false);
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+    const draft: PayrollRules = {
+      ...rules,
+      overtime_mode: fields.overtime_mode,
+      statutory_deductions_enabled: statutoryEnabled,
+      overtime_multiplier: toNumber(fields.overtime_multiplier),
+      standard_work_hours: toNumber(fields.standard_work_hours),
+      weekly_overtime_threshold_hours: toNumber(fields.weekly_overtime_threshold_hours),
+      week_start_day: toNumber(fields.week_start_day),
+      rest_day_multiplier: toNumber(fields.rest_day_multiplier),
+      night_differential_start_hour: toNumber(fields.night_differential_start_hour),
+      night_differential_end_hour: toNumber(fields.night_differential_end_hour),
+      night_differential_multiplier: toNumber(fields.night_differential_multiplier)
+    };
+
+    const validation = validatePayrollRules(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(draft);
+    setSaved(result.success);
+  };
+
+  const renderField = (field: keyof PayrollRulesFields, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        id={field}
+        type="number"
+        value={fields[field]}
+        onChange={(e) => handleChange(field, e.target.value)}
+        className={`block w-full px-3 py-2 border rounded-md text-sm ${errors[field] ? 'border-red-300' : 'border-gray-300'}`}
+        {...props}
+      />
+      {errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">📐 Payroll Rules</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Used by payroll, off-cycle and final pay runs. Daily overtime starts after the standard work hours
+        on a day; weekly overtime starts after the weekly threshold within a workweek. Night differential
+        hours are read in the attendance timezone, and the window may run past midnight (22 to 6).
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="overtime_mode" className="block text-sm font-medium text-gray-700 mb-1">Overtime</label>
+            <select
+              id="overtime_mode"
+              value={fields.overtime_mode}
+              onChange={(e) => handleChange('overtime_mode', e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {(Object.keys(OVERTIME_MODE_LABELS) as OvertimeMode[]).map(mode => (
+                <option key={mode} value={mode}>{OVERTIME_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            {errors.overtime_mode && <p className="mt-1 text-sm text-red-600">{errors.overtime_mode}</p>}
+          </div>
+          {renderField('overtime_multiplier', 'Overtime Multiplier', { min: '1', max: '5', step: '0.05' })}
+          {renderField('standard_work_hours', 'Standard Work Hours per Day', { min: '0', max: '24', step: '0.25' })}
+          {renderField('weekly_overtime_threshold_hours', 'Weekly Overtime Threshold (hours)', { min: '0', max: '168', step: '0.25' })}
+          <div>
+            <label htmlFor="week_start_day" className="block text-sm font-medium text-gray-700 mb-1">Workweek Starts On</label>
+            <select
+              id="week_start_day"
+              value={fields.week_start_day}
+              onChange={(e) => handleChange('week_start_day', e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {WEEKDAY_NAMES.map((name, day) => (
+                <option key={day} value={day}>{name}</option>
+              ))}
+            </select>
+            {errors.week_start_day && <p className="mt-1 text-sm text-red-600">{errors.week_start_day}</p>}
+          </div>
+          {renderField('rest_day_multiplier', 'Rest Day Multiplier', { min: '1', max: '5', step: '0.05' })}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {renderField('night_differential_start_hour', 'Night Differential Starts (hour)', { min: '0', max: '23', step: '1' })}
+          {renderField('night_differential_end_hour', 'Night Differential Ends (hour)', { min: '0', max: '23', step: '1' })}
+          {renderField('night_differential_multiplier', 'Night Differential Multiplier', { min: '1', max: '5', step: '0.01' })}
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={statutoryEnabled}
+            onChange={(e) => { setStatutoryEnabled(e.target.checked); setSaved(false); }}
+          />
+          <span>Deduct SSS, PhilHealth, Pag-IBIG and withholding tax</span>
+        </label>
+
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Payroll Rules
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
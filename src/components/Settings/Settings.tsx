@@ -0,0 +1,83 @@
+import { UseHolidaysActions, UseHolidaysState } from '../../hooks/useHolidays';
+import { UseSettingsActions, UseSettingsState } from '../../hooks/useSettings';
+import { UseEarningsActions, UseEarningsState } from '../../hooks/useEarnings';
+import { HolidayCalendar } from './HolidayCalendar';
+import { AttendanceSettingsForm } from './AttendanceSettingsForm';
+import { TardinessPolicyForm } from './TardinessPolicyForm';
+import { BreakSettingsForm } from './BreakSettingsForm';
+import { VocabularyEditor } from './VocabularyEditor';
+import { PayScheduleForm } from './PayScheduleForm';
+import { DeductionSettingsForm } from './DeductionSettingsForm';
+import { LeaveSettingsForm } from './LeaveSettingsForm';
+import { PayrollRulesForm } from './PayrollRulesForm';
+import { EarningCatalog } from './EarningCatalog';
+
+interface SettingsProps {
+  holidays: UseHolidaysState & UseHolidaysActions;
+  settings: UseSettingsState & UseSettingsActions;
+  earnings: UseEarningsState & UseEarningsActions;
+}
+
+export function Settings({ holidays, settings, earnings }: SettingsProps) {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+        <p className="text-gray-600">Configure calendars and rules used by payroll calculation</p>
+      </div>
+
+      <div className="space-y-8">
+        <AttendanceSettingsForm
+          settings={settings.settings.attendance}
+          error={settings.error}
+          onSave={settings.updateAttendanceSettings}
+          onClearError={settings.clearError}
+        />
+
+        <TardinessPolicyForm
+          policy={settings.settings.tardiness}
+          onSave={settings.updateTardinessPolicy}
+        />
+
+        <BreakSettingsForm
+          settings={settings.settings.breaks}
+          onSave={settings.updateBreakSettings}
+        />
+
+        <VocabularyEditor
+          vocabulary={settings.settings.vocabulary}
+          onSave={settings.updateVocabulary}
+        />
+
+        <PayScheduleForm
+          schedule={settings.settings.pay_schedule}
+          timezone={settings.settings.attendance.timezone}
+          onSave={settings.updatePaySchedule}
+        />
+
+        <PayrollRulesForm
+          rules={settings.settings.payroll_rules}
+          onSave={settings.updatePayrollRules}
+        />
+
+        <DeductionSettingsForm
+          settings={settings.settings.deductions}
+          onSave={settings.updateDeductionSettings}
+        />
+
+        <LeaveSettingsForm
+          settings={settings.settings.leave}
+          onSave={settings.updateLeaveSettings}
+        />
+
+        <EarningCatalog earnings={earnings} />
+
+        <HolidayCalendar
+          holidays={holidays.holidays}
+          error={holidays.error}
+          actions={holidays}
+        />
+      </div>
+    </div>
+  );
+}
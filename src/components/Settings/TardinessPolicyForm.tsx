@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { TardinessMode, TardinessPolicy } from '../../types';
+import { TARDINESS_MODE_LABELS, validateTardinessPolicy } from '../../utils/tardiness';
+
+interface TardinessPolicyFormProps {
+  policy: TardinessPolicy;
+  onSave: (policy: TardinessPolicy) => Promise<{ success: boolean; error?: string }>;
+}
+
+interface BracketRow {
+  from_minutes: string;
+  to_minutes: string;
+  charged_minutes: string;
+}
+
+const toRows = (policy: TardinessPolicy): BracketRow[] =>
+  policy.brackets.map(bracket => ({
+    from_minutes: String(bracket.from_minutes),
+    to_minutes: String(bracket.to_minutes),
+    charged_minutes: String(bracket.charged_minutes)
+  }));
+
+export function TardinessPolicyForm({ policy, onSave }: TardinessPolicyFormProps) {
+  const [mode, setMode] = useState<TardinessMode>(policy.mode);
+  const [flatAmount, setFlatAmount] = useState(String(policy.flat_amount));
+  const [includeUndertime, setIncludeUndertime] = useState(policy.include_undertime);
+  const [brackets, setBrackets] = useState<BracketRow[]>(toRows(policy));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when the saved policy finishes loading
+  useEffect(() => {
+    setMode(policy.mode);
+    setFlatAmount(String(policy.flat_amount));
+    setIncludeUndertime(policy.include_undertime);
+    setBrackets(toRows(policy));
+  }, [policy]);
+
+  const markChanged = () => {
+    setSaved(false);
+    setErrors({});
+  };
+
+  const updateBracket = (index: number, field: keyof BracketRow, value: string) => {
+    setBrackets(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    markChanged();
+  };
+
+  const addBracket = () => {
+    const last = brackets[brackets.length - 1];
+    const from = last ? Number(last.to_minutes) + 1 : 1;
+    setBrackets(prev => [...prev, { from_minutes: String(from), to_minutes: '', charged_minutes: '' }]);
+    markChanged();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+    const draft: TardinessPolicy = {
+      mode,
+      flat_amount: toNumber(flatAmount),
+      include_undertime: includeUndertime,
+      brackets: brackets.map(row => ({
+        from_minutes: toNumber(row.from_minutes),
+        to_minutes: toNumber(row.to_minutes),
+        charged_minutes: toNumber(row.charged_minutes)
+      }))
+    };
+
+    const validation = validateTardinessPolicy(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(draft);
+    setSaved(result.success);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">⏱️ Tardiness & Undertime</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Applied to payroll and to the pasted Slack text preview. Minutes are counted after the grace period.
+        Per-minute and tiered charges use the day's hourly rate. Hourly staff are not paid for minutes they did
+        not work, so per-minute charges skip them and tiered charges only take the extra minutes a bracket adds.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="tardiness_mode" className="block text-sm font-medium text-gray-700 mb-1">Deduction</label>
+            <select
+              id="tardiness_mode"
+              value={mode}
+              onChange={(e) => { setMode(e.target.value as TardinessMode); markChanged(); }}
+              className={inputClass}
+            >
+              {(Object.keys(TARDINESS_MODE_LABELS) as TardinessMode[]).map(option => (
+                <option key={option} value={option}>{TARDINESS_MODE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {mode === 'flat' ? (
+            <div>
+              <label htmlFor="tardiness_flat_amount" className="block text-sm font-medium text-gray-700 mb-1">
+                Amount per Late Day ($)
+              </label>
+              <input
+                id="tardiness_flat_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={flatAmount}
+                onChange={(e) => { setFlatAmount(e.target.value); markChanged(); }}
+                className={inputClass}
+              />
+              {errors.flat_amount && <p className="mt-1 text-sm text-red-600">{errors.flat_amount}</p>}
+            </div>
+          ) : (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 md:mt-6">
+              <input
+                type="checkbox"
+                checked={includeUndertime}
+                onChange={(e) => { setIncludeUndertime(e.target.checked); markChanged(); }}
+              />
+              <span>Also deduct undertime (leaving before the scheduled end of the day)</span>
+            </label>
+          )}
+        </div>
+
+        {mode === 'tiered' && (
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Brackets</div>
+            <p className="text-xs text-gray-500 mb-2">
+              Minutes that fall in a bracket are charged as the bracket's minutes; minutes outside every bracket are charged as is.
+            </p>
+            <div className="space-y-2">
+              {brackets.map((row, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="number"
+                    min="1"
+                    aria-label="From minutes"
+                    value={row.from_minutes}
+                    onChange={(e) => updateBracket(index, 'from_minutes', e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <span>–</span>
+                  <input
+                    type="number"
+                    min="1"
+                    aria-label="To minutes"
+                    value={row.to_minutes}
+                    onChange={(e) => updateBracket(index, 'to_minutes', e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <span>min late is charged as</span>
+                  <input
+                    type="number"
+                    min="0"
+                    aria-label="Charged minutes"
+                    value={row.charged_minutes}
+                    onChange={(e) => updateBracket(index, 'charged_minutes', e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <span>min</span>
+                  <button
+                    type="button"
+                    onClick={() => { setBrackets(prev => prev.filter((_, i) => i !== index)); markChanged(); }}
+                    className="text-red-600 hover:text-red-800 text-xs"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button type="button" onClick={addBracket} className="mt-2 text-blue-600 hover:text-blue-800 text-sm">
+              + Add bracket
+            </button>
+            {errors.brackets && <p className="mt-1 text-sm text-red-600">{errors.brackets}</p>}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+            Save Tardiness Policy
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
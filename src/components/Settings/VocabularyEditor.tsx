@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { AttendanceStatus, VocabularyEntry, VocabularyMatchType, VocabularyScope } from '../../types';
+import {
+  ATTENDANCE_STATUS_LABELS,
+  DEFAULT_VOCABULARY,
+  findVocabularyMatch,
+  getMessageEventType,
+  validateVocabulary,
+  VOCABULARY_MATCH_LABELS,
+  VOCABULARY_SCOPE_LABELS,
+  VOCABULARY_STATUSES
+} from '../../utils/vocabulary';
+
+interface VocabularyEditorProps {
+  vocabulary: VocabularyEntry[];
+  onSave: (vocabulary: VocabularyEntry[]) => Promise<{ success: boolean; error?: string }>;
+}
+
+const SAMPLE_TEXT = `El  9:40 AM  IN
+pasok na po
+offline muna, brownout
+Ash  OUT - JSP Approved
+:in: good morning`;
+
+export function VocabularyEditor({ vocabulary, onSave }: VocabularyEditorProps) {
+  const [entries, setEntries] = useState<VocabularyEntry[]>(vocabulary);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState(false);
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+
+  // Reset the list when the saved vocabulary finishes loading
+  useEffect(() => {
+    setEntries(vocabulary);
+  }, [vocabulary]);
+
+  const markChanged = () => {
+    setSaved(false);
+    setErrors({});
+  };
+
+  const updateEntry = (id: string, changes: Partial<VocabularyEntry>) => {
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+    markChanged();
+  };
+
+  const moveEntry = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= entries.length) return;
+
+    const reordered = [...entries];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setEntries(reordered);
+    markChanged();
+  };
+
+  const addEntry = () => {
+    setEntries(prev => [
+      ...prev,
+      { id: `vocab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, pattern: '', match_type: 'keyword', status: 'check_in', scope: 'all' }
+    ]);
+    markChanged();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateVocabulary(entries);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const result = await onSave(entries);
+    setSaved(result.success);
+  };
+
+  const sampleLines = sampleText.split('\n').map(line => line.trim()).filter(Boolean);
+  const listErrors = Object.entries(errors).filter(([key]) => !entries.some(entry => entry.id === key));
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold">🗣️ Attendance Vocabulary</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        How your team writes each status, shared by the pasted text parser and the Slack message import.
+        Patterns are tried from the top; the first one that matches decides. Slack messages only use
+        check-in and check-out patterns.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pattern</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Match</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Used by</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map((entry, index) => (
+                <tr key={entry.id}>
+                  <td className="px-2 py-2 text-gray-500">{index + 1}</td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="text"
+                      aria-label="Pattern"
+                      value={entry.pattern}
+                      onChange={(e) => updateEntry(entry.id, { pattern: e.target.value })}
+                      className={`w-full px-2 py-1 border rounded-md font-mono ${errors[entry.id] ? 'border-red-300' : 'border-gray-300'}`}
+                    />
+                    {errors[entry.id] && <p className="mt-1 text-xs text-red-600">{errors[entry.id]}</p>}
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      aria-label="Match type"
+                      value={entry.match_type}
+                      onChange={(e) => updateEntry(entry.id, { match_type: e.target.value as VocabularyMatchType })}
+                      className={selectClass}
+                    >
+                      {(Object.keys(VOCABULARY_MATCH_LABELS) as VocabularyMatchType[]).map(option => (
+                        <option key={option} value={option}>{VOCABULARY_MATCH_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      aria-label="Status"
+                      value={entry.status}
+                      onChange={(e) => updateEntry(entry.id, { status: e.target.value as AttendanceStatus })}
+                      className={selectClass}
+                    >
+                      {VOCABULARY_STATUSES.map(status => (
+                        <option key={status} value={status}>{ATTENDANCE_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      aria-label="Used by"
+                      value={entry.scope}
+                      onChange={(e) => updateEntry(entry.id, { scope: e.target.value as VocabularyScope })}
+                      className={selectClass}
+                    >
+                      {(Object.keys(VOCABULARY_SCOPE_LABELS) as VocabularyScope[]).map(option => (
+                        <option key={option} value={option}>{VOCABULARY_SCOPE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 whitespace-nowrap text-xs space-x-2">
+                    <button type="button" onClick={() => moveEntry(index, -1)} disabled={index === 0} className="text-gray-600 hover:text-gray-900 disabled:opacity-30">↑</button>
+                    <button type="button" onClick={() => moveEntry(index, 1)} disabled={index === entries.length - 1} className="text-gray-600 hover:text-gray-900 disabled:opacity-30">↓</button>
+                    <button
+                      type="button"
+                      onClick={() => { setEntries(prev => prev.filter(candidate => candidate.id !== entry.id)); markChanged(); }}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {listErrors.map(([key, message]) => (
+          <p key={key} className="text-sm text-red-600">{message}</p>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <div className="space-x-4 text-sm">
+            <button type="button" onClick={addEntry} className="text-blue-600 hover:text-blue-800">+ Add pattern</button>
+            <button type="button" onClick={() => { setEntries(DEFAULT_VOCABULARY); markChanged(); }} className="text-gray-600 hover:text-gray-800">
+              Restore defaults
+            </button>
+          </div>
+          <div className="flex items-center space-x-3">
+            {saved && <span className="text-sm text-green-600">Saved</span>}
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+              Save Vocabulary
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="mt-6 border-t border-gray-200 pt-4">
+        <label htmlFor="vocabulary_sample" className="block text-sm font-medium text-gray-700 mb-1">
+          Playground
+        </label>
+        <p className="text-xs text-gray-500 mb-2">Each line is read with the patterns above, including unsaved changes.</p>
+        <textarea
+          id="vocabulary_sample"
+          rows={5}
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+        />
+        <table className="mt-2 min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="py-1 pr-4">Line</th>
+              <th className="py-1 pr-4">Pasted text</th>
+              <th className="py-1">Slack message</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sampleLines.map((line, index) => {
+              const textMatch = findVocabularyMatch(line, entries, 'slack_text');
+              const eventType = getMessageEventType(line, entries);
+              return (
+                <tr key={index} className="border-t border-gray-100">
+                  <td className="py-1 pr-4 font-mono text-gray-700">{line}</td>
+                  <td className="py-1 pr-4">
+                    {textMatch ? (
+                      <span>
+                        {ATTENDANCE_STATUS_LABELS[textMatch.status]}
+                        <span className="text-xs text-gray-500"> · #{entries.indexOf(textMatch) + 1} {textMatch.pattern}</span>
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">{ATTENDANCE_STATUS_LABELS.unknown}</span>
+                    )}
+                  </td>
+                  <td className="py-1">
+                    {eventType ? (eventType === 'in' ? 'Check-in' : 'Check-out') : <span className="text-gray-400">Ignored</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
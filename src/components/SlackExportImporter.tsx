@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { AttendanceSettings, Employee, EmployeeFormData, SlackExport, SlackMessage, SlackUserMatch } from '../types';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { employeeToFormData } from '../utils/employeeManager';
+import {
+  convertSlackExportMessages,
+  getExportChannels,
+  getSlackUserName,
+  matchSlackUsers,
+  readSlackExport,
+  slackUserToEmployeeForm,
+  suggestAttendanceChannel
+} from '../utils/slackExport';
+
+type EmployeeResult = Promise<{ success: boolean; error?: string }>;
+
+interface SlackExportImporterProps {
+  employees: Employee[];
+  attendanceSettings?: AttendanceSettings;
+  onDataLoad: (messages: SlackMessage[]) => void;
+  onCreateEmployee?: (formData: EmployeeFormData) => EmployeeResult;
+  onUpdateEmployee?: (id: string, formData: EmployeeFormData) => EmployeeResult;
+}
+
+const MATCH_LABELS: Record<NonNullable<SlackUserMatch['match_type']>, string> = {
+  slack_id: 'Linked',
+  email: 'Same email',
+  name: 'Same name'
+};
+
+export function SlackExportImporter({
+  employees,
+  attendanceSettings = DEFAULT_ATTENDANCE_SETTINGS,
+  onDataLoad,
+  onCreateEmployee,
+  onUpdateEmployee
+}: SlackExportImporterProps) {
+  const [slackExport, setSlackExport] = useState<SlackExport | null>(null);
+  const [channel, setChannel] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [pendingUser, setPendingUser] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    setSlackExport(null);
+    try {
+      const result = await readSlackExport(await file.arrayBuffer());
+      if (Object.keys(result.messages).length === 0) {
+        throw new Error('The export does not contain any channel messages');
+      }
+      setSlackExport(result);
+      setChannel(suggestAttendanceChannel(result) || '');
+      setRowErrors({});
+    } catch (err) {
+      setError(`Could not read the export: ${(err as Error).message}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const channelMessages = slackExport?.messages[channel] || [];
+  const matches = slackExport ? matchSlackUsers(slackExport.users, employees, channelMessages) : [];
+  const converted = convertSlackExportMessages(channelMessages, employees, attendanceSettings);
+  const dates = converted.map(message => message.date).sort();
+
+  const runEmployeeAction = async (userId: string, action: () => EmployeeResult) => {
+    setPendingUser(userId);
+    const result = await action();
+    setRowErrors(prev => ({ ...prev, [userId]: result.success ? '' : result.error || 'Failed to save employee' }));
+    setPendingUser(null);
+  };
+
+  const linkEmployee = (match: SlackUserMatch) => {
+    if (!onUpdateEmployee || !match.employee) return;
+    const employee = match.employee;
+    runEmployeeAction(match.user.id, () =>
+      onUpdateEmployee(employee.id, { ...employeeToFormData(employee), slack_user_id: match.user.id })
+    );
+  };
+
+  const createEmployee = (match: SlackUserMatch) => {
+    if (!onCreateEmployee) return;
+    if (!hourlyRate) {
+      setRowErrors(prev => ({ ...prev, [match.user.id]: 'Enter an hourly rate for new employees first' }));
+      return;
+    }
+    runEmployeeAction(match.user.id, () =>
+      onCreateEmployee(slackUserToEmployeeForm(match.user, hourlyRate, attendanceSettings.timezone))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="slack_export_file" className="block text-sm font-medium text-gray-700 mb-1">
+          Slack workspace export
+        </label>
+        <input
+          id="slack_export_file"
+          type="file"
+          accept=".zip"
+          onChange={handleFileChange}
+          className="block text-sm text-gray-700"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          The .zip from Slack's workspace export. It is read in your browser and never uploaded.
+        </p>
+      </div>
+
+      {isReading && <p className="text-sm text-gray-600">Reading export...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {slackExport && (
+        <>
+          <div>
+            <label htmlFor="slack_export_channel" className="block text-sm font-medium text-gray-700 mb-1">
+              Attendance channel
+            </label>
+            <select
+              id="slack_export_channel"
+              value={channel}
+              onChange={(e) => setChannel(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {getExportChannels(slackExport).map(option => (
+                <option key={option.name} value={option.name}>
+                  {option.is_private ? '🔒' : '#'}{option.name} ({option.message_count} messages)
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              {converted.length} messages
+              {dates.length > 0 && ` from ${dates[0]} to ${dates[dates.length - 1]}`}, dated in {attendanceSettings.timezone}
+              {' '}unless the employee has their own timezone.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">People in this channel</h3>
+              {onCreateEmployee && (
+                <label className="text-xs text-gray-600">
+                  Hourly rate for new employees{' '}
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    aria-label="Hourly rate for new employees"
+                    value={hourlyRate}
+                    onChange={(e) => setHourlyRate(e.target.value)}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </label>
+              )}
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Slack user</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Messages</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Employee</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {matches.map(match => (
+                  <tr key={match.user.id}>
+                    <td className="px-2 py-2">
+                      <div className="text-gray-900">{getSlackUserName(match.user)}</div>
+                      <div className="text-xs text-gray-500">
+                        {match.user.id}{match.user.profile?.email && ` · ${match.user.profile.email}`}
+                        {match.user.deleted && ' · deactivated'}
+                      </div>
+                    </td>
+                    <td className="px-2 py-2 text-gray-700">{match.message_count}</td>
+                    <td className="px-2 py-2">
+                      {match.employee ? (
+                        <span>
+                          {match.employee.name}
+                          <span className="text-xs text-gray-500"> · {MATCH_LABELS[match.match_type!]}</span>
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">No match</span>
+                      )}
+                      {rowErrors[match.user.id] && <p className="mt-1 text-xs text-red-600">{rowErrors[match.user.id]}</p>}
+                    </td>
+                    <td className="px-2 py-2 text-right whitespace-nowrap text-xs">
+                      {match.employee && match.match_type !== 'slack_id' && onUpdateEmployee && (
+                        <button
+                          type="button"
+                          onClick={() => linkEmployee(match)}
+                          disabled={pendingUser === match.user.id}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          Link Slack ID
+                        </button>
+                      )}
+                      {!match.employee && onCreateEmployee && (
+                        <button
+                          type="button"
+                          onClick={() => createEmployee(match)}
+                          disabled={pendingUser === match.user.id}
+                          className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                        >
+                          Create employee
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-1 text-xs text-gray-500">
+              Messages from people who are not linked to an employee by Slack ID are left out of payroll.
+            </p>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => onDataLoad(converted)}
+            disabled={converted.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Import {converted.length} Messages
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,78 @@
-import { AttendanceParseResult, ParsedAttendanceEntry, Employee } from '../../types';
+import { useState } from 'react';
+import { AttendanceParseResult, ParsedAttendanceEntry, Employee, PayrollRules, ReviewDecision, ReviewQueueItem } from '../../types';
+import { getRateChangeOnDate } from '../../utils/rateHistory';
+import { getDayRates } from '../../utils/compensation';
+import { DEFAULT_PAYROLL_RULES } from '../../utils/payrollCalculator';
+import { getUnresolvedItems } from '../../utils/reviewQueue';
+import { ReviewQueue } from './ReviewQueue';
 
 interface ParsePreviewProps {
-  result: AttendanceParseResult;
+  results: AttendanceParseResult[]; // One per day, shown as tabs
   employees: Employee[];
+  payrollRules?: PayrollRules;
   onConfirm: () => void;
   onCancel: () => void;
+  onResolveName?: (rawName: string, employeeId: string) => Promise<{ success: boolean; error?: string }>;
+  reviewQueues?: Record<string, ReviewQueueItem[]>; // By date
+  reviewDecisions?: Record<string, Record<number, ReviewDecision>>; // By date, then entry index
+  onReviewDecide?: (date: string, entryIndices: number[], decision: ReviewDecision | null) => void;
   isLoading?: boolean;
 }
 
-export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading = false }: ParsePreviewProps) {
+export function ParsePreview({
+  results,
+  employees,
+  payrollRules = DEFAULT_PAYROLL_RULES,
+  onConfirm,
+  onCancel,
+  onResolveName,
+  reviewQueues = {},
+  reviewDecisions = {},
+  onReviewDecide,
+  isLoading = false
+}: ParsePreviewProps) {
+  const [activeDate, setActiveDate] = useState(results[0]?.date);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [resolveErrors, setResolveErrors] = useState<Record<string, string>>({});
+
+  const result = results.find(day => day.date === activeDate) || results[0];
+  const reviewQueue = reviewQueues[result.date] || [];
+  const dayDecisions = reviewDecisions[result.date] || {};
+  const getUnresolvedCount = (date: string) => getUnresolvedItems(reviewQueues[date] || [], reviewDecisions[date] || {}).length;
+
+  // One row per name; ranked candidates come first in the picker, then everyone else
+  const unmatchedEntries = result.entries.filter((entry, index) =>
+    !entry.employee_id && result.entries.findIndex(other => other.raw_name === entry.raw_name) === index
+  );
+  const getChoiceOptions = (entry: ParsedAttendanceEntry) => [
+    ...entry.candidates.map(candidate => ({
+      id: candidate.employee_id,
+      label: `${candidate.employee_name} (${Math.round(candidate.score * 100)}%)`
+    })),
+    ...employees
+      .filter(emp => emp.status === 'active' && !entry.candidates.some(candidate => candidate.employee_id === emp.id))
+      .map(emp => ({ id: emp.id, label: emp.name }))
+  ];
+
+  // Nothing is imported while queued entries on any day are undecided
+  const unresolvedCount = results.reduce((sum, day) => sum + getUnresolvedCount(day.date), 0);
+  const canImport = !isLoading && unresolvedCount === 0;
+
+  const handleResolve = async (entry: ParsedAttendanceEntry) => {
+    const employeeId = choices[entry.raw_name] || entry.candidates[0]?.employee_id;
+    if (!onResolveName || !employeeId) return;
+
+    const saved = await onResolveName(entry.raw_name, employeeId);
+    setResolveErrors(prev => ({
+      ...prev,
+      [entry.raw_name]: saved.success ? '' : `Matched for this import, but not remembered: ${saved.error}`
+    }));
+  };
+
   const getStatusBadge = (status: ParsedAttendanceEntry['status']) => {
     const statusConfig = {
       check_in: { color: 'bg-green-100 text-green-800', label: 'Check In' },
+      check_out: { color: 'bg-gray-100 text-gray-800', label: 'Check Out' },
       approved_out: { color: 'bg-blue-100 text-blue-800', label: 'Approved Out' },
       work_from_home: { color: 'bg-purple-100 text-purple-800', label: 'WFH' },
       eta_delayed: { color: 'bg-yellow-100 text-yellow-800', label: 'ETA Delayed' },
@@ -45,17 +106,24 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
         if (!employee) return null;
 
         // Basic calculation for preview
-        const hoursWorked = entry.status === 'approved_out' || entry.status === 'no_show' ? 0 : 8;
+        const hoursWorked = entry.status === 'approved_out' || entry.status === 'no_show' || entry.suspected_no_show ? 0 : 8;
         const regularHours = Math.min(hoursWorked, 8);
         const overtimeHours = Math.max(hoursWorked - 8, 0);
-        const grossPay = (regularHours * employee.hourly_rate) + (overtimeHours * employee.hourly_rate * 1.5);
-        const lateDeduction = entry.is_late ? 10 : 0;
+        const rates = getDayRates(getRateChangeOnDate(employee, result.date), result.date, payrollRules);
+        const hourlyRate = rates.hourly_rate;
+        // Daily and salaried staff earn a day's rate for any day that counts as attended
+        const grossPay = rates.compensation_type === 'hourly'
+          ? (regularHours * hourlyRate) + (overtimeHours * hourlyRate * 1.5)
+          : entry.day_rate_applicable && hoursWorked > 0 ? rates.daily_rate : 0;
+        // The parser charges lateness under the tardiness policy; a no-show's deduction is a fraction of the day
+        const lateDeduction = entry.status === 'no_show' ? 0 : entry.deduction_amount;
         const offlineDeduction = entry.status === 'no_show' ? 50 : 0;
         const netPay = grossPay - lateDeduction - offlineDeduction;
 
         return {
           employee,
           entry,
+          hourlyRate,
           hoursWorked,
           regularHours,
           overtimeHours,
@@ -71,6 +139,12 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
   };
 
   const payrollPreview = calculatePayrollPreview();
+  const etaEntries = result.entries.filter(entry => entry.status === 'eta_delayed' && entry.employee_id);
+  const formatVariance = (minutes?: number) => {
+    if (minutes === undefined) return '-';
+    if (minutes === 0) return 'On time';
+    return minutes > 0 ? `${minutes}min later` : `${-minutes}min earlier`;
+  };
   const totalGrossPay = payrollPreview.reduce((sum, item) => sum + (item?.grossPay || 0), 0);
   const totalDeductions = payrollPreview.reduce((sum, item) => sum + (item?.lateDeduction || 0) + (item?.offlineDeduction || 0), 0);
   const totalNetPay = totalGrossPay - totalDeductions;
@@ -78,6 +152,32 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
   return (
     <div className="bg-white p-6 rounded-lg shadow-md">
       <h3 className="text-lg font-semibold mb-4">📊 Slack Import Preview & Payroll Impact</h3>
+
+      {results.length > 1 && (
+        <div className="flex flex-wrap border-b border-gray-200 mb-6" role="tablist">
+          {results.map(day => {
+            const pending = getUnresolvedCount(day.date);
+            return (
+              <button
+                key={day.date}
+                type="button"
+                role="tab"
+                aria-selected={day.date === result.date}
+                onClick={() => setActiveDate(day.date)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  day.date === result.date
+                    ? 'border-blue-600 text-blue-700'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {day.date}
+                <span className="ml-1 text-xs text-gray-400">({day.entries.length})</span>
+                {pending > 0 && <span className="ml-1 text-xs text-orange-600">⏳{pending}</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
       
       {/* Connection Flow Indicator */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
@@ -110,6 +210,12 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
         </div>
       </div>
 
+      {result.holiday && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 text-sm text-amber-800">
+          🎉 {result.date} is a {result.holiday.type === 'regular' ? 'regular holiday' : 'special non-working day'} ({result.holiday.name}). No-show detection is skipped.
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
         <div className="bg-green-50 p-3 rounded-lg">
@@ -123,6 +229,9 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
         <div className="bg-red-50 p-3 rounded-lg">
           <div className="text-2xl font-bold text-red-600">{result.summary.no_shows}</div>
           <div className="text-sm text-red-700">No Shows</div>
+          {result.summary.suspected_no_shows > 0 && (
+            <div className="text-xs text-red-600">+{result.summary.suspected_no_shows} suspected</div>
+          )}
         </div>
         <div className="bg-gray-50 p-3 rounded-lg">
           <div className="text-2xl font-bold text-gray-600">{result.summary.unmatched}</div>
@@ -169,11 +278,58 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
               <div className="text-sm text-yellow-700">
                 Could not match: {result.unmatched_names.join(', ')}
               </div>
+              {onResolveName && (
+                <div className="mt-3 space-y-2">
+                  <div className="text-xs text-yellow-700">
+                    Pick who each name is. The name is saved as an alias, so it matches automatically next time.
+                  </div>
+                  {unmatchedEntries.map(entry => (
+                    <div key={entry.raw_name}>
+                      <div className="flex items-center space-x-2 text-sm">
+                        <span className="w-32 font-medium text-gray-900">{entry.raw_name}</span>
+                        <select
+                          aria-label={`Employee for ${entry.raw_name}`}
+                          value={choices[entry.raw_name] || entry.candidates[0]?.employee_id || ''}
+                          onChange={(e) => setChoices(prev => ({ ...prev, [entry.raw_name]: e.target.value }))}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">Choose employee...</option>
+                          {getChoiceOptions(entry).map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(entry)}
+                          disabled={isLoading || !(choices[entry.raw_name] || entry.candidates[0])}
+                          className="px-3 py-1 bg-yellow-600 text-white rounded-md text-xs hover:bg-yellow-700 disabled:opacity-50"
+                        >
+                          Match & Remember
+                        </button>
+                      </div>
+                      {resolveErrors[entry.raw_name] && (
+                        <p className="mt-1 text-xs text-red-600">{resolveErrors[entry.raw_name]}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
       )}
 
+      {reviewQueue.length > 0 && onReviewDecide && (
+        <ReviewQueue
+          key={result.date}
+          entries={result.entries}
+          queue={reviewQueue}
+          decisions={dayDecisions}
+          employees={employees}
+          onDecide={(entryIndices, decision) => onReviewDecide(result.date, entryIndices, decision)}
+        />
+      )}
+
       {/* Input Data: Attendance Entries Table */}
       <div className="mb-6">
         <h4 className="font-medium text-gray-800 mb-3">📝 Input: Parsed Attendance Data</h4>
@@ -206,11 +362,23 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
                       {entry.raw_name}
                     </div>
                     {!entry.employee_id && (
-                      <div className="text-xs text-red-600">⚠ Not matched</div>
+                      <div className="text-xs text-red-600">
+                        {entry.is_ambiguous
+                          ? `⚠ Ambiguous: ${entry.candidates.slice(0, 3).map(candidate => `${candidate.employee_name} ${Math.round(candidate.score * 100)}%`).join(', ')}`
+                          : '⚠ Not matched'}
+                      </div>
+                    )}
+                    {entry.employee_id && entry.candidates[0]?.matched_on !== entry.candidates[0]?.employee_name && (
+                      <div className="text-xs text-gray-500">as "{entry.candidates[0].matched_on}"</div>
                     )}
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
                     {entry.check_in_time || '-'}
+                    {entry.status === 'eta_delayed' && (
+                      <div className="text-xs text-gray-400">
+                        {entry.arrival_time ? `arrived ${entry.arrival_time}` : entry.suspected_no_show ? 'no IN yet' : ''}
+                      </div>
+                    )}
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap">
                     {getStatusBadge(entry.status)}
@@ -228,6 +396,43 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
         </div>
       </div>
 
+      {/* ETA vs Actual Arrival */}
+      {etaEntries.length > 0 && (
+        <div className="mb-6">
+          <h4 className="font-medium text-gray-800 mb-3">⏱️ ETA vs Actual Arrival</h4>
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-yellow-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Posted</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ETA</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Arrived</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {etaEntries.map((entry, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-3 whitespace-nowrap font-medium text-gray-900">
+                      {employees.find(emp => emp.id === entry.employee_id)?.name || entry.raw_name}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500">{entry.check_in_time || '-'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500">{entry.eta_time || '-'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-900">
+                      {entry.arrival_time || (entry.suspected_no_show ? <span className="text-red-600">Suspected no-show</span> : '-')}
+                    </td>
+                    <td className={`px-4 py-3 whitespace-nowrap ${(entry.eta_variance_minutes || 0) > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {formatVariance(entry.eta_variance_minutes)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Output Preview: Expected Payroll Calculations */}
       <div className="mb-6">
         <h4 className="font-medium text-gray-800 mb-3">💼 Output: Expected Payroll Summary</h4>
@@ -264,14 +469,15 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
                     </div>
                     <div className="text-xs text-gray-500">
                       {item?.entry.status === 'approved_out' ? 'Approved Out' : 
-                       item?.entry.status === 'no_show' ? 'No Show' : 'Present'}
+                       item?.entry.status === 'no_show' ? 'No Show' :
+                       item?.entry.suspected_no_show ? 'Suspected No Show' : 'Present'}
                     </div>
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                     {item?.hoursWorked}h
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                    ${item?.employee.hourly_rate.toFixed(2)}
+                    ${item?.hourlyRate.toFixed(2)}
                   </td>
                   <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     ${item?.grossPay.toFixed(2)}
@@ -305,10 +511,23 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
         </div>
       )}
 
+      {result.suspected_no_show_employees.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-6">
+          <h4 className="font-medium text-orange-800 mb-2">❓ Suspected No Shows (ETA Posted, No IN)</h4>
+          <div className="text-sm text-orange-700">
+            {result.suspected_no_show_employees.join(', ')}
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex justify-between items-center">
         <div className="text-sm text-gray-600">
-          ✨ Import this data to automatically generate detailed payroll summaries
+          {unresolvedCount > 0
+            ? `⏳ Review ${unresolvedCount} queued ${unresolvedCount === 1 ? 'entry' : 'entries'} to import`
+            : results.length > 1
+              ? `✨ Import all ${results.length} days to automatically generate detailed payroll summaries`
+              : '✨ Import this data to automatically generate detailed payroll summaries'}
         </div>
         <div className="flex space-x-4">
           <button
@@ -320,9 +539,9 @@ export function ParsePreview({ result, employees, onConfirm, onCancel, isLoading
           </button>
           <button
             onClick={onConfirm}
-            disabled={isLoading || result.parsing_errors.length > 0}
+            disabled={!canImport}
             className={`px-6 py-2 rounded-md text-sm font-medium ${
-              isLoading || result.parsing_errors.length > 0
+              !canImport
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 : 'bg-gradient-to-r from-blue-600 to-green-600 text-white hover:from-blue-700 hover:to-green-700'
             }`}
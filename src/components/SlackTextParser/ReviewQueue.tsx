@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { Employee, ParsedAttendanceEntry, ReviewDecision, ReviewQueueItem } from '../../types';
+import { REVIEW_ACTION_LABELS, REVIEW_REASON_LABELS, validateReviewDecision } from '../../utils/reviewQueue';
+import { ATTENDANCE_STATUS_LABELS } from '../../utils/vocabulary';
+import { getArrivalTime } from '../../utils/slackAttendanceParser';
+
+interface ReviewQueueProps {
+  entries: ParsedAttendanceEntry[];
+  queue: ReviewQueueItem[];
+  decisions: Record<number, ReviewDecision>;
+  employees: Employee[];
+  onDecide: (entryIndices: number[], decision: ReviewDecision | null) => void;
+}
+
+export function ReviewQueue({ entries, queue, decisions, employees, onDecide }: ReviewQueueProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, { employee_id?: string; check_in_time?: string }>>({});
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  const [bulkEmployeeId, setBulkEmployeeId] = useState('');
+
+  // A re-parse can reorder entries, so anything keyed by the old indices is dropped
+  useEffect(() => {
+    setSelected([]);
+    setDrafts({});
+    setRowErrors({});
+  }, [entries]);
+
+  const activeEmployees = employees.filter(emp => emp.status === 'active');
+  const getEmployeeName = (id?: string) => employees.find(emp => emp.id === id)?.name || 'Unknown';
+  const pending = queue.filter(item => !decisions[item.entry_index]);
+  const selectedPending = selected.filter(index => !decisions[index]);
+
+  // Applies one decision to several entries; entries it does not suit keep waiting with an error
+  const decide = (indices: number[], decision: ReviewDecision) => {
+    const errors: Record<number, string> = {};
+    const accepted = indices.filter(index => {
+      const error = validateReviewDecision(entries[index], decision);
+      if (error) errors[index] = error;
+      return !error;
+    });
+
+    setRowErrors(prev => {
+      const next = { ...prev, ...errors };
+      accepted.forEach(index => delete next[index]);
+      return next;
+    });
+    if (accepted.length > 0) {
+      onDecide(accepted, decision);
+      setSelected(prev => prev.filter(index => !accepted.includes(index)));
+    }
+  };
+
+  const updateDraft = (index: number, changes: { employee_id?: string; check_in_time?: string }) => {
+    setDrafts(prev => ({ ...prev, [index]: { ...prev[index], ...changes } }));
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => (prev.includes(index) ? prev.filter(other => other !== index) : [...prev, index]));
+  };
+
+  const describeDecision = (index: number, decision: ReviewDecision) => {
+    switch (decision.action) {
+      case 'reassign':
+        return `Reassigned to ${getEmployeeName(decision.employee_id)}`;
+      case 'correct_time':
+        return `Time corrected to ${decision.check_in_time}`;
+      case 'discard':
+        return 'Discarded, kept out of payroll';
+      default:
+        return `Accepted as ${getEmployeeName(entries[index].employee_id)}`;
+    }
+  };
+
+  return (
+    <div className="border border-orange-200 rounded-lg mb-6">
+      <div className="bg-orange-50 px-4 py-3 rounded-t-lg flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="font-medium text-orange-800">🧐 Review Queue</h4>
+          <div className="text-xs text-orange-700">
+            {pending.length > 0
+              ? `${pending.length} of ${queue.length} entries need a decision before anything is imported`
+              : `All ${queue.length} entries reviewed`}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => setSelected(pending.map(item => item.entry_index))}
+            className="text-orange-700 hover:text-orange-900"
+          >
+            Select all pending
+          </button>
+          <button
+            type="button"
+            onClick={() => decide(selectedPending, { action: 'accept' })}
+            disabled={selectedPending.length === 0}
+            className="px-2 py-1 bg-green-600 text-white rounded disabled:opacity-50"
+          >
+            Accept selected
+          </button>
+          <select
+            aria-label="Reassign selected to"
+            value={bulkEmployeeId}
+            onChange={(e) => setBulkEmployeeId(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="">Reassign selected to...</option>
+            {activeEmployees.map(emp => (
+              <option key={emp.id} value={emp.id}>{emp.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => decide(selectedPending, { action: 'reassign', employee_id: bulkEmployeeId })}
+            disabled={selectedPending.length === 0 || !bulkEmployeeId}
+            className="px-2 py-1 bg-blue-600 text-white rounded disabled:opacity-50"
+          >
+            Reassign
+          </button>
+          <button
+            type="button"
+            onClick={() => decide(selectedPending, { action: 'discard' })}
+            disabled={selectedPending.length === 0}
+            className="px-2 py-1 bg-red-600 text-white rounded disabled:opacity-50"
+          >
+            Discard selected
+          </button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {queue.map(item => {
+          const index = item.entry_index;
+          const entry = entries[index];
+          const decision = decisions[index];
+          const draft = drafts[index] || {};
+
+          return (
+            <div key={index} className={`px-4 py-3 text-sm ${decision ? 'bg-gray-50' : ''}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="checkbox"
+                  aria-label={`Select ${entry.raw_name}`}
+                  checked={selected.includes(index)}
+                  disabled={!!decision}
+                  onChange={() => toggleSelected(index)}
+                />
+                <div className="w-48">
+                  <div className="font-medium text-gray-900">{entry.raw_name}</div>
+                  <div className="text-xs text-gray-500">
+                    {entry.employee_id
+                      ? `${getEmployeeName(entry.employee_id)} · ${Math.round(entry.confidence_score * 100)}%`
+                      : 'No employee'}
+                    {' · '}{entry.check_in_time || 'no time'}{' · '}{ATTENDANCE_STATUS_LABELS[entry.status]}
+                    {entry.eta_time && ` ${entry.eta_time}`}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {item.reasons.map(reason => (
+                    <span key={reason} className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">
+                      {REVIEW_REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+
+                {decision ? (
+                  <div className="ml-auto flex items-center gap-3 text-xs">
+                    <span className="text-green-700">✓ {describeDecision(index, decision)}</span>
+                    <button type="button" onClick={() => onDecide([index], null)} className="text-gray-600 hover:text-gray-900">
+                      Undo
+                    </button>
+                  </div>
+                ) : (
+                  <div className="ml-auto flex flex-wrap items-center gap-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => decide([index], { action: 'accept' })}
+                      disabled={!entry.employee_id}
+                      className="px-2 py-1 border border-green-600 text-green-700 rounded disabled:opacity-40"
+                    >
+                      {REVIEW_ACTION_LABELS.accept}
+                    </button>
+                    <select
+                      aria-label={`Reassign ${entry.raw_name}`}
+                      value={draft.employee_id || ''}
+                      onChange={(e) => updateDraft(index, { employee_id: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      <option value="">Employee...</option>
+                      {activeEmployees.map(emp => (
+                        <option key={emp.id} value={emp.id}>{emp.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => decide([index], { action: 'reassign', employee_id: draft.employee_id })}
+                      className="px-2 py-1 border border-blue-600 text-blue-700 rounded"
+                    >
+                      {REVIEW_ACTION_LABELS.reassign}
+                    </button>
+                    <input
+                      type="text"
+                      aria-label={`Corrected time for ${entry.raw_name}`}
+                      value={draft.check_in_time ?? getArrivalTime(entry) ?? ''}
+                      onChange={(e) => updateDraft(index, { check_in_time: e.target.value })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      placeholder="9:40 AM"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => decide([index], { action: 'correct_time', check_in_time: (draft.check_in_time ?? getArrivalTime(entry) ?? '').trim() })}
+                      className="px-2 py-1 border border-gray-600 text-gray-700 rounded"
+                    >
+                      {REVIEW_ACTION_LABELS.correct_time}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => decide([index], { action: 'discard' })}
+                      className="px-2 py-1 border border-red-600 text-red-700 rounded"
+                    >
+                      {REVIEW_ACTION_LABELS.discard}
+                    </button>
+                  </div>
+                )}
+              </div>
+              {rowErrors[index] && <p className="mt-1 text-xs text-red-600">{rowErrors[index]}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
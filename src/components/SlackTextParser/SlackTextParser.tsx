@@ -1,19 +1,63 @@
 import { useState, useRef } from 'react';
-import { Employee, AttendanceParseResult, SlackMessage } from '../../types';
-import { SlackAttendanceTextParser } from '../../utils/slackAttendanceParser';
+import {
+  Employee,
+  AttendanceParseResult,
+  AttendanceReviewRecord,
+  SlackMessage,
+  Holiday,
+  AttendanceSettings,
+  LeaveRequest,
+  PayrollRules,
+  ReviewDecision,
+  ReviewQueueItem,
+  TardinessPolicy,
+  VocabularyEntry
+} from '../../types';
+import { getArrivalTime, SlackAttendanceTextParser } from '../../utils/slackAttendanceParser';
+import { DEFAULT_ATTENDANCE_SETTINGS, getClockTimeInstant } from '../../utils/attendanceSettings';
 import { ParsePreview } from './ParsePreview';
+import { ATTENDANCE_STATUS_LABELS, DEFAULT_VOCABULARY, getMessageMarker, VOCABULARY_STATUSES } from '../../utils/vocabulary';
+import { applyReviewDecisions, buildReviewQueue, createReviewRecords, REVIEW_ACTION_LABELS } from '../../utils/reviewQueue';
+import { flagMissingLeaveRequests } from '../../utils/leave';
+import { DEFAULT_PAYROLL_RULES } from '../../utils/payrollCalculator';
 
 interface SlackTextParserProps {
   employees: Employee[];
+  holidays?: Holiday[];
+  attendanceSettings?: AttendanceSettings;
+  tardiness?: TardinessPolicy;
+  payrollRules?: PayrollRules;
+  vocabulary?: VocabularyEntry[];
   onDataLoad: (messages: SlackMessage[]) => void;
+  onAddAlias?: (employeeId: string, alias: string) => Promise<{ success: boolean; error?: string }>;
+  onRecordReviews?: (records: AttendanceReviewRecord[]) => Promise<{ success: boolean; error?: string }>;
+  reviewHistory?: AttendanceReviewRecord[];
+  leaveRequests?: LeaveRequest[];
 }
 
-export function SlackTextParser({ employees, onDataLoad }: SlackTextParserProps) {
+export function SlackTextParser({
+  employees,
+  holidays = [],
+  attendanceSettings = DEFAULT_ATTENDANCE_SETTINGS,
+  tardiness,
+  payrollRules = DEFAULT_PAYROLL_RULES,
+  vocabulary = DEFAULT_VOCABULARY,
+  onDataLoad,
+  onAddAlias,
+  onRecordReviews,
+  reviewHistory = [],
+  leaveRequests = []
+}: SlackTextParserProps) {
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
   const [slackText, setSlackText] = useState('');
-  const [parseResult, setParseResult] = useState<AttendanceParseResult | null>(null);
+  // One result per day in the paste
+  const [parseResults, setParseResults] = useState<AttendanceParseResult[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Names matched by hand in the preview, applied to this import even if saving the alias failed
+  const [resolvedAliases, setResolvedAliases] = useState<Record<string, string[]>>({});
+  // Review queue decisions by date, then entry index
+  const [reviewDecisions, setReviewDecisions] = useState<Record<string, Record<number, ReviewDecision>>>({});
 
   const sampleSlackText = `start date 6/10/25
 
@@ -53,9 +97,9 @@ in`;
     setError(null);
 
     try {
-      const parser = new SlackAttendanceTextParser(employees);
-      const result = parser.parseSlackText(slackText);
-      setParseResult(result);
+      setResolvedAliases({});
+      setReviewDecisions({});
+      setParseResults(parseWithAliases({}));
     } catch (err) {
       setError('Error parsing Slack text: ' + (err as Error).message);
     } finally {
@@ -63,32 +107,108 @@ in`;
     }
   };
 
-  const handleConfirmImport = () => {
-    if (!parseResult) return;
+  const createParser = (aliases: Record<string, string[]>) => {
+    const parserEmployees = employees.map(emp =>
+      aliases[emp.id] ? { ...emp, aliases: [...(emp.aliases || []), ...aliases[emp.id]] } : emp
+    );
+    return new SlackAttendanceTextParser(parserEmployees, attendanceSettings, holidays, tardiness, vocabulary, payrollRules);
+  };
+
+  // "Approved out" entries no approved leave request covers go to the review queue
+  const parseWithAliases = (aliases: Record<string, string[]>) =>
+    flagMissingLeaveRequests(createParser(aliases).parseSlackTextByDay(slackText), leaveRequests);
+
+  const reviewQueues: Record<string, ReviewQueueItem[]> = Object.fromEntries(
+    (parseResults || []).map(result => [result.date, buildReviewQueue(result.entries, attendanceSettings.review_confidence_threshold)])
+  );
+
+  const handleReviewDecide = (date: string, entryIndices: number[], decision: ReviewDecision | null) => {
+    setReviewDecisions(prev => {
+      const next = { ...prev[date] };
+      entryIndices.forEach(index => {
+        if (decision) {
+          next[index] = decision;
+        } else {
+          delete next[index];
+        }
+      });
+      return { ...prev, [date]: next };
+    });
+  };
+
+  const handleResolveName = async (rawName: string, employeeId: string) => {
+    const saved = onAddAlias ? await onAddAlias(employeeId, rawName) : { success: true };
+    const aliases = { ...resolvedAliases, [employeeId]: [...(resolvedAliases[employeeId] || []), rawName] };
+
+    // Decisions are keyed by entry index, which a re-parse can shift, so they start over
+    setResolvedAliases(aliases);
+    setReviewDecisions({});
+    setParseResults(parseWithAliases(aliases));
+    return saved;
+  };
+
+  const handleConfirmImport = async () => {
+    if (!parseResults) return;
+
+    setError(null);
+    const parser = createParser(resolvedAliases);
+    let days: { date: string; entries: AttendanceParseResult['entries'] }[];
+    try {
+      days = parseResults.map(result => ({
+        date: result.date,
+        entries: applyReviewDecisions(result.entries, reviewQueues[result.date], reviewDecisions[result.date] || {}, (entry, changes) =>
+          parser.reviseEntry(entry, result.date, changes)
+        )
+      }));
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+
+    // Decisions are recorded before anything reaches payroll
+    const records = parseResults.flatMap(result =>
+      createReviewRecords(result.date, result.entries, reviewQueues[result.date], reviewDecisions[result.date] || {})
+    );
+    if (records.length > 0 && onRecordReviews) {
+      setIsLoading(true);
+      const saved = await onRecordReviews(records);
+      setIsLoading(false);
+      if (!saved.success) {
+        setError(`Review decisions could not be recorded, so nothing was imported: ${saved.error}`);
+        return;
+      }
+    }
 
     // Convert parsed attendance to SlackMessage format for compatibility
-    const messages: SlackMessage[] = parseResult.entries
-      .filter(entry => entry.employee_id && entry.check_in_time)
-      .map(entry => {
+    // An ETA checks in at the arrival it was reconciled with, and not at all if nobody arrived.
+    // Approved outs are paid from their leave request, not as a day worked.
+    const messages: SlackMessage[] = days.flatMap(({ date, entries }) => entries
+      .filter(entry => entry.employee_id && entry.status !== 'approved_out' && getArrivalTime(entry))
+      .flatMap(entry => {
         // Find employee to get slack_user_id
         const employee = employees.find(emp => emp.id === entry.employee_id);
-        const checkInTime = new Date(`${parseResult.date} ${entry.check_in_time}`);
+        const checkInTime = getClockTimeInstant(date, getArrivalTime(entry)!, employee, attendanceSettings);
+        if (!checkInTime) return [];
         
-        return {
+        return [{
           user: employee?.slack_user_id || `unknown_${entry.employee_id}`,
-          text: `:in: ${entry.status === 'work_from_home' ? 'WFH' : 'IN'}`,
+          text: entry.status === 'check_out'
+            ? getMessageMarker('check_out', vocabulary)
+            : `${getMessageMarker('check_in', vocabulary)} ${entry.status === 'work_from_home' ? 'WFH' : 'IN'}`,
           ts: (checkInTime.getTime() / 1000).toString(),
-          date: parseResult.date
-        };
-      });
+          date
+        }];
+      }));
 
     onDataLoad(messages);
-    setParseResult(null);
+    setParseResults(null);
+    setReviewDecisions({});
     setSlackText('');
   };
 
   const handleCancel = () => {
-    setParseResult(null);
+    setParseResults(null);
+    setReviewDecisions({});
     setError(null);
   };
 
@@ -97,15 +217,27 @@ in`;
     setError(null);
   };
 
-  if (parseResult) {
+  if (parseResults) {
     return (
-      <ParsePreview
-        result={parseResult}
-        employees={employees}
-        onConfirm={handleConfirmImport}
-        onCancel={handleCancel}
-        isLoading={isLoading}
-      />
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="text-red-800 text-sm">{error}</div>
+          </div>
+        )}
+        <ParsePreview
+          results={parseResults}
+          employees={employees}
+          payrollRules={payrollRules}
+          onConfirm={handleConfirmImport}
+          onCancel={handleCancel}
+          onResolveName={handleResolveName}
+          reviewQueues={reviewQueues}
+          reviewDecisions={reviewDecisions}
+          onReviewDecide={handleReviewDecide}
+          isLoading={isLoading}
+        />
+      </div>
     );
   }
 
@@ -139,7 +271,10 @@ OUT - JSP Approved
 
 Someone Else
   9:55 AM
-ETA 10:15 with team`}
+ETA 10:15 with team
+
+A week at once works too: each "start date" header or
+Slack day divider ("Yesterday", "Monday, June 9th") starts a new day.`}
         className="w-full h-64 p-3 border border-gray-300 rounded-md resize-vertical font-mono text-sm"
       />
 
@@ -167,13 +302,34 @@ ETA 10:15 with team`}
         </button>
       </div>
 
+      {reviewHistory.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-800 mb-2">Recent Review Decisions</h4>
+          <div className="text-sm text-gray-700 space-y-1">
+            {reviewHistory.slice(0, 5).map(record => (
+              <div key={record.id}>
+                • {record.attendance_date} · "{record.raw_name}" · {REVIEW_ACTION_LABELS[record.action]}
+                {record.employee_id && ` → ${employees.find(emp => emp.id === record.employee_id)?.name || 'Unknown'}`}
+                {record.action === 'correct_time' && ` at ${record.check_in_time}`}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-blue-800 mb-2">Supported Status Types</h4>
         <div className="text-sm text-blue-700 space-y-1">
-          <div>• <strong>Check-in:</strong> "IN", "in", "In"</div>
-          <div>• <strong>Approved Out:</strong> "OUT - JSP Approved", "Approved Leave"</div>
-          <div>• <strong>Work from Home:</strong> "WFH", "Work from Home"</div>
-          <div>• <strong>ETA Delayed:</strong> "ETA 9:55 with team"</div>
+          {VOCABULARY_STATUSES.map(status => {
+            const patterns = vocabulary.filter(entry => entry.status === status && entry.scope !== 'slack_messages');
+            if (patterns.length === 0) return null;
+            return (
+              <div key={status}>
+                • <strong>{ATTENDANCE_STATUS_LABELS[status]}:</strong> {patterns.map(entry => `"${entry.pattern}"`).join(', ')}
+              </div>
+            );
+          })}
+          <div className="text-xs text-blue-600 pt-1">Edit these patterns under Settings → Attendance Vocabulary.</div>
         </div>
       </div>
     </div>
@@ -0,0 +1,47 @@
+import { Employee } from '../../types';
+import { formatCompensation } from '../../utils/compensation';
+import { getRateHistory } from '../../utils/rateHistory';
+import { toDateKey } from '../../utils/timezone';
+
+interface RateTimelineProps {
+  employee: Employee;
+}
+
+export function RateTimeline({ employee }: RateTimelineProps) {
+  const history = getRateHistory(employee);
+  const today = toDateKey(new Date());
+  // The change currently in effect is the latest one not dated in the future
+  const currentIndex = history.reduce((index, change, i) => (change.effective_from <= today ? i : index), 0);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Rate Timeline</h4>
+      <ol className="border-l-2 border-gray-200 space-y-3 ml-1">
+        {history.map((change, i) => ({ change, i })).reverse().map(({ change, i }) => (
+          <li key={`${change.effective_from}-${i}`} className="ml-4 relative">
+            <span
+              className={`absolute -left-[1.4rem] top-1.5 w-2.5 h-2.5 rounded-full ${
+                i === currentIndex ? 'bg-blue-600' : change.effective_from > today ? 'bg-yellow-400' : 'bg-gray-300'
+              }`}
+            />
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm font-medium text-gray-900">
+                {formatCompensation(change.compensation_type || 'hourly', change.rate)}
+                {i === currentIndex && <span className="ml-2 text-xs text-blue-600">current</span>}
+                {change.effective_from > today && <span className="ml-2 text-xs text-yellow-700">scheduled</span>}
+              </span>
+              <span className="text-xs text-gray-500">from {change.effective_from}</span>
+            </div>
+            {(change.reason || change.changed_by) && (
+              <div className="text-xs text-gray-500">
+                {change.reason}
+                {change.reason && change.changed_by && ' · '}
+                {change.changed_by && `by ${change.changed_by}`}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
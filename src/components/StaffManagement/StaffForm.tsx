@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
-import { Employee, EmployeeFormData } from '../../types';
+import { CompensationType, Employee, EmployeeFormData } from '../../types';
 import { validateEmployee, createEmployeeFromForm, employeeToFormData } from '../../utils/employeeManager';
+import {
+  COMPENSATION_TYPE_LABELS,
+  getCompensationRate,
+  getCompensationType,
+  getFormCompensation
+} from '../../utils/compensation';
+import { RateTimeline } from './RateTimeline';
 
 interface StaffFormProps {
   employee?: Employee | null;
@@ -9,6 +16,12 @@ interface StaffFormProps {
   onCancel: () => void;
 }
 
+const RATE_FIELDS: Record<CompensationType, { name: 'hourly_rate' | 'daily_rate' | 'monthly_salary'; label: string; placeholder: string }> = {
+  hourly: { name: 'hourly_rate', label: 'Hourly Rate', placeholder: '25.00' },
+  daily: { name: 'daily_rate', label: 'Daily Rate', placeholder: '800.00' },
+  salaried: { name: 'monthly_salary', label: 'Monthly Salary', placeholder: '30000.00' }
+};
+
 export function StaffForm({ employee, employees, onSave, onCancel }: StaffFormProps) {
   const [formData, setFormData] = useState<EmployeeFormData>({
     name: '',
@@ -23,6 +36,12 @@ export function StaffForm({ employee, employees, onSave, onCancel }: StaffFormPr
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
   const isEditing = !!employee;
+  const compensationType = formData.compensation_type || 'hourly';
+  const rateField = RATE_FIELDS[compensationType];
+  const formCompensation = getFormCompensation(formData);
+  const rateChanged = isEditing && (
+    formCompensation.type !== getCompensationType(employee) || formCompensation.rate !== getCompensationRate(employee)
+  );
 
   // Load employee data for editing
   useEffect(() => {
@@ -64,7 +83,7 @@ export function StaffForm({ employee, employees, onSave, onCancel }: StaffFormPr
         return;
       }
 
-      const employeeData = createEmployeeFromForm(formData, employee?.id);
+      const employeeData = createEmployeeFromForm(formData, employee?.id, employee || undefined);
       onSave(employeeData);
       setHasUnsavedChanges(false);
     } catch (error) {
@@ -159,33 +178,207 @@ export function StaffForm({ employee, employees, onSave, onCancel }: StaffFormPr
         {errors.slack_user_id && <p className="mt-1 text-sm text-red-600">{errors.slack_user_id}</p>}
       </div>
 
-      {/* Hourly Rate Field */}
+      {/* Hire Date Field */}
+      <div>
+        <label htmlFor="hire_date" className="block text-sm font-medium text-gray-700 mb-1">
+          Hire Date (Optional)
+        </label>
+        <input
+          type="date"
+          id="hire_date"
+          value={formData.hire_date || ''}
+          onChange={(e) => handleInputChange('hire_date', e.target.value)}
+          className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+            errors.hire_date ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+          }`}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Leave accrues from this date; blank uses the date the employee was added
+        </p>
+        {errors.hire_date && <p className="mt-1 text-sm text-red-600">{errors.hire_date}</p>}
+      </div>
+
+      {/* Aliases Field */}
       <div>
-        <label htmlFor="hourly_rate" className="block text-sm font-medium text-gray-700 mb-1">
-          Hourly Rate *
+        <label htmlFor="aliases" className="block text-sm font-medium text-gray-700 mb-1">
+          Aliases (Optional)
         </label>
-        <div className="relative">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <span className="text-gray-500 sm:text-sm">$</span>
+        <input
+          type="text"
+          id="aliases"
+          value={formData.aliases || ''}
+          onChange={(e) => handleInputChange('aliases', e.target.value)}
+          className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+            errors.aliases ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+          }`}
+          placeholder="Jigs, JL"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Nicknames used in pasted Slack attendance, separated by commas
+        </p>
+        {errors.aliases && <p className="mt-1 text-sm text-red-600">{errors.aliases}</p>}
+      </div>
+
+      {/* Compensation Fields */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="compensation_type" className="block text-sm font-medium text-gray-700 mb-1">
+            Pay Type *
+          </label>
+          <select
+            id="compensation_type"
+            value={compensationType}
+            onChange={(e) => handleInputChange('compensation_type', e.target.value)}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {(Object.keys(COMPENSATION_TYPE_LABELS) as CompensationType[]).map(type => (
+              <option key={type} value={type}>{COMPENSATION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor={rateField.name} className="block text-sm font-medium text-gray-700 mb-1">
+            {rateField.label} *
+          </label>
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <span className="text-gray-500 sm:text-sm">$</span>
+            </div>
+            <input
+              type="number"
+              id={rateField.name}
+              value={formData[rateField.name] || ''}
+              onChange={(e) => handleInputChange(rateField.name, e.target.value)}
+              className={`block w-full pl-7 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+                errors[rateField.name] ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+              }`}
+              placeholder={rateField.placeholder}
+              min="0.01"
+              step="0.01"
+              required
+            />
           </div>
-          <input
-            type="number"
-            id="hourly_rate"
-            value={formData.hourly_rate}
-            onChange={(e) => handleInputChange('hourly_rate', e.target.value)}
-            className={`block w-full pl-7 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
-              errors.hourly_rate ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
-            }`}
-            placeholder="25.00"
-            min="0.01"
-            max="999.99"
-            step="0.01"
-            required
-          />
+          {errors[rateField.name] && <p className="mt-1 text-sm text-red-600">{errors[rateField.name]}</p>}
         </div>
-        {errors.hourly_rate && <p className="mt-1 text-sm text-red-600">{errors.hourly_rate}</p>}
       </div>
 
+      {/* Rate Change Details */}
+      {rateChanged && (
+        <fieldset className="border border-blue-200 bg-blue-50 rounded-md p-4">
+          <legend className="px-1 text-sm font-medium text-gray-700">Rate Change</legend>
+          <p className="text-xs text-gray-500 mb-3">
+            Attendance before the effective date keeps the previous rate
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="rate_effective_from" className="block text-xs font-medium text-gray-700 mb-1">
+                Effective From
+              </label>
+              <input
+                type="date"
+                id="rate_effective_from"
+                value={formData.rate_effective_from || ''}
+                onChange={(e) => handleInputChange('rate_effective_from', e.target.value)}
+                className={`block w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500 ${
+                  errors.rate_effective_from ? 'border-red-300' : ''
+                }`}
+              />
+              {errors.rate_effective_from && <p className="mt-1 text-xs text-red-600">{errors.rate_effective_from}</p>}
+            </div>
+            <div>
+              <label htmlFor="rate_change_reason" className="block text-xs font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <input
+                type="text"
+                id="rate_change_reason"
+                value={formData.rate_change_reason || ''}
+                onChange={(e) => handleInputChange('rate_change_reason', e.target.value)}
+                className={`block w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500 ${
+                  errors.rate_change_reason ? 'border-red-300' : ''
+                }`}
+                placeholder="Annual raise"
+              />
+              {errors.rate_change_reason && <p className="mt-1 text-xs text-red-600">{errors.rate_change_reason}</p>}
+            </div>
+            <div>
+              <label htmlFor="rate_changed_by" className="block text-xs font-medium text-gray-700 mb-1">
+                Changed By
+              </label>
+              <input
+                type="text"
+                id="rate_changed_by"
+                value={formData.rate_changed_by || ''}
+                onChange={(e) => handleInputChange('rate_changed_by', e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Your name"
+              />
+            </div>
+          </div>
+        </fieldset>
+      )}
+
+      {isEditing && employee && <RateTimeline employee={employee} />}
+
+      {/* Attendance Overrides */}
+      <fieldset className="border border-gray-200 rounded-md p-4">
+        <legend className="px-1 text-sm font-medium text-gray-700">Attendance Overrides (Optional)</legend>
+        <p className="text-xs text-gray-500 mb-3">Leave blank to use the workspace attendance settings</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="start_time" className="block text-xs font-medium text-gray-700 mb-1">
+              Start Time
+            </label>
+            <input
+              type="text"
+              id="start_time"
+              value={formData.start_time || ''}
+              onChange={(e) => handleInputChange('start_time', e.target.value)}
+              className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+                errors.start_time ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+              }`}
+              placeholder="9:00 AM"
+            />
+            {errors.start_time && <p className="mt-1 text-sm text-red-600">{errors.start_time}</p>}
+          </div>
+          <div>
+            <label htmlFor="timezone" className="block text-xs font-medium text-gray-700 mb-1">
+              Timezone
+            </label>
+            <input
+              type="text"
+              id="timezone"
+              value={formData.timezone || ''}
+              onChange={(e) => handleInputChange('timezone', e.target.value)}
+              className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+                errors.timezone ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+              }`}
+              placeholder="Asia/Manila"
+            />
+            {errors.timezone && <p className="mt-1 text-sm text-red-600">{errors.timezone}</p>}
+          </div>
+          <div>
+            <label htmlFor="grace_period_minutes" className="block text-xs font-medium text-gray-700 mb-1">
+              Grace Period (min)
+            </label>
+            <input
+              type="number"
+              id="grace_period_minutes"
+              value={formData.grace_period_minutes || ''}
+              onChange={(e) => handleInputChange('grace_period_minutes', e.target.value)}
+              className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
+                errors.grace_period_minutes ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+              }`}
+              placeholder="5"
+              min="0"
+              max="240"
+            />
+            {errors.grace_period_minutes && <p className="mt-1 text-sm text-red-600">{errors.grace_period_minutes}</p>}
+          </div>
+        </div>
+      </fieldset>
+
       {/* Notes Field */}
       <div>
         <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
@@ -13,8 +13,14 @@ import { StaffTable } from './StaffTable';
 import { StaffModal } from './StaffModal';
 import { StaffSearch } from './StaffSearch';
 import { StaffStats } from './StaffStats';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../../utils/attendanceSettings';
+import { getZonedDateString } from '../../utils/timezone';
 
-export function StaffManagement() {
+interface StaffManagementProps {
+  onEmployeeDeactivated?: (employee: Employee) => void; // Opens the final pay template
+}
+
+export function StaffManagement({ onEmployeeDeactivated }: StaffManagementProps = {}) {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [filteredEmployees, setFilteredEmployees] = useState<Employee[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -117,12 +123,18 @@ export function StaffManagement() {
   };
 
   const handleDeleteEmployee = async (employee: Employee) => {
-    const confirmMessage = `Are you sure you want to remove ${employee.name}?\n\nThis will mark them as inactive and they won't appear in future payroll calculations.`;
+    const confirmMessage = `Are you sure you want to remove ${employee.name}?\n\nThis will mark them as inactive and they won't appear in future payroll calculations.${onEmployeeDeactivated ? ' You can then prepare their final pay.' : ''}`;
     
     if (window.confirm(confirmMessage)) {
       try {
-        const updatedEmployees = deleteEmployee(employee.id, employees);
+        const separationDate = getZonedDateString(new Date(), DEFAULT_ATTENDANCE_SETTINGS.timezone);
+        const updatedEmployees = deleteEmployee(employee.id, employees, separationDate);
         setEmployees(updatedEmployees);
+
+        const deactivated = updatedEmployees.find(emp => emp.id === employee.id);
+        if (deactivated) {
+          onEmployeeDeactivated?.(deactivated);
+        }
       } catch (err) {
         console.error('Error deleting employee:', err);
         setError('Failed to delete employee');
@@ -1,4 +1,5 @@
 import { Employee } from '../../types';
+import { COMPENSATION_TYPE_LABELS, formatCompensation, getCompensationRate, getCompensationType } from '../../utils/compensation';
 
 interface StaffTableProps {
   employees: Employee[];
@@ -17,8 +18,6 @@ export function StaffTable({
   onEdit, 
   onDelete 
 }: StaffTableProps) {
-  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
-  
   const getSortIcon = (column: keyof Employee) => {
     if (sortBy !== column) {
       return (
@@ -91,7 +90,7 @@ export function StaffTable({
                 onClick={() => onSort('hourly_rate')}
               >
                 <div className="flex items-center space-x-1">
-                  <span>Hourly Rate</span>
+                  <span>Pay Rate</span>
                   {getSortIcon('hourly_rate')}
                 </div>
               </th>
@@ -134,7 +133,10 @@ export function StaffTable({
                   <div className="text-sm text-gray-900 font-mono">{employee.slack_user_id}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm font-medium text-gray-900">{formatCurrency(employee.hourly_rate)}</div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {formatCompensation(getCompensationType(employee), getCompensationRate(employee))}
+                  </div>
+                  <div className="text-xs text-gray-500">{COMPENSATION_TYPE_LABELS[getCompensationType(employee)]}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
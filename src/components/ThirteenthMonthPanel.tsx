@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { AttendanceSettings, Employee, PayrollRules } from '../types';
+import { UsePayrollRunsActions, UsePayrollRunsState } from '../hooks/usePayrollRuns';
+import { buildThirteenthMonthSummaries, exportThirteenthMonthCSV, getThirteenthMonthAccruals } from '../utils/thirteenthMonth';
+import { errorService } from '../services/errorService';
+
+interface ThirteenthMonthPanelProps {
+  employees: Employee[];
+  attendanceSettings: AttendanceSettings;
+  payrollRules: PayrollRules;
+  payrollRuns: UsePayrollRunsState & UsePayrollRunsActions;
+}
+
+export function ThirteenthMonthPanel({ employees, attendanceSettings, payrollRules, payrollRuns }: ThirteenthMonthPanelProps) {
+  const [year, setYear] = useState(new Date().getFullYear());
+
+  const accruals = getThirteenthMonthAccruals(employees, payrollRuns.runs, year);
+  const totalBalance = accruals.reduce((sum, accrual) => sum + accrual.balance, 0);
+  // A second draft would pay the same balances twice
+  const pendingPayout = payrollRuns.runs.find(
+    run => run.kind === 'thirteenth_month' && run.status === 'draft' && run.start.startsWith(`${year}-`)
+  );
+
+  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+  const handleExport = () => {
+    if (accruals.length === 0) {
+      errorService.handleError('No 13th month data to export', 'EXPORT', 'warning');
+      return;
+    }
+
+    const blob = new Blob([exportThirteenthMonthCSV(accruals)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `13th-month-${year}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCreatePayout = async () => {
+    const summaries = buildThirteenthMonthSummaries(accruals, employees, year);
+    if (!window.confirm(`Create a draft 13th month payout of ${formatCurrency(totalBalance)} for ${summaries.length} employee(s)?`)) {
+      return;
+    }
+
+    const employeeIds = summaries.map(summary => summary.employee.id);
+    await payrollRuns.createRun(
+      { start: `${year}-01-01`, end: `${year}-12-31` },
+      summaries,
+      {
+        employees: summaries.map(summary => summary.employee),
+        attendance_logs: [],
+        holidays: [],
+        rules: payrollRules,
+        attendance_settings: attendanceSettings
+      },
+      { kind: 'thirteenth_month', label: `13th month pay ${year}`, employee_ids: employeeIds }
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">13th Month Pay</h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            aria-label="Year"
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value, 10) || new Date().getFullYear())}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleExport}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+          >
+            Export Report
+          </button>
+          <button
+            onClick={handleCreatePayout}
+            disabled={totalBalance <= 0 || pendingPayout !== undefined}
+            title={pendingPayout ? 'Approve or discard the draft payout first' : undefined}
+            className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Payout Run
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Basic pay from approved and paid runs in {year}, divided by 12. Overtime, premiums and adjustments are
+        excluded; late and offline deductions do not reduce it.
+      </p>
+
+      {accruals.length === 0 ? (
+        <p className="text-sm text-gray-500">No basic pay in locked runs for {year}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Employee</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Paid Days</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Basic Pay</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">13th Month</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Already Paid</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {accruals.map(accrual => (
+                <tr key={accrual.employee_id}>
+                  <td className="px-4 py-2">
+                    {accrual.employee_name}
+                    {accrual.employee_status === 'inactive' && <span className="ml-2 text-xs text-gray-400">Inactive</span>}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {accrual.first_paid_date ? `${accrual.first_paid_date} to ${accrual.last_paid_date}` : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(accrual.basic_pay)}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(accrual.thirteenth_month_pay)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(accrual.already_paid)}</td>
+                  <td className="px-4 py-2 text-right font-medium">{formatCurrency(accrual.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
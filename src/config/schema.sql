@@ -5,12 +5,30 @@ CREATE TABLE IF NOT EXISTS employees (
   name TEXT NOT NULL,
   email TEXT UNIQUE NOT NULL,
   hourly_rate DECIMAL(10,2) NOT NULL,
+  compensation_type TEXT CHECK (compensation_type IN ('hourly', 'daily', 'salaried')) DEFAULT 'hourly',
+  daily_rate DECIMAL(10,2),
+  monthly_salary DECIMAL(12,2),
   status TEXT CHECK (status IN ('active', 'inactive')) DEFAULT 'active',
+  separation_date DATE,
+  hire_date DATE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
   notes TEXT
 );
 
+-- Create employee_rate_history table
+CREATE TABLE IF NOT EXISTS employee_rate_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID REFERENCES employees(id) NOT NULL,
+  rate DECIMAL(12,2) NOT NULL,
+  compensation_type TEXT CHECK (compensation_type IN ('hourly', 'daily', 'salaried')) DEFAULT 'hourly',
+  effective_from DATE NOT NULL,
+  reason TEXT,
+  changed_by TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  UNIQUE (employee_id, effective_from)
+);
+
 -- Create attendance table
 CREATE TABLE IF NOT EXISTS attendance (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -29,10 +47,87 @@ CREATE TABLE IF NOT EXISTS payroll_periods (
   start_date DATE NOT NULL,
   end_date DATE NOT NULL,
   status TEXT CHECK (status IN ('draft', 'approved', 'paid')) DEFAULT 'draft',
+  kind TEXT CHECK (kind IN ('regular', 'off_cycle', 'final_pay', 'thirteenth_month')) DEFAULT 'regular',
+  label TEXT,
+  employee_ids UUID[],
+  inputs JSONB NOT NULL DEFAULT '{}'::jsonb,
+  summaries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  calculated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  approved_by TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
 );
 
+-- One regular run per pay period; off-cycle and final pay runs can share its dates
+CREATE UNIQUE INDEX IF NOT EXISTS payroll_periods_regular_period
+  ON payroll_periods (start_date, end_date) WHERE kind = 'regular';
+
+-- Create payroll_adjustments table
+CREATE TABLE IF NOT EXISTS payroll_adjustments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID REFERENCES employees(id) NOT NULL,
+  type TEXT CHECK (type IN ('earning', 'deduction')) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  label TEXT NOT NULL,
+  source TEXT CHECK (source IN ('manual', 'retro')) DEFAULT 'manual',
+  source_run_id UUID REFERENCES payroll_periods(id),
+  apply_from DATE NOT NULL,
+  applied_run_id UUID REFERENCES payroll_periods(id),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create earning_types table (catalog of allowances and bonuses)
+CREATE TABLE IF NOT EXISTS earning_types (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  taxable BOOLEAN NOT NULL DEFAULT true,
+  calculation TEXT CHECK (calculation IN ('fixed', 'per_day', 'one_off')) NOT NULL,
+  default_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (default_amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create earning_assignments table (catalog earnings given to an employee)
+CREATE TABLE IF NOT EXISTS earning_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  earning_type_id UUID REFERENCES earning_types(id) NOT NULL,
+  employee_id UUID REFERENCES employees(id) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  start_date DATE NOT NULL,
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create recurring_deductions table (loans and cash advances repaid in installments)
+CREATE TABLE IF NOT EXISTS recurring_deductions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID REFERENCES employees(id) NOT NULL,
+  kind TEXT CHECK (kind IN ('cash_advance', 'loan')) NOT NULL,
+  label TEXT NOT NULL,
+  principal DECIMAL(12,2) NOT NULL CHECK (principal > 0),
+  installment_amount DECIMAL(12,2) NOT NULL CHECK (installment_amount > 0),
+  start_date DATE NOT NULL,
+  status TEXT CHECK (status IN ('active', 'completed', 'cancelled')) DEFAULT 'active',
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Create recurring_deduction_payments table (installments taken by approved runs)
+CREATE TABLE IF NOT EXISTS recurring_deduction_payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  deduction_id UUID REFERENCES recurring_deductions(id) ON DELETE CASCADE NOT NULL,
+  run_id UUID REFERENCES payroll_periods(id) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  UNIQUE(deduction_id, run_id)
+);
+
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -61,17 +156,59 @@ CREATE TRIGGER update_payroll_periods_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_earning_types_updated_at ON earning_types;
+CREATE TRIGGER update_earning_types_updated_at
+  BEFORE UPDATE ON earning_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_earning_assignments_updated_at ON earning_assignments;
+CREATE TRIGGER update_earning_assignments_updated_at
+  BEFORE UPDATE ON earning_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_recurring_deductions_updated_at ON recurring_deductions;
+CREATE TRIGGER update_recurring_deductions_updated_at
+  BEFORE UPDATE ON recurring_deductions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- Enable Row Level Security
 ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_rate_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payroll_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE earning_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE earning_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_deductions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_deduction_payments ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for authenticated users
 CREATE POLICY "Enable read access for authenticated users" ON employees
   FOR SELECT USING (auth.role() = 'authenticated');
 
+CREATE POLICY "Enable read access for authenticated users" ON employee_rate_history
+  FOR SELECT USING (auth.role() = 'authenticated');
+
 CREATE POLICY "Enable read access for authenticated users" ON attendance
   FOR SELECT USING (auth.role() = 'authenticated');
 
 CREATE POLICY "Enable read access for authenticated users" ON payroll_periods
-  FOR SELECT USING (auth.role() = 'authenticated'); 
\ No newline at end of file
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable read access for authenticated users" ON payroll_adjustments
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable read access for authenticated users" ON earning_types
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable read access for authenticated users" ON earning_assignments
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable read access for authenticated users" ON recurring_deductions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable read access for authenticated users" ON recurring_deduction_payments
+  FOR SELECT USING (auth.role() = 'authenticated');
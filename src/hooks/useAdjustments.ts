@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AdjustmentFormData, PayrollAdjustment } from '../types';
+import { adjustmentRepository } from '../repositories/adjustmentRepository';
+import { AdjustmentDraft } from '../utils/payrollAdjustments';
+
+export interface UseAdjustmentsState {
+  adjustments: PayrollAdjustment[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseAdjustmentsActions {
+  createAdjustment: (formData: AdjustmentFormData) => Promise<{ success: boolean; adjustment?: PayrollAdjustment; error?: string }>;
+  createAdjustments: (drafts: AdjustmentDraft[]) => Promise<{ success: boolean; count?: number; error?: string }>;
+  markAdjustmentsApplied: (ids: string[], runId: string) => Promise<{ success: boolean; error?: string }>;
+  deleteAdjustment: (id: string) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function useAdjustments(): UseAdjustmentsState & UseAdjustmentsActions {
+  const [state, setState] = useState<UseAdjustmentsState>({
+    adjustments: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load adjustments on mount
+  useEffect(() => {
+    loadAdjustments();
+  }, []);
+
+  const loadAdjustments = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await adjustmentRepository.initialize();
+
+    if (result.success) {
+      const adjustments = await adjustmentRepository.findAll();
+      setState(prev => ({ ...prev, adjustments, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load adjustments'
+      }));
+    }
+  };
+
+  const refreshAdjustments = async () => {
+    const adjustments = await adjustmentRepository.findAll();
+    setState(prev => ({ ...prev, adjustments }));
+  };
+
+  const createAdjustment = useCallback(async (formData: AdjustmentFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await adjustmentRepository.create(formData);
+
+    if (result.success && result.data) {
+      await refreshAdjustments();
+      return { success: true, adjustment: result.data };
+    } else {
+      const errorMessage = result.error || 'Failed to create adjustment';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const createAdjustments = useCallback(async (drafts: AdjustmentDraft[]) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await adjustmentRepository.createMany(drafts);
+
+    if (result.success && result.data) {
+      await refreshAdjustments();
+      return { success: true, count: result.data.length };
+    } else {
+      const errorMessage = result.error || 'Failed to create adjustments';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const markAdjustmentsApplied = useCallback(async (ids: string[], runId: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await adjustmentRepository.markApplied(ids, runId);
+
+    if (result.success) {
+      await refreshAdjustments();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to apply adjustments';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const deleteAdjustment = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await adjustmentRepository.delete(id);
+
+    if (result.success) {
+      await refreshAdjustments();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to delete adjustment';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    createAdjustment,
+    createAdjustments,
+    markAdjustmentsApplied,
+    deleteAdjustment,
+    clearError
+  };
+}
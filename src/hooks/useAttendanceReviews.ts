@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AttendanceReviewRecord } from '../types';
+import { attendanceReviewRepository } from '../repositories/attendanceReviewRepository';
+
+export interface UseAttendanceReviewsState {
+  reviews: AttendanceReviewRecord[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseAttendanceReviewsActions {
+  recordReviews: (records: AttendanceReviewRecord[]) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function useAttendanceReviews(): UseAttendanceReviewsState & UseAttendanceReviewsActions {
+  const [state, setState] = useState<UseAttendanceReviewsState>({
+    reviews: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load the review log on mount
+  useEffect(() => {
+    loadReviews();
+  }, []);
+
+  const loadReviews = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await attendanceReviewRepository.initialize();
+
+    if (result.success) {
+      const reviews = await attendanceReviewRepository.findAll();
+      setState(prev => ({ ...prev, reviews, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load review history'
+      }));
+    }
+  };
+
+  const recordReviews = useCallback(async (records: AttendanceReviewRecord[]) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await attendanceReviewRepository.createMany(records);
+
+    if (result.success) {
+      const reviews = await attendanceReviewRepository.findAll();
+      setState(prev => ({ ...prev, reviews }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to record review decisions';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    recordReviews,
+    clearError
+  };
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EarningAssignment, EarningAssignmentFormData, EarningType, EarningTypeFormData } from '../types';
+import { earningTypeRepository } from '../repositories/earningTypeRepository';
+import { earningAssignmentRepository } from '../repositories/earningAssignmentRepository';
+
+export interface UseEarningsState {
+  earningTypes: EarningType[];
+  assignments: EarningAssignment[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseEarningsActions {
+  createEarningType: (formData: EarningTypeFormData) => Promise<{ success: boolean; earningType?: EarningType; error?: string }>;
+  updateEarningType: (id: string, formData: EarningTypeFormData) => Promise<{ success: boolean; earningType?: EarningType; error?: string }>;
+  deleteEarningType: (id: string) => Promise<{ success: boolean; error?: string }>;
+  assignEarning: (formData: EarningAssignmentFormData) => Promise<{ success: boolean; assignment?: EarningAssignment; error?: string }>;
+  endAssignment: (id: string, endDate: string) => Promise<{ success: boolean; error?: string }>;
+  deleteAssignment: (id: string) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function useEarnings(): UseEarningsState & UseEarningsActions {
+  const [state, setState] = useState<UseEarningsState>({
+    earningTypes: [],
+    assignments: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load the catalog and assignments on mount
+  useEffect(() => {
+    loadEarnings();
+  }, []);
+
+  const loadEarnings = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const [typesResult, assignmentsResult] = await Promise.all([
+      earningTypeRepository.initialize(),
+      earningAssignmentRepository.initialize()
+    ]);
+
+    if (typesResult.success && assignmentsResult.success) {
+      const [earningTypes, assignments] = await Promise.all([
+        earningTypeRepository.findAll(),
+        earningAssignmentRepository.findAll()
+      ]);
+      setState(prev => ({ ...prev, earningTypes, assignments, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: typesResult.error || assignmentsResult.error || 'Failed to load earnings'
+      }));
+    }
+  };
+
+  const refreshEarnings = async () => {
+    const [earningTypes, assignments] = await Promise.all([
+      earningTypeRepository.findAll(),
+      earningAssignmentRepository.findAll()
+    ]);
+    setState(prev => ({ ...prev, earningTypes, assignments }));
+  };
+
+  const handleResult = async (result: { success: boolean; error?: string }, fallbackError: string) => {
+    if (result.success) {
+      await refreshEarnings();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || fallbackError;
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const createEarningType = useCallback(async (formData: EarningTypeFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await earningTypeRepository.create(formData);
+    const handled = await handleResult(result, 'Failed to create earning');
+    return { ...handled, earningType: result.data };
+  }, []);
+
+  const updateEarningType = useCallback(async (id: string, formData: EarningTypeFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await earningTypeRepository.update(id, formData);
+    const handled = await handleResult(result, 'Failed to update earning');
+    return { ...handled, earningType: result.data };
+  }, []);
+
+  // An earning still assigned to someone stays in the catalog
+  const deleteEarningType = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const assignments = await earningAssignmentRepository.findAll();
+    if (assignments.some(assignment => assignment.earning_type_id === id)) {
+      return handleResult({ success: false, error: 'Earning is assigned to employees; remove its assignments first' }, '');
+    }
+    return handleResult(await earningTypeRepository.delete(id), 'Failed to delete earning');
+  }, []);
+
+  const assignEarning = useCallback(async (formData: EarningAssignmentFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await earningAssignmentRepository.create(formData);
+    const handled = await handleResult(result, 'Failed to assign earning');
+    return { ...handled, assignment: result.data };
+  }, []);
+
+  const endAssignment = useCallback(async (id: string, endDate: string) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleResult(await earningAssignmentRepository.end(id, endDate), 'Failed to end earning assignment');
+  }, []);
+
+  const deleteAssignment = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleResult(await earningAssignmentRepository.delete(id), 'Failed to delete earning assignment');
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    createEarningType,
+    updateEarningType,
+    deleteEarningType,
+    assignEarning,
+    endAssignment,
+    deleteAssignment,
+    clearError
+  };
+}
@@ -22,7 +22,8 @@ export interface UseEmployeesActions {
   refreshEmployees: () => Promise<void>;
   createEmployee: (formData: EmployeeFormData) => Promise<{ success: boolean; employee?: Employee; error?: string }>;
   updateEmployee: (id: string, formData: EmployeeFormData) => Promise<{ success: boolean; employee?: Employee; error?: string }>;
-  deleteEmployee: (id: string) => Promise<{ success: boolean; error?: string }>;
+  deleteEmployee: (id: string, separationDate?: string) => Promise<{ success: boolean; error?: string }>;
+  addAlias: (id: string, alias: string) => Promise<{ success: boolean; employee?: Employee; error?: string }>;
   
   // Filtering and sorting
   setSearchTerm: (term: string) => void;
@@ -146,10 +147,31 @@ export function useEmployees(): UseEmployeesState & UseEmployeesActions {
     }
   }, []);
 
-  const deleteEmployee = useCallback(async (id: string) => {
+  const addAlias = useCallback(async (id: string, alias: string) => {
     setState(prev => ({ ...prev, error: null }));
     
-    const result = await employeeRepository.softDelete(id);
+    const result = await employeeRepository.addAlias(id, alias);
+    
+    if (result.success && result.data) {
+      setState(prev => ({
+        ...prev,
+        employees: prev.employees.map(emp => 
+          emp.id === id ? result.data! : emp
+        )
+      }));
+      
+      return { success: true, employee: result.data };
+    } else {
+      const errorMessage = result.error || 'Failed to save alias';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const deleteEmployee = useCallback(async (id: string, separationDate?: string) => {
+    setState(prev => ({ ...prev, error: null }));
+    
+    const result = await employeeRepository.softDelete(id, separationDate);
     
     if (result.success && result.data) {
       setState(prev => ({
@@ -214,6 +236,7 @@ export function useEmployees(): UseEmployeesState & UseEmployeesActions {
     refreshEmployees,
     createEmployee,
     updateEmployee,
+    addAlias,
     deleteEmployee,
     setSearchTerm,
     setSort,
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Holiday, HolidayFormData } from '../types';
+import { holidayRepository } from '../repositories/holidayRepository';
+
+export interface UseHolidaysState {
+  holidays: Holiday[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseHolidaysActions {
+  createHoliday: (formData: HolidayFormData) => Promise<{ success: boolean; holiday?: Holiday; error?: string }>;
+  updateHoliday: (id: string, formData: HolidayFormData) => Promise<{ success: boolean; holiday?: Holiday; error?: string }>;
+  deleteHoliday: (id: string) => Promise<{ success: boolean; error?: string }>;
+  importHolidays: (holidays: HolidayFormData[]) => Promise<{ success: boolean; count?: number; error?: string }>;
+  clearError: () => void;
+}
+
+export function useHolidays(): UseHolidaysState & UseHolidaysActions {
+  const [state, setState] = useState<UseHolidaysState>({
+    holidays: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load holidays on mount
+  useEffect(() => {
+    loadHolidays();
+  }, []);
+
+  const loadHolidays = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await holidayRepository.initialize();
+
+    if (result.success) {
+      const holidays = await holidayRepository.findAll();
+      setState(prev => ({ ...prev, holidays, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load holidays'
+      }));
+    }
+  };
+
+  const refreshHolidays = async () => {
+    const holidays = await holidayRepository.findAll();
+    setState(prev => ({ ...prev, holidays }));
+  };
+
+  const createHoliday = useCallback(async (formData: HolidayFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await holidayRepository.create(formData);
+
+    if (result.success && result.data) {
+      await refreshHolidays();
+      return { success: true, holiday: result.data };
+    } else {
+      const errorMessage = result.error || 'Failed to create holiday';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updateHoliday = useCallback(async (id: string, formData: HolidayFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await holidayRepository.update(id, formData);
+
+    if (result.success && result.data) {
+      await refreshHolidays();
+      return { success: true, holiday: result.data };
+    } else {
+      const errorMessage = result.error || 'Failed to update holiday';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const deleteHoliday = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await holidayRepository.delete(id);
+
+    if (result.success) {
+      await refreshHolidays();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to delete holiday';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const importHolidays = useCallback(async (holidays: HolidayFormData[]) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await holidayRepository.importMany(holidays);
+
+    if (result.success && result.data) {
+      await refreshHolidays();
+      return { success: true, count: result.data.length };
+    } else {
+      const errorMessage = result.error || 'Failed to import holidays';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    createHoliday,
+    updateHoliday,
+    deleteHoliday,
+    importHolidays,
+    clearError
+  };
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Holiday, LeaveRequest, LeaveRequestFormData, PayrollRules } from '../types';
+import { leaveRequestRepository } from '../repositories/leaveRequestRepository';
+
+export interface UseLeaveState {
+  requests: LeaveRequest[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseLeaveActions {
+  createRequest: (formData: LeaveRequestFormData, rules: PayrollRules, holidays: Holiday[]) => Promise<{ success: boolean; request?: LeaveRequest; error?: string }>;
+  approveRequest: (id: string, approver: string, approvalCode?: string) => Promise<{ success: boolean; error?: string }>;
+  rejectRequest: (id: string, approver: string) => Promise<{ success: boolean; error?: string }>;
+  deleteRequest: (id: string) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function useLeave(): UseLeaveState & UseLeaveActions {
+  const [state, setState] = useState<UseLeaveState>({
+    requests: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load leave requests on mount
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const loadRequests = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await leaveRequestRepository.initialize();
+
+    if (result.success) {
+      const requests = await leaveRequestRepository.findAll();
+      setState(prev => ({ ...prev, requests, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load leave requests'
+      }));
+    }
+  };
+
+  const refreshRequests = async () => {
+    const requests = await leaveRequestRepository.findAll();
+    setState(prev => ({ ...prev, requests }));
+  };
+
+  const createRequest = useCallback(async (formData: LeaveRequestFormData, rules: PayrollRules, holidays: Holiday[]) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await leaveRequestRepository.create(formData, rules, holidays);
+
+    if (result.success && result.data) {
+      await refreshRequests();
+      return { success: true, request: result.data };
+    } else {
+      const errorMessage = result.error || 'Failed to create leave request';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const approveRequest = useCallback(async (id: string, approver: string, approvalCode?: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await leaveRequestRepository.decide(id, 'approved', approver, approvalCode);
+
+    if (result.success) {
+      await refreshRequests();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to approve leave request';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const rejectRequest = useCallback(async (id: string, approver: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await leaveRequestRepository.decide(id, 'rejected', approver);
+
+    if (result.success) {
+      await refreshRequests();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to reject leave request';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const deleteRequest = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await leaveRequestRepository.delete(id);
+
+    if (result.success) {
+      await refreshRequests();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to delete leave request';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    createRequest,
+    approveRequest,
+    rejectRequest,
+    deleteRequest,
+    clearError
+  };
+}
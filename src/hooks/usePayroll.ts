@@ -1,11 +1,30 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SlackMessage, PayrollSummary, Employee } from '../types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  SlackMessage,
+  PayrollSummary,
+  Employee,
+  PayrollCalculationContext,
+  AttendanceSettings,
+  BreakSettings,
+  PayPeriod,
+  PayPeriodPreset,
+  PaySchedule,
+  PayPeriodRange,
+  PayrollRules,
+  PayrollRunInputs,
+  VocabularyEntry
+} from '../types';
 import { 
   parseSlackMessagesWithAI, 
   calculatePayrollSummaryWithAI, 
   exportToCSVWithAI, 
-  getDateRange 
+  DEFAULT_PAYROLL_RULES
 } from '../utils/aiPayrollCalculator';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { DEFAULT_BREAK_SETTINGS } from '../utils/breaks';
+import { DEFAULT_VOCABULARY } from '../utils/vocabulary';
+import { DEFAULT_PAY_SCHEDULE, getPayPeriodContaining, getPayPeriodsAround, getPreviousPayPeriod } from '../utils/payCalendar';
+import { getZonedDateString } from '../utils/timezone';
 import { storageService, StorageConfig } from '../services/storageService';
 import { errorService } from '../services/errorService';
 
@@ -26,6 +45,8 @@ export interface UsePayrollState {
   totalMessages: number;
   processedRecords: number;
   dateRangeDisplay: string;
+  payPeriods: PayPeriod[]; // Recent and upcoming periods from the pay schedule
+  runInputs: PayrollRunInputs | null; // What the current summaries were calculated from, for freezing into a run
   aiReasoning?: string;
   aiConfidence?: number;
   aiError?: string;
@@ -34,14 +55,25 @@ export interface UsePayrollState {
 export interface UsePayrollActions {
   loadSlackMessages: (messages: SlackMessage[]) => Promise<void>;
   setDateRange: (start: string, end: string) => void;
-  setPeriodPreset: (period: 'first-half' | 'second-half' | 'full-month') => void;
-  exportCSV: () => void;
+  setPeriodPreset: (preset: PayPeriodPreset) => void;
+  exportCSV: (summaries?: PayrollSummary[], period?: PayPeriodRange) => void;
   clearError: () => void;
-  refreshPayroll: (employees: Employee[]) => Promise<void>;
+  refreshPayroll: (employees: Employee[], context?: PayrollCalculationContext) => Promise<void>;
+  calculatePayrollFor: (
+    employees: Employee[],
+    period: PayPeriodRange,
+    context?: PayrollCalculationContext
+  ) => Promise<{ summaries: PayrollSummary[]; inputs: PayrollRunInputs }>;
 }
 
-export function usePayroll(): UsePayrollState & UsePayrollActions {
-  const [state, setState] = useState<UsePayrollState>({
+export function usePayroll(
+  attendanceSettings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS,
+  paySchedule: PaySchedule = DEFAULT_PAY_SCHEDULE,
+  breakSettings: BreakSettings = DEFAULT_BREAK_SETTINGS,
+  vocabulary: VocabularyEntry[] = DEFAULT_VOCABULARY,
+  rules: PayrollRules = DEFAULT_PAYROLL_RULES
+): UsePayrollState & UsePayrollActions {
+  const [state, setState] = useState<Omit<UsePayrollState, 'payPeriods'>>({
     slackMessages: [],
     payrollSummaries: [],
     startDate: '',
@@ -53,20 +85,26 @@ export function usePayroll(): UsePayrollState & UsePayrollActions {
     totalMessages: 0,
     processedRecords: 0,
     dateRangeDisplay: 'Not set',
+    runInputs: null,
     aiReasoning: undefined,
     aiConfidence: undefined,
     aiError: undefined
   });
 
-  // Initialize with current month's first half as default
+  // Default to the current pay period, and realign once a saved pay schedule loads or changes
   useEffect(() => {
-    const { start, end } = getDateRange('first-half');
+    const { start, end } = getPayPeriodContaining(getToday(attendanceSettings.timezone), paySchedule);
     setState(prev => ({
       ...prev,
-      startDate: start.toISOString().split('T')[0],
-      endDate: end.toISOString().split('T')[0]
+      startDate: start,
+      endDate: end
     }));
-  }, []);
+  }, [paySchedule]);
+
+  const payPeriods = useMemo(
+    () => getPayPeriodsAround(getToday(attendanceSettings.timezone), paySchedule),
+    [attendanceSettings.timezone, paySchedule]
+  );
 
   // Load saved messages on mount
   useEffect(() => {
@@ -135,29 +173,40 @@ export function usePayroll(): UsePayrollState & UsePayrollActions {
     }));
   }, []);
 
-  const setPeriodPreset = useCallback((period: 'first-half' | 'second-half' | 'full-month') => {
-    const { start, end } = getDateRange(period);
+  const setPeriodPreset = useCallback((preset: PayPeriodPreset) => {
+    let period: PayPeriod;
+    if (preset === 'current' || preset === 'previous') {
+      const current = getPayPeriodContaining(getToday(attendanceSettings.timezone), paySchedule);
+      period = preset === 'current' ? current : getPreviousPayPeriod(current, paySchedule);
+    } else {
+      period = preset;
+    }
+
     setState(prev => ({
       ...prev,
-      startDate: start.toISOString().split('T')[0],
-      endDate: end.toISOString().split('T')[0]
+      startDate: period.start,
+      endDate: period.end
     }));
-  }, []);
+  }, [attendanceSettings.timezone, paySchedule]);
 
-  const exportCSV = useCallback(() => {
-    if (state.payrollSummaries.length === 0) {
+  // Exports the live summaries unless a run's frozen summaries and dates are given
+  const exportCSV = useCallback((
+    summaries: PayrollSummary[] = state.payrollSummaries,
+    period: PayPeriodRange = { start: state.startDate, end: state.endDate }
+  ) => {
+    if (summaries.length === 0) {
       errorService.handleError('No payroll data to export', 'EXPORT', 'warning');
       return;
     }
 
     try {
-      const csvContent = exportToCSVWithAI(state.payrollSummaries);
+      const csvContent = exportToCSVWithAI(summaries);
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
       const link = document.createElement('a');
       const url = URL.createObjectURL(blob);
       
       link.setAttribute('href', url);
-      link.setAttribute('download', `payroll-summary-${state.startDate}-to-${state.endDate}.csv`);
+      link.setAttribute('download', `payroll-summary-${period.start}-to-${period.end}.csv`);
       link.style.visibility = 'hidden';
       
       document.body.appendChild(link);
@@ -170,9 +219,9 @@ export function usePayroll(): UsePayrollState & UsePayrollActions {
     }
   }, [state.payrollSummaries, state.startDate, state.endDate]);
 
-  const refreshPayroll = useCallback(async (employees: Employee[]) => {
+  const refreshPayroll = useCallback(async (employees: Employee[], context: PayrollCalculationContext = {}) => {
     if (state.slackMessages.length === 0 || !state.startDate || !state.endDate || employees.length === 0) {
-      setState(prev => ({ ...prev, payrollSummaries: [] }));
+      setState(prev => ({ ...prev, payrollSummaries: [], runInputs: null }));
       return;
     }
 
@@ -181,37 +230,26 @@ export function usePayroll(): UsePayrollState & UsePayrollActions {
     try {
       // Use only active employees for payroll calculations
       const activeEmployees = employees.filter(emp => emp.status === 'active');
-      
-      // Filter messages by date range
-      const filteredMessages = state.slackMessages.filter(msg => {
-        const messageDate = new Date(msg.date);
-        const start = new Date(state.startDate);
-        const end = new Date(state.endDate);
-        return messageDate >= start && messageDate <= end;
-      });
-
-      // Use AI-powered parsing
-      const attendanceResult = await parseSlackMessagesWithAI(filteredMessages, activeEmployees);
-      
-      if (attendanceResult.error) {
-        console.warn('AI parsing had issues:', attendanceResult.error);
-      }
-
-      // Use AI-powered payroll calculation
-      const payrollResult = await calculatePayrollSummaryWithAI(attendanceResult.logs, activeEmployees);
-      
-      if (payrollResult.error) {
-        console.warn('AI calculation had issues:', payrollResult.error);
-      }
+      const result = await calculatePayroll(
+        state.slackMessages,
+        activeEmployees,
+        { start: state.startDate, end: state.endDate },
+        context,
+        attendanceSettings,
+        breakSettings,
+        vocabulary,
+        rules
+      );
 
       setState(prev => ({
         ...prev,
-        payrollSummaries: payrollResult.summaries,
+        payrollSummaries: result.summaries,
+        runInputs: result.inputs,
         isLoading: false,
         error: null,
-        aiReasoning: payrollResult.reasoning,
-        aiConfidence: payrollResult.confidence,
-        aiError: attendanceResult.error || payrollResult.error
+        aiReasoning: result.reasoning,
+        aiConfidence: result.confidence,
+        aiError: result.error
       }));
     } catch (error) {
       const appError = errorService.handleError(error as Error, 'PAYROLL_CALCULATION', 'error');
@@ -221,7 +259,18 @@ export function usePayroll(): UsePayrollState & UsePayrollActions {
         error: appError.message
       }));
     }
-  }, [state.slackMessages, state.startDate, state.endDate]);
+  }, [state.slackMessages, state.startDate, state.endDate, attendanceSettings, breakSettings, vocabulary, rules]);
+
+  // Calculates any employees over any dates for an off-cycle or final pay run, leaving the
+  // current period's results untouched
+  const calculatePayrollFor = useCallback(async (
+    employees: Employee[],
+    period: PayPeriodRange,
+    context: PayrollCalculationContext = {}
+  ) => {
+    const result = await calculatePayroll(state.slackMessages, employees, period, context, attendanceSettings, breakSettings, vocabulary, rules);
+    return { summaries: result.summaries, inputs: result.inputs };
+  }, [state.slackMessages, attendanceSettings, breakSettings, vocabulary, rules]);
 
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
@@ -247,11 +296,76 @@ export function usePayroll(): UsePayrollState & UsePayrollActions {
 
   return {
     ...state,
+    payPeriods,
     loadSlackMessages,
     setDateRange,
     setPeriodPreset,
     exportCSV,
     clearError,
-    refreshPayroll
+    refreshPayroll,
+    calculatePayrollFor
   };
-} 
\ No newline at end of file
+}
+
+async function calculatePayroll(
+  messages: SlackMessage[],
+  employees: Employee[],
+  period: PayPeriodRange,
+  context: PayrollCalculationContext,
+  attendanceSettings: AttendanceSettings,
+  breakSettings: BreakSettings,
+  vocabulary: VocabularyEntry[],
+  rules: PayrollRules
+): Promise<{ summaries: PayrollSummary[]; inputs: PayrollRunInputs; reasoning?: string; confidence?: number; error?: string }> {
+  // Use AI-powered parsing. All messages are parsed so shifts that cross the period
+  // boundary pair up; logs are then kept by their local attendance date.
+  const attendanceResult = await parseSlackMessagesWithAI(
+    messages,
+    employees,
+    rules,
+    attendanceSettings,
+    breakSettings,
+    vocabulary
+  );
+
+  if (attendanceResult.error) {
+    console.warn('AI parsing had issues:', attendanceResult.error);
+  }
+
+  const periodLogs = attendanceResult.logs.filter(log => log.date >= period.start && log.date <= period.end);
+
+  // Use AI-powered payroll calculation
+  const payrollResult = await calculatePayrollSummaryWithAI(
+    periodLogs,
+    employees,
+    rules,
+    { ...context, attendanceSettings, period }
+  );
+
+  if (payrollResult.error) {
+    console.warn('AI calculation had issues:', payrollResult.error);
+  }
+
+  return {
+    summaries: payrollResult.summaries,
+    inputs: {
+      employees,
+      attendance_logs: periodLogs,
+      holidays: (context.holidays || []).filter(holiday => holiday.date >= period.start && holiday.date <= period.end),
+      rules,
+      attendance_settings: attendanceSettings,
+      tardiness: context.tardiness,
+      breaks: breakSettings,
+      leave: context.leave,
+      vocabulary
+    },
+    reasoning: payrollResult.reasoning,
+    confidence: payrollResult.confidence,
+    error: attendanceResult.error || payrollResult.error
+  };
+}
+
+// Today's YYYY-MM-DD date in the attendance timezone
+function getToday(timeZone: string): string {
+  return getZonedDateString(new Date(), timeZone);
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PayPeriodRange, PayrollRun, PayrollRunInputs, PayrollSummary } from '../types';
+import { payrollRunRepository, PayrollRunOptions } from '../repositories/payrollRunRepository';
+
+export interface UsePayrollRunsState {
+  runs: PayrollRun[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UsePayrollRunsActions {
+  createRun: (
+    period: PayPeriodRange,
+    summaries: PayrollSummary[],
+    inputs: PayrollRunInputs,
+    options?: PayrollRunOptions
+  ) => Promise<{ success: boolean; run?: PayrollRun; error?: string }>;
+  recalculateRun: (
+    id: string,
+    summaries: PayrollSummary[],
+    inputs: PayrollRunInputs
+  ) => Promise<{ success: boolean; run?: PayrollRun; error?: string }>;
+  approveRun: (id: string, approvedBy?: string, check?: (run: PayrollRun) => string | null) => Promise<{ success: boolean; run?: PayrollRun; error?: string }>;
+  markRunPaid: (id: string) => Promise<{ success: boolean; run?: PayrollRun; error?: string }>;
+  deleteRun: (id: string) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function usePayrollRuns(): UsePayrollRunsState & UsePayrollRunsActions {
+  const [state, setState] = useState<UsePayrollRunsState>({
+    runs: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load runs on mount
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const loadRuns = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await payrollRunRepository.initialize();
+
+    if (result.success) {
+      const runs = await payrollRunRepository.findAll();
+      setState(prev => ({ ...prev, runs, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load payroll runs'
+      }));
+    }
+  };
+
+  const refreshRuns = async () => {
+    const runs = await payrollRunRepository.findAll();
+    setState(prev => ({ ...prev, runs }));
+  };
+
+  const handleRunResult = async (
+    result: { success: boolean; data?: PayrollRun; error?: string },
+    fallbackError: string
+  ) => {
+    if (result.success && result.data) {
+      await refreshRuns();
+      return { success: true, run: result.data };
+    } else {
+      const errorMessage = result.error || fallbackError;
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const createRun = useCallback(async (
+    period: PayPeriodRange,
+    summaries: PayrollSummary[],
+    inputs: PayrollRunInputs,
+    options?: PayrollRunOptions
+  ) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleRunResult(await payrollRunRepository.create(period, summaries, inputs, options), 'Failed to create payroll run');
+  }, []);
+
+  const recalculateRun = useCallback(async (id: string, summaries: PayrollSummary[], inputs: PayrollRunInputs) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleRunResult(await payrollRunRepository.recalculate(id, summaries, inputs), 'Failed to recalculate payroll run');
+  }, []);
+
+  const approveRun = useCallback(async (id: string, approvedBy?: string, check?: (run: PayrollRun) => string | null) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleRunResult(await payrollRunRepository.approve(id, approvedBy, check), 'Failed to approve payroll run');
+  }, []);
+
+  const markRunPaid = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleRunResult(await payrollRunRepository.markPaid(id), 'Failed to mark payroll run as paid');
+  }, []);
+
+  const deleteRun = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await payrollRunRepository.delete(id);
+
+    if (result.success) {
+      await refreshRuns();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to delete payroll run';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    createRun,
+    recalculateRun,
+    approveRun,
+    markRunPaid,
+    deleteRun,
+    clearError
+  };
+}
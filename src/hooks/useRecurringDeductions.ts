@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PayrollRun, RecurringDeduction, RecurringDeductionFormData } from '../types';
+import { recurringDeductionRepository } from '../repositories/recurringDeductionRepository';
+
+export interface UseRecurringDeductionsState {
+  deductions: RecurringDeduction[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseRecurringDeductionsActions {
+  createDeduction: (formData: RecurringDeductionFormData) => Promise<{ success: boolean; deduction?: RecurringDeduction; error?: string }>;
+  recordRunPayments: (run: PayrollRun) => Promise<{ success: boolean; error?: string }>;
+  cancelDeduction: (id: string) => Promise<{ success: boolean; error?: string }>;
+  deleteDeduction: (id: string) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function useRecurringDeductions(): UseRecurringDeductionsState & UseRecurringDeductionsActions {
+  const [state, setState] = useState<UseRecurringDeductionsState>({
+    deductions: [],
+    isLoading: true,
+    error: null
+  });
+
+  // Load deductions on mount
+  useEffect(() => {
+    loadDeductions();
+  }, []);
+
+  const loadDeductions = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await recurringDeductionRepository.initialize();
+
+    if (result.success) {
+      const deductions = await recurringDeductionRepository.findAll();
+      setState(prev => ({ ...prev, deductions, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load recurring deductions'
+      }));
+    }
+  };
+
+  const refreshDeductions = async () => {
+    const deductions = await recurringDeductionRepository.findAll();
+    setState(prev => ({ ...prev, deductions }));
+  };
+
+  const handleResult = async (result: { success: boolean; error?: string }, fallbackError: string) => {
+    if (result.success) {
+      await refreshDeductions();
+      return { success: true };
+    } else {
+      const errorMessage = result.error || fallbackError;
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const createDeduction = useCallback(async (formData: RecurringDeductionFormData) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await recurringDeductionRepository.create(formData);
+
+    if (result.success && result.data) {
+      await refreshDeductions();
+      return { success: true, deduction: result.data };
+    } else {
+      const errorMessage = result.error || 'Failed to create recurring deduction';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const recordRunPayments = useCallback(async (run: PayrollRun) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleResult(await recurringDeductionRepository.recordPayments(run), 'Failed to record deduction payments');
+  }, []);
+
+  const cancelDeduction = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleResult(await recurringDeductionRepository.cancel(id), 'Failed to cancel recurring deduction');
+  }, []);
+
+  const deleteDeduction = useCallback(async (id: string) => {
+    setState(prev => ({ ...prev, error: null }));
+    return handleResult(await recurringDeductionRepository.delete(id), 'Failed to delete recurring deduction');
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    createDeduction,
+    recordRunPayments,
+    cancelDeduction,
+    deleteDeduction,
+    clearError
+  };
+}
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  AppSettings,
+  AttendanceSettings,
+  BreakSettings,
+  DeductionSettings,
+  LeaveSettings,
+  PaySchedule,
+  PayrollRules,
+  TardinessPolicy,
+  VocabularyEntry
+} from '../types';
+import { settingsRepository, DEFAULT_APP_SETTINGS } from '../repositories/settingsRepository';
+
+export interface UseSettingsState {
+  settings: AppSettings;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface UseSettingsActions {
+  updateAttendanceSettings: (settings: AttendanceSettings) => Promise<{ success: boolean; error?: string }>;
+  updatePaySchedule: (schedule: PaySchedule) => Promise<{ success: boolean; error?: string }>;
+  updateDeductionSettings: (settings: DeductionSettings) => Promise<{ success: boolean; error?: string }>;
+  updateTardinessPolicy: (policy: TardinessPolicy) => Promise<{ success: boolean; error?: string }>;
+  updateBreakSettings: (breaks: BreakSettings) => Promise<{ success: boolean; error?: string }>;
+  updateVocabulary: (vocabulary: VocabularyEntry[]) => Promise<{ success: boolean; error?: string }>;
+  updateLeaveSettings: (leave: LeaveSettings) => Promise<{ success: boolean; error?: string }>;
+  updatePayrollRules: (rules: PayrollRules) => Promise<{ success: boolean; error?: string }>;
+  clearError: () => void;
+}
+
+export function useSettings(): UseSettingsState & UseSettingsActions {
+  const [state, setState] = useState<UseSettingsState>({
+    settings: DEFAULT_APP_SETTINGS,
+    isLoading: true,
+    error: null
+  });
+
+  // Load settings on mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const result = await settingsRepository.initialize();
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data!, isLoading: false }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: result.error || 'Failed to load settings'
+      }));
+    }
+  };
+
+  const updateAttendanceSettings = useCallback(async (settings: AttendanceSettings) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updateAttendanceSettings(settings);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update attendance settings';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updatePaySchedule = useCallback(async (schedule: PaySchedule) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updatePaySchedule(schedule);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update pay schedule';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updateDeductionSettings = useCallback(async (settings: DeductionSettings) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updateDeductionSettings(settings);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update deduction settings';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updateTardinessPolicy = useCallback(async (policy: TardinessPolicy) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updateTardinessPolicy(policy);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update tardiness policy';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updateBreakSettings = useCallback(async (breaks: BreakSettings) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updateBreakSettings(breaks);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update break settings';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updateVocabulary = useCallback(async (vocabulary: VocabularyEntry[]) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updateVocabulary(vocabulary);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update attendance vocabulary';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updateLeaveSettings = useCallback(async (leave: LeaveSettings) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updateLeaveSettings(leave);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update leave settings';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const updatePayrollRules = useCallback(async (rules: PayrollRules) => {
+    setState(prev => ({ ...prev, error: null }));
+
+    const result = await settingsRepository.updatePayrollRules(rules);
+
+    if (result.success && result.data) {
+      setState(prev => ({ ...prev, settings: result.data! }));
+      return { success: true };
+    } else {
+      const errorMessage = result.error || 'Failed to update payroll rules';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return { success: false, error: errorMessage };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    updateAttendanceSettings,
+    updatePaySchedule,
+    updateDeductionSettings,
+    updateTardinessPolicy,
+    updateBreakSettings,
+    updateVocabulary,
+    updateLeaveSettings,
+    updatePayrollRules,
+    clearError
+  };
+}
@@ -10,6 +10,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
 // Type definitions for our database tables
+export type Json = string | number | boolean | null | { [key: string]: Json } | Json[]
+
 export type Database = {
   public: {
     Tables: {
@@ -21,6 +23,8 @@ export type Database = {
           email: string
           hourly_rate: number
           status: 'active' | 'inactive'
+          separation_date?: string
+          hire_date?: string
           created_at: string
           updated_at: string
           notes?: string
@@ -48,6 +52,15 @@ export type Database = {
           start_date: string
           end_date: string
           status: 'draft' | 'approved' | 'paid'
+          kind: 'regular' | 'off_cycle' | 'final_pay' | 'thirteenth_month'
+          label?: string
+          employee_ids?: string[]
+          inputs: Json
+          summaries: Json
+          calculated_at: string
+          approved_at?: string
+          approved_by?: string
+          paid_at?: string
           created_at: string
           updated_at: string
         }
@@ -0,0 +1,190 @@
+import { AdjustmentFormData, PayrollAdjustment } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { AdjustmentDraft, validateAdjustment } from '../utils/payrollAdjustments';
+import { roundCents } from '../utils/money';
+
+const ADJUSTMENT_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-adjustments',
+  version: 1
+};
+
+class AdjustmentRepository {
+  private static instance: AdjustmentRepository;
+  private cache: PayrollAdjustment[] = [];
+  private isInitialized = false;
+
+  static getInstance(): AdjustmentRepository {
+    if (!AdjustmentRepository.instance) {
+      AdjustmentRepository.instance = new AdjustmentRepository();
+    }
+    return AdjustmentRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: PayrollAdjustment[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<PayrollAdjustment[]>(ADJUSTMENT_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'ADJUSTMENT_REPOSITORY',
+      'Failed to initialize adjustment repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Oldest first, the order they are carried into a period
+  async findAll(): Promise<PayrollAdjustment[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => a.apply_from.localeCompare(b.apply_from) || a.created_at.localeCompare(b.created_at));
+  }
+
+  async create(formData: AdjustmentFormData): Promise<{ success: boolean; data?: PayrollAdjustment; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateAdjustment(formData);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const newAdjustment = this.buildAdjustment({
+          employee_id: formData.employee_id,
+          type: formData.type,
+          amount: roundCents(parseFloat(formData.amount)),
+          label: formData.label.trim(),
+          source: 'manual',
+          apply_from: formData.apply_from,
+          created_by: formData.created_by?.trim() || undefined
+        });
+
+        const updated = [...this.cache, newAdjustment];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return newAdjustment;
+      },
+      'ADJUSTMENT_CREATE',
+      'Failed to create adjustment'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Records computed entries such as retro differences in one save
+  async createMany(drafts: AdjustmentDraft[]): Promise<{ success: boolean; data?: PayrollAdjustment[]; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const created = drafts.map(draft => this.buildAdjustment(draft));
+        const updated = [...this.cache, ...created];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return created;
+      },
+      'ADJUSTMENT_CREATE',
+      'Failed to create adjustments'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Ties adjustments to the approved run that paid them so later periods skip them
+  async markApplied(ids: string[], runId: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const idSet = new Set(ids);
+        const updated = this.cache.map(adjustment =>
+          idSet.has(adjustment.id) && !adjustment.applied_run_id ? { ...adjustment, applied_run_id: runId } : adjustment
+        );
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'ADJUSTMENT_UPDATE',
+      'Failed to apply adjustments'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  // Applied adjustments are part of a locked run and stay in the ledger
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(adjustment => adjustment.id === id);
+        if (!existing) {
+          throw new Error(`Adjustment with ID ${id} not found`);
+        }
+        if (existing.applied_run_id) {
+          throw new Error('Adjustment has already been paid and cannot be deleted');
+        }
+
+        const updated = this.cache.filter(adjustment => adjustment.id !== id);
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'ADJUSTMENT_DELETE',
+      'Failed to delete adjustment'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(adjustments: PayrollAdjustment[]): Promise<void> {
+    const result = await storageService.save(ADJUSTMENT_STORAGE_CONFIG, adjustments);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+
+  private buildAdjustment(draft: AdjustmentDraft): PayrollAdjustment {
+    return {
+      ...draft,
+      id: `adj_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      created_at: new Date().toISOString()
+    };
+  }
+}
+
+export const adjustmentRepository = AdjustmentRepository.getInstance();
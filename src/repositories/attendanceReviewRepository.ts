@@ -0,0 +1,92 @@
+import { AttendanceReviewRecord } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+
+const ATTENDANCE_REVIEW_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-attendance-reviews',
+  version: 1
+};
+
+// Append-only log of review queue decisions made while importing pasted attendance
+class AttendanceReviewRepository {
+  private static instance: AttendanceReviewRepository;
+  private cache: AttendanceReviewRecord[] = [];
+  private isInitialized = false;
+
+  static getInstance(): AttendanceReviewRepository {
+    if (!AttendanceReviewRepository.instance) {
+      AttendanceReviewRepository.instance = new AttendanceReviewRepository();
+    }
+    return AttendanceReviewRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: AttendanceReviewRecord[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<AttendanceReviewRecord[]>(ATTENDANCE_REVIEW_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'ATTENDANCE_REVIEW_REPOSITORY',
+      'Failed to initialize attendance review repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Newest first
+  async findAll(): Promise<AttendanceReviewRecord[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => b.resolved_at.localeCompare(a.resolved_at));
+  }
+
+  async createMany(records: AttendanceReviewRecord[]): Promise<{ success: boolean; data?: AttendanceReviewRecord[]; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const updated = [...this.cache, ...records];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return records;
+      },
+      'ATTENDANCE_REVIEW_CREATE',
+      'Failed to record review decisions'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(records: AttendanceReviewRecord[]): Promise<void> {
+    const result = await storageService.save(ATTENDANCE_REVIEW_STORAGE_CONFIG, records);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+}
+
+export const attendanceReviewRepository = AttendanceReviewRepository.getInstance();
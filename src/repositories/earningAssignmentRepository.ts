@@ -0,0 +1,164 @@
+import { EarningAssignment, EarningAssignmentFormData } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { validateEarningAssignment } from '../utils/earnings';
+import { roundCents } from '../utils/money';
+
+const EARNING_ASSIGNMENT_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-earning-assignments',
+  version: 1
+};
+
+class EarningAssignmentRepository {
+  private static instance: EarningAssignmentRepository;
+  private cache: EarningAssignment[] = [];
+  private isInitialized = false;
+
+  static getInstance(): EarningAssignmentRepository {
+    if (!EarningAssignmentRepository.instance) {
+      EarningAssignmentRepository.instance = new EarningAssignmentRepository();
+    }
+    return EarningAssignmentRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: EarningAssignment[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<EarningAssignment[]>(EARNING_ASSIGNMENT_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'EARNING_ASSIGNMENT_REPOSITORY',
+      'Failed to initialize earning assignment repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async findAll(): Promise<EarningAssignment[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => a.start_date.localeCompare(b.start_date) || a.created_at.localeCompare(b.created_at));
+  }
+
+  async create(formData: EarningAssignmentFormData): Promise<{ success: boolean; data?: EarningAssignment; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateEarningAssignment(formData);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const now = new Date().toISOString();
+        const newAssignment: EarningAssignment = {
+          id: `earnasg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          earning_type_id: formData.earning_type_id,
+          employee_id: formData.employee_id,
+          amount: roundCents(parseFloat(formData.amount)),
+          start_date: formData.start_date,
+          end_date: formData.end_date || undefined,
+          created_by: formData.created_by?.trim() || undefined,
+          created_at: now,
+          updated_at: now
+        };
+
+        const updated = [...this.cache, newAssignment];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return newAssignment;
+      },
+      'EARNING_ASSIGNMENT_CREATE',
+      'Failed to assign earning'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Stops a recurring earning after the given date, keeping its history for earlier periods
+  async end(id: string, endDate: string): Promise<{ success: boolean; data?: EarningAssignment; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(assignment => assignment.id === id);
+        if (!existing) {
+          throw new Error(`Earning assignment with ID ${id} not found`);
+        }
+        if (endDate < existing.start_date) {
+          throw new Error('End date must be on or after the start date');
+        }
+
+        const ended: EarningAssignment = { ...existing, end_date: endDate, updated_at: new Date().toISOString() };
+        const updated = this.cache.map(assignment => (assignment.id === id ? ended : assignment));
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return ended;
+      },
+      'EARNING_ASSIGNMENT_UPDATE',
+      'Failed to end earning assignment'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        if (!this.cache.some(assignment => assignment.id === id)) {
+          throw new Error(`Earning assignment with ID ${id} not found`);
+        }
+
+        const updated = this.cache.filter(assignment => assignment.id !== id);
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'EARNING_ASSIGNMENT_DELETE',
+      'Failed to delete earning assignment'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(assignments: EarningAssignment[]): Promise<void> {
+    const result = await storageService.save(EARNING_ASSIGNMENT_STORAGE_CONFIG, assignments);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+}
+
+export const earningAssignmentRepository = EarningAssignmentRepository.getInstance();
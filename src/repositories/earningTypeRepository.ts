@@ -0,0 +1,180 @@
+import { EarningType, EarningTypeFormData } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { validateEarningType } from '../utils/earnings';
+import { roundCents } from '../utils/money';
+
+const EARNING_TYPE_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-earning-types',
+  version: 1
+};
+
+class EarningTypeRepository {
+  private static instance: EarningTypeRepository;
+  private cache: EarningType[] = [];
+  private isInitialized = false;
+
+  static getInstance(): EarningTypeRepository {
+    if (!EarningTypeRepository.instance) {
+      EarningTypeRepository.instance = new EarningTypeRepository();
+    }
+    return EarningTypeRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: EarningType[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<EarningType[]>(EARNING_TYPE_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'EARNING_TYPE_REPOSITORY',
+      'Failed to initialize earning type repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async findAll(): Promise<EarningType[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async create(formData: EarningTypeFormData): Promise<{ success: boolean; data?: EarningType; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        this.validate(formData);
+
+        const now = new Date().toISOString();
+        const newType: EarningType = {
+          id: `earn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          ...this.toFields(formData),
+          created_at: now,
+          updated_at: now
+        };
+
+        const updated = [...this.cache, newType];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return newType;
+      },
+      'EARNING_TYPE_CREATE',
+      'Failed to create earning'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Changes apply to periods calculated from now on; locked runs keep the earnings they paid
+  async update(id: string, formData: EarningTypeFormData): Promise<{ success: boolean; data?: EarningType; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(type => type.id === id);
+        if (!existing) {
+          throw new Error(`Earning with ID ${id} not found`);
+        }
+
+        this.validate(formData, id);
+
+        const updatedType: EarningType = { ...existing, ...this.toFields(formData), updated_at: new Date().toISOString() };
+        const updated = this.cache.map(type => (type.id === id ? updatedType : type));
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updatedType;
+      },
+      'EARNING_TYPE_UPDATE',
+      'Failed to update earning'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Callers check that no assignment still refers to the earning
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        if (!this.cache.some(type => type.id === id)) {
+          throw new Error(`Earning with ID ${id} not found`);
+        }
+
+        const updated = this.cache.filter(type => type.id !== id);
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'EARNING_TYPE_DELETE',
+      'Failed to delete earning'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(types: EarningType[]): Promise<void> {
+    const result = await storageService.save(EARNING_TYPE_STORAGE_CONFIG, types);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+
+  private validate(formData: EarningTypeFormData, editingId?: string): void {
+    const { errors } = validateEarningType(formData);
+
+    if (!errors.name) {
+      const name = formData.name.trim().toLowerCase();
+      if (this.cache.some(type => type.name.toLowerCase() === name && type.id !== editingId)) {
+        errors.name = `An earning named "${formData.name.trim()}" already exists`;
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new Error(`Validation failed: ${Object.values(errors).join(', ')}`);
+    }
+  }
+
+  private toFields(formData: EarningTypeFormData): Pick<EarningType, 'name' | 'taxable' | 'calculation' | 'default_amount'> {
+    return {
+      name: formData.name.trim(),
+      taxable: formData.taxable,
+      calculation: formData.calculation,
+      default_amount: roundCents(parseFloat(formData.default_amount))
+    };
+  }
+}
+
+export const earningTypeRepository = EarningTypeRepository.getInstance();
@@ -1,6 +1,10 @@
 import { Employee, EmployeeFormData, ValidationResult } from '../types';
 import { storageService, StorageConfig } from '../services/storageService';
 import { errorService } from '../services/errorService';
+import { parseAttendanceOverrides, validateAttendanceOverrides } from '../utils/attendanceSettings';
+import { applyFormRate, validateRateChange } from '../utils/rateHistory';
+import { validateCompensation } from '../utils/compensation';
+import { normalizeName, parseAliases, parseAliasList, validateAliases } from '../utils/nameMatching';
 import employeesData from '../data/employees.json';
 
 const EMPLOYEE_STORAGE_CONFIG: StorageConfig = {
@@ -131,11 +135,14 @@ class EmployeeRepository {
           name: formData.name.trim(),
           email: formData.email.trim().toLowerCase(),
           slack_user_id: formData.slack_user_id.trim(),
-          hourly_rate: parseFloat(formData.hourly_rate),
+          ...applyFormRate(formData),
           status: 'active',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
-          notes: formData.notes.trim() || undefined
+          hire_date: formData.hire_date?.trim() || undefined,
+          notes: formData.notes.trim() || undefined,
+          ...parseAttendanceOverrides(formData),
+          ...parseAliases(formData)
         };
 
         this.cache.push(newEmployee);
@@ -174,8 +181,11 @@ class EmployeeRepository {
           name: formData.name.trim(),
           email: formData.email.trim().toLowerCase(),
           slack_user_id: formData.slack_user_id.trim(),
-          hourly_rate: parseFloat(formData.hourly_rate),
+          ...applyFormRate(formData, existing),
+          hire_date: formData.hire_date?.trim() || undefined,
           notes: formData.notes.trim() || undefined,
+          ...parseAttendanceOverrides(formData),
+          ...parseAliases(formData),
           updated_at: new Date().toISOString()
         };
 
@@ -194,7 +204,51 @@ class EmployeeRepository {
     };
   }
 
-  async softDelete(id: string): Promise<{ success: boolean; data?: Employee; error?: string }> {
+  // Remembers a name the employee was matched by; adding one they already go by changes nothing
+  async addAlias(id: string, alias: string): Promise<{ success: boolean; data?: Employee; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existingIndex = this.cache.findIndex(emp => emp.id === id);
+        if (existingIndex === -1) {
+          throw new Error(`Employee with ID ${id} not found`);
+        }
+
+        const existing = this.cache[existingIndex];
+        const knownNames = [existing.name, ...(existing.aliases || [])].map(normalizeName);
+        if (knownNames.includes(normalizeName(alias))) {
+          return existing;
+        }
+
+        const aliases = [...(existing.aliases || []), alias.trim()];
+        const errors = validateAliases(aliases, this.cache, id);
+        if (Object.keys(errors).length > 0) {
+          throw new Error(`Validation failed: ${Object.values(errors).join(', ')}`);
+        }
+
+        const updatedEmployee: Employee = {
+          ...existing,
+          aliases,
+          updated_at: new Date().toISOString()
+        };
+
+        this.cache[existingIndex] = updatedEmployee;
+        await this.saveToStorage(this.cache);
+        return updatedEmployee;
+      },
+      'EMPLOYEE_UPDATE',
+      'Failed to save alias'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async softDelete(id: string, separationDate?: string): Promise<{ success: boolean; data?: Employee; error?: string }> {
     await this.ensureInitialized();
 
     const result = await errorService.withErrorHandling(
@@ -207,6 +261,7 @@ class EmployeeRepository {
         const updatedEmployee: Employee = {
           ...this.cache[existingIndex],
           status: 'inactive',
+          separation_date: separationDate ?? this.cache[existingIndex].separation_date,
           updated_at: new Date().toISOString()
         };
 
@@ -290,14 +345,20 @@ class EmployeeRepository {
       }
     }
 
-    // Hourly rate validation
-    const hourlyRate = parseFloat(formData.hourly_rate);
-    if (!formData.hourly_rate.trim()) {
-      errors.hourly_rate = 'Hourly rate is required';
-    } else if (isNaN(hourlyRate) || hourlyRate < 0.01 || hourlyRate > 999.99) {
-      errors.hourly_rate = 'Hourly rate must be between $0.01 and $999.99';
+    // Hire date validation
+    const hireDate = formData.hire_date?.trim();
+    if (hireDate && (!/^\d{4}-\d{2}-\d{2}$/.test(hireDate) || isNaN(Date.parse(hireDate)))) {
+      errors.hire_date = 'Hire date must be in YYYY-MM-DD format';
     }
 
+    Object.assign(
+      errors,
+      validateCompensation(formData),
+      validateRateChange(formData),
+      validateAttendanceOverrides(formData),
+      validateAliases(parseAliasList(formData.aliases || ''), this.cache, editingId)
+    );
+
     return {
       isValid: Object.keys(errors).length === 0,
       errors
@@ -0,0 +1,244 @@
+import { Holiday, HolidayFormData, ValidationResult } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+
+const HOLIDAY_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-holidays',
+  version: 1
+};
+
+class HolidayRepository {
+  private static instance: HolidayRepository;
+  private cache: Holiday[] = [];
+  private isInitialized = false;
+
+  static getInstance(): HolidayRepository {
+    if (!HolidayRepository.instance) {
+      HolidayRepository.instance = new HolidayRepository();
+    }
+    return HolidayRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: Holiday[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<Holiday[]>(HOLIDAY_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'HOLIDAY_REPOSITORY',
+      'Failed to initialize holiday repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async findAll(year?: number): Promise<Holiday[]> {
+    await this.ensureInitialized();
+
+    const holidays = year
+      ? this.cache.filter(holiday => holiday.date.startsWith(`${year}-`))
+      : [...this.cache];
+
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async create(formData: HolidayFormData): Promise<{ success: boolean; data?: Holiday; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = this.validateHoliday(formData);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const newHoliday = this.buildHoliday(formData);
+        this.cache.push(newHoliday);
+        await this.saveToStorage(this.cache);
+        return newHoliday;
+      },
+      'HOLIDAY_CREATE',
+      'Failed to create holiday'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async update(id: string, formData: HolidayFormData): Promise<{ success: boolean; data?: Holiday; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existingIndex = this.cache.findIndex(holiday => holiday.id === id);
+        if (existingIndex === -1) {
+          throw new Error(`Holiday with ID ${id} not found`);
+        }
+
+        const validation = this.validateHoliday(formData, id);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updatedHoliday: Holiday = {
+          ...this.cache[existingIndex],
+          date: formData.date,
+          name: formData.name.trim(),
+          type: formData.type,
+          updated_at: new Date().toISOString()
+        };
+
+        this.cache[existingIndex] = updatedHoliday;
+        await this.saveToStorage(this.cache);
+        return updatedHoliday;
+      },
+      'HOLIDAY_UPDATE',
+      'Failed to update holiday'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(holiday => holiday.id === id);
+        if (!existing) {
+          throw new Error(`Holiday with ID ${id} not found`);
+        }
+
+        this.cache = this.cache.filter(holiday => holiday.id !== id);
+        await this.saveToStorage(this.cache);
+      },
+      'HOLIDAY_DELETE',
+      'Failed to delete holiday'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  // Adds imported holidays, replacing any existing holiday on the same date
+  async importMany(holidays: HolidayFormData[]): Promise<{ success: boolean; data?: Holiday[]; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const invalid = holidays
+          .map(holiday => ({ holiday, validation: this.validateFields(holiday) }))
+          .filter(({ validation }) => !validation.isValid);
+        if (invalid.length > 0) {
+          const { holiday, validation } = invalid[0];
+          throw new Error(`Invalid holiday "${holiday.name || holiday.date}": ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const importedDates = new Set(holidays.map(holiday => holiday.date));
+        const imported = holidays.map(holiday => this.buildHoliday(holiday));
+
+        this.cache = [
+          ...this.cache.filter(holiday => !importedDates.has(holiday.date)),
+          ...imported
+        ];
+        await this.saveToStorage(this.cache);
+        return imported;
+      },
+      'HOLIDAY_IMPORT',
+      'Failed to import holidays'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(holidays: Holiday[]): Promise<void> {
+    const result = await storageService.save(HOLIDAY_STORAGE_CONFIG, holidays);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+
+  private buildHoliday(formData: HolidayFormData): Holiday {
+    return {
+      id: `hol_${formData.date.replace(/-/g, '')}_${Math.random().toString(36).slice(2, 8)}`,
+      date: formData.date,
+      name: formData.name.trim(),
+      type: formData.type,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+  }
+
+  private validateHoliday(formData: HolidayFormData, editingId?: string): ValidationResult {
+    const { errors } = this.validateFields(formData);
+
+    if (!errors.date) {
+      const duplicate = this.cache.find(holiday => holiday.date === formData.date && holiday.id !== editingId);
+      if (duplicate) {
+        errors.date = `${formData.date} is already marked as ${duplicate.name}`;
+      }
+    }
+
+    return {
+      isValid: Object.keys(errors).length === 0,
+      errors
+    };
+  }
+
+  private validateFields(formData: HolidayFormData): ValidationResult {
+    const errors: Record<string, string> = {};
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(formData.date) || isNaN(Date.parse(formData.date))) {
+      errors.date = 'Date must be in YYYY-MM-DD format';
+    }
+
+    if (!formData.name.trim()) {
+      errors.name = 'Name is required';
+    }
+
+    if (formData.type !== 'regular' && formData.type !== 'special_non_working') {
+      errors.type = 'Type must be regular or special non-working';
+    }
+
+    return {
+      isValid: Object.keys(errors).length === 0,
+      errors
+    };
+  }
+}
+
+export const holidayRepository = HolidayRepository.getInstance();
@@ -0,0 +1,189 @@
+import { Holiday, LeaveRequest, LeaveRequestFormData, PayrollRules } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { getLeaveDates, validateLeaveRequest } from '../utils/leave';
+
+const LEAVE_REQUEST_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-leave-requests',
+  version: 1
+};
+
+class LeaveRequestRepository {
+  private static instance: LeaveRequestRepository;
+  private cache: LeaveRequest[] = [];
+  private isInitialized = false;
+
+  static getInstance(): LeaveRequestRepository {
+    if (!LeaveRequestRepository.instance) {
+      LeaveRequestRepository.instance = new LeaveRequestRepository();
+    }
+    return LeaveRequestRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: LeaveRequest[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<LeaveRequest[]>(LEAVE_REQUEST_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'LEAVE_REPOSITORY',
+      'Failed to initialize leave request repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Most recent leave first
+  async findAll(): Promise<LeaveRequest[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => b.start_date.localeCompare(a.start_date) || b.created_at.localeCompare(a.created_at));
+  }
+
+  // Requests start pending; the days charged are the workdays in the range, less holidays
+  async create(
+    formData: LeaveRequestFormData,
+    rules: PayrollRules,
+    holidays: Holiday[]
+  ): Promise<{ success: boolean; data?: LeaveRequest; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateLeaveRequest(formData, rules, holidays);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const now = new Date().toISOString();
+        const newRequest: LeaveRequest = {
+          id: `leave_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          employee_id: formData.employee_id,
+          leave_type: formData.leave_type,
+          start_date: formData.start_date,
+          end_date: formData.end_date,
+          days: getLeaveDates(formData.start_date, formData.end_date, rules, holidays).length,
+          reason: formData.reason.trim() || undefined,
+          status: 'pending',
+          approval_code: formData.approval_code.trim() || undefined,
+          created_at: now,
+          updated_at: now
+        };
+
+        const updated = [...this.cache, newRequest];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return newRequest;
+      },
+      'LEAVE_CREATE',
+      'Failed to create leave request'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Balance and overlap checks happen before this, against the employee's accrual rules
+  async decide(
+    id: string,
+    status: 'approved' | 'rejected',
+    approver: string,
+    approvalCode?: string
+  ): Promise<{ success: boolean; data?: LeaveRequest; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(request => request.id === id);
+        if (!existing) {
+          throw new Error(`Leave request with ID ${id} not found`);
+        }
+        if (existing.status !== 'pending') {
+          throw new Error(`Leave request has already been ${existing.status}`);
+        }
+        if (!approver.trim()) {
+          throw new Error('Approver is required');
+        }
+
+        const now = new Date().toISOString();
+        const decided: LeaveRequest = {
+          ...existing,
+          status,
+          approver: approver.trim(),
+          approval_code: approvalCode?.trim() || existing.approval_code,
+          decided_at: now,
+          updated_at: now
+        };
+
+        const updated = this.cache.map(request => (request.id === id ? decided : request));
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return decided;
+      },
+      'LEAVE_UPDATE',
+      `Failed to ${status === 'approved' ? 'approve' : 'reject'} leave request`
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Deleting approved leave gives the days back to the balance
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        if (!this.cache.some(request => request.id === id)) {
+          throw new Error(`Leave request with ID ${id} not found`);
+        }
+
+        const updated = this.cache.filter(request => request.id !== id);
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'LEAVE_DELETE',
+      'Failed to delete leave request'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(requests: LeaveRequest[]): Promise<void> {
+    const result = await storageService.save(LEAVE_REQUEST_STORAGE_CONFIG, requests);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+}
+
+export const leaveRequestRepository = LeaveRequestRepository.getInstance();
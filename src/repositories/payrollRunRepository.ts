@@ -0,0 +1,263 @@
+import { PayPeriodRange, PayrollRun, PayrollRunInputs, PayrollRunKind, PayrollRunStatus, PayrollSummary } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { canTransitionRun, findRunForPeriod, isRunLocked, PAYROLL_RUN_STATUS_LABELS } from '../utils/payrollRuns';
+
+export interface PayrollRunOptions {
+  kind?: PayrollRunKind;
+  label?: string;
+  employee_ids?: string[];
+}
+
+const PAYROLL_RUN_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-payroll-runs',
+  version: 1
+};
+
+class PayrollRunRepository {
+  private static instance: PayrollRunRepository;
+  private cache: PayrollRun[] = [];
+  private isInitialized = false;
+
+  static getInstance(): PayrollRunRepository {
+    if (!PayrollRunRepository.instance) {
+      PayrollRunRepository.instance = new PayrollRunRepository();
+    }
+    return PayrollRunRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: PayrollRun[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<PayrollRun[]>(PAYROLL_RUN_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'PAYROLL_RUN_REPOSITORY',
+      'Failed to initialize payroll run repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Newest period first
+  async findAll(): Promise<PayrollRun[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => b.start.localeCompare(a.start));
+  }
+
+  async findById(id: string): Promise<PayrollRun | null> {
+    await this.ensureInitialized();
+    return this.cache.find(run => run.id === id) || null;
+  }
+
+  async create(
+    period: PayPeriodRange,
+    summaries: PayrollSummary[],
+    inputs: PayrollRunInputs,
+    options: PayrollRunOptions = {}
+  ): Promise<{ success: boolean; data?: PayrollRun; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const kind = options.kind || 'regular';
+        if (kind === 'regular' && findRunForPeriod(this.cache, period)) {
+          throw new Error(`A payroll run already exists for ${period.start} to ${period.end}`);
+        }
+        if (period.start > period.end) {
+          throw new Error('Run start date must be on or before its end date');
+        }
+        if (kind !== 'regular' && !options.employee_ids?.length) {
+          throw new Error('Select at least one employee for an off-cycle run');
+        }
+
+        const now = new Date().toISOString();
+        const newRun: PayrollRun = {
+          id: `run_${period.start.replace(/-/g, '')}_${Math.random().toString(36).slice(2, 8)}`,
+          start: period.start,
+          end: period.end,
+          status: 'draft',
+          kind,
+          label: options.label?.trim() || undefined,
+          employee_ids: kind === 'regular' ? undefined : options.employee_ids,
+          // Copies, so later edits to employees or attendance cannot reach the frozen run
+          inputs: structuredClone(inputs),
+          summaries: structuredClone(summaries),
+          calculated_at: now,
+          created_at: now,
+          updated_at: now
+        };
+
+        this.cache.push(newRun);
+        await this.saveToStorage(this.cache);
+        return newRun;
+      },
+      'PAYROLL_RUN_CREATE',
+      'Failed to create payroll run'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Replaces a draft run's frozen inputs and results with a fresh calculation
+  async recalculate(
+    id: string,
+    summaries: PayrollSummary[],
+    inputs: PayrollRunInputs
+  ): Promise<{ success: boolean; data?: PayrollRun; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.getRun(id);
+        if (isRunLocked(existing)) {
+          throw new Error(`Payroll run is ${PAYROLL_RUN_STATUS_LABELS[existing.status].toLowerCase()} and cannot be recalculated`);
+        }
+
+        const now = new Date().toISOString();
+        return this.replaceRun({
+          ...existing,
+          inputs: structuredClone(inputs),
+          summaries: structuredClone(summaries),
+          calculated_at: now,
+          updated_at: now
+        });
+      },
+      'PAYROLL_RUN_UPDATE',
+      'Failed to recalculate payroll run'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // `check` names anything the frozen results settle that was already settled elsewhere, such as
+  // an adjustment or installment another run paid after this draft was calculated
+  async approve(
+    id: string,
+    approvedBy?: string,
+    check?: (run: PayrollRun) => string | null
+  ): Promise<{ success: boolean; data?: PayrollRun; error?: string }> {
+    return this.transition(id, 'approved', run => {
+      const conflict = check?.(run);
+      if (conflict) {
+        throw new Error(conflict);
+      }
+
+      return {
+        ...run,
+        approved_at: new Date().toISOString(),
+        approved_by: approvedBy?.trim() || undefined
+      };
+    });
+  }
+
+  async markPaid(id: string): Promise<{ success: boolean; data?: PayrollRun; error?: string }> {
+    return this.transition(id, 'paid', run => ({ ...run, paid_at: new Date().toISOString() }));
+  }
+
+  // Only drafts can be discarded; locked runs are the payroll record
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.getRun(id);
+        if (isRunLocked(existing)) {
+          throw new Error(`Payroll run is ${PAYROLL_RUN_STATUS_LABELS[existing.status].toLowerCase()} and cannot be deleted`);
+        }
+
+        this.cache = this.cache.filter(run => run.id !== id);
+        await this.saveToStorage(this.cache);
+      },
+      'PAYROLL_RUN_DELETE',
+      'Failed to delete payroll run'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  private async transition(
+    id: string,
+    status: PayrollRunStatus,
+    apply: (run: PayrollRun) => PayrollRun
+  ): Promise<{ success: boolean; data?: PayrollRun; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.getRun(id);
+        if (!canTransitionRun(existing.status, status)) {
+          throw new Error(
+            `Cannot mark a ${PAYROLL_RUN_STATUS_LABELS[existing.status].toLowerCase()} payroll run as ${PAYROLL_RUN_STATUS_LABELS[status].toLowerCase()}`
+          );
+        }
+
+        return this.replaceRun({ ...apply(existing), status, updated_at: new Date().toISOString() });
+      },
+      'PAYROLL_RUN_UPDATE',
+      `Failed to mark payroll run as ${status}`
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  private getRun(id: string): PayrollRun {
+    const existing = this.cache.find(run => run.id === id);
+    if (!existing) {
+      throw new Error(`Payroll run with ID ${id} not found`);
+    }
+    return existing;
+  }
+
+  private async replaceRun(run: PayrollRun): Promise<PayrollRun> {
+    const updated = this.cache.map(existing => (existing.id === run.id ? run : existing));
+    await this.saveToStorage(updated);
+    this.cache = updated;
+    return run;
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(runs: PayrollRun[]): Promise<void> {
+    const result = await storageService.save(PAYROLL_RUN_STORAGE_CONFIG, runs);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+}
+
+export const payrollRunRepository = PayrollRunRepository.getInstance();
@@ -0,0 +1,216 @@
+import { PayrollRun, RecurringDeduction, RecurringDeductionFormData } from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { getInstallmentAmount, getRemainingBalance, validateRecurringDeduction } from '../utils/recurringDeductions';
+import { roundCents } from '../utils/money';
+
+const RECURRING_DEDUCTION_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-recurring-deductions',
+  version: 1
+};
+
+class RecurringDeductionRepository {
+  private static instance: RecurringDeductionRepository;
+  private cache: RecurringDeduction[] = [];
+  private isInitialized = false;
+
+  static getInstance(): RecurringDeductionRepository {
+    if (!RecurringDeductionRepository.instance) {
+      RecurringDeductionRepository.instance = new RecurringDeductionRepository();
+    }
+    return RecurringDeductionRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: RecurringDeduction[]; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<RecurringDeduction[]>(RECURRING_DEDUCTION_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        this.cache = storageResult.data || [];
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'RECURRING_DEDUCTION_REPOSITORY',
+      'Failed to initialize recurring deduction repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Oldest first, the order installments are taken within a period
+  async findAll(): Promise<RecurringDeduction[]> {
+    await this.ensureInitialized();
+    return [...this.cache].sort((a, b) => a.start_date.localeCompare(b.start_date) || a.created_at.localeCompare(b.created_at));
+  }
+
+  async create(formData: RecurringDeductionFormData): Promise<{ success: boolean; data?: RecurringDeduction; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateRecurringDeduction(formData);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const principal = roundCents(parseFloat(formData.principal));
+        const now = new Date().toISOString();
+        const newDeduction: RecurringDeduction = {
+          id: `ded_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          employee_id: formData.employee_id,
+          kind: formData.kind,
+          label: formData.label.trim(),
+          principal,
+          installment_amount: getInstallmentAmount(principal, formData.installment_mode, parseFloat(formData.installment_value)),
+          start_date: formData.start_date,
+          status: 'active',
+          payments: [],
+          created_by: formData.created_by?.trim() || undefined,
+          created_at: now,
+          updated_at: now
+        };
+
+        const updated = [...this.cache, newDeduction];
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return newDeduction;
+      },
+      'RECURRING_DEDUCTION_CREATE',
+      'Failed to create recurring deduction'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Records the installments an approved run took, completing deductions that are fully repaid.
+  // Runs already recorded are skipped, so approving twice cannot double a payment.
+  async recordPayments(run: PayrollRun): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const now = new Date().toISOString();
+        const taken = new Map(
+          run.summaries
+            .flatMap(summary => summary.recurring_deductions || [])
+            .filter(line => line.amount > 0)
+            .map(line => [line.deduction_id, line.amount])
+        );
+
+        const updated = this.cache.map(deduction => {
+          const amount = taken.get(deduction.id);
+          if (amount === undefined || deduction.payments.some(payment => payment.run_id === run.id)) {
+            return deduction;
+          }
+
+          const paid: RecurringDeduction = {
+            ...deduction,
+            payments: [...deduction.payments, { run_id: run.id, period_start: run.start, period_end: run.end, amount, recorded_at: now }],
+            updated_at: now
+          };
+          return getRemainingBalance(paid) <= 0 ? { ...paid, status: 'completed' as const } : paid;
+        });
+
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'RECURRING_DEDUCTION_UPDATE',
+      'Failed to record deduction payments'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  // Stops future installments; payments already taken stay on record
+  async cancel(id: string): Promise<{ success: boolean; data?: RecurringDeduction; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(deduction => deduction.id === id);
+        if (!existing) {
+          throw new Error(`Recurring deduction with ID ${id} not found`);
+        }
+        if (existing.status !== 'active') {
+          throw new Error('Only active deductions can be cancelled');
+        }
+
+        const cancelled: RecurringDeduction = { ...existing, status: 'cancelled', updated_at: new Date().toISOString() };
+        const updated = this.cache.map(deduction => (deduction.id === id ? cancelled : deduction));
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return cancelled;
+      },
+      'RECURRING_DEDUCTION_UPDATE',
+      'Failed to cancel recurring deduction'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // Deductions with payments are part of locked runs and stay in the ledger
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const existing = this.cache.find(deduction => deduction.id === id);
+        if (!existing) {
+          throw new Error(`Recurring deduction with ID ${id} not found`);
+        }
+        if (existing.payments.length > 0) {
+          throw new Error('Deduction has installments on record and cannot be deleted; cancel it instead');
+        }
+
+        const updated = this.cache.filter(deduction => deduction.id !== id);
+        await this.saveToStorage(updated);
+        this.cache = updated;
+      },
+      'RECURRING_DEDUCTION_DELETE',
+      'Failed to delete recurring deduction'
+    );
+
+    return {
+      success: result.success,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(deductions: RecurringDeduction[]): Promise<void> {
+    const result = await storageService.save(RECURRING_DEDUCTION_STORAGE_CONFIG, deductions);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+}
+
+export const recurringDeductionRepository = RecurringDeductionRepository.getInstance();
@@ -0,0 +1,341 @@
+import {
+  AppSettings,
+  AttendanceSettings,
+  BreakSettings,
+  DeductionSettings,
+  LeaveSettings,
+  PaySchedule,
+  PayrollRules,
+  TardinessPolicy,
+  VocabularyEntry
+} from '../types';
+import { storageService, StorageConfig } from '../services/storageService';
+import { errorService } from '../services/errorService';
+import { DEFAULT_ATTENDANCE_SETTINGS, validateAttendanceSettings } from '../utils/attendanceSettings';
+import { DEFAULT_PAY_SCHEDULE, validatePaySchedule } from '../utils/payCalendar';
+import { DEFAULT_DEDUCTION_SETTINGS, validateDeductionSettings } from '../utils/recurringDeductions';
+import { DEFAULT_TARDINESS_POLICY, validateTardinessPolicy } from '../utils/tardiness';
+import { DEFAULT_BREAK_SETTINGS, validateBreakSettings } from '../utils/breaks';
+import { DEFAULT_VOCABULARY, validateVocabulary } from '../utils/vocabulary';
+import { DEFAULT_LEAVE_SETTINGS, validateLeaveSettings } from '../utils/leave';
+import { DEFAULT_PAYROLL_RULES, validatePayrollRules } from '../utils/payrollCalculator';
+
+const SETTINGS_STORAGE_CONFIG: StorageConfig = {
+  key: 'pgmn-ops-settings',
+  version: 1
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  attendance: DEFAULT_ATTENDANCE_SETTINGS,
+  pay_schedule: DEFAULT_PAY_SCHEDULE,
+  deductions: DEFAULT_DEDUCTION_SETTINGS,
+  tardiness: DEFAULT_TARDINESS_POLICY,
+  breaks: DEFAULT_BREAK_SETTINGS,
+  vocabulary: DEFAULT_VOCABULARY,
+  leave: DEFAULT_LEAVE_SETTINGS,
+  payroll_rules: DEFAULT_PAYROLL_RULES
+};
+
+class SettingsRepository {
+  private static instance: SettingsRepository;
+  private cache: AppSettings = DEFAULT_APP_SETTINGS;
+  private isInitialized = false;
+
+  static getInstance(): SettingsRepository {
+    if (!SettingsRepository.instance) {
+      SettingsRepository.instance = new SettingsRepository();
+    }
+    return SettingsRepository.instance;
+  }
+
+  async initialize(): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    if (this.isInitialized) {
+      return { success: true, data: this.cache };
+    }
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const storageResult = await storageService.load<Partial<AppSettings>>(SETTINGS_STORAGE_CONFIG);
+
+        if (!storageResult.success) {
+          throw new Error(storageResult.error || 'Failed to load from storage');
+        }
+
+        // Fill in sections added after the settings were first saved
+        const stored = storageResult.data || {};
+        this.cache = {
+          ...DEFAULT_APP_SETTINGS,
+          ...stored,
+          attendance: { ...DEFAULT_APP_SETTINGS.attendance, ...stored.attendance },
+          pay_schedule: { ...DEFAULT_APP_SETTINGS.pay_schedule, ...stored.pay_schedule },
+          deductions: { ...DEFAULT_APP_SETTINGS.deductions, ...stored.deductions },
+          tardiness: { ...DEFAULT_APP_SETTINGS.tardiness, ...stored.tardiness },
+          breaks: { ...DEFAULT_APP_SETTINGS.breaks, ...stored.breaks },
+          vocabulary: stored.vocabulary || DEFAULT_APP_SETTINGS.vocabulary,
+          leave: { ...DEFAULT_APP_SETTINGS.leave, ...stored.leave },
+          payroll_rules: { ...DEFAULT_APP_SETTINGS.payroll_rules, ...stored.payroll_rules }
+        };
+        this.isInitialized = true;
+        return this.cache;
+      },
+      'SETTINGS_REPOSITORY',
+      'Failed to initialize settings repository'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async get(): Promise<AppSettings> {
+    await this.ensureInitialized();
+    return this.cache;
+  }
+
+  async updateAttendanceSettings(
+    settings: AttendanceSettings
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateAttendanceSettings(settings);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updated: AppSettings = {
+          ...this.cache,
+          attendance: { ...settings, default_start_time: settings.default_start_time.trim(), timezone: settings.timezone.trim() }
+        };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update attendance settings'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async updatePaySchedule(
+    schedule: PaySchedule
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validatePaySchedule(schedule);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updated: AppSettings = { ...this.cache, pay_schedule: schedule };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update pay schedule'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async updateDeductionSettings(
+    settings: DeductionSettings
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateDeductionSettings(settings);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updated: AppSettings = { ...this.cache, deductions: settings };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update deduction settings'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async updateTardinessPolicy(
+    policy: TardinessPolicy
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateTardinessPolicy(policy);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const brackets = [...policy.brackets].sort((a, b) => a.from_minutes - b.from_minutes);
+        const updated: AppSettings = { ...this.cache, tardiness: { ...policy, brackets } };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update tardiness policy'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async updateBreakSettings(
+    breaks: BreakSettings
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateBreakSettings(breaks);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updated: AppSettings = { ...this.cache, breaks };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update break settings'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  // The list is saved in the given order, which is the order patterns are tried in
+  async updateVocabulary(
+    vocabulary: VocabularyEntry[]
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateVocabulary(vocabulary);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const entries = vocabulary.map(entry => ({ ...entry, pattern: entry.pattern.trim() }));
+        const updated: AppSettings = { ...this.cache, vocabulary: entries };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update attendance vocabulary'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async updateLeaveSettings(
+    leave: LeaveSettings
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validateLeaveSettings(leave);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updated: AppSettings = { ...this.cache, leave };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update leave settings'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  async updatePayrollRules(
+    rules: PayrollRules
+  ): Promise<{ success: boolean; data?: AppSettings; error?: string }> {
+    await this.ensureInitialized();
+
+    const result = await errorService.withErrorHandling(
+      async () => {
+        const validation = validatePayrollRules(rules);
+        if (!validation.isValid) {
+          throw new Error(`Validation failed: ${Object.values(validation.errors).join(', ')}`);
+        }
+
+        const updated: AppSettings = { ...this.cache, payroll_rules: rules };
+        await this.saveToStorage(updated);
+        this.cache = updated;
+        return updated;
+      },
+      'SETTINGS_UPDATE',
+      'Failed to update payroll rules'
+    );
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error?.message
+    };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+  }
+
+  private async saveToStorage(settings: AppSettings): Promise<void> {
+    const result = await storageService.save(SETTINGS_STORAGE_CONFIG, settings);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save to storage');
+    }
+  }
+}
+
+export const settingsRepository = SettingsRepository.getInstance();
@@ -154,14 +154,37 @@ ${JSON.stringify(data.employees, null, 2)}
 PAYROLL RULES:
 ${JSON.stringify(rules, null, 2)}
 
+EARNINGS:
+${JSON.stringify(data.context?.earnings || [], null, 2)}
+
+ADJUSTMENTS:
+${JSON.stringify(data.context?.adjustments || [], null, 2)}
+
+TARDINESS POLICY:
+${JSON.stringify(data.context?.tardiness || { mode: 'flat', flat_amount: rules?.late_deduction_amount || 10 }, null, 2)}
+
+RECURRING DEDUCTIONS (net pay floor: $${data.context?.netPayFloor || 0}):
+${JSON.stringify(data.context?.recurringDeductions || [], null, 2)}
+
 CALCULATION REQUIREMENTS:
 1. Calculate total hours worked for each employee
-2. Determine regular hours (max ${rules?.standard_work_hours || 8} hours per day)
-3. Calculate overtime hours (anything over regular hours)
-4. Apply late deductions for days marked as late ($${rules?.late_deduction_amount || 10} per late day)
+2. Determine regular hours per attendance day (max ${rules?.standard_work_hours || 8} hours per day unless overtime_mode is "weekly")
+3. Calculate overtime hours per day, plus hours beyond ${rules?.weekly_overtime_threshold_hours || 40} per workweek when overtime_mode is "weekly" or "daily_and_weekly"
+4. Apply late deductions for days marked as late under the TARDINESS POLICY
+   - mode "flat": flat_amount per late day
+   - mode "per_minute": minutes_late × the day's hourly rate ÷ 60; "tiered" charges the charged_minutes of the bracket minutes_late falls in instead (minutes outside every bracket are charged as is)
+   - per_minute and tiered modes do not charge hourly employees; when include_undertime is true, charge minutes left before the end of the standard day the same way as "undertime_deductions"
 5. Apply offline deductions for days marked as offline ($${rules?.offline_deduction_amount || 50} per offline day)
 6. Calculate gross pay (regular hours × hourly rate + overtime hours × hourly rate × ${rules?.overtime_multiplier || 1.5})
-7. Calculate net pay (gross pay - total deductions)
+   - Use the rate in effect on each attendance day: the rate_history entry with the latest effective_from on or before that date (the employee's current rate when there is no history)
+   - compensation_type "daily": pay the daily rate for each attended day; "salaried": pay monthly salary ÷ scheduled workdays in that month for each scheduled workday, leaving unattended non-holiday workdays unpaid
+   - For daily and salaried employees, overtime and premiums use the hourly equivalent (day's rate ÷ ${rules?.standard_work_hours || 8})
+   - Multiply pay for hours on rest days (rest_days) and holidays by the matching multiplier in the rules
+   - Add night differential (night_differential_multiplier) for hours between night_differential_start_hour and night_differential_end_hour, on top of the day and overtime rate
+   - Add each EARNINGS entry for the same employee_id: "per_day" pays rate × days attended, "fixed" and "one_off" pay the rate once; list them in "earnings"
+   - Only earnings with taxable true count toward statutory contributions and withholding tax
+7. Calculate net pay (gross pay - total deductions), then add "earning" and subtract "deduction" amounts from ADJUSTMENTS for the same employee_id; list them in "adjustments"
+8. Subtract each RECURRING DEDUCTIONS scheduled_amount for the same employee_id in order, taking less (down to zero) whenever a full installment would leave net pay below the net pay floor; list them in "recurring_deductions" with the amount taken and remaining_balance (balance - amount)
 
 Return a JSON response with this exact structure:
 {
@@ -177,7 +200,17 @@ Return a JSON response with this exact structure:
       "late_deductions": number,
       "offline_deductions": number,
       "gross_pay": number,
-      "net_pay": number
+      "net_pay": number,
+      "daily_breakdown": [
+        {
+          "date": "YYYY-MM-DD",
+          "hours_worked": number,
+          "regular_hours": number,
+          "overtime_hours": number,
+          "is_late": boolean,
+          "is_offline": boolean
+        }
+      ]
     }
   ],
   "reasoning": "Brief explanation of calculation methodology",
@@ -187,7 +220,7 @@ Return a JSON response with this exact structure:
   }
 
   private buildAttendancePrompt(request: ComputationRequest): string {
-    const { data, rules } = request;
+    const { data } = request;
     
     return `
 Parse Slack messages into structured attendance logs.
@@ -198,11 +231,29 @@ ${JSON.stringify(data.messages, null, 2)}
 EMPLOYEES:
 ${JSON.stringify(data.employees, null, 2)}
 
+ATTENDANCE SETTINGS:
+${JSON.stringify(data.settings, null, 2)}
+
+BREAK SETTINGS:
+${JSON.stringify(data.breakSettings, null, 2)}
+
+VOCABULARY:
+${JSON.stringify(data.vocabulary, null, 2)}
+
 PARSING RULES:
-- Messages with ":in:" indicate check-in
-- Messages with ":out:" indicate check-out
-- Standard work day starts at 9:00 AM
-- Grace period: ${rules?.late_grace_period_minutes || 5} minutes
+- VOCABULARY lists the ways a check-in or check-out is written, in priority order; ignore entries with scope "slack_text"
+- A message is a check-in or check-out when the first matching entry's status is "check_in" or "check_out" ("emoji" entries match anywhere, "keyword" entries as whole words, "regex" entries as case-insensitive regular expressions)
+- Pair each check-in with the next check-out; a pair may cross midnight and belongs to the day it started
+- An employee may have several pairs per day (split shifts, breaks); sum their hours
+- Messages without ":in:" or ":out:" that contain a start_markers or end_markers entry from BREAK SETTINGS start or end an unpaid break (":emoji:" markers anywhere, other markers only when they are the entire message, case-insensitive; the earliest marker in a message wins)
+- Subtract paired breaks that fall within worked time from hours_worked and list them in "breaks"; when a day has no logged break and hours_worked exceeds auto_deduct_after_hours (0 means never), subtract auto_deduct_minutes
+- Report breaks longer than allowed_break_minutes with "overlong_minutes" (the minutes beyond the allowed length)
+- Messages have already been reduced to their latest edit, with deleted messages removed
+- A thread reply (thread_ts differs from ts) that states a time, such as "forgot to :out: at 6pm", logs its check-in or check-out at that time on the day the thread started; list it in "anomalies" with type "late_logged" for review
+- Do not invent times for check-ins or check-outs that have no partner
+- Interpret timestamps in the timezone from ATTENDANCE SETTINGS (or the employee's own timezone, if set) and date each log by that local calendar day
+- Standard work day starts at ${data.settings?.default_start_time || '10:00 AM'} local time unless the employee has a start_time override
+- Grace period: ${data.settings?.grace_period_minutes ?? 5} minutes unless the employee has a grace_period_minutes override
 - Mark as late if check-in is after start time + grace period
 - Mark as offline if no check-in and check-out for the day
 
@@ -217,7 +268,10 @@ Return a JSON response with this exact structure:
       "check_out": "ISO timestamp or null",
       "is_late": boolean,
       "is_offline": boolean,
-      "hours_worked": number
+      "hours_worked": number,
+      "break_minutes": number,
+      "breaks": [{ "start": "ISO timestamp", "end": "ISO timestamp", "minutes": number, "overlong_minutes": number or null }],
+      "anomalies": [{ "employee_id": "string", "date": "YYYY-MM-DD", "type": "string", "timestamp": "ISO timestamp", "message": "string" }]
     }
   ],
   "reasoning": "Brief explanation of parsing logic",
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { extractAttendanceEvents, pairAttendanceEvents, buildAttendanceLogs, resolveMessageHistory } from '../utils/attendanceEvents';
+import { parseSlackMessages } from '../utils/payrollCalculator';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { AttendanceEvent, Employee, SlackMessage } from '../types';
+
+describe('Attendance Event Pairing', () => {
+  const employees: Employee[] = [
+    {
+      id: 'emp_001',
+      slack_user_id: 'U01234567',
+      name: 'John Smith',
+      email: 'john@company.com',
+      hourly_rate: 25.00,
+      status: 'active',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z'
+    }
+  ];
+
+  const settings = { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' };
+
+  const message = (text: string, iso: string, date: string): SlackMessage => ({
+    user: 'U01234567',
+    text,
+    ts: (Date.parse(iso) / 1000).toFixed(6),
+    date
+  });
+
+  const event = (type: 'in' | 'out', iso: string, date: string = iso.slice(0, 10)): AttendanceEvent => ({
+    employee_id: 'emp_001',
+    date,
+    type,
+    timestamp: new Date(iso)
+  });
+
+  describe('extractAttendanceEvents', () => {
+    it('should ignore unknown users and messages without an in/out or break marker', () => {
+      const events = extractAttendanceEvents([
+        message(':in: morning', '2024-01-01T09:00:00Z', '2024-01-01'),
+        message('standup in 5', '2024-01-01T09:55:00Z', '2024-01-01'),
+        message('lunch meeting moved, brb', '2024-01-01T11:00:00Z', '2024-01-01'),
+        message('lunch', '2024-01-01T12:00:00Z', '2024-01-01'),
+        { ...message(':in:', '2024-01-01T09:00:00Z', '2024-01-01'), user: 'U99999999' }
+      ], employees, settings);
+
+      expect(events.map(e => e.type)).toEqual(['in', 'break_start']);
+      expect(events[0]).toMatchObject({ employee_id: 'emp_001', type: 'in', date: '2024-01-01' });
+    });
+
+    it('should log a thread reply that states a time at that time, on the day the thread started', () => {
+      const checkIn = message(':in: night shift', '2024-01-01T22:00:00Z', '2024-01-01');
+      const events = extractAttendanceEvents([
+        checkIn,
+        { ...message('forgot to :out: at 6am', '2024-01-02T09:30:00Z', '2024-01-02'), thread_ts: checkIn.ts },
+        { ...message(':out:', '2024-01-02T10:00:00Z', '2024-01-02'), thread_ts: checkIn.ts }
+      ], employees, settings);
+
+      expect(events[1]).toMatchObject({ type: 'out', date: '2024-01-02', logged_at: new Date('2024-01-02T09:30:00Z') });
+      expect(events[1].timestamp.toISOString()).toBe('2024-01-02T06:00:00.000Z');
+      expect(events[2].timestamp.toISOString()).toBe('2024-01-02T10:00:00.000Z');
+      expect(events[2].logged_at).toBeUndefined();
+    });
+  });
+
+  describe('resolveMessageHistory', () => {
+    it('should keep only the latest edit and drop deleted messages', () => {
+      const checkIn = message(':ni:', '2024-01-01T09:00:00Z', '2024-01-01');
+      const checkOut = message(':out:', '2024-01-01T12:00:00Z', '2024-01-01');
+      const resolved = resolveMessageHistory([
+        checkIn,
+        { ...checkIn, text: ':in: (fixed twice)', edited: { user: 'U01234567', ts: '1704100000.000000' } },
+        { ...checkIn, text: ':in: (fixed)', subtype: 'message_changed', edited: { user: 'U01234567', ts: '1704099000.000000' } },
+        checkOut,
+        { ...checkOut, text: '', subtype: 'message_deleted' }
+      ]);
+
+      expect(resolved.map(entry => entry.text)).toEqual([':in: (fixed twice)']);
+    });
+  });
+
+  describe('pairAttendanceEvents', () => {
+    it('should pair a shift that crosses midnight onto the day it started', () => {
+      const { segments, anomalies } = pairAttendanceEvents([
+        event('out', '2024-01-02T06:00:00Z'),
+        event('in', '2024-01-01T22:00:00Z')
+      ]);
+
+      expect(anomalies).toHaveLength(0);
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toMatchObject({ date: '2024-01-01', hours: 8 });
+    });
+
+    it('should keep every pair of a split shift', () => {
+      const { segments } = pairAttendanceEvents([
+        event('in', '2024-01-01T09:00:00Z'),
+        event('out', '2024-01-01T12:00:00Z'),
+        event('in', '2024-01-01T13:00:00Z'),
+        event('out', '2024-01-01T18:00:00Z')
+      ]);
+
+      expect(segments.map(segment => segment.hours)).toEqual([3, 5]);
+    });
+
+    it('should flag unpaired check-ins and check-outs as anomalies', () => {
+      const { segments, anomalies } = pairAttendanceEvents([
+        event('out', '2024-01-01T08:00:00Z'),
+        event('in', '2024-01-01T09:00:00Z'),
+        event('in', '2024-01-01T10:00:00Z'),
+        event('out', '2024-01-01T17:00:00Z'),
+        event('in', '2024-01-02T09:00:00Z')
+      ]);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0].hours).toBe(7);
+      expect(anomalies.map(anomaly => [anomaly.type, anomaly.timestamp.toISOString()])).toEqual([
+        ['unpaired_out', '2024-01-01T08:00:00.000Z'],
+        ['unpaired_in', '2024-01-01T09:00:00.000Z'],
+        ['unpaired_in', '2024-01-02T09:00:00.000Z']
+      ]);
+    });
+
+    it('should not pair events further apart than the maximum segment length', () => {
+      const { segments, anomalies } = pairAttendanceEvents([
+        event('in', '2024-01-01T09:00:00Z'),
+        event('out', '2024-01-02T17:00:00Z')
+      ]);
+
+      expect(segments).toHaveLength(0);
+      expect(anomalies.map(anomaly => anomaly.type)).toEqual(['unpaired_in', 'unpaired_out']);
+    });
+  });
+
+  describe('buildAttendanceLogs', () => {
+    it('should sum segments into one log per day and attach anomalies', () => {
+      const { segments, anomalies } = pairAttendanceEvents([
+        event('in', '2024-01-01T09:00:00Z'),
+        event('out', '2024-01-01T12:00:00Z'),
+        event('in', '2024-01-01T13:00:00Z'),
+        event('out', '2024-01-01T18:00:00Z'),
+        event('out', '2024-01-01T19:00:00Z')
+      ]);
+      const logs = buildAttendanceLogs(segments, anomalies, () => 0);
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].hours_worked).toBe(8);
+      expect(logs[0].check_in?.toISOString()).toBe('2024-01-01T09:00:00.000Z');
+      expect(logs[0].check_out?.toISOString()).toBe('2024-01-01T18:00:00.000Z');
+      expect(logs[0].segments).toHaveLength(2);
+      expect(logs[0].anomalies).toHaveLength(1);
+    });
+
+    it('should keep days that only have anomalies with zero hours', () => {
+      const { segments, anomalies } = pairAttendanceEvents([event('in', '2024-01-01T09:00:00Z')]);
+      const logs = buildAttendanceLogs(segments, anomalies, () => 12);
+
+      expect(logs).toEqual([
+        expect.objectContaining({ date: '2024-01-01', hours_worked: 0, is_late: false, is_offline: false })
+      ]);
+    });
+  });
+
+  describe('parseSlackMessages', () => {
+    it('should produce a single log for a night shift posted across two Slack days', () => {
+      const logs = parseSlackMessages([
+        message(':in: starting night shift', '2024-01-01T22:00:00Z', '2024-01-01'),
+        message(':out: done', '2024-01-02T06:00:00Z', '2024-01-02')
+      ], employees, settings);
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0]).toMatchObject({ date: '2024-01-01', hours_worked: 8 });
+    });
+
+    it('should pair a check-out logged later in a thread and flag it for review', () => {
+      const checkIn = message(':in:', '2024-01-01T09:00:00Z', '2024-01-01');
+      const logs = parseSlackMessages([
+        checkIn,
+        { ...message('forgot to :out: at 6pm, sorry', '2024-01-02T08:00:00Z', '2024-01-02'), thread_ts: checkIn.ts }
+      ], employees, settings);
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0]).toMatchObject({ date: '2024-01-01', hours_worked: 9 });
+      expect(logs[0].anomalies!.map(anomaly => [anomaly.type, anomaly.message])).toEqual([
+        ['late_logged', 'Check-out logged afterwards in a thread reply']
+      ]);
+    });
+
+    it('should log a day the employee posted without checking in or out as offline', () => {
+      const logs = parseSlackMessages([
+        message(':in:', '2024-01-01T09:00:00Z', '2024-01-01'),
+        message(':out:', '2024-01-01T17:00:00Z', '2024-01-01'),
+        message('no power here, will update', '2024-01-02T09:30:00Z', '2024-01-02')
+      ], employees, settings);
+
+      expect(logs.map(log => [log.date, log.is_offline, log.hours_worked])).toEqual([
+        ['2024-01-01', false, 8],
+        ['2024-01-02', true, 0]
+      ]);
+    });
+  });
+});
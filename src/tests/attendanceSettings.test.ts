@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMinutesLate,
+  DEFAULT_ATTENDANCE_SETTINGS,
+  getScheduledStart,
+  resolveAttendanceSettings,
+  validateAttendanceSettings
+} from '../utils/attendanceSettings';
+import { getZonedDateString, parseClockTime, zonedDateTimeToUtc } from '../utils/timezone';
+import { extractAttendanceEvents } from '../utils/attendanceEvents';
+import { SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { Employee } from '../types';
+
+describe('Attendance Settings and Timezones', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  };
+
+  describe('timezone helpers', () => {
+    it('should parse 12 and 24 hour clock times', () => {
+      expect(parseClockTime('10:00 AM')).toBe(600);
+      expect(parseClockTime('12:15 am')).toBe(15);
+      expect(parseClockTime('9:30PM')).toBe(21 * 60 + 30);
+      expect(parseClockTime('21:30')).toBe(21 * 60 + 30);
+      expect(parseClockTime('25:00')).toBeNull();
+      expect(parseClockTime('soon')).toBeNull();
+    });
+
+    it('should convert a wall-clock time in a timezone to UTC', () => {
+      expect(zonedDateTimeToUtc('2025-06-02', 600, 'Asia/Manila').toISOString()).toBe('2025-06-02T02:00:00.000Z');
+      expect(zonedDateTimeToUtc('2025-01-15', 540, 'America/New_York').toISOString()).toBe('2025-01-15T14:00:00.000Z');
+      expect(zonedDateTimeToUtc('2025-07-15', 540, 'America/New_York').toISOString()).toBe('2025-07-15T13:00:00.000Z');
+    });
+
+    it('should bucket an instant into the calendar day of the timezone', () => {
+      const instant = new Date('2025-06-02T18:00:00Z');
+
+      expect(getZonedDateString(instant, 'Asia/Manila')).toBe('2025-06-03');
+      expect(getZonedDateString(instant, 'America/Los_Angeles')).toBe('2025-06-02');
+    });
+  });
+
+  describe('calculateMinutesLate', () => {
+    it('should measure lateness from the start time in the configured timezone', () => {
+      // 10:20 AM in Manila
+      const checkIn = new Date('2025-06-02T02:20:00Z');
+
+      expect(getScheduledStart('2025-06-02', employee).toISOString()).toBe('2025-06-02T02:00:00.000Z');
+      expect(calculateMinutesLate(checkIn, '2025-06-02', employee)).toBe(15);
+    });
+
+    it('should not count arrivals within the grace period', () => {
+      const checkIn = new Date('2025-06-02T02:05:00Z');
+
+      expect(calculateMinutesLate(checkIn, '2025-06-02', employee)).toBe(0);
+    });
+
+    it('should prefer per-employee overrides over the workspace settings', () => {
+      const remote: Employee = { ...employee, start_time: '9:00 AM', timezone: 'America/New_York', grace_period_minutes: 0 };
+      // 9:30 AM in New York
+      const checkIn = new Date('2025-06-02T13:30:00Z');
+
+      expect(resolveAttendanceSettings(remote, DEFAULT_ATTENDANCE_SETTINGS)).toMatchObject({
+        default_start_time: '9:00 AM',
+        timezone: 'America/New_York',
+        grace_period_minutes: 0
+      });
+      expect(calculateMinutesLate(checkIn, '2025-06-02', remote)).toBe(30);
+    });
+  });
+
+  describe('validateAttendanceSettings', () => {
+    it('should reject unknown timezones and unparseable start times', () => {
+      const result = validateAttendanceSettings({
+        ...DEFAULT_ATTENDANCE_SETTINGS,
+        default_start_time: 'noon-ish',
+        timezone: 'Mars/Olympus'
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(Object.keys(result.errors)).toEqual(['default_start_time', 'timezone']);
+    });
+  });
+
+  describe('attendance days', () => {
+    it('should date Slack events by the employee timezone rather than the machine', () => {
+      const [event] = extractAttendanceEvents([
+        { user: 'U01234567', text: ':in:', ts: (Date.parse('2025-06-02T23:30:00Z') / 1000).toFixed(6), date: '2025-06-02' }
+      ], [employee]);
+
+      expect(event.date).toBe('2025-06-03');
+    });
+
+    it('should evaluate pasted check-in times on the attendance date in the configured timezone', () => {
+      const parser = new SlackAttendanceTextParser([employee], { timezone: 'Asia/Manila', grace_period_minutes: 0 });
+      const result = parser.parseSlackText('Start date 06/02/25\nJohn Smith [10:20 AM] IN');
+
+      expect(result.date).toBe('2025-06-02');
+      expect(result.entries[0]).toMatchObject({ employee_id: 'emp_001', is_late: true, minutes_late: 20 });
+    });
+  });
+});
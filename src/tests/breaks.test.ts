@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES, parseSlackMessages } from '../utils/payrollCalculator';
+import { DEFAULT_BREAK_SETTINGS, getBreakEventType, validateBreakSettings } from '../utils/breaks';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { Employee, SlackMessage } from '../types';
+
+describe('Breaks', () => {
+  const employees: Employee[] = [
+    {
+      id: 'emp_001',
+      slack_user_id: 'U01234567',
+      name: 'John Smith',
+      email: 'john@company.com',
+      hourly_rate: 25.00,
+      status: 'active',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z'
+    }
+  ];
+
+  const settings = { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' };
+
+  const message = (text: string, time: string): SlackMessage => ({
+    user: 'U01234567',
+    text,
+    ts: (Date.parse(`2024-01-02T${time}:00Z`) / 1000).toFixed(6),
+    date: '2024-01-02'
+  });
+
+  describe('getBreakEventType', () => {
+    it('should let the earliest marker in a message decide', () => {
+      expect(getBreakEventType(':brb: :back: in 30')).toBe('break_start');
+      expect(getBreakEventType(':back: from :lunch:')).toBe('break_end');
+      expect(getBreakEventType(':back:')).toBe('break_end');
+    });
+
+    it('should only match word markers as the whole message', () => {
+      expect(getBreakEventType('Lunch')).toBe('break_start');
+      expect(getBreakEventType(' back! ')).toBe('break_end');
+      expect(getBreakEventType('Back from lunch')).toBeNull();
+      expect(getBreakEventType('back to the ticket, lunch meeting at 1')).toBeNull();
+      expect(getBreakEventType('taking a break from this bug')).toBeNull();
+      expect(getBreakEventType('breakfast meeting ran long')).toBeNull();
+    });
+  });
+
+  describe('parseSlackMessages', () => {
+    it('should take a paired break out of hours worked', () => {
+      const [log] = parseSlackMessages([
+        message(':in:', '09:00'),
+        message('lunch', '12:00'),
+        message('back', '13:00'),
+        message(':out:', '18:00')
+      ], employees, settings);
+
+      expect(log.hours_worked).toBe(8);
+      expect(log.break_minutes).toBe(60);
+      expect(log.segments).toHaveLength(2);
+    });
+
+    it('should keep :in: and :out: ahead of break markers', () => {
+      const [log] = parseSlackMessages([
+        message(':in:', '09:00'),
+        message(':out: for lunch', '12:00')
+      ], employees, settings);
+
+      expect(log.hours_worked).toBe(3);
+      expect(log.breaks).toBeUndefined();
+    });
+
+    it('should report an unpaired break marker without changing hours', () => {
+      const [log] = parseSlackMessages([
+        message(':in:', '09:00'),
+        message(':brb:', '12:00'),
+        message(':out:', '17:00')
+      ], employees, settings);
+
+      expect(log.hours_worked).toBe(8);
+      expect(log.anomalies?.map(anomaly => [anomaly.type, anomaly.message])).toEqual([
+        ['unpaired_break_start', 'Break start without a matching break end']
+      ]);
+    });
+
+    it('should auto-deduct a break on long days with none logged', () => {
+      const breakSettings = { ...DEFAULT_BREAK_SETTINGS, auto_deduct_after_hours: 9, auto_deduct_minutes: 60 };
+      const [longDay] = parseSlackMessages([message(':in:', '08:00'), message(':out:', '18:00')], employees, settings, breakSettings);
+      const [shortDay] = parseSlackMessages([message(':in:', '09:00'), message(':out:', '17:00')], employees, settings, breakSettings);
+
+      expect(longDay.hours_worked).toBe(9);
+      expect(longDay.breaks?.[0]).toMatchObject({ minutes: 60, is_auto: true });
+      expect(longDay.breaks?.[0].start.toISOString()).toBe('2024-01-02T12:30:00.000Z');
+      expect(shortDay.hours_worked).toBe(8);
+    });
+  });
+
+  it('should report breaks over the allowed length in the summary', () => {
+    const logs = parseSlackMessages([
+      message(':in:', '09:00'),
+      message(':lunch:', '12:00'),
+      message(':back:', '13:30'),
+      message(':out:', '18:00')
+    ], employees, settings, { ...DEFAULT_BREAK_SETTINGS, allowed_break_minutes: 60 });
+    const [summary] = calculatePayrollSummary(logs, employees, { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false }, {
+      period: { start: '2024-01-01', end: '2024-01-15' }
+    });
+
+    expect(summary.total_hours).toBe(7.5);
+    expect(summary.break_minutes).toBe(90);
+    expect(summary.overlong_breaks).toBe(1);
+    expect(summary.overlong_break_minutes).toBe(30);
+  });
+
+  it('should reject a marker that both starts and ends a break', () => {
+    const result = validateBreakSettings({ ...DEFAULT_BREAK_SETTINGS, end_markers: [':back:', 'BRB'] });
+    expect(result.errors.end_markers).toBe('brb cannot both start and end a break');
+  });
+});
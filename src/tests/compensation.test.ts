@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { getDayRates, getScheduledWorkDaysInMonth, validateCompensation } from '../utils/compensation';
+import { applyFormRate } from '../utils/rateHistory';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { AttendanceLog, Employee, EmployeeFormData, Holiday } from '../types';
+
+describe('Compensation Types', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+  const baseEmployee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 0,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const dailyEmployee: Employee = { ...baseEmployee, compensation_type: 'daily', daily_rate: 800 };
+  const salariedEmployee: Employee = { ...baseEmployee, compensation_type: 'salaried', monthly_salary: 26000 };
+
+  const log = (date: string, hours: number, checkIn = true): AttendanceLog => ({
+    employee_id: 'emp_001',
+    date,
+    check_in: checkIn ? new Date(`${date}T01:00:00Z`) : undefined,
+    is_late: false,
+    is_offline: false,
+    hours_worked: hours
+  });
+
+  const formData = (overrides: Partial<EmployeeFormData>): EmployeeFormData => ({
+    name: 'John Smith',
+    email: 'john@company.com',
+    slack_user_id: 'U01234567',
+    hourly_rate: '',
+    notes: '',
+    ...overrides
+  });
+
+  describe('getDayRates', () => {
+    it('should convert a monthly salary to a daily and hourly equivalent', () => {
+      // June 2025 has 25 days that are not Sundays
+      expect(getScheduledWorkDaysInMonth('2025-06-10', rules)).toBe(25);
+
+      const rates = getDayRates({ rate: 26000, compensation_type: 'salaried', effective_from: '2025-01-01', changed_at: '' }, '2025-06-10', rules);
+      expect(rates.daily_rate).toBe(1040);
+      expect(rates.hourly_rate).toBe(130);
+    });
+
+    it('should treat entries without a compensation type as hourly', () => {
+      const rates = getDayRates({ rate: 25, effective_from: '2025-01-01', changed_at: '' }, '2025-06-10', rules);
+
+      expect(rates).toEqual({ compensation_type: 'hourly', hourly_rate: 25, daily_rate: 200 });
+    });
+  });
+
+  describe('daily-rate employees', () => {
+    it('should pay the daily rate per attended day with overtime at the hourly equivalent', () => {
+      const [summary] = calculatePayrollSummary([log('2025-06-02', 6), log('2025-06-03', 10)], [dailyEmployee], rules);
+
+      expect(summary.regular_hours).toBe(14);
+      expect(summary.overtime_hours).toBe(2);
+      expect(summary.gross_pay).toBe(800 + 800 + 2 * 100 * 1.5);
+    });
+
+    it('should pay a day when the check-out is missing', () => {
+      const [summary] = calculatePayrollSummary([log('2025-06-02', 0)], [dailyEmployee], rules);
+
+      expect(summary.gross_pay).toBe(800);
+    });
+  });
+
+  describe('salaried employees', () => {
+    const period = { start: '2025-06-02', end: '2025-06-07' };
+
+    it('should pay the prorated salary minus unpaid absences', () => {
+      // Monday-Saturday are scheduled; Wednesday is missed
+      const logs = ['2025-06-02', '2025-06-03', '2025-06-05', '2025-06-06', '2025-06-07'].map(date => log(date, 8));
+      const [summary] = calculatePayrollSummary(logs, [salariedEmployee], rules, { period });
+
+      expect(summary.absent_days).toBe(1);
+      expect(summary.daily_breakdown.find(day => day.date === '2025-06-04')?.is_absent).toBe(true);
+      expect(summary.gross_pay).toBeCloseTo(5 * 1040, 2);
+    });
+
+    it('should not treat an unworked holiday as an absence', () => {
+      const holiday: Holiday = {
+        id: 'hol_1',
+        date: '2025-06-04',
+        name: 'Holiday',
+        type: 'special_non_working',
+        created_at: '2025-01-01T00:00:00.000Z',
+        updated_at: '2025-01-01T00:00:00.000Z'
+      };
+      const logs = ['2025-06-02', '2025-06-03', '2025-06-05', '2025-06-06', '2025-06-07'].map(date => log(date, 8));
+      const [summary] = calculatePayrollSummary(logs, [salariedEmployee], rules, { period, holidays: [holiday] });
+
+      expect(summary.absent_days).toBe(0);
+      expect(summary.gross_pay).toBeCloseTo(6 * 1040, 2);
+    });
+  });
+
+  describe('staff form', () => {
+    it('should validate the rate field for the selected compensation type', () => {
+      expect(validateCompensation(formData({ compensation_type: 'daily' }))).toEqual({ daily_rate: 'Daily rate is required' });
+      expect(validateCompensation(formData({ compensation_type: 'salaried', monthly_salary: '30000' }))).toEqual({});
+      expect(validateCompensation(formData({ hourly_rate: '1200' })).hourly_rate).toContain('Hourly rate must be between');
+    });
+
+    it('should record a change of compensation type in the rate history', () => {
+      const hourly: Employee = { ...baseEmployee, hourly_rate: 25 };
+      const result = applyFormRate(formData({ compensation_type: 'salaried', monthly_salary: '30000', rate_effective_from: '2025-07-01' }), hourly);
+
+      expect(result).toMatchObject({ compensation_type: 'salaried', monthly_salary: 30000, hourly_rate: 0 });
+      expect(result.rate_history?.map(change => change.compensation_type)).toEqual(['hourly', 'salaried']);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { earningTypeRepository } from '../repositories/earningTypeRepository';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES, exportToCSV } from '../utils/payrollCalculator';
+import { getScheduledEarnings, validateEarningAssignment } from '../utils/earnings';
+import { AttendanceLog, EarningAssignment, EarningType, Employee } from '../types';
+
+// Mock the storage service
+vi.mock('../services/storageService', () => ({
+  storageService: {
+    save: vi.fn().mockResolvedValue({ success: true }),
+    // A fresh array per load, since the repository appends to what it loads
+    load: vi.fn().mockImplementation(async () => ({ success: true, data: [] }))
+  }
+}));
+
+// Mock the error service
+vi.mock('../services/errorService', () => ({
+  errorService: {
+    withErrorHandling: vi.fn().mockImplementation(async (operation) => {
+      try {
+        const data = await operation();
+        return { success: true, data };
+      } catch (error) {
+        return { success: false, error: { message: (error as Error).message } };
+      }
+    }),
+    handleError: vi.fn()
+  }
+}));
+
+describe('Earnings', () => {
+  const period = { start: '2025-06-01', end: '2025-06-15' };
+
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const logs: AttendanceLog[] = [
+    { employee_id: 'emp_001', date: '2025-06-02', is_late: false, is_offline: false, hours_worked: 8 },
+    { employee_id: 'emp_001', date: '2025-06-03', is_late: false, is_offline: false, hours_worked: 8 },
+    { employee_id: 'emp_001', date: '2025-06-04', is_late: false, is_offline: true, hours_worked: 0 }
+  ];
+
+  const earningType = (id: string, overrides: Partial<EarningType>): EarningType => ({
+    id,
+    name: id,
+    taxable: true,
+    calculation: 'fixed',
+    default_amount: 0,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  const assignment = (id: string, typeId: string, amount: number, start_date: string, end_date?: string): EarningAssignment => ({
+    id,
+    earning_type_id: typeId,
+    employee_id: 'emp_001',
+    amount,
+    start_date,
+    end_date,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  });
+
+  const types = [
+    earningType('internet', { name: 'Internet allowance', taxable: false }),
+    earningType('transport', { name: 'Transport allowance', taxable: false, calculation: 'per_day' }),
+    earningType('bonus', { name: 'Performance bonus', calculation: 'one_off' })
+  ];
+
+  beforeEach(() => {
+    (earningTypeRepository as any).cache = [];
+    (earningTypeRepository as any).isInitialized = false;
+  });
+
+  describe('getScheduledEarnings', () => {
+    it('should pay recurring earnings in overlapping periods and one-offs once', () => {
+      const assignments = [
+        assignment('a1', 'internet', 50, '2025-01-01'),
+        assignment('a2', 'internet', 60, '2025-01-01', '2025-05-31'),
+        assignment('a3', 'bonus', 500, '2025-06-10'),
+        assignment('a4', 'bonus', 500, '2025-05-10'),
+        assignment('a5', 'transport', 5, '2025-06-16')
+      ];
+
+      expect(getScheduledEarnings(types, assignments, period).map(earning => earning.assignment_id)).toEqual(['a1', 'a3']);
+    });
+
+    it('should skip assignments whose earning was removed from the catalog', () => {
+      expect(getScheduledEarnings([], [assignment('a1', 'internet', 50, '2025-01-01')], period)).toEqual([]);
+    });
+  });
+
+  describe('calculatePayrollSummary', () => {
+    const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+    it('should itemize earnings and add them to gross pay', () => {
+      const earnings = getScheduledEarnings(
+        types,
+        [assignment('a1', 'internet', 50, '2025-01-01'), assignment('a2', 'transport', 5, '2025-01-01'), assignment('a3', 'bonus', 300, '2025-06-10')],
+        period
+      );
+      const [summary] = calculatePayrollSummary(logs, [employee], rules, { period, earnings });
+
+      expect(summary.earnings?.map(line => [line.name, line.quantity, line.amount])).toEqual([
+        ['Internet allowance', 1, 50],
+        ['Transport allowance', 2, 10],
+        ['Performance bonus', 1, 300]
+      ]);
+      expect(summary.taxable_earnings).toBe(300);
+      expect(summary.non_taxable_earnings).toBe(60);
+      expect(summary.gross_pay).toBe(400 + 360);
+    });
+
+    it('should only count days attended inside the assignment window', () => {
+      const earnings = getScheduledEarnings(
+        types,
+        [assignment('a1', 'transport', 5, '2025-06-03'), assignment('a2', 'internet', 50, '2025-06-10')],
+        period
+      );
+      const [summary] = calculatePayrollSummary(logs, [employee], rules, { period, earnings });
+
+      // Transport starts after the first attended day; the fixed allowance is paid for the whole period
+      expect(summary.earnings?.map(line => [line.name, line.quantity, line.amount])).toEqual([
+        ['Transport allowance', 1, 5],
+        ['Internet allowance', 1, 50]
+      ]);
+    });
+
+    it('should leave non-taxable earnings out of statutory deductions', () => {
+      const statutoryRules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: true };
+      const withEarning = (typeId: string) =>
+        calculatePayrollSummary(logs, [employee], statutoryRules, {
+          period,
+          earnings: getScheduledEarnings(types, [assignment('a1', typeId, 1000, '2025-06-01')], period)
+        })[0];
+      const [base] = calculatePayrollSummary(logs, [employee], statutoryRules, { period });
+
+      expect(withEarning('internet').statutory_deductions).toBe(base.statutory_deductions);
+      expect(withEarning('bonus').statutory_deductions).toBeGreaterThan(base.statutory_deductions);
+    });
+
+    it('should export one column per earning', () => {
+      const earnings = getScheduledEarnings(types, [assignment('a1', 'internet', 50, '2025-01-01')], period);
+      const [headers, row] = exportToCSV(calculatePayrollSummary(logs, [employee], rules, { period, earnings })).split('\n');
+
+      const column = headers.split(',').indexOf('Internet allowance');
+      expect(column).toBeGreaterThan(headers.split(',').indexOf('Night Diff Pay'));
+      expect(row.split(',')[column]).toBe('$50.00');
+    });
+  });
+
+  describe('catalog', () => {
+    it('should reject duplicate earning names', async () => {
+      await earningTypeRepository.create({ name: 'Internet allowance', taxable: false, calculation: 'fixed', default_amount: '50' });
+      const duplicate = await earningTypeRepository.create({ name: 'internet allowance', taxable: true, calculation: 'fixed', default_amount: '10' });
+
+      expect(duplicate.success).toBe(false);
+      expect(duplicate.error).toContain('already exists');
+    });
+
+    it('should validate assignment dates', () => {
+      const formData = { earning_type_id: 'internet', employee_id: 'emp_001', amount: '50', start_date: '2025-06-15', end_date: '2025-06-01' };
+      expect(validateEarningAssignment(formData).errors.end_date).toBe('End date must be on or after the start date');
+      expect(validateEarningAssignment({ ...formData, end_date: '' }).isValid).toBe(true);
+    });
+  });
+});
@@ -220,6 +220,30 @@ describe('EmployeeRepository', () => {
       expect(result.data?.updated_at).toBeDefined();
     });
 
+    it('should record a rate change in the rate history', async () => {
+      const formData: EmployeeFormData = {
+        name: 'John Smith',
+        email: 'john@company.com',
+        slack_user_id: 'U01234567',
+        hourly_rate: '28.00',
+        notes: '',
+        rate_effective_from: '2025-06-09',
+        rate_change_reason: 'Annual raise',
+        rate_changed_by: 'Maria'
+      };
+
+      const result = await employeeRepository.update('emp_001', formData);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.hourly_rate).toBe(28);
+      expect(result.data?.rate_history?.map(change => change.rate)).toEqual([25, 28]);
+      expect(result.data?.rate_history?.[1]).toMatchObject({
+        effective_from: '2025-06-09',
+        reason: 'Annual raise',
+        changed_by: 'Maria'
+      });
+    });
+
     it('should reject update with non-existent ID', async () => {
       const formData: EmployeeFormData = {
         name: 'Test',
@@ -257,6 +281,27 @@ describe('EmployeeRepository', () => {
     });
   });
 
+  describe('addAlias', () => {
+    beforeEach(async () => {
+      await employeeRepository.initialize();
+    });
+
+    it('should remember a new alias once', async () => {
+      await employeeRepository.addAlias('emp_001', 'Johnny');
+      const result = await employeeRepository.addAlias('emp_001', ' johnny ');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.aliases).toEqual(['Johnny']);
+    });
+
+    it("should reject another employee's name as an alias", async () => {
+      const result = await employeeRepository.addAlias('emp_001', 'Jane Doe');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('"Jane Doe" is already used by another employee');
+    });
+  });
+
   describe('findById and findBySlackId', () => {
     beforeEach(async () => {
       await employeeRepository.initialize();
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { payrollRunRepository } from '../repositories/payrollRunRepository';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { buildFinalPayLines, getFinalPayPeriod, getUnusedLeaveDays, validateFinalPayOptions } from '../utils/finalPay';
+import { DEFAULT_LEAVE_SETTINGS } from '../utils/leave';
+import { getOutstandingAdjustments } from '../utils/payrollAdjustments';
+import { findRunForPeriod } from '../utils/payrollRuns';
+import { DEFAULT_PAY_SCHEDULE } from '../utils/payCalendar';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { AttendanceLog, Employee, LeaveRequest, PayrollAdjustment, PayrollRun, PayrollRunInputs } from '../types';
+
+// Mock the storage service
+vi.mock('../services/storageService', () => ({
+  storageService: {
+    save: vi.fn().mockResolvedValue({ success: true }),
+    // A fresh array per load, since the repository appends to what it loads
+    load: vi.fn().mockImplementation(async () => ({ success: true, data: [] }))
+  }
+}));
+
+// Mock the error service
+vi.mock('../services/errorService', () => ({
+  errorService: {
+    withErrorHandling: vi.fn().mockImplementation(async (operation) => {
+      try {
+        const data = await operation();
+        return { success: true, data };
+      } catch (error) {
+        return { success: false, error: { message: (error as Error).message } };
+      }
+    }),
+    handleError: vi.fn()
+  }
+}));
+
+describe('Off-Cycle and Final Pay', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+  const period = { start: '2025-06-01', end: '2025-06-15' };
+
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25,
+    status: 'inactive',
+    separation_date: '2025-06-20',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const logs: AttendanceLog[] = [
+    { employee_id: 'emp_001', date: '2025-06-02', is_late: false, is_offline: false, hours_worked: 8 },
+    { employee_id: 'emp_001', date: '2025-06-03', is_late: false, is_offline: false, hours_worked: 8 }
+  ];
+
+  const inputs: PayrollRunInputs = {
+    employees: [employee],
+    attendance_logs: logs,
+    holidays: [],
+    rules,
+    attendance_settings: DEFAULT_ATTENDANCE_SETTINGS
+  };
+
+  const run = (overrides: Partial<PayrollRun> = {}): PayrollRun => ({
+    id: 'run_1',
+    start: period.start,
+    end: period.end,
+    status: 'paid',
+    inputs,
+    summaries: calculatePayrollSummary(logs, [employee], rules, { period }),
+    calculated_at: '2025-06-16T00:00:00.000Z',
+    created_at: '2025-06-16T00:00:00.000Z',
+    updated_at: '2025-06-16T00:00:00.000Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    (payrollRunRepository as any).cache = [];
+    (payrollRunRepository as any).isInitialized = false;
+  });
+
+  describe('getFinalPayPeriod', () => {
+    it('should start the day after the last locked regular run', () => {
+      expect(getFinalPayPeriod(employee, '2025-06-20', [run()], DEFAULT_PAY_SCHEDULE)).toEqual({
+        start: '2025-06-16',
+        end: '2025-06-20'
+      });
+    });
+
+    it('should ignore drafts and runs that did not pay the employee', () => {
+      const runs = [run({ status: 'draft' }), run({ id: 'run_2', summaries: [] })];
+
+      expect(getFinalPayPeriod(employee, '2025-06-20', runs, DEFAULT_PAY_SCHEDULE).start).toBe('2025-06-16');
+      expect(getFinalPayPeriod(employee, '2025-06-10', runs, DEFAULT_PAY_SCHEDULE).start).toBe('2025-06-01');
+    });
+  });
+
+  describe('buildFinalPayLines', () => {
+    it('should convert unused leave at the daily rate', () => {
+      const lines = buildFinalPayLines(employee, undefined, [], { separation_date: '2025-06-20', unused_leave_days: 2.5 }, rules);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ type: 'earning', amount: 500, source: 'final_pay', apply_from: '2025-06-20' });
+    });
+
+    it('should prefill unused leave from the balances on the last working day', () => {
+      const vacation: LeaveRequest = {
+        id: 'leave_001',
+        employee_id: 'emp_001',
+        leave_type: 'vacation',
+        start_date: '2025-06-02',
+        end_date: '2025-06-03',
+        days: 2,
+        status: 'approved',
+        approver: 'Jane Manager',
+        created_at: '2025-05-20T00:00:00.000Z',
+        updated_at: '2025-05-20T00:00:00.000Z'
+      };
+
+      // Five monthly credits of vacation, sick and emergency leave, less the two vacation days taken
+      expect(getUnusedLeaveDays(employee, [vacation], DEFAULT_LEAVE_SETTINGS, '2025-06-20', rules, [])).toBe(6.25 + 6.25 + 1.25 - 2);
+    });
+
+    it('should prorate 13th month from basic pay in locked runs and the final period', () => {
+      const finalSummary = calculatePayrollSummary(
+        [{ employee_id: 'emp_001', date: '2025-06-16', is_late: false, is_offline: false, hours_worked: 8 }],
+        [employee],
+        rules,
+        { period: { start: '2025-06-16', end: '2025-06-20' } }
+      )[0];
+      const lines = buildFinalPayLines(employee, finalSummary, [run()], { separation_date: '2025-06-20', unused_leave_days: 0 }, rules);
+
+      // 3 days x $200 basic pay / 12
+      expect(lines).toEqual([expect.objectContaining({ id: 'final_emp_001_13th_month', amount: 50 })]);
+    });
+  });
+
+  it('should settle outstanding adjustments regardless of their due date', () => {
+    const adjustments: PayrollAdjustment[] = [
+      { id: 'adj_1', employee_id: 'emp_001', type: 'deduction', amount: 30, label: 'Laptop', source: 'manual', apply_from: '2025-09-01', created_at: '' },
+      { id: 'adj_2', employee_id: 'emp_001', type: 'earning', amount: 10, label: 'Paid', source: 'manual', apply_from: '2025-06-01', applied_run_id: 'run_1', created_at: '' },
+      { id: 'adj_3', employee_id: 'emp_002', type: 'earning', amount: 10, label: 'Other', source: 'manual', apply_from: '2025-06-01', created_at: '' }
+    ];
+
+    expect(getOutstandingAdjustments(adjustments, ['emp_001']).map(adjustment => adjustment.id)).toEqual(['adj_1']);
+  });
+
+  it('should validate final pay options', () => {
+    expect(validateFinalPayOptions({ separation_date: '2025-06-20', unused_leave_days: 0 })).toEqual({});
+    expect(Object.keys(validateFinalPayOptions({ separation_date: '', unused_leave_days: -1 }))).toEqual([
+      'separation_date',
+      'unused_leave_days'
+    ]);
+  });
+
+  describe('off-cycle runs', () => {
+    it('should allow off-cycle runs over the dates of a regular run', async () => {
+      const summaries = run().summaries;
+      await payrollRunRepository.create(period, summaries, inputs);
+      const offCycle = await payrollRunRepository.create(period, summaries, inputs, {
+        kind: 'off_cycle',
+        label: 'Missed hours',
+        employee_ids: ['emp_001']
+      });
+
+      expect(offCycle.success).toBe(true);
+      expect(offCycle.data).toMatchObject({ kind: 'off_cycle', label: 'Missed hours', employee_ids: ['emp_001'] });
+      expect(findRunForPeriod(await payrollRunRepository.findAll(), period)?.kind).toBe('regular');
+    });
+
+    it('should require employees for an off-cycle run', async () => {
+      const result = await payrollRunRepository.create(period, [], inputs, { kind: 'final_pay' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Select at least one employee for an off-cycle run');
+    });
+  });
+});
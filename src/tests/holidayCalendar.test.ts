@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { parseHolidayICS, parseHolidayJSON, getHolidaysInPeriod } from '../utils/holidayCalendar';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { AttendanceLog, Employee, Holiday } from '../types';
+
+describe('Holiday Calendar', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 100,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  };
+
+  const holidays: Holiday[] = [
+    {
+      id: 'hol_1',
+      date: '2025-06-12',
+      name: 'Independence Day',
+      type: 'regular',
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z'
+    },
+    {
+      id: 'hol_2',
+      date: '2025-08-21',
+      name: 'Ninoy Aquino Day',
+      type: 'special_non_working',
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z'
+    }
+  ];
+
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+  const makeLog = (date: string, hours: number): AttendanceLog => ({
+    employee_id: 'emp_001',
+    date,
+    is_late: false,
+    is_offline: false,
+    hours_worked: hours
+  });
+
+  describe('parsing', () => {
+    it('should parse a JSON holiday list', () => {
+      const result = parseHolidayJSON(JSON.stringify([
+        { date: '2025-12-25', name: 'Christmas Day', type: 'regular' },
+        { date: '2025-12-24', name: 'Christmas Eve', type: 'special' }
+      ]));
+
+      expect(result).toEqual([
+        { date: '2025-12-25', name: 'Christmas Day', type: 'regular' },
+        { date: '2025-12-24', name: 'Christmas Eve', type: 'special_non_working' }
+      ]);
+    });
+
+    it('should reject JSON that is not a holiday array', () => {
+      expect(() => parseHolidayJSON('{"date": "2025-12-25"}')).toThrow('Expected an array');
+      expect(() => parseHolidayJSON('[{"name": "No date"}]')).toThrow('position 1');
+    });
+
+    it('should parse all-day events from an ICS file', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20251130',
+        'SUMMARY:Bonifacio Day',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20251208',
+        'SUMMARY:Feast of the Immaculate',
+        '  Conception',
+        'CATEGORIES:Special Non-Working Holiday',
+        'END:VEVENT',
+        'END:VCALENDAR'
+      ].join('\r\n');
+
+      expect(parseHolidayICS(ics)).toEqual([
+        { date: '2025-11-30', name: 'Bonifacio Day', type: 'regular' },
+        { date: '2025-12-08', name: 'Feast of the Immaculate Conception', type: 'special_non_working' }
+      ]);
+    });
+
+    it('should filter holidays to a pay period', () => {
+      expect(getHolidaysInPeriod(holidays, { start: '2025-06-01', end: '2025-06-15' })).toHaveLength(1);
+      expect(getHolidaysInPeriod(holidays, { start: '2025-07-01', end: '2025-07-15' })).toHaveLength(0);
+    });
+  });
+
+  describe('holiday pay', () => {
+    it('should pay double for hours worked on a regular holiday', () => {
+      const [summary] = calculatePayrollSummary([makeLog('2025-06-12', 8)], [employee], rules, {
+        period: { start: '2025-06-12', end: '2025-06-12' },
+        holidays
+      });
+
+      expect(summary.holiday_hours).toBe(8);
+      expect(summary.holiday_pay).toBe(800);
+      expect(summary.gross_pay).toBe(1600);
+      expect(summary.daily_breakdown[0].holiday_type).toBe('regular');
+    });
+
+    it('should apply the holiday premium to overtime on a special holiday', () => {
+      const [summary] = calculatePayrollSummary([makeLog('2025-08-21', 10)], [employee], rules, {
+        period: { start: '2025-08-21', end: '2025-08-21' },
+        holidays
+      });
+
+      // 8h regular + 2h at 1.5x = 1100, then 30% special holiday premium
+      expect(summary.holiday_pay).toBeCloseTo(330, 2);
+      expect(summary.gross_pay).toBeCloseTo(1430, 2);
+    });
+
+    it('should pay an unworked regular holiday but not an unworked special holiday', () => {
+      const [summary] = calculatePayrollSummary([makeLog('2025-06-11', 8)], [employee], rules, {
+        period: { start: '2025-06-01', end: '2025-08-31' },
+        holidays
+      });
+
+      expect(summary.daily_breakdown.map(day => day.date)).toEqual(['2025-06-11', '2025-06-12', '2025-08-21']);
+      expect(summary.holiday_hours).toBe(0);
+      expect(summary.holiday_pay).toBe(800);
+      expect(summary.gross_pay).toBe(1600);
+    });
+
+    it('should ignore holidays when none are configured', () => {
+      const [summary] = calculatePayrollSummary([makeLog('2025-06-12', 8)], [employee], rules, {
+        period: { start: '2025-06-12', end: '2025-06-12' }
+      });
+
+      expect(summary.holiday_pay).toBe(0);
+      expect(summary.gross_pay).toBe(800);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateLeaveBalances,
+  DEFAULT_LEAVE_SETTINGS,
+  flagMissingLeaveRequests,
+  getLeaveDates,
+  getScheduledLeave,
+  validateLeaveApproval
+} from '../utils/leave';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { buildReviewQueue } from '../utils/reviewQueue';
+import { SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { AttendanceLog, Employee, Holiday, LeaveRequest } from '../types';
+
+describe('Leave Management', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 0,
+    compensation_type: 'daily',
+    daily_rate: 800,
+    status: 'active',
+    created_at: '2025-01-15T00:00:00.000Z',
+    updated_at: '2025-01-15T00:00:00.000Z'
+  };
+
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+  const request = (overrides: Partial<LeaveRequest>): LeaveRequest => ({
+    id: 'leave_001',
+    employee_id: 'emp_001',
+    leave_type: 'vacation',
+    start_date: '2025-06-02',
+    end_date: '2025-06-03',
+    days: 2,
+    status: 'approved',
+    approver: 'Jane Manager',
+    created_at: '2025-05-20T00:00:00.000Z',
+    updated_at: '2025-05-20T00:00:00.000Z',
+    ...overrides
+  });
+
+  const makeLog = (date: string, hours: number): AttendanceLog => ({
+    employee_id: 'emp_001',
+    date,
+    is_late: false,
+    is_offline: false,
+    hours_worked: hours
+  });
+
+  it('should only charge workdays', () => {
+    // Friday to Monday, with Sunday as the rest day
+    expect(getLeaveDates('2025-06-06', '2025-06-09', rules, [])).toEqual(['2025-06-06', '2025-06-07', '2025-06-09']);
+  });
+
+  it('should not charge holidays inside a leave range', () => {
+    const independenceDay: Holiday = {
+      id: 'hol_001',
+      date: '2025-06-12',
+      name: 'Independence Day',
+      type: 'regular',
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z'
+    };
+    const week = request({ start_date: '2025-06-09', end_date: '2025-06-13', days: 4 });
+
+    expect(getLeaveDates('2025-06-09', '2025-06-13', rules, [independenceDay]))
+      .toEqual(['2025-06-09', '2025-06-10', '2025-06-11', '2025-06-13']);
+    expect(getScheduledLeave([week], { start: '2025-06-09', end: '2025-06-13' }, rules, [independenceDay]).map(day => day.date))
+      .not.toContain('2025-06-12');
+    expect(calculateLeaveBalances(employee, [week], DEFAULT_LEAVE_SETTINGS, '2025-06-20', rules, [independenceDay])
+      .find(balance => balance.leave_type === 'vacation')).toMatchObject({ used: 4, available: 2.25 });
+  });
+
+  it('should accrue monthly from the start date and deduct approved leave', () => {
+    const requests = [request({}), request({ id: 'leave_002', leave_type: 'sick', start_date: '2025-06-18', end_date: '2025-06-18', days: 1, status: 'pending' })];
+    const balances = calculateLeaveBalances(employee, requests, DEFAULT_LEAVE_SETTINGS, '2025-06-20', rules, []);
+
+    // Credited on Feb 15 through Jun 15
+    expect(balances).toEqual([
+      { leave_type: 'vacation', accrued: 6.25, used: 2, pending: 0, available: 4.25 },
+      { leave_type: 'sick', accrued: 6.25, used: 0, pending: 1, available: 6.25 },
+      { leave_type: 'emergency', accrued: 1.25, used: 0, pending: 0, available: 1.25 }
+    ]);
+  });
+
+  it('should accrue from the hire date rather than the rate history', () => {
+    const backdated: Employee = {
+      ...employee,
+      rate_history: [{ effective_from: '2020-01-01', compensation_type: 'daily', rate: 700, changed_at: '2025-01-15T00:00:00.000Z' }]
+    };
+    const vacation = (emp: Employee) => calculateLeaveBalances(emp, [], DEFAULT_LEAVE_SETTINGS, '2025-06-20', rules, [])
+      .find(balance => balance.leave_type === 'vacation');
+
+    // A backdated rate does not add service; created_at is the fallback start
+    expect(vacation(backdated)).toMatchObject({ accrued: 6.25 });
+    // Credited on Apr 1 through Jun 1
+    expect(vacation({ ...backdated, hire_date: '2025-03-01' })).toMatchObject({ accrued: 3.75 });
+  });
+
+  it('should stop accruing at the cap', () => {
+    const balances = calculateLeaveBalances(employee, [request({})], DEFAULT_LEAVE_SETTINGS, '2026-06-20', rules, []);
+
+    expect(balances.find(balance => balance.leave_type === 'vacation')).toMatchObject({ used: 2, available: 15 });
+    expect(balances.find(balance => balance.leave_type === 'emergency')).toMatchObject({ accrued: 3, available: 3 });
+  });
+
+  it('should refuse approvals the balance does not cover', () => {
+    const taken = request({});
+    const pending = request({ id: 'leave_002', start_date: '2025-06-23', end_date: '2025-06-27', days: 5, status: 'pending' });
+    const requests = [taken, pending];
+
+    expect(validateLeaveApproval(pending, employee, requests, DEFAULT_LEAVE_SETTINGS, 'Jane Manager', rules, []))
+      .toBe('Only 4.25 vacation leave days available');
+    expect(validateLeaveApproval({ ...pending, days: 4 }, employee, requests, DEFAULT_LEAVE_SETTINGS, 'Jane Manager', rules, [])).toBeNull();
+    expect(validateLeaveApproval({ ...pending, leave_type: 'unpaid' }, employee, requests, DEFAULT_LEAVE_SETTINGS, 'Jane Manager', rules, [])).toBeNull();
+    expect(validateLeaveApproval(pending, employee, requests, DEFAULT_LEAVE_SETTINGS, ' ', rules, [])).toBe('Approver is required');
+    expect(validateLeaveApproval({ ...pending, start_date: '2025-06-03', leave_type: 'unpaid' }, employee, requests, DEFAULT_LEAVE_SETTINGS, 'Jane Manager', rules, []))
+      .toBe('Overlaps approved leave from 2025-06-02 to 2025-06-03');
+  });
+
+  it('should pay paid leave at the day rate and unpaid leave nothing', () => {
+    const period = { start: '2025-06-09', end: '2025-06-13' };
+    const leave = getScheduledLeave([
+      request({ start_date: '2025-06-10', end_date: '2025-06-10', days: 1 }),
+      request({ id: 'leave_002', leave_type: 'unpaid', start_date: '2025-06-11', end_date: '2025-06-11', days: 1 }),
+      request({ id: 'leave_003', start_date: '2025-06-12', end_date: '2025-06-12', days: 1, status: 'pending' })
+    ], period, rules, []);
+    const [summary] = calculatePayrollSummary([makeLog('2025-06-09', 8)], [employee], rules, { period, leave });
+
+    expect(summary.daily_breakdown.map(day => [day.date, day.leave_type, day.regular_pay])).toEqual([
+      ['2025-06-09', undefined, 800],
+      ['2025-06-10', 'vacation', 800],
+      ['2025-06-11', 'unpaid', 0]
+    ]);
+    expect(summary).toMatchObject({ paid_leave_days: 1, unpaid_leave_days: 1, leave_pay: 800, gross_pay: 1600 });
+
+    // Salaried staff on leave are not counted absent
+    const salaried: Employee = { ...employee, compensation_type: 'salaried', monthly_salary: 26000 };
+    const [salariedSummary] = calculatePayrollSummary([makeLog('2025-06-09', 8)], [salaried], rules, { period, leave });
+    expect(salariedSummary).toMatchObject({ absent_days: 2, paid_leave_days: 1, unpaid_leave_days: 1 });
+  });
+
+  it('should flag approved outs with no matching leave request for review', () => {
+    const maria: Employee = { ...employee, id: 'emp_002', slack_user_id: 'U07654321', name: 'Maria Cruz', email: 'maria@company.com' };
+    const parser = new SlackAttendanceTextParser([employee, maria], { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' });
+    const results = parser.parseSlackTextByDay(
+      'start date 6/10/25\n\nJohn Smith  [9:00 AM]\nOUT - JSP Approved\n\nMaria Cruz  [9:05 AM]\nOUT - JSP Approved'
+    );
+    const requests = [
+      request({ start_date: '2025-06-10', end_date: '2025-06-10', days: 1, approval_code: 'JSP Approved' }),
+      request({ id: 'leave_002', employee_id: 'emp_002', start_date: '2025-06-10', end_date: '2025-06-10', days: 1, approval_code: 'HR Approved' })
+    ];
+
+    const [flagged] = flagMissingLeaveRequests(results, requests);
+    expect(flagged.entries.map(entry => [entry.employee_id, entry.missing_leave_request])).toEqual([
+      ['emp_001', undefined],
+      ['emp_002', true]
+    ]);
+    expect(buildReviewQueue(flagged.entries, 0.8)).toEqual([{ entry_index: 1, reasons: ['no_leave_request'] }]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { rankEmployeeMatches, pickBestMatch, validateAliases } from '../utils/nameMatching';
+import { SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { Employee } from '../types';
+
+describe('Employee Name Matching', () => {
+  const employee = (id: string, name: string, aliases?: string[]): Employee => ({
+    id,
+    slack_user_id: `U0${id.replace('_', '').toUpperCase()}00`,
+    name,
+    email: `${id}@company.com`,
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    aliases
+  });
+
+  const employees = [
+    employee('emp_001', 'Elena Ramos', ['El']),
+    employee('emp_002', 'Michelle Tan'),
+    employee('emp_003', 'Jigger Santos', ['Jigs']),
+    employee('emp_004', 'Dominic Cruz'),
+    employee('emp_005', 'Dominador Reyes'),
+    employee('emp_006', 'John Smith')
+  ];
+
+  it('should rank aliases, whole words and near spellings', () => {
+    expect(rankEmployeeMatches('Jigs', employees)[0]).toMatchObject({ employee_id: 'emp_003', score: 1, matched_on: 'Jigs' });
+    expect(rankEmployeeMatches('smith', employees)[0]).toMatchObject({ employee_id: 'emp_006', score: 0.85 });
+    expect(rankEmployeeMatches('Jhon', employees)[0]).toMatchObject({ employee_id: 'emp_006', score: 0.6 });
+  });
+
+  it('should not match short names by substring', () => {
+    const candidates = rankEmployeeMatches('El', employees);
+
+    expect(candidates.map(candidate => candidate.employee_id)).toEqual(['emp_001']);
+    expect(rankEmployeeMatches('El', [employees[1]])).toEqual([]);
+  });
+
+  it('should leave close calls unresolved', () => {
+    const candidates = rankEmployeeMatches('Dom', employees);
+
+    expect(candidates.map(candidate => [candidate.employee_id, candidate.score])).toEqual([
+      ['emp_005', 0.7],
+      ['emp_004', 0.7]
+    ]);
+    expect(pickBestMatch(candidates)).toBeNull();
+  });
+
+  it('should surface ambiguous names in pasted attendance instead of picking the first', () => {
+    const parser = new SlackAttendanceTextParser(employees, { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' });
+    const result = parser.parseSlackText('start date 6/10/25\nJigs  [9:41 AM]\nIN\n\nDom  [9:18 AM]\nIn');
+
+    expect(result.entries[0]).toMatchObject({ employee_id: 'emp_003', confidence_score: 1 });
+    expect(result.entries[1]).toMatchObject({ employee_id: undefined, is_ambiguous: true });
+    expect(result.parsing_errors).toContain('Ambiguous name: Dom could be Dominador Reyes or Dominic Cruz');
+  });
+
+  it("should reject aliases that are another employee's name or alias", () => {
+    expect(validateAliases(['Jigs'], employees, 'emp_006')).toEqual({ aliases: '"Jigs" is already used by another employee' });
+    expect(validateAliases(['Jigs', 'JS'], employees, 'emp_003')).toEqual({});
+  });
+});
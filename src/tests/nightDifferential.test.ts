@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { getNightHours, splitNightHours } from '../utils/nightDifferential';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES, validatePayrollRules } from '../utils/payrollCalculator';
+import { AttendanceLog, Employee, Holiday } from '../types';
+
+describe('Night Differential and Rest Day Premiums', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 100,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  };
+
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+  // Wall-clock times in Asia/Manila (UTC+8), the default attendance timezone
+  const manila = (year: number, month: number, day: number, hour: number) =>
+    new Date(Date.UTC(year, month, day, hour - 8));
+
+  const makeShift = (date: string, checkIn: Date, checkOut: Date): AttendanceLog => ({
+    employee_id: 'emp_001',
+    date,
+    check_in: checkIn,
+    check_out: checkOut,
+    is_late: false,
+    is_offline: false,
+    hours_worked: (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60)
+  });
+
+  const makeHoliday = (date: string, type: Holiday['type']): Holiday => ({
+    id: `hol_${date}`,
+    date,
+    name: 'Holiday',
+    type,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  });
+
+  describe('getNightHours', () => {
+    it('should count hours inside a window that wraps past midnight', () => {
+      expect(getNightHours(manila(2025, 5, 2, 20), manila(2025, 5, 3, 4), 22, 6, 'Asia/Manila')).toBe(6);
+    });
+
+    it('should count the early-morning tail of the previous night window', () => {
+      expect(getNightHours(manila(2025, 5, 3, 4), manila(2025, 5, 3, 9), 22, 6, 'Asia/Manila')).toBe(2);
+    });
+
+    it('should return zero for a day shift', () => {
+      expect(getNightHours(manila(2025, 5, 3, 9), manila(2025, 5, 3, 17), 22, 6, 'Asia/Manila')).toBe(0);
+    });
+
+    it('should read the window on the wall clock of the given timezone', () => {
+      // 14:00-22:00 UTC is 22:00-06:00 in Manila but a day shift in New York
+      const start = new Date('2025-06-02T14:00:00Z');
+      const end = new Date('2025-06-02T22:00:00Z');
+
+      expect(getNightHours(start, end, 22, 6, 'Asia/Manila')).toBe(8);
+      expect(getNightHours(start, end, 22, 6, 'America/New_York')).toBe(0);
+    });
+
+    it('should support windows that do not wrap midnight', () => {
+      expect(getNightHours(manila(2025, 5, 3, 3), manila(2025, 5, 3, 9), 0, 5, 'Asia/Manila')).toBe(2);
+    });
+  });
+
+  describe('splitNightHours', () => {
+    it('should assign night hours after the regular hours to overtime', () => {
+      const shift = makeShift('2025-06-03', manila(2025, 5, 3, 18), manila(2025, 5, 4, 4));
+
+      expect(splitNightHours([shift], 8, rules, 'Asia/Manila')).toEqual({ night_hours: 4, night_overtime_hours: 2 });
+    });
+
+    it('should ignore logs without check-in and check-out times', () => {
+      const log: AttendanceLog = { employee_id: 'emp_001', date: '2025-06-03', is_late: false, is_offline: false, hours_worked: 8 };
+
+      expect(splitNightHours([log], 8, rules, 'Asia/Manila')).toEqual({ night_hours: 0, night_overtime_hours: 0 });
+    });
+  });
+
+  describe('calculatePayrollSummary', () => {
+    it('should pay night differential on regular and overtime night hours', () => {
+      // Tuesday 6PM to Wednesday 4AM: 8 regular (4 at night) + 2 overtime (both at night)
+      const shift = makeShift('2025-06-03', manila(2025, 5, 3, 18), manila(2025, 5, 4, 4));
+      const [summary] = calculatePayrollSummary([shift], [employee], rules);
+
+      expect(summary.night_differential_hours).toBe(6);
+      expect(summary.night_differential_pay).toBeCloseTo((4 + 2 * 1.5) * 100 * 0.1, 2);
+      expect(summary.gross_pay).toBeCloseTo(800 + 300 + 70, 2);
+    });
+
+    it('should apply the rest day multiplier on a rest day', () => {
+      const shift = makeShift('2025-06-01', manila(2025, 5, 1, 9), manila(2025, 5, 1, 17));
+      const [summary] = calculatePayrollSummary([shift], [employee], rules);
+
+      expect(summary.rest_day_hours).toBe(8);
+      expect(summary.rest_day_pay).toBeCloseTo(240, 2);
+      expect(summary.gross_pay).toBeCloseTo(1040, 2);
+      expect(summary.daily_breakdown[0].is_rest_day).toBe(true);
+    });
+
+    it('should use a configured night window and multipliers', () => {
+      const configured = {
+        ...rules,
+        night_differential_start_hour: 20,
+        night_differential_end_hour: 4,
+        night_differential_multiplier: 1.2,
+        rest_day_multiplier: 1.5
+      };
+      const weekday = makeShift('2025-06-03', manila(2025, 5, 3, 18), manila(2025, 5, 4, 2));
+      const restDay = makeShift('2025-06-01', manila(2025, 5, 1, 9), manila(2025, 5, 1, 17));
+      const [summary] = calculatePayrollSummary([weekday, restDay], [employee], configured);
+
+      expect(summary.night_differential_hours).toBe(6);
+      expect(summary.night_differential_pay).toBeCloseTo(6 * 100 * 0.2, 2);
+      expect(summary.rest_day_pay).toBeCloseTo(400, 2);
+    });
+
+    it('should reject a night window or multiplier that cannot be applied', () => {
+      const result = validatePayrollRules({
+        ...rules,
+        rest_day_multiplier: 0.9,
+        night_differential_start_hour: 24,
+        night_differential_end_hour: 6.5,
+        night_differential_multiplier: NaN
+      });
+      expect(Object.keys(result.errors).sort()).toEqual([
+        'night_differential_end_hour',
+        'night_differential_multiplier',
+        'night_differential_start_hour',
+        'rest_day_multiplier'
+      ]);
+      expect(validatePayrollRules({ ...rules, night_differential_start_hour: 6 }).errors.night_differential_end_hour)
+        .toBe('Night differential end must differ from its start');
+    });
+
+    it('should use the combined multiplier for a special holiday on a rest day', () => {
+      const shift = makeShift('2025-06-01', manila(2025, 5, 1, 9), manila(2025, 5, 1, 17));
+      const [summary] = calculatePayrollSummary([shift], [employee], rules, {
+        holidays: [makeHoliday('2025-06-01', 'special_non_working')]
+      });
+
+      expect(summary.holiday_pay).toBeCloseTo(240, 2);
+      expect(summary.rest_day_pay).toBeCloseTo(160, 2);
+      expect(summary.gross_pay).toBeCloseTo(800 * 1.5, 2);
+    });
+
+    it('should stack night differential on top of regular holiday rest day pay', () => {
+      const shift = makeShift('2025-06-01', manila(2025, 5, 1, 22), manila(2025, 5, 2, 6));
+      const [summary] = calculatePayrollSummary([shift], [employee], rules, {
+        holidays: [makeHoliday('2025-06-01', 'regular')]
+      });
+
+      expect(summary.night_differential_hours).toBe(8);
+      expect(summary.gross_pay).toBeCloseTo(800 * 2.6 * 1.1, 2);
+    });
+
+    it('should not treat any day as a rest day when none are configured', () => {
+      const shift = makeShift('2025-06-01', manila(2025, 5, 1, 9), manila(2025, 5, 1, 17));
+      const [summary] = calculatePayrollSummary([shift], [employee], { ...rules, rest_days: [] });
+
+      expect(summary.rest_day_pay).toBe(0);
+      expect(summary.gross_pay).toBe(800);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PAY_SCHEDULE,
+  generatePayPeriods,
+  getPayPeriodContaining,
+  getPayPeriodsAround,
+  getPreviousPayPeriod,
+  validatePaySchedule
+} from '../utils/payCalendar';
+import { PaySchedule } from '../types';
+
+describe('Pay Calendar', () => {
+  const schedule = (overrides: Partial<PaySchedule>): PaySchedule => ({ ...DEFAULT_PAY_SCHEDULE, ...overrides });
+
+  describe('getPayPeriodContaining', () => {
+    it('should split semi-monthly periods at the 15th and month end by default', () => {
+      expect(getPayPeriodContaining('2025-06-10')).toMatchObject({ start: '2025-06-01', end: '2025-06-15' });
+      expect(getPayPeriodContaining('2025-02-20')).toMatchObject({ start: '2025-02-16', end: '2025-02-28' });
+    });
+
+    it('should support semi-monthly cutoffs that span two months', () => {
+      const tenthAndTwentyFifth = schedule({ semi_monthly_cutoffs: [10, 25] });
+
+      expect(getPayPeriodContaining('2025-01-05', tenthAndTwentyFifth)).toMatchObject({ start: '2024-12-26', end: '2025-01-10' });
+      expect(getPayPeriodContaining('2025-01-18', tenthAndTwentyFifth)).toMatchObject({ start: '2025-01-11', end: '2025-01-25' });
+      expect(getPayPeriodContaining('2025-01-28', tenthAndTwentyFifth)).toMatchObject({ start: '2025-01-26', end: '2025-02-10' });
+    });
+
+    it('should anchor weekly and bi-weekly periods to the anchor date', () => {
+      const weekly = schedule({ frequency: 'weekly', anchor_date: '2025-01-06' });
+      const biWeekly = schedule({ frequency: 'bi_weekly', anchor_date: '2025-01-06' });
+
+      expect(getPayPeriodContaining('2025-06-04', weekly)).toMatchObject({ start: '2025-06-02', end: '2025-06-08' });
+      expect(getPayPeriodContaining('2025-01-19', biWeekly)).toMatchObject({ start: '2025-01-06', end: '2025-01-19' });
+      expect(getPayPeriodContaining('2025-01-20', biWeekly)).toMatchObject({ start: '2025-01-20', end: '2025-02-02' });
+      // Dates before the anchor fall into earlier periods
+      expect(getPayPeriodContaining('2025-01-01', biWeekly)).toMatchObject({ start: '2024-12-23', end: '2025-01-05' });
+    });
+
+    it('should cover the calendar month for monthly schedules', () => {
+      expect(getPayPeriodContaining('2024-02-10', schedule({ frequency: 'monthly' })))
+        .toMatchObject({ start: '2024-02-01', end: '2024-02-29' });
+    });
+
+    it('should set the cutoff and pay dates from the period end', () => {
+      const period = getPayPeriodContaining('2025-06-30', schedule({ pay_date_offset_days: 5 }));
+
+      expect(period.cutoff_date).toBe('2025-06-30');
+      expect(period.pay_date).toBe('2025-07-05');
+    });
+  });
+
+  describe('generating periods', () => {
+    it('should generate consecutive periods without gaps', () => {
+      const periods = generatePayPeriods('2025-12-20', 3);
+
+      expect(periods.map(p => [p.start, p.end])).toEqual([
+        ['2025-12-16', '2025-12-31'],
+        ['2026-01-01', '2026-01-15'],
+        ['2026-01-16', '2026-01-31']
+      ]);
+    });
+
+    it('should list periods around the current one', () => {
+      const periods = getPayPeriodsAround('2025-06-10', schedule({ frequency: 'weekly' }), 1, 1);
+
+      expect(periods.map(p => p.start)).toEqual(['2025-06-02', '2025-06-09', '2025-06-16']);
+      expect(getPreviousPayPeriod(periods[1], schedule({ frequency: 'weekly' })).start).toBe('2025-06-02');
+    });
+  });
+
+  describe('validatePaySchedule', () => {
+    it('should reject cutoffs out of order', () => {
+      const result = validatePaySchedule(schedule({ semi_monthly_cutoffs: [20, 10] }));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.semi_monthly_cutoffs).toBeDefined();
+    });
+  });
+});
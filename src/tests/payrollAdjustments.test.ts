@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { computeRetroAdjustments, getAdjustmentsForPeriod, validateAdjustment } from '../utils/payrollAdjustments';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { AttendanceLog, Employee, PayrollAdjustment, PayrollRun } from '../types';
+
+describe('Payroll Adjustments', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+  const period = { start: '2025-06-01', end: '2025-06-15' };
+
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const logs: AttendanceLog[] = [
+    { employee_id: 'emp_001', date: '2025-06-02', is_late: false, is_offline: false, hours_worked: 8 }
+  ];
+
+  const adjustment = (overrides: Partial<PayrollAdjustment>): PayrollAdjustment => ({
+    id: 'adj_1',
+    employee_id: 'emp_001',
+    type: 'earning',
+    amount: 50,
+    label: 'Equipment reimbursement',
+    source: 'manual',
+    apply_from: '2025-06-01',
+    created_at: '2025-06-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  const lockedRun = (overrides: Partial<PayrollRun> = {}): PayrollRun => ({
+    id: 'run_1',
+    start: period.start,
+    end: period.end,
+    status: 'paid',
+    inputs: { employees: [employee], attendance_logs: logs, holidays: [], rules, attendance_settings: DEFAULT_ATTENDANCE_SETTINGS },
+    summaries: calculatePayrollSummary(logs, [employee], rules, { period }),
+    calculated_at: '2025-06-16T00:00:00.000Z',
+    created_at: '2025-06-16T00:00:00.000Z',
+    updated_at: '2025-06-16T00:00:00.000Z',
+    ...overrides
+  });
+
+  describe('calculatePayrollSummary', () => {
+    it('should apply earnings and deductions to net pay as labeled line items', () => {
+      const adjustments = [
+        adjustment({ id: 'adj_1', amount: 50 }),
+        adjustment({ id: 'adj_2', type: 'deduction', amount: 20, label: 'Uniform' }),
+        adjustment({ id: 'adj_3', employee_id: 'emp_002', amount: 999 })
+      ];
+      const [summary] = calculatePayrollSummary(logs, [employee], rules, { period, adjustments });
+
+      expect(summary.gross_pay).toBe(200);
+      expect(summary.adjustment_earnings).toBe(50);
+      expect(summary.adjustment_deductions).toBe(20);
+      expect(summary.net_pay).toBe(230);
+      expect(summary.adjustments?.map(line => line.label)).toEqual(['Equipment reimbursement', 'Uniform']);
+    });
+
+    it('should keep deductions beyond gross pay as negative net pay instead of zeroing it', () => {
+      const adjustments = [adjustment({ type: 'deduction', amount: 300, label: 'Overpayment recovery' })];
+      const [summary] = calculatePayrollSummary(logs, [employee], rules, { period, adjustments });
+
+      expect(summary.net_pay).toBe(-100);
+    });
+  });
+
+  describe('getAdjustmentsForPeriod', () => {
+    it('should carry pending adjustments into the first open period they are due in', () => {
+      const pending = adjustment({ apply_from: '2025-06-16' });
+
+      expect(getAdjustmentsForPeriod([pending], period)).toEqual([]);
+      expect(getAdjustmentsForPeriod([pending], { start: '2025-06-16', end: '2025-06-30' })).toEqual([pending]);
+      expect(getAdjustmentsForPeriod([pending], { start: '2025-07-01', end: '2025-07-15' })).toEqual([pending]);
+    });
+
+    it('should keep a locked run to the adjustments it paid', () => {
+      const paid = adjustment({ id: 'adj_paid', applied_run_id: 'run_1' });
+      const pending = adjustment({ id: 'adj_pending' });
+
+      expect(getAdjustmentsForPeriod([paid, pending], period, lockedRun())).toEqual([paid]);
+      expect(getAdjustmentsForPeriod([paid, pending], { start: '2025-06-16', end: '2025-06-30' })).toEqual([pending]);
+    });
+  });
+
+  describe('computeRetroAdjustments', () => {
+    it('should carry the difference from a corrected re-run into the next period', () => {
+      const corrected = calculatePayrollSummary(logs, [{ ...employee, hourly_rate: 30 }], rules, { period });
+      const [draft] = computeRetroAdjustments(lockedRun(), corrected, [], '2025-06-16');
+
+      expect(draft).toMatchObject({
+        employee_id: 'emp_001',
+        type: 'earning',
+        amount: 40,
+        label: 'Retro correction for 2025-06-01 to 2025-06-15',
+        source: 'retro',
+        source_run_id: 'run_1',
+        apply_from: '2025-06-16'
+      });
+    });
+
+    it('should record overpayments as deductions', () => {
+      const corrected = calculatePayrollSummary([{ ...logs[0], hours_worked: 6 }], [employee], rules, { period });
+      const [draft] = computeRetroAdjustments(lockedRun(), corrected, [], '2025-06-16');
+
+      expect(draft).toMatchObject({ type: 'deduction', amount: 50 });
+    });
+
+    it('should not carry the same difference twice', () => {
+      const corrected = calculatePayrollSummary(logs, [{ ...employee, hourly_rate: 30 }], rules, { period });
+      const carried = adjustment({ source: 'retro', source_run_id: 'run_1', amount: 40 });
+
+      expect(computeRetroAdjustments(lockedRun(), corrected, [carried], '2025-06-16')).toEqual([]);
+    });
+  });
+
+  describe('validateAdjustment', () => {
+    it('should require an employee, a positive amount and a label', () => {
+      const { errors } = validateAdjustment({ employee_id: '', type: 'earning', amount: '-5', label: ' ', apply_from: '2025-06-16' });
+
+      expect(Object.keys(errors).sort()).toEqual(['amount', 'employee_id', 'label']);
+    });
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { parseSlackMessages, calculatePayrollSummary, exportToCSV, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
-import { Employee, SlackMessage } from '../types';
+import {
+  parseSlackMessages,
+  calculatePayrollSummary,
+  exportToCSV,
+  DEFAULT_PAYROLL_RULES,
+  validatePayrollRules
+} from '../utils/payrollCalculator';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { Employee, SlackMessage, AttendanceLog } from '../types';
 
 describe('Payroll Calculator', () => {
   const mockEmployees: Employee[] = [
@@ -26,6 +33,13 @@ describe('Payroll Calculator', () => {
     }
   ];
 
+  // Timestamps below are written for a 9:00 AM start in UTC+3
+  const attendanceSettings = {
+    ...DEFAULT_ATTENDANCE_SETTINGS,
+    default_start_time: '9:00 AM',
+    timezone: 'Europe/Moscow'
+  };
+
   const mockMessages: SlackMessage[] = [
     {
       user: 'U01234567',
@@ -55,7 +69,7 @@ describe('Payroll Calculator', () => {
 
   describe('parseSlackMessages', () => {
     it('should parse check-in and check-out times correctly', () => {
-      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees);
+      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees, attendanceSettings);
       
       expect(attendanceLogs).toHaveLength(2);
       
@@ -72,7 +86,7 @@ describe('Payroll Calculator', () => {
 
     it('should handle offline employees (no check-in/out)', () => {
       const offlineMessages: SlackMessage[] = [];
-      const attendanceLogs = parseSlackMessages(offlineMessages, mockEmployees);
+      const attendanceLogs = parseSlackMessages(offlineMessages, mockEmployees, attendanceSettings);
       
       expect(attendanceLogs).toHaveLength(0);
     });
@@ -87,14 +101,14 @@ describe('Payroll Calculator', () => {
         }
       ];
       
-      const attendanceLogs = parseSlackMessages(unknownUserMessages, mockEmployees);
+      const attendanceLogs = parseSlackMessages(unknownUserMessages, mockEmployees, attendanceSettings);
       expect(attendanceLogs).toHaveLength(0);
     });
   });
 
   describe('calculatePayrollSummary', () => {
     it('should calculate regular hours and overtime correctly', () => {
-      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees);
+      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees, attendanceSettings);
       const summaries = calculatePayrollSummary(attendanceLogs, mockEmployees);
       
       expect(summaries).toHaveLength(2);
@@ -114,7 +128,7 @@ describe('Payroll Calculator', () => {
     });
 
     it('should apply late deductions correctly', () => {
-      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees);
+      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees, attendanceSettings);
       const summaries = calculatePayrollSummary(attendanceLogs, mockEmployees);
       
       const janeSummary = summaries.find(s => s.employee.id === 'emp_002');
@@ -134,9 +148,88 @@ describe('Payroll Calculator', () => {
     });
   });
 
+  describe('overtime modes', () => {
+    const makeLog = (date: string, hours: number): AttendanceLog => ({
+      employee_id: 'emp_001',
+      date,
+      is_late: false,
+      is_offline: false,
+      hours_worked: hours
+    });
+
+    // Mon 2024-01-01 through Fri 2024-01-05, plus the following Monday
+    const twoWeekLogs: AttendanceLog[] = [
+      makeLog('2024-01-01', 12),
+      makeLog('2024-01-02', 8),
+      makeLog('2024-01-03', 8),
+      makeLog('2024-01-04', 8),
+      makeLog('2024-01-05', 8),
+      makeLog('2024-01-08', 6)
+    ];
+
+    it('should compute overtime per attendance day', () => {
+      const [john] = calculatePayrollSummary(twoWeekLogs, [mockEmployees[0]]);
+
+      expect(john.total_hours).toBe(50);
+      expect(john.overtime_hours).toBe(4);
+      expect(john.regular_hours).toBe(46);
+      expect(john.daily_breakdown).toHaveLength(6);
+      expect(john.daily_breakdown[0]).toMatchObject({ date: '2024-01-01', regular_hours: 8, overtime_hours: 4 });
+      expect(john.gross_pay).toBeCloseTo(46 * 25 + 4 * 25 * 1.5, 2);
+    });
+
+    it('should not give overtime for a long semi-monthly period of normal days', () => {
+      const logs = Array.from({ length: 11 }, (_, i) => makeLog(`2024-01-${String(i + 1).padStart(2, '0')}`, 8));
+      const [john] = calculatePayrollSummary(logs, [mockEmployees[0]]);
+
+      expect(john.regular_hours).toBe(88);
+      expect(john.overtime_hours).toBe(0);
+    });
+
+    it('should compute overtime per workweek', () => {
+      const rules = { ...DEFAULT_PAYROLL_RULES, overtime_mode: 'weekly' as const };
+      const [john] = calculatePayrollSummary(twoWeekLogs, [mockEmployees[0]], rules);
+
+      // Week 1: 44h worked, 4h beyond 40 land on Friday; week 2 starts fresh
+      expect(john.overtime_hours).toBe(4);
+      expect(john.daily_breakdown[0].overtime_hours).toBe(0);
+      expect(john.daily_breakdown[4]).toMatchObject({ date: '2024-01-05', regular_hours: 4, overtime_hours: 4 });
+      expect(john.daily_breakdown[5]).toMatchObject({ date: '2024-01-08', regular_hours: 6, overtime_hours: 0 });
+    });
+
+    it('should combine daily and weekly overtime without double counting', () => {
+      const rules = { ...DEFAULT_PAYROLL_RULES, overtime_mode: 'daily_and_weekly' as const, weekly_overtime_threshold_hours: 36 };
+      const [john] = calculatePayrollSummary(twoWeekLogs, [mockEmployees[0]], rules);
+
+      // 4h daily overtime on Monday, then regular hours capped at 36 for the week
+      expect(john.daily_breakdown[0]).toMatchObject({ regular_hours: 8, overtime_hours: 4 });
+      expect(john.daily_breakdown[4]).toMatchObject({ regular_hours: 4, overtime_hours: 4 });
+      expect(john.overtime_hours).toBe(8);
+      expect(john.total_hours).toBe(john.regular_hours + john.overtime_hours);
+    });
+
+    it('should reject overtime settings that cannot be applied', () => {
+      expect(validatePayrollRules(DEFAULT_PAYROLL_RULES).isValid).toBe(true);
+
+      const result = validatePayrollRules({
+        ...DEFAULT_PAYROLL_RULES,
+        overtime_multiplier: 0.5,
+        standard_work_hours: 0,
+        weekly_overtime_threshold_hours: NaN,
+        week_start_day: 7
+      });
+      expect(Object.keys(result.errors).sort()).toEqual([
+        'overtime_multiplier',
+        'standard_work_hours',
+        'week_start_day',
+        'weekly_overtime_threshold_hours'
+      ]);
+    });
+  });
+
   describe('exportToCSV', () => {
     it('should generate valid CSV format', () => {
-      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees);
+      const attendanceLogs = parseSlackMessages(mockMessages, mockEmployees, attendanceSettings);
       const summaries = calculatePayrollSummary(attendanceLogs, mockEmployees);
       const csv = exportToCSV(summaries);
       
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { payrollRunRepository } from '../repositories/payrollRunRepository';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { diffPayrollRun } from '../utils/payrollRuns';
+import { findAlreadyAppliedAdjustments } from '../utils/payrollAdjustments';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { AttendanceLog, Employee, PayrollAdjustment, PayrollRun, PayrollRunInputs } from '../types';
+
+// Mock the storage service
+vi.mock('../services/storageService', () => ({
+  storageService: {
+    save: vi.fn().mockResolvedValue({ success: true }),
+    // A fresh array per load, since the repository appends to what it loads
+    load: vi.fn().mockImplementation(async () => ({ success: true, data: [] }))
+  }
+}));
+
+// Mock the error service
+vi.mock('../services/errorService', () => ({
+  errorService: {
+    withErrorHandling: vi.fn().mockImplementation(async (operation) => {
+      try {
+        const data = await operation();
+        return { success: true, data };
+      } catch (error) {
+        return { success: false, error: { message: (error as Error).message } };
+      }
+    }),
+    handleError: vi.fn()
+  }
+}));
+
+describe('Payroll Runs', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+  const period = { start: '2025-06-01', end: '2025-06-15' };
+
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const logs: AttendanceLog[] = [
+    { employee_id: 'emp_001', date: '2025-06-02', is_late: false, is_offline: false, hours_worked: 8 }
+  ];
+
+  const calculate = (employees: Employee[]) => {
+    const inputs: PayrollRunInputs = {
+      employees,
+      attendance_logs: logs,
+      holidays: [],
+      rules,
+      attendance_settings: DEFAULT_ATTENDANCE_SETTINGS
+    };
+    return { summaries: calculatePayrollSummary(logs, employees, rules, { period }), inputs };
+  };
+
+  beforeEach(() => {
+    (payrollRunRepository as any).cache = [];
+    (payrollRunRepository as any).isInitialized = false;
+  });
+
+  describe('lifecycle', () => {
+    it('should move a run from draft to approved to paid', async () => {
+      const { summaries, inputs } = calculate([employee]);
+      const created = await payrollRunRepository.create(period, summaries, inputs);
+      expect(created.data?.status).toBe('draft');
+
+      const approved = await payrollRunRepository.approve(created.data!.id, 'Maria');
+      expect(approved.data).toMatchObject({ status: 'approved', approved_by: 'Maria' });
+
+      const paid = await payrollRunRepository.markPaid(created.data!.id);
+      expect(paid.data?.status).toBe('paid');
+      expect(paid.data?.paid_at).toBeDefined();
+    });
+
+    it('should not skip approval or move backwards', async () => {
+      const { summaries, inputs } = calculate([employee]);
+      const { data: run } = await payrollRunRepository.create(period, summaries, inputs);
+
+      const paid = await payrollRunRepository.markPaid(run!.id);
+      expect(paid.success).toBe(false);
+      expect(paid.error).toContain('Cannot mark a draft payroll run as paid');
+
+      await payrollRunRepository.approve(run!.id);
+      expect((await payrollRunRepository.approve(run!.id)).success).toBe(false);
+    });
+
+    it('should allow only one run per period', async () => {
+      const { summaries, inputs } = calculate([employee]);
+      await payrollRunRepository.create(period, summaries, inputs);
+
+      const duplicate = await payrollRunRepository.create(period, summaries, inputs);
+      expect(duplicate.success).toBe(false);
+      expect(duplicate.error).toContain('already exists');
+    });
+  });
+
+  describe('locking', () => {
+    it('should recalculate a draft run', async () => {
+      const { summaries, inputs } = calculate([employee]);
+      const { data: run } = await payrollRunRepository.create(period, summaries, inputs);
+
+      const raised = calculate([{ ...employee, hourly_rate: 30 }]);
+      const result = await payrollRunRepository.recalculate(run!.id, raised.summaries, raised.inputs);
+
+      expect(result.data?.summaries[0].gross_pay).toBe(240);
+    });
+
+    it('should refuse to recalculate or delete a locked run', async () => {
+      const { summaries, inputs } = calculate([employee]);
+      const { data: run } = await payrollRunRepository.create(period, summaries, inputs);
+      await payrollRunRepository.approve(run!.id);
+
+      const raised = calculate([{ ...employee, hourly_rate: 30 }]);
+      const recalculated = await payrollRunRepository.recalculate(run!.id, raised.summaries, raised.inputs);
+      expect(recalculated.success).toBe(false);
+      expect(recalculated.error).toContain('approved and cannot be recalculated');
+
+      expect((await payrollRunRepository.delete(run!.id)).success).toBe(false);
+      expect((await payrollRunRepository.findById(run!.id))?.summaries[0].gross_pay).toBe(200);
+    });
+
+    it('should freeze copies of the inputs', async () => {
+      const { summaries, inputs } = calculate([{ ...employee }]);
+      const { data: run } = await payrollRunRepository.create(period, summaries, inputs);
+
+      inputs.employees[0].hourly_rate = 30;
+      summaries[0].net_pay = 0;
+
+      expect(run!.inputs.employees[0].hourly_rate).toBe(25);
+      expect(run!.summaries[0].net_pay).toBe(200);
+    });
+  });
+
+  describe('approval checks', () => {
+    it('should refuse a second draft that froze an adjustment another run paid', async () => {
+      const adjustment: PayrollAdjustment = {
+        id: 'adj_001',
+        employee_id: 'emp_001',
+        type: 'earning',
+        amount: 50,
+        label: 'Retro correction',
+        source: 'retro',
+        apply_from: '2025-06-01',
+        created_at: '2025-06-01T00:00:00.000Z'
+      };
+      const nextPeriod = { start: '2025-06-16', end: '2025-06-30' };
+      const draft = (runPeriod: typeof period) => ({
+        summaries: calculatePayrollSummary(logs, [employee], rules, { period: runPeriod, adjustments: [adjustment] }),
+        inputs: calculate([employee]).inputs
+      });
+      let ledger = [adjustment];
+      const check = (run: PayrollRun) => (findAlreadyAppliedAdjustments(run, ledger).length > 0 ? 'Retro correction already paid' : null);
+
+      const first = draft(period);
+      const second = draft(nextPeriod);
+      const { data: firstRun } = await payrollRunRepository.create(period, first.summaries, first.inputs);
+      const { data: secondRun } = await payrollRunRepository.create(nextPeriod, second.summaries, second.inputs);
+
+      expect((await payrollRunRepository.approve(firstRun!.id, 'Maria', check)).success).toBe(true);
+      ledger = [{ ...adjustment, applied_run_id: firstRun!.id }];
+
+      const result = await payrollRunRepository.approve(secondRun!.id, 'Maria', check);
+      expect(result).toMatchObject({ success: false, error: 'Retro correction already paid' });
+      expect((await payrollRunRepository.findById(secondRun!.id))?.status).toBe('draft');
+    });
+  });
+
+  describe('diffPayrollRun', () => {
+    it('should report employees whose live pay differs from the run', async () => {
+      const { summaries, inputs } = calculate([employee]);
+      const { data: run } = await payrollRunRepository.create(period, summaries, inputs);
+
+      expect(diffPayrollRun(run!, summaries)).toEqual([]);
+
+      const live = calculate([{ ...employee, hourly_rate: 30 }]).summaries;
+      expect(diffPayrollRun(run!, live)).toEqual([
+        { employee_id: 'emp_001', employee_name: 'John Smith', frozen_net_pay: 200, live_net_pay: 240 }
+      ]);
+      expect(diffPayrollRun(run!, [])[0].live_net_pay).toBeUndefined();
+    });
+  });
+});
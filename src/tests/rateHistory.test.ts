@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { addRateChange, applyFormRate, getRateHistory, getRateOnDate } from '../utils/rateHistory';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { AttendanceLog, Employee, EmployeeFormData } from '../types';
+
+describe('Rate History', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 30,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-06-01T00:00:00.000Z',
+    rate_history: [
+      { rate: 25, effective_from: '2025-01-01', reason: 'Starting rate', changed_at: '2025-01-01T00:00:00.000Z' },
+      { rate: 30, effective_from: '2025-06-09', reason: 'Annual raise', changed_at: '2025-06-01T00:00:00.000Z' }
+    ]
+  };
+
+  const formData = (overrides: Partial<EmployeeFormData>): EmployeeFormData => ({
+    name: 'John Smith',
+    email: 'john@company.com',
+    slack_user_id: 'U01234567',
+    hourly_rate: '30',
+    notes: '',
+    ...overrides
+  });
+
+  describe('getRateOnDate', () => {
+    it('should return the rate in effect on each day', () => {
+      expect(getRateOnDate(employee, '2025-06-08')).toBe(25);
+      expect(getRateOnDate(employee, '2025-06-09')).toBe(30);
+      expect(getRateOnDate(employee, '2025-12-31')).toBe(30);
+    });
+
+    it('should use the earliest rate for days before the history starts', () => {
+      expect(getRateOnDate(employee, '2024-12-01')).toBe(25);
+    });
+
+    it('should fall back to hourly_rate for employees without history', () => {
+      const legacy: Employee = { ...employee, rate_history: undefined };
+
+      expect(getRateHistory(legacy)).toHaveLength(1);
+      expect(getRateOnDate(legacy, '2025-06-09')).toBe(30);
+    });
+  });
+
+  describe('recording changes', () => {
+    it('should replace a change that takes effect on the same day', () => {
+      const result = addRateChange(employee, { rate: 32, effective_from: '2025-06-09', changed_at: '2025-06-02T00:00:00.000Z' });
+
+      expect(result.hourly_rate).toBe(32);
+      expect(result.rate_history?.map(change => change.rate)).toEqual([25, 32]);
+    });
+
+    it('should keep a legacy starting rate ahead of a backdated change', () => {
+      const legacy: Employee = { ...employee, hourly_rate: 25, created_at: '2026-01-01T00:00:00.000Z', rate_history: undefined };
+      const result = addRateChange(legacy, { rate: 28, effective_from: '2025-06-09', changed_at: '2026-01-02T00:00:00.000Z' });
+
+      expect(result.hourly_rate).toBe(28);
+      expect(result.rate_history?.map(change => change.effective_from)).toEqual(['2025-06-08', '2025-06-09']);
+    });
+
+    it('should only add history from the form when the rate changes', () => {
+      expect(applyFormRate(formData({ hourly_rate: '30' }), employee).rate_history).toBe(employee.rate_history);
+
+      const raised = applyFormRate(formData({ hourly_rate: '35', rate_effective_from: '2025-07-01', rate_changed_by: 'Maria' }), employee);
+      expect(raised.hourly_rate).toBe(35);
+      expect(raised.rate_history?.[2]).toMatchObject({ rate: 35, effective_from: '2025-07-01', changed_by: 'Maria' });
+    });
+
+    it('should start the history for new employees', () => {
+      const result = applyFormRate(formData({ hourly_rate: '20' }), undefined, new Date(2025, 5, 2));
+
+      expect(result.rate_history).toEqual([
+        expect.objectContaining({ rate: 20, effective_from: '2025-06-02', reason: 'Starting rate' })
+      ]);
+    });
+  });
+
+  describe('calculatePayrollSummary', () => {
+    it('should apply the rate in effect on each attendance day', () => {
+      const log = (date: string): AttendanceLog => ({ employee_id: 'emp_001', date, is_late: false, is_offline: false, hours_worked: 8 });
+      const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+      // Friday before the raise and Monday after it
+      const [summary] = calculatePayrollSummary([log('2025-06-06'), log('2025-06-09')], [employee], rules);
+
+      expect(summary.daily_breakdown.map(day => day.hourly_rate)).toEqual([25, 30]);
+      expect(summary.gross_pay).toBe(8 * 25 + 8 * 30);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { recurringDeductionRepository } from '../repositories/recurringDeductionRepository';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import {
+  applyRecurringDeductions,
+  findAlreadyPaidInstallments,
+  getInstallmentAmount,
+  getScheduledDeductions,
+  validateRecurringDeduction
+} from '../utils/recurringDeductions';
+import { AttendanceLog, Employee, PayrollRun, RecurringDeduction, RecurringDeductionFormData } from '../types';
+
+// Mock the storage service
+vi.mock('../services/storageService', () => ({
+  storageService: {
+    save: vi.fn().mockResolvedValue({ success: true }),
+    // A fresh array per load, since the repository appends to what it loads
+    load: vi.fn().mockImplementation(async () => ({ success: true, data: [] }))
+  }
+}));
+
+// Mock the error service
+vi.mock('../services/errorService', () => ({
+  errorService: {
+    withErrorHandling: vi.fn().mockImplementation(async (operation) => {
+      try {
+        const data = await operation();
+        return { success: true, data };
+      } catch (error) {
+        return { success: false, error: { message: (error as Error).message } };
+      }
+    }),
+    handleError: vi.fn()
+  }
+}));
+
+describe('Recurring Deductions', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+  const period = { start: '2025-06-01', end: '2025-06-15' };
+
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const logs: AttendanceLog[] = [
+    { employee_id: 'emp_001', date: '2025-06-02', is_late: false, is_offline: false, hours_worked: 8 }
+  ];
+
+  const deduction = (overrides: Partial<RecurringDeduction> = {}): RecurringDeduction => ({
+    id: 'ded_001',
+    employee_id: 'emp_001',
+    kind: 'loan',
+    label: 'Laptop loan',
+    principal: 300,
+    installment_amount: 100,
+    start_date: '2025-06-01',
+    status: 'active',
+    payments: [],
+    created_at: '2025-05-20T00:00:00.000Z',
+    updated_at: '2025-05-20T00:00:00.000Z',
+    ...overrides
+  });
+
+  const formData: RecurringDeductionFormData = {
+    employee_id: 'emp_001',
+    kind: 'cash_advance',
+    label: 'Cash advance',
+    principal: '100',
+    installment_mode: 'count',
+    installment_value: '3',
+    start_date: '2025-06-01'
+  };
+
+  beforeEach(() => {
+    (recurringDeductionRepository as any).cache = [];
+    (recurringDeductionRepository as any).isInitialized = false;
+  });
+
+  describe('scheduling', () => {
+    it('should split a principal by count, rounding each installment up to the cent', () => {
+      expect(getInstallmentAmount(100, 'count', 3)).toBe(33.34);
+      expect(getInstallmentAmount(100, 'amount', 40)).toBe(40);
+    });
+
+    it('should schedule the next installment of deductions that have started', () => {
+      const scheduled = getScheduledDeductions(
+        [
+          deduction({ payments: [{ run_id: 'run_0', period_start: '2025-05-16', period_end: '2025-05-31', amount: 250, recorded_at: '' }] }),
+          deduction({ id: 'ded_002', start_date: '2025-06-16' }),
+          deduction({ id: 'ded_003', status: 'cancelled' })
+        ],
+        period
+      );
+
+      expect(scheduled).toEqual([
+        { deduction_id: 'ded_001', employee_id: 'emp_001', label: 'Laptop loan', scheduled_amount: 50, balance: 50 }
+      ]);
+      expect(getScheduledDeductions([deduction()], period, undefined, true)[0].scheduled_amount).toBe(300);
+    });
+
+    it('should keep the installments a locked run took', () => {
+      const run = { id: 'run_2', status: 'approved', ...period } as PayrollRun;
+      const paid = deduction({
+        payments: [
+          { run_id: 'run_1', period_start: '2025-05-16', period_end: '2025-05-31', amount: 100, recorded_at: '' },
+          { run_id: 'run_2', period_start: '2025-06-01', period_end: '2025-06-15', amount: 60, recorded_at: '' }
+        ]
+      });
+
+      expect(getScheduledDeductions([paid], period, run)).toEqual([
+        { deduction_id: 'ded_001', employee_id: 'emp_001', label: 'Laptop loan', scheduled_amount: 60, balance: 200 }
+      ]);
+    });
+  });
+
+  describe('net pay floor', () => {
+    it('should cut installments short so net pay stays at the floor', () => {
+      const scheduled = getScheduledDeductions([deduction(), deduction({ id: 'ded_002', label: 'Cash advance' })], period);
+      const { lines, total } = applyRecurringDeductions(250, scheduled, 80);
+
+      expect(total).toBe(170);
+      expect(lines.map(line => [line.amount, line.remaining_balance])).toEqual([[100, 200], [70, 230]]);
+    });
+
+    it('should take installments from net pay in the payroll summary', () => {
+      const [summary] = calculatePayrollSummary(logs, [employee], rules, {
+        period,
+        recurringDeductions: getScheduledDeductions([deduction({ installment_amount: 150 })], period),
+        netPayFloor: 100
+      });
+
+      expect(summary.recurring_deductions_total).toBe(100);
+      expect(summary.net_pay).toBe(100);
+      expect(summary.recurring_deductions?.[0]).toMatchObject({ scheduled_amount: 150, amount: 100, remaining_balance: 200 });
+    });
+  });
+
+  describe('repository', () => {
+    const runTaking = (id: string, deductionId: string, amount: number): PayrollRun =>
+      ({
+        id,
+        status: 'approved',
+        ...period,
+        summaries: [{ recurring_deductions: [{ deduction_id: deductionId, amount }] }]
+      }) as unknown as PayrollRun;
+
+    it('should record payments once per run and complete repaid deductions', async () => {
+      const { data: created } = await recurringDeductionRepository.create(formData);
+      expect(created?.installment_amount).toBe(33.34);
+
+      await recurringDeductionRepository.recordPayments(runTaking('run_1', created!.id, 33.34));
+      await recurringDeductionRepository.recordPayments(runTaking('run_1', created!.id, 33.34));
+      let [stored] = await recurringDeductionRepository.findAll();
+      expect(stored.payments).toHaveLength(1);
+      expect(stored.status).toBe('active');
+
+      await recurringDeductionRepository.recordPayments(runTaking('run_2', created!.id, 66.66));
+      [stored] = await recurringDeductionRepository.findAll();
+      expect(stored.status).toBe('completed');
+    });
+
+    it('should catch a second draft re-taking an installment another run already paid', async () => {
+      const { data: created } = await recurringDeductionRepository.create({ ...formData, principal: '50', installment_mode: 'amount', installment_value: '50' });
+      const draft = (id: string, draftPeriod: typeof period): PayrollRun => ({
+        id,
+        status: 'draft',
+        ...draftPeriod,
+        summaries: calculatePayrollSummary(logs, [employee], rules, {
+          period: draftPeriod,
+          recurringDeductions: getScheduledDeductions([created!], draftPeriod)
+        })
+      }) as PayrollRun;
+      const first = draft('run_1', period);
+      const overlapping = draft('run_2', period);
+      const next = draft('run_3', { start: '2025-06-16', end: '2025-06-30' });
+
+      expect(findAlreadyPaidInstallments(first, await recurringDeductionRepository.findAll())).toEqual([]);
+      await recurringDeductionRepository.recordPayments({ ...first, status: 'approved' });
+
+      const recorded = await recurringDeductionRepository.findAll();
+      expect(findAlreadyPaidInstallments(overlapping, recorded).map(line => line.deduction_id)).toEqual([created!.id]);
+      expect(findAlreadyPaidInstallments(next, recorded).map(line => line.amount)).toEqual([50]);
+    });
+
+    it('should only delete deductions without payments', async () => {
+      const { data: created } = await recurringDeductionRepository.create(formData);
+      await recurringDeductionRepository.recordPayments(runTaking('run_1', created!.id, 33.34));
+
+      const deleted = await recurringDeductionRepository.delete(created!.id);
+      expect(deleted.success).toBe(false);
+      expect(deleted.error).toContain('cancel it instead');
+      expect((await recurringDeductionRepository.cancel(created!.id)).data?.status).toBe('cancelled');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject installments larger than the principal and bad counts', () => {
+      expect(validateRecurringDeduction({ ...formData, installment_mode: 'amount', installment_value: '150' }).errors.installment_value)
+        .toBe('Installment amount cannot exceed the principal');
+      expect(validateRecurringDeduction({ ...formData, installment_value: '2.5' }).isValid).toBe(false);
+      expect(validateRecurringDeduction(formData).isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyReviewDecisions,
+  buildReviewQueue,
+  createReviewRecords,
+  validateReviewDecision
+} from '../utils/reviewQueue';
+import { SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { Employee } from '../types';
+
+describe('Attendance Review Queue', () => {
+  const employee = (id: string, name: string): Employee => ({
+    id,
+    slack_user_id: `U0${id.replace('_', '').toUpperCase()}00`,
+    name,
+    email: `${id}@company.com`,
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  });
+
+  const employees = [employee('emp_001', 'John Smith'), employee('emp_002', 'Maria Cruz'), employee('emp_003', 'Pedro Reyes')];
+  const parser = new SlackAttendanceTextParser(employees, { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' });
+  const result = parser.parseSlackText([
+    'start date 6/10/25',
+    'John Smith  [8:55 AM]\nIN',
+    'Jhon  [9:00 AM]\nIN',
+    'Maria Cruz  [8:50 AM]\nhello',
+    'Nobody Known  [9:05 AM]\nIN',
+    'Pedro Reyes  [8:45 AM]\nIN'
+  ].join('\n\n'));
+  const revise = (entry: typeof result.entries[number], changes: { employee_id?: string; check_in_time?: string }) =>
+    parser.reviseEntry(entry, result.date, changes);
+
+  it('should queue low-confidence, unknown-status, duplicate and unmatched entries', () => {
+    const queue = buildReviewQueue(result.entries, 0.8);
+
+    expect(queue.map(item => [result.entries[item.entry_index].raw_name, item.reasons])).toEqual([
+      ['John Smith', ['duplicate']],
+      ['Jhon', ['low_confidence', 'duplicate']],
+      ['Maria Cruz', ['unknown_status']],
+      ['Nobody Known', ['unmatched']]
+    ]);
+    expect(buildReviewQueue(result.entries, 0.5).map(item => item.entry_index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should refuse to release entries until every queued one is decided', () => {
+    const queue = buildReviewQueue(result.entries, 0.8);
+
+    expect(() => applyReviewDecisions(result.entries, queue, { 0: { action: 'accept' } }, revise))
+      .toThrow('3 entries need review before import');
+  });
+
+  it('should apply accept, reassign, correct-time and discard decisions', () => {
+    const queue = buildReviewQueue(result.entries, 0.8);
+    const entries = applyReviewDecisions(result.entries, queue, {
+      0: { action: 'correct_time', check_in_time: '10:30 AM' },
+      1: { action: 'discard' },
+      2: { action: 'accept' },
+      3: { action: 'reassign', employee_id: 'emp_003' }
+    }, revise);
+
+    expect(entries.map(entry => [entry.raw_name, entry.employee_id, entry.check_in_time, entry.confidence_score])).toEqual([
+      ['John Smith', 'emp_001', '10:30 AM', 1],
+      ['Maria Cruz', 'emp_002', '8:50 AM', 1],
+      ['Nobody Known', 'emp_003', '9:05 AM', 1],
+      ['Pedro Reyes', 'emp_003', '8:45 AM', 1]
+    ]);
+    expect(entries[0].is_late).toBe(true);
+    expect(result.entries[0].is_late).toBe(false);
+  });
+
+  it('should record each resolution with what it changed', () => {
+    const queue = buildReviewQueue(result.entries, 0.8);
+    const records = createReviewRecords(result.date, result.entries, queue, {
+      1: { action: 'discard' },
+      3: { action: 'reassign', employee_id: 'emp_003' }
+    });
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      attendance_date: '2025-06-10',
+      raw_name: 'Jhon',
+      reasons: ['low_confidence', 'duplicate'],
+      action: 'discard',
+      original_employee_id: 'emp_001',
+      employee_id: undefined
+    });
+    expect(records[1]).toMatchObject({ raw_name: 'Nobody Known', action: 'reassign', original_employee_id: undefined, employee_id: 'emp_003' });
+  });
+
+  it('should only offer decisions that suit the entry', () => {
+    const unmatched = result.entries[3];
+
+    expect(validateReviewDecision(unmatched, { action: 'accept' })).toBe('Reassign or discard entries without an employee');
+    expect(validateReviewDecision(unmatched, { action: 'reassign' })).toBe('Choose the employee this entry belongs to');
+    expect(validateReviewDecision(result.entries[0], { action: 'correct_time', check_in_time: 'soon' }))
+      .toBe('Time must look like 9:00 AM or 21:00');
+    expect(validateReviewDecision(unmatched, { action: 'discard' })).toBeNull();
+  });
+});
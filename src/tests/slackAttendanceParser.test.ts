@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { getArrivalTime, SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { buildReviewQueue } from '../utils/reviewQueue';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { Employee, Holiday } from '../types';
+
+describe('Multi-day Slack Paste', () => {
+  const employee = (id: string, name: string): Employee => ({
+    id,
+    slack_user_id: `U0${id.replace('_', '').toUpperCase()}00`,
+    name,
+    email: `${id}@company.com`,
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  });
+
+  const employees = [employee('emp_001', 'John Smith'), employee('emp_002', 'Maria Cruz')];
+  const settings = { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' };
+  // Thursday 2025-06-12, midday UTC
+  const now = new Date('2025-06-12T12:00:00Z');
+
+  it('should split a week of start date headers into one result per day', () => {
+    const parser = new SlackAttendanceTextParser(employees, settings);
+    const results = parser.parseSlackTextByDay([
+      'start date 6/10/25',
+      'John Smith  [9:40 AM]\nIN',
+      'Maria Cruz  [9:45 AM]\nIN',
+      'start date 6/9/25',
+      'John Smith  [10:20 AM]\nIN'
+    ].join('\n\n'), now);
+
+    expect(results.map(result => [result.date, result.entries.map(entry => entry.employee_id)])).toEqual([
+      ['2025-06-09', ['emp_001']],
+      ['2025-06-10', ['emp_001', 'emp_002']]
+    ]);
+    expect(results[0].entries[0]).toMatchObject({ is_late: true, minutes_late: 15 });
+  });
+
+  it('should date Slack day dividers relative to today', () => {
+    const parser = new SlackAttendanceTextParser(employees, settings);
+    const results = parser.parseSlackTextByDay([
+      'Monday, June 9th',
+      'John Smith  [9:40 AM]\nIN',
+      'Yesterday',
+      'Maria Cruz  [9:45 AM]\nIN',
+      'Today',
+      'John Smith  [9:50 AM]\nIN',
+      'Monday, December 30th, 2024',
+      'Maria Cruz  [9:55 AM]\nIN',
+      'Tuesday, December 31st',
+      'John Smith  [9:35 AM]\nIN'
+    ].join('\n'), now);
+
+    expect(results.map(result => result.date)).toEqual(['2024-12-30', '2024-12-31', '2025-06-09', '2025-06-11', '2025-06-12']);
+  });
+
+  it('should not split days on chat lines that only look like dates', () => {
+    const parser = new SlackAttendanceTextParser(employees, settings);
+    const results = parser.parseSlackTextByDay([
+      'Today',
+      'John Smith  [9:40 AM]\nIN',
+      'May',
+      'June 5 standup',
+      'June 5',
+      'Monday, June 9th standup',
+      'Maria Cruz  [9:45 AM]\nIN'
+    ].join('\n'), now);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].date).toBe('2025-06-12');
+    expect(results[0].entries.map(entry => entry.employee_id)).toEqual(['emp_001', 'emp_002']);
+  });
+
+  it('should keep lines before the first header with the first day', () => {
+    const parser = new SlackAttendanceTextParser(employees, settings);
+    const results = parser.parseSlackTextByDay('John Smith  [9:40 AM]\nIN\nstart date 6/11/25\nMaria Cruz  [9:45 AM]\nIN', now);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].entries.map(entry => entry.employee_id)).toEqual(['emp_001', 'emp_002']);
+  });
+
+  it('should compute no-shows per day and skip them on holidays', () => {
+    const holidays: Holiday[] = [{
+      id: 'hol_001',
+      date: '2025-06-12',
+      name: 'Independence Day',
+      type: 'regular',
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z'
+    }];
+    const parser = new SlackAttendanceTextParser(employees, settings, holidays);
+    const results = parser.parseSlackTextByDay([
+      'start date 6/10/25',
+      'John Smith  [9:40 AM]\nIN',
+      'start date 6/11/25',
+      'Maria Cruz  [9:45 AM]\nIN',
+      'start date 6/12/25',
+      'John Smith  [9:50 AM]\nIN'
+    ].join('\n'), now);
+
+    expect(results.map(result => [result.date, result.no_show_employees])).toEqual([
+      ['2025-06-10', ['Maria Cruz']],
+      ['2025-06-11', ['John Smith']],
+      ['2025-06-12', []]
+    ]);
+    expect(parser.parseSlackTextByDay('John Smith  [9:40 AM]\nIN', now)[0]).toMatchObject({
+      date: '2025-06-12',
+      holiday: holidays[0]
+    });
+  });
+});
+
+describe('ETA Follow-up Reconciliation', () => {
+  const employee = (id: string, name: string): Employee => ({
+    id,
+    slack_user_id: `U0${id.replace('_', '').toUpperCase()}00`,
+    name,
+    email: `${id}@company.com`,
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  });
+
+  const employees = [employee('emp_001', 'John Smith'), employee('emp_002', 'Maria Cruz')];
+  const parser = new SlackAttendanceTextParser(employees, { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' });
+
+  it('should charge lateness from the follow-up IN and report the variance', () => {
+    const result = parser.parseSlackText([
+      'start date 6/10/25',
+      'John Smith  [9:30 AM]\nETA 10:15',
+      'Maria Cruz  [9:50 AM]\nIN',
+      'John Smith  [10:40 AM]\nIN'
+    ].join('\n\n'));
+
+    expect(result.entries).toHaveLength(2);
+    expect(result.entries[0]).toMatchObject({
+      status: 'eta_delayed',
+      check_in_time: '9:30 AM',
+      eta_time: '10:15',
+      arrival_time: '10:40 AM',
+      eta_variance_minutes: 25,
+      is_late: true,
+      minutes_late: 35
+    });
+    expect(getArrivalTime(result.entries[0])).toBe('10:40 AM');
+    expect(result.suspected_no_show_employees).toEqual([]);
+  });
+
+  it('should read an ETA without AM or PM as the next time after it was posted', () => {
+    const result = parser.parseSlackText('start date 6/10/25\nJohn Smith  [11:50 AM]\nETA 1:30\n\nJohn Smith  [1:20 PM]\nIN');
+
+    expect(result.entries[0]).toMatchObject({ arrival_time: '1:20 PM', eta_variance_minutes: -10 });
+  });
+
+  it('should flag an ETA with no follow-up IN as a suspected no-show for review', () => {
+    const result = parser.parseSlackText('start date 6/10/25\nJohn Smith  [9:30 AM]\nETA 10:15\n\nMaria Cruz  [9:50 AM]\nIN');
+    const [eta] = result.entries;
+
+    expect(eta).toMatchObject({ suspected_no_show: true, is_late: false, deduction_amount: 0 });
+    expect(getArrivalTime(eta)).toBeUndefined();
+    expect(result.suspected_no_show_employees).toEqual(['John Smith']);
+    expect(result.summary.suspected_no_shows).toBe(1);
+    expect(buildReviewQueue(result.entries, 0.8)).toEqual([{ entry_index: 0, reasons: ['suspected_no_show'] }]);
+
+    // A reviewer who knows when they arrived corrects the time
+    expect(parser.reviseEntry(eta, result.date, { check_in_time: '10:10 AM' })).toMatchObject({
+      arrival_time: '10:10 AM',
+      eta_variance_minutes: -5,
+      suspected_no_show: undefined,
+      minutes_late: 5
+    });
+  });
+});
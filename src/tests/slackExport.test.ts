@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertSlackExportMessages,
+  matchSlackUsers,
+  readSlackExport,
+  slackUserToEmployeeForm,
+  suggestAttendanceChannel
+} from '../utils/slackExport';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { Employee, SlackExportMessage, SlackExportUser } from '../types';
+
+interface ZipFile {
+  name: string;
+  content: string;
+  deflate?: boolean;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new CompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  writer.write(data);
+  writer.close();
+
+  const reader = stream.readable.getReader();
+  const chunks: number[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(...value);
+  }
+  return new Uint8Array(chunks);
+}
+
+// Writes a zip with stored or deflated entries; CRCs are left at zero since the reader ignores them
+async function buildZip(files: ZipFile[]): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const raw = encoder.encode(file.content);
+    const data = file.deflate ? await deflateRaw(raw) : raw;
+    const method = file.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output.buffer;
+}
+
+describe('Slack Export Import', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  };
+
+  const users: SlackExportUser[] = [
+    { id: 'U01234567', name: 'john', profile: { email: 'john@company.com', real_name: 'John Smith' } },
+    { id: 'U0MARIA01', name: 'maria', tz: 'America/New_York', profile: { email: 'MARIA@company.com', real_name: 'Maria Cruz' } },
+    { id: 'U0PEDRO01', name: 'pedro', profile: { real_name: 'Pedro Reyes' } },
+    { id: 'B0BOT0001', name: 'standup-bot', is_bot: true }
+  ];
+
+  // 2024-01-02 16:30 UTC is already 00:30 on the 3rd in Manila
+  const ts = (iso: string) => (Date.parse(iso) / 1000).toFixed(6);
+  const messages: SlackExportMessage[] = [
+    { type: 'message', user: 'U01234567', text: ':in: morning', ts: ts('2024-01-02T01:00:00Z') },
+    { type: 'message', user: 'U0MARIA01', text: ':in:', ts: ts('2024-01-02T14:00:00Z') },
+    { type: 'message', user: 'U01234567', text: ':out: bye', ts: ts('2024-01-02T16:30:00Z') },
+    { type: 'message', subtype: 'channel_join', user: 'U0PEDRO01', text: '<@U0PEDRO01> has joined the channel', ts: ts('2024-01-02T02:00:00Z') },
+    { type: 'message', user: 'B0BOT0001', text: 'Standup time!', ts: ts('2024-01-02T03:00:00Z') }
+  ];
+
+  const exportFiles = (root = ''): ZipFile[] => [
+    { name: `${root}users.json`, content: JSON.stringify(users) },
+    { name: `${root}channels.json`, content: JSON.stringify([{ id: 'C1', name: 'general' }, { id: 'C2', name: 'attendance' }]) },
+    { name: `${root}general/2024-01-02.json`, content: JSON.stringify([{ type: 'message', user: 'U01234567', text: 'hi', ts: ts('2024-01-02T05:00:00Z') }]) },
+    { name: `${root}attendance/2024-01-02.json`, content: JSON.stringify(messages.slice(2)), deflate: true },
+    { name: `${root}attendance/2024-01-01.json`, content: JSON.stringify(messages.slice(0, 2)) }
+  ];
+
+  it('should read channels from a zip, oldest message first', async () => {
+    const slackExport = await readSlackExport(await buildZip(exportFiles('Acme Slack export/')));
+
+    expect(slackExport.users).toHaveLength(4);
+    expect(Object.keys(slackExport.messages).sort()).toEqual(['attendance', 'general']);
+    expect(slackExport.messages.attendance.map(message => message.ts)).toEqual(
+      [...messages].map(message => message.ts).sort((a, b) => parseFloat(a) - parseFloat(b))
+    );
+    expect(suggestAttendanceChannel(slackExport)).toBe('attendance');
+  });
+
+  it('should reject a zip that is not a Slack export', async () => {
+    const buffer = await buildZip([{ name: 'notes.txt', content: 'hello' }]);
+    await expect(readSlackExport(buffer)).rejects.toThrow('No users.json found');
+    await expect(readSlackExport(new ArrayBuffer(40))).rejects.toThrow('Not a zip file');
+  });
+
+  it('should date messages in the configured timezone and skip system messages', () => {
+    const converted = convertSlackExportMessages(messages, [employee], { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'Asia/Manila' });
+
+    expect(converted.map(message => message.text)).toEqual([':in: morning', ':in:', ':out: bye', 'Standup time!']);
+    expect(converted[2].date).toBe('2024-01-03');
+
+    const newYork = convertSlackExportMessages(messages, [{ ...employee, timezone: 'America/New_York' }], DEFAULT_ATTENDANCE_SETTINGS);
+    expect(newYork[0].date).toBe('2024-01-01');
+  });
+
+  it('should match posters to employees by Slack ID, then email, then name', () => {
+    const maria: Employee = { ...employee, id: 'emp_002', slack_user_id: 'U99999999', name: 'M. Cruz', email: 'maria@company.com' };
+    const pedro: Employee = { ...employee, id: 'emp_003', slack_user_id: 'U88888888', name: 'Pedro Reyes', email: 'pedro@company.com' };
+    const matches = matchSlackUsers(users, [employee, maria, pedro], [
+      ...messages,
+      { user: 'U0PEDRO01', text: ':in:', ts: ts('2024-01-02T04:00:00Z') }
+    ]);
+
+    expect(matches.map(match => [match.user.id, match.employee?.id, match.match_type, match.message_count])).toEqual([
+      ['U01234567', 'emp_001', 'slack_id', 2],
+      ['U0MARIA01', 'emp_002', 'email', 1],
+      ['U0PEDRO01', 'emp_003', 'name', 1]
+    ]);
+  });
+
+  it('should build new employees from Slack profiles', () => {
+    const formData = slackUserToEmployeeForm(users[1], '20', 'Asia/Manila');
+
+    expect(formData).toMatchObject({
+      name: 'Maria Cruz',
+      email: 'MARIA@company.com',
+      slack_user_id: 'U0MARIA01',
+      hourly_rate: '20',
+      timezone: 'America/New_York'
+    });
+    expect(slackUserToEmployeeForm(users[1], '20', 'America/New_York').timezone).toBe('');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateStatutoryDeductions,
+  calculateWithholdingTax,
+  getEffectiveTable,
+  getMonthlyPeriodShare,
+  STATUTORY_TABLES
+} from '../utils/statutoryDeductions';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { Employee } from '../types';
+
+describe('Statutory Deductions', () => {
+  describe('calculateStatutoryDeductions', () => {
+    it('should compute employee and employer shares for a full month', () => {
+      const result = calculateStatutoryDeductions(30000, { start: '2025-01-01', end: '2025-01-31' });
+
+      expect(result.sss_employee).toBe(1500);
+      expect(result.sss_employer).toBe(3030); // 10% + EC
+      expect(result.philhealth_employee).toBe(750);
+      expect(result.philhealth_employer).toBe(750);
+      expect(result.pagibig_employee).toBe(200);
+      expect(result.pagibig_employer).toBe(200);
+      expect(result.withholding_tax).toBeCloseTo(1007.55, 2);
+      expect(result.total_employee).toBeCloseTo(3457.55, 2);
+    });
+
+    it('should split monthly contributions across a semi-monthly period', () => {
+      const result = calculateStatutoryDeductions(15000, { start: '2025-06-01', end: '2025-06-15' });
+
+      expect(result.sss_employee).toBe(750);
+      expect(result.philhealth_employee).toBe(375);
+      expect(result.pagibig_employee).toBe(100);
+      expect(result.withholding_tax).toBeCloseTo(503.78, 1);
+    });
+
+    it('should use the table version in effect on the period start', () => {
+      const result = calculateStatutoryDeductions(30000, { start: '2023-06-01', end: '2023-06-30' });
+
+      expect(result.sss_employee).toBe(1350);
+      expect(result.philhealth_employee).toBe(600);
+      expect(result.pagibig_employee).toBe(100);
+    });
+
+    it('should apply contribution floors and exempt low income from tax', () => {
+      const result = calculateStatutoryDeductions(1000, { start: '2025-03-01', end: '2025-03-31' });
+
+      expect(result.sss_employee).toBe(250);
+      expect(result.philhealth_employee).toBe(250);
+      expect(result.pagibig_employee).toBe(10);
+      expect(result.withholding_tax).toBe(0);
+    });
+
+    it('should return zeros when there is no compensation', () => {
+      const result = calculateStatutoryDeductions(0, { start: '2025-03-01', end: '2025-03-15' });
+      expect(result.total_employee).toBe(0);
+      expect(result.total_employer).toBe(0);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should compute graduated withholding tax', () => {
+      const brackets = getEffectiveTable(STATUTORY_TABLES.withholding_tax, '2025-01-01')!.brackets;
+      expect(calculateWithholdingTax(20000, brackets)).toBe(0);
+      expect(calculateWithholdingTax(43333, brackets)).toBeCloseTo(3875, 2);
+    });
+
+    it('should compute the share of the month covered by a period', () => {
+      expect(getMonthlyPeriodShare({ start: '2025-06-01', end: '2025-06-15' })).toBe(0.5);
+      expect(getMonthlyPeriodShare({ start: '2025-01-01', end: '2025-01-31' })).toBe(1);
+    });
+  });
+
+  describe('payroll integration', () => {
+    const employee: Employee = {
+      id: 'emp_001',
+      slack_user_id: 'U01234567',
+      name: 'John Smith',
+      email: 'john@company.com',
+      hourly_rate: 200,
+      status: 'active',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z'
+    };
+
+    // Ten weekdays, so no rest-day premiums apply
+    const logs = [2, 3, 4, 5, 6, 9, 10, 11, 12, 13].map(day => ({
+      employee_id: 'emp_001',
+      date: `2025-06-${String(day).padStart(2, '0')}`,
+      is_late: false,
+      is_offline: false,
+      hours_worked: 8
+    }));
+
+    it('should deduct statutory contributions from net pay', () => {
+      const [summary] = calculatePayrollSummary(logs, [employee], { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: true }, {
+        period: { start: '2025-06-01', end: '2025-06-15' }
+      });
+
+      expect(summary.gross_pay).toBe(16000);
+      expect(summary.statutory_deductions).toBeGreaterThan(0);
+      expect(summary.net_pay).toBeCloseTo(summary.gross_pay - summary.statutory_deductions, 2);
+    });
+
+    it('should skip statutory deductions unless enabled', () => {
+      const [summary] = calculatePayrollSummary(logs, [employee], DEFAULT_PAYROLL_RULES, {
+        period: { start: '2025-06-01', end: '2025-06-15' }
+      });
+
+      expect(summary.statutory_deductions).toBe(0);
+      expect(summary.net_pay).toBe(summary.gross_pay);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import { calculateTardinessDeductions, DEFAULT_TARDINESS_POLICY, getChargedMinutes, validateTardinessPolicy } from '../utils/tardiness';
+import { SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { getDayRates } from '../utils/compensation';
+import { getRateChangeOnDate } from '../utils/rateHistory';
+import { AttendanceLog, Employee, TardinessPolicy } from '../types';
+
+describe('Tardiness', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+  const dailyEmployee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25,
+    compensation_type: 'daily',
+    daily_rate: 800,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  };
+
+  const hourlyEmployee: Employee = { ...dailyEmployee, id: 'emp_002', name: 'Jane Doe', compensation_type: 'hourly', daily_rate: undefined };
+
+  const perMinute: TardinessPolicy = { ...DEFAULT_TARDINESS_POLICY, mode: 'per_minute' };
+  const tiered: TardinessPolicy = { ...DEFAULT_TARDINESS_POLICY, mode: 'tiered' };
+
+  describe('calculateTardinessDeductions', () => {
+    const dailyRates = getDayRates(getRateChangeOnDate(dailyEmployee, '2025-06-02'), '2025-06-02', rules);
+
+    it('should charge a flat amount per late day regardless of minutes', () => {
+      expect(calculateTardinessDeductions({ is_late: true, minutes_late: 45 }, dailyRates, DEFAULT_TARDINESS_POLICY).late).toBe(10);
+      expect(calculateTardinessDeductions({ is_late: false }, dailyRates, DEFAULT_TARDINESS_POLICY).late).toBe(0);
+    });
+
+    it('should charge minutes at the hourly equivalent of the daily rate', () => {
+      // $800 a day over 8 hours is $100 an hour
+      expect(calculateTardinessDeductions({ is_late: true, minutes_late: 12 }, dailyRates, perMinute).late).toBe(20);
+      expect(calculateTardinessDeductions({ is_late: true, minutes_late: 12 }, dailyRates, tiered).late).toBe(25);
+    });
+
+    it('should round minutes up to their bracket and charge minutes past every bracket as is', () => {
+      expect(getChargedMinutes(16, tiered)).toBe(30);
+      expect(getChargedMinutes(75, tiered)).toBe(75);
+      expect(getChargedMinutes(16, perMinute)).toBe(16);
+    });
+
+    it('should not charge hourly staff per minute, since the minutes they missed are unpaid', () => {
+      const hourlyRates = getDayRates(getRateChangeOnDate(hourlyEmployee, '2025-06-02'), '2025-06-02', rules);
+      expect(calculateTardinessDeductions({ is_late: true, minutes_late: 12, minutes_undertime: 30 }, hourlyRates, { ...perMinute, include_undertime: true }))
+        .toEqual({ late: 0, undertime: 0 });
+    });
+
+    it('should charge hourly staff the bracket minutes beyond the time they missed', () => {
+      const hourlyRates = getDayRates(getRateChangeOnDate(hourlyEmployee, '2025-06-02'), '2025-06-02', rules);
+      // 12 minutes late is charged as 15, so 3 extra minutes at $25 an hour; 20 undertime minutes as 30
+      expect(calculateTardinessDeductions({ is_late: true, minutes_late: 12, minutes_undertime: 20 }, hourlyRates, { ...tiered, include_undertime: true }))
+        .toEqual({ late: 1.25, undertime: 4.17 });
+      expect(calculateTardinessDeductions({ is_late: true, minutes_late: 75 }, hourlyRates, tiered).late).toBe(0);
+    });
+  });
+
+  describe('calculatePayrollSummary', () => {
+    // Scheduled 10:00 AM to 6:00 PM in Asia/Manila (02:00 to 10:00 UTC)
+    const logs: AttendanceLog[] = [
+      {
+        employee_id: 'emp_001',
+        date: '2025-06-02',
+        check_in: new Date('2025-06-02T02:17:00.000Z'),
+        check_out: new Date('2025-06-02T09:30:00.000Z'),
+        is_late: true,
+        minutes_late: 12,
+        is_offline: false,
+        hours_worked: 7.2
+      }
+    ];
+
+    it('should charge late minutes and, when enabled, undertime', () => {
+      const [summary] = calculatePayrollSummary(logs, [dailyEmployee], rules, {
+        period: { start: '2025-06-01', end: '2025-06-15' },
+        tardiness: { ...perMinute, include_undertime: true }
+      });
+
+      expect(summary.late_minutes).toBe(12);
+      expect(summary.late_deductions).toBe(20);
+      expect(summary.undertime_minutes).toBe(30);
+      expect(summary.undertime_deductions).toBe(50);
+      expect(summary.net_pay).toBe(800 - 20 - 50);
+    });
+
+    it('should keep the flat late deduction from the rules without a policy', () => {
+      const [summary] = calculatePayrollSummary(logs, [dailyEmployee], { ...rules, late_deduction_amount: 15 }, {
+        period: { start: '2025-06-01', end: '2025-06-15' }
+      });
+
+      expect(summary.late_deductions).toBe(15);
+      expect(summary.undertime_deductions).toBeUndefined();
+    });
+  });
+
+  it('should charge pasted Slack check-ins under the same policy', () => {
+    const parser = new SlackAttendanceTextParser([dailyEmployee], undefined, [], perMinute);
+    const result = parser.parseSlackText('start date 6/2/25\n\nJohn Smith\n  10:17 AM\nIN');
+
+    expect(result.entries[0].minutes_late).toBe(12);
+    expect(result.entries[0].deduction_amount).toBe(20);
+  });
+
+  it('should price pasted lateness with the saved payroll rules', () => {
+    const tenHourDays = { ...rules, standard_work_hours: 10 };
+    const parser = new SlackAttendanceTextParser([dailyEmployee], undefined, [], perMinute, undefined, tenHourDays);
+    const result = parser.parseSlackText('start date 6/2/25\n\nJohn Smith\n  10:17 AM\nIN');
+
+    // 800 over a 10 hour day is 80 an hour
+    expect(result.entries[0].deduction_amount).toBe(16);
+  });
+
+  it('should reject overlapping brackets', () => {
+    const result = validateTardinessPolicy({
+      ...tiered,
+      brackets: [
+        { from_minutes: 1, to_minutes: 15, charged_minutes: 15 },
+        { from_minutes: 10, to_minutes: 30, charged_minutes: 30 }
+      ]
+    });
+
+    expect(result.errors.brackets).toBe('Brackets 1–15 and 10–30 min overlap');
+  });
+});
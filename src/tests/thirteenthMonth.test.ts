@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePayrollSummary, DEFAULT_PAYROLL_RULES } from '../utils/payrollCalculator';
+import {
+  buildThirteenthMonthSummaries,
+  exportThirteenthMonthCSV,
+  getThirteenthMonthAccruals
+} from '../utils/thirteenthMonth';
+import { buildFinalPayLines } from '../utils/finalPay';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { AttendanceLog, Employee, PayPeriodRange, PayrollRun, PayrollRunStatus } from '../types';
+
+describe('13th Month Pay', () => {
+  const rules = { ...DEFAULT_PAYROLL_RULES, statutory_deductions_enabled: false };
+
+  const employee = (id: string, name: string): Employee => ({
+    id,
+    slack_user_id: `U_${id}`,
+    name,
+    email: `${id}@company.com`,
+    hourly_rate: 25,
+    status: 'active',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z'
+  });
+
+  const john = employee('emp_001', 'John Smith');
+  const jane = employee('emp_002', 'Jane Doe');
+
+  const run = (
+    id: string,
+    period: PayPeriodRange,
+    logs: AttendanceLog[],
+    status: PayrollRunStatus = 'paid'
+  ): PayrollRun => ({
+    id,
+    start: period.start,
+    end: period.end,
+    status,
+    inputs: { employees: [john, jane], attendance_logs: logs, holidays: [], rules, attendance_settings: DEFAULT_ATTENDANCE_SETTINGS },
+    summaries: calculatePayrollSummary(logs, [john, jane], rules, { period }),
+    calculated_at: '2025-06-16T00:00:00.000Z',
+    created_at: '2025-06-16T00:00:00.000Z',
+    updated_at: '2025-06-16T00:00:00.000Z'
+  });
+
+  const day = (employeeId: string, date: string, overrides: Partial<AttendanceLog> = {}): AttendanceLog => ({
+    employee_id: employeeId,
+    date,
+    is_late: false,
+    is_offline: false,
+    hours_worked: 8,
+    ...overrides
+  });
+
+  const runs = [
+    run('run_jan', { start: '2025-01-01', end: '2025-01-15' }, [day('emp_001', '2025-01-06'), day('emp_001', '2025-01-07', { is_late: true })]),
+    // Jane joined in June
+    run('run_jun', { start: '2025-06-01', end: '2025-06-15' }, [day('emp_001', '2025-06-02', { hours_worked: 10 }), day('emp_002', '2025-06-02')]),
+    run('run_draft', { start: '2025-06-16', end: '2025-06-30' }, [day('emp_001', '2025-06-16')], 'draft'),
+    run('run_2024', { start: '2024-12-16', end: '2024-12-31' }, [day('emp_001', '2024-12-16')])
+  ];
+
+  it('should accumulate basic pay from locked runs in the year', () => {
+    const accruals = getThirteenthMonthAccruals([john, jane], runs, 2025);
+    const johnAccrual = accruals.find(accrual => accrual.employee_id === 'emp_001')!;
+
+    // 3 regular days at $200; overtime, late deductions, drafts and other years do not count
+    expect(johnAccrual).toMatchObject({
+      basic_pay: 600,
+      thirteenth_month_pay: 50,
+      already_paid: 0,
+      balance: 50,
+      first_paid_date: '2025-01-06',
+      last_paid_date: '2025-06-02'
+    });
+  });
+
+  it('should prorate partial-year employees and skip those with no basic pay', () => {
+    const accruals = getThirteenthMonthAccruals([john, jane, employee('emp_003', 'New Hire')], runs, 2025);
+
+    expect(accruals.map(accrual => accrual.employee_name)).toEqual(['Jane Doe', 'John Smith']);
+    expect(accruals[0]).toMatchObject({ basic_pay: 200, thirteenth_month_pay: 16.67, first_paid_date: '2025-06-02' });
+  });
+
+  it('should build payout summaries with no attendance deductions', () => {
+    const accruals = getThirteenthMonthAccruals([john, jane], runs, 2025);
+    const summaries = buildThirteenthMonthSummaries(accruals, [john, jane], 2025);
+    const johnSummary = summaries.find(summary => summary.employee.id === 'emp_001')!;
+
+    expect(johnSummary.late_deductions).toBe(0);
+    expect(johnSummary.gross_pay).toBe(0);
+    expect(johnSummary.net_pay).toBe(50);
+    expect(johnSummary.adjustments).toEqual([
+      expect.objectContaining({ source: 'thirteenth_month', amount: 50, apply_from: '2025-12-31' })
+    ]);
+  });
+
+  it('should subtract 13th month already paid in the year', () => {
+    const accruals = getThirteenthMonthAccruals([john, jane], runs, 2025);
+    const payout: PayrollRun = {
+      ...run('run_13th', { start: '2025-01-01', end: '2025-12-31' }, []),
+      kind: 'thirteenth_month',
+      summaries: buildThirteenthMonthSummaries(accruals, [john, jane], 2025)
+    };
+
+    const after = getThirteenthMonthAccruals([john, jane], [...runs, payout], 2025);
+    expect(after.map(accrual => accrual.balance)).toEqual([0, 0]);
+    expect(buildThirteenthMonthSummaries(after, [john, jane], 2025)).toEqual([]);
+  });
+
+  it('should leave final pay 13th month net of earlier payouts', () => {
+    const paidHalf: PayrollRun = {
+      ...run('run_13th', { start: '2025-01-01', end: '2025-12-31' }, []),
+      kind: 'thirteenth_month',
+      summaries: buildThirteenthMonthSummaries(
+        [{ ...getThirteenthMonthAccruals([john], runs, 2025)[0], balance: 20 }],
+        [john],
+        2025
+      )
+    };
+
+    const lines = buildFinalPayLines(john, undefined, [...runs, paidHalf], { separation_date: '2025-07-01', unused_leave_days: 0 }, rules);
+    expect(lines).toEqual([expect.objectContaining({ source: 'thirteenth_month', amount: 30 })]);
+  });
+
+  it('should export the report as CSV', () => {
+    const csv = exportThirteenthMonthCSV(getThirteenthMonthAccruals([john], runs, 2025));
+
+    expect(csv.split('\n')).toEqual([
+      'Employee Name,Status,First Paid Day,Last Paid Day,Basic Pay,13th Month Pay,Already Paid,Balance',
+      'John Smith,active,2025-01-06,2025-06-02,$600.00,$50.00,$0.00,$50.00'
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseSlackMessages } from '../utils/payrollCalculator';
+import { SlackAttendanceTextParser } from '../utils/slackAttendanceParser';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../utils/attendanceSettings';
+import { DEFAULT_BREAK_SETTINGS } from '../utils/breaks';
+import { DEFAULT_VOCABULARY, getMessageEventType, getMessageMarker, validateVocabulary } from '../utils/vocabulary';
+import { Employee, SlackMessage, VocabularyEntry } from '../types';
+
+describe('Attendance Vocabulary', () => {
+  const employee: Employee = {
+    id: 'emp_001',
+    slack_user_id: 'U01234567',
+    name: 'John Smith',
+    email: 'john@company.com',
+    hourly_rate: 25.00,
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  };
+
+  const settings = { ...DEFAULT_ATTENDANCE_SETTINGS, timezone: 'UTC' };
+
+  const message = (text: string, time: string): SlackMessage => ({
+    user: 'U01234567',
+    text,
+    ts: (Date.parse(`2024-01-02T${time}:00Z`) / 1000).toFixed(6),
+    date: '2024-01-02'
+  });
+
+  const withoutEntry = (id: string): VocabularyEntry[] => DEFAULT_VOCABULARY.filter(entry => entry.id !== id);
+
+  describe('Slack messages', () => {
+    it('should pair Taglish check-ins and check-outs', () => {
+      const [log] = parseSlackMessages([message('pasok na po', '09:00'), message('offline muna, brownout', '17:00')], [employee], settings);
+      expect(log.hours_worked).toBe(8);
+    });
+
+    it('should leave pasted-text-only patterns out of message parsing', () => {
+      expect(getMessageEventType('standup in 5', DEFAULT_VOCABULARY)).toBeNull();
+      expect(getMessageEventType(':in: WFH today', DEFAULT_VOCABULARY)).toBe('in');
+    });
+
+    it('should use the saved vocabulary instead of :in: and :out:', () => {
+      const vocabulary: VocabularyEntry[] = [
+        { id: 'v1', pattern: ':wave:', match_type: 'emoji', status: 'check_in', scope: 'all' },
+        { id: 'v2', pattern: 'logging off', match_type: 'keyword', status: 'check_out', scope: 'all' }
+      ];
+      const logs = parseSlackMessages(
+        [message(':in:', '08:00'), message(':wave: morning', '09:00'), message('Logging off now', '12:00')],
+        [employee],
+        settings,
+        DEFAULT_BREAK_SETTINGS,
+        vocabulary
+      );
+
+      expect(logs[0].hours_worked).toBe(3);
+    });
+  });
+
+  describe('pasted text', () => {
+    const parse = (text: string, vocabulary: VocabularyEntry[] = DEFAULT_VOCABULARY) =>
+      new SlackAttendanceTextParser([employee], settings, [], undefined, vocabulary).parseSlackText(`start date 1/2/24\n${text}`).entries[0];
+
+    it('should let the first matching pattern decide', () => {
+      expect(parse('John Smith [9:18 AM] IN, WFH').status).toBe('work_from_home');
+
+      const inFirst = [DEFAULT_VOCABULARY.find(entry => entry.id === 'vocab_in')!, ...withoutEntry('vocab_in')];
+      expect(parse('John Smith [9:18 AM] IN, WFH', inFirst).status).toBe('check_in');
+    });
+
+    it('should read custom statuses and charge lateness on check-ins only', () => {
+      const checkIn = parse('John Smith [10:20 AM] pasok');
+      expect(checkIn.status).toBe('check_in');
+      expect(checkIn.minutes_late).toBe(15);
+
+      const checkOut = parse('John Smith [10:20 AM] offline muna');
+      expect(checkOut.status).toBe('check_out');
+      expect(checkOut.is_late).toBe(false);
+      expect(checkOut.deduction_amount).toBe(0);
+    });
+  });
+
+  it('should turn pasted check-ins into a marker the message parser reads', () => {
+    expect(getMessageMarker('check_in', DEFAULT_VOCABULARY)).toBe(':in:');
+    expect(getMessageMarker('check_in', withoutEntry('vocab_in_emoji'))).toBe('pasok');
+  });
+
+  it('should reject invalid patterns and a vocabulary that cannot check out', () => {
+    const result = validateVocabulary([
+      ...withoutEntry('vocab_out_emoji').filter(entry => entry.id !== 'vocab_offline_muna'),
+      { id: 'bad', pattern: 'ETA (', match_type: 'regex', status: 'eta_delayed', scope: 'slack_text' }
+    ]);
+
+    expect(result.errors.bad).toBe('"ETA (" is not a valid regular expression');
+    expect(result.errors.check_out).toBe('Add at least one Check Out pattern for Slack messages');
+  });
+});
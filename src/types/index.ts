@@ -4,17 +4,93 @@ export interface Employee {
   name: string;
   email: string;
   hourly_rate: number;
+  compensation_type?: CompensationType; // Defaults to 'hourly'
+  daily_rate?: number; // Pay per attended day for 'daily' employees
+  monthly_salary?: number; // Monthly pay for 'salaried' employees
   status: 'active' | 'inactive';
   created_at: string;
   updated_at: string;
+  hire_date?: string; // YYYY-MM-DD first working day; leave accrues from here, or from created_at when unset
   notes?: string;
+  start_time?: string; // Overrides AttendanceSettings.default_start_time, e.g. "9:00 AM"
+  timezone?: string; // Overrides AttendanceSettings.timezone (IANA name)
+  grace_period_minutes?: number; // Overrides AttendanceSettings.grace_period_minutes
+  rate_history?: RateChange[]; // Ordered by effective_from; the pay fields mirror the latest entry
+  separation_date?: string; // YYYY-MM-DD last working day, set when the employee is deactivated
+  aliases?: string[]; // Nicknames the employee goes by in pasted attendance, e.g. "Jigs"
 }
 
+export type CompensationType = 'hourly' | 'daily' | 'salaried';
+
+// A pay rate and the day it took effect
+export interface RateChange {
+  rate: number; // Hourly rate, daily rate or monthly salary depending on compensation_type
+  compensation_type?: CompensationType; // Defaults to 'hourly'
+  effective_from: string; // YYYY-MM-DD
+  reason?: string;
+  changed_by?: string;
+  changed_at: string; // ISO timestamp the change was recorded
+}
+
+// Edits and deletions name the message they change by its author and original `ts`
 export interface SlackMessage {
   user: string;
   text: string;
   ts: string;
   date: string;
+  subtype?: string; // As sent by Slack, e.g. 'message_changed', 'message_deleted' or 'thread_broadcast'
+  edited?: { user: string; ts: string }; // Present on edited messages; the latest edit wins
+  thread_ts?: string; // The parent's ts, on thread replies
+}
+
+// Slack Export Types
+// The shapes of users.json, channels.json and the per-channel, per-day message files in a
+// Slack workspace export; only the fields payroll reads are listed
+export interface SlackExportUser {
+  id: string;
+  name: string;
+  real_name?: string;
+  deleted?: boolean;
+  is_bot?: boolean;
+  tz?: string;
+  profile?: {
+    email?: string;
+    real_name?: string;
+    display_name?: string;
+  };
+}
+
+export interface SlackExportChannel {
+  id: string;
+  name: string;
+  is_private?: boolean;
+}
+
+export interface SlackExportMessage {
+  type?: string;
+  subtype?: string;
+  ts: string;
+  user?: string;
+  text?: string;
+  edited?: { user: string; ts: string };
+  thread_ts?: string;
+}
+
+export interface SlackExport {
+  users: SlackExportUser[];
+  channels: SlackExportChannel[];
+  messages: Record<string, SlackExportMessage[]>; // By channel name, oldest first
+}
+
+// How a Slack user lines up with the staff list: by Slack ID, or by email or name when the
+// employee's Slack ID has not been set to this user yet
+export type SlackUserMatchType = 'slack_id' | 'email' | 'name';
+
+export interface SlackUserMatch {
+  user: SlackExportUser;
+  employee?: Employee;
+  match_type?: SlackUserMatchType;
+  message_count: number; // Messages in the chosen channel
 }
 
 export interface AttendanceLog {
@@ -23,8 +99,59 @@ export interface AttendanceLog {
   check_in?: Date;
   check_out?: Date;
   is_late: boolean;
+  minutes_late?: number; // Past the scheduled start and grace period
   is_offline: boolean;
   hours_worked: number;
+  segments?: WorkSegment[]; // Paired in/out segments that make up hours_worked
+  anomalies?: AttendanceAnomaly[]; // Events that could not be paired or were logged after the fact
+  breaks?: BreakPeriod[]; // Unpaid breaks taken out of the segments, logged or auto-deducted
+  break_minutes?: number;
+}
+
+// Attendance Event Types
+export type AttendanceEventType = 'in' | 'out' | 'break_start' | 'break_end';
+
+export interface AttendanceEvent {
+  employee_id: string;
+  date: string; // Calendar day of the event in the employee's timezone
+  type: AttendanceEventType;
+  timestamp: Date;
+  logged_at?: Date; // When a thread reply logged this event at an earlier, explicit time
+}
+
+// A continuous stretch of work; `date` is the day the segment started, even if it ends after midnight
+export interface WorkSegment {
+  employee_id: string;
+  date: string;
+  start: Date;
+  end: Date;
+  hours: number;
+}
+
+// An unpaid break; `date` is the day the break started
+export interface BreakPeriod {
+  employee_id: string;
+  date: string;
+  start: Date;
+  end: Date;
+  minutes: number;
+  is_auto?: boolean; // Deducted by the break rule because none was logged
+  overlong_minutes?: number; // Beyond the allowed break length
+}
+
+export type AttendanceAnomalyType =
+  | 'unpaired_in'
+  | 'unpaired_out'
+  | 'unpaired_break_start'
+  | 'unpaired_break_end'
+  | 'late_logged';
+
+export interface AttendanceAnomaly {
+  employee_id: string;
+  date: string;
+  type: AttendanceAnomalyType;
+  timestamp: Date;
+  message: string;
 }
 
 export interface PayrollItem {
@@ -39,6 +166,30 @@ export interface PayrollItem {
   hourly_rate: number;
 }
 
+export interface PayrollDayBreakdown {
+  date: string;
+  hours_worked: number;
+  regular_hours: number;
+  overtime_hours: number;
+  is_late: boolean;
+  is_offline: boolean;
+  anomalies: AttendanceAnomaly[];
+  holiday_type?: HolidayType;
+  is_rest_day: boolean;
+  night_hours: number; // Regular hours inside the night differential window
+  night_overtime_hours: number; // Overtime hours inside the night differential window
+  is_attended?: boolean; // Checked in, even if a missing check-out leaves no hours
+  is_absent?: boolean; // Scheduled workday with no attendance, unpaid for salaried employees
+  leave_type?: LeaveType; // Approved leave taken on a day with no attendance
+  is_paid_leave?: boolean; // Paid a day's rate; unpaid leave earns nothing
+  hourly_rate: number; // Hourly rate, or the hourly equivalent for daily and salaried employees
+  regular_pay: number;
+  overtime_pay: number;
+  holiday_pay: number; // Premium for worked holidays, or holiday pay for unworked ones
+  rest_day_pay: number; // Premium for hours worked on a rest day
+  night_differential_pay: number; // Premium for hours worked inside the night window
+}
+
 export interface PayrollSummary {
   employee: Employee;
   total_hours: number;
@@ -46,18 +197,461 @@ export interface PayrollSummary {
   overtime_hours: number;
   late_days: number;
   offline_days: number;
+  absent_days?: number; // Unpaid absences of salaried employees
+  paid_leave_days?: number;
+  unpaid_leave_days?: number;
+  leave_pay?: number; // Included in gross pay as basic pay
+  late_minutes?: number;
+  undertime_minutes?: number; // Left before the scheduled end of the day
   late_deductions: number;
+  undertime_deductions?: number;
+  break_minutes?: number; // Unpaid break time taken out of total_hours
+  overlong_breaks?: number; // Breaks longer than the allowed length
+  overlong_break_minutes?: number;
   offline_deductions: number;
+  holiday_hours: number;
+  holiday_pay: number;
+  rest_day_hours: number;
+  rest_day_pay: number;
+  night_differential_hours: number;
+  night_differential_pay: number;
   gross_pay: number;
+  sss_employee: number;
+  sss_employer: number;
+  philhealth_employee: number;
+  philhealth_employer: number;
+  pagibig_employee: number;
+  pagibig_employer: number;
+  withholding_tax: number;
+  statutory_deductions: number; // Employee shares + withholding tax
+  earnings?: EarningLine[]; // Allowances and bonuses, included in gross pay
+  taxable_earnings?: number;
+  non_taxable_earnings?: number;
+  adjustments?: PayrollAdjustment[]; // Ledger entries carried into this period
+  adjustment_earnings?: number;
+  adjustment_deductions?: number;
+  recurring_deductions?: RecurringDeductionLine[]; // Loan and cash advance installments taken this period
+  recurring_deductions_total?: number;
   net_pay: number;
+  daily_breakdown: PayrollDayBreakdown[];
 }
 
+// 'daily': hours beyond standard_work_hours on a single day
+// 'weekly': hours beyond weekly_overtime_threshold_hours within a workweek
+// 'daily_and_weekly': daily first, then remaining regular hours capped per week
+export type OvertimeMode = 'daily' | 'weekly' | 'daily_and_weekly';
+
 export interface PayrollRules {
   standard_work_hours: number;
   overtime_multiplier: number;
-  late_grace_period_minutes: number;
+  overtime_mode: OvertimeMode;
+  weekly_overtime_threshold_hours: number;
+  week_start_day: number; // 0 = Sunday, 1 = Monday, ...
   late_deduction_amount: number;
   offline_deduction_amount: number;
+  statutory_deductions_enabled: boolean;
+  regular_holiday_multiplier: number; // Pay multiplier for hours worked on a regular holiday
+  special_holiday_multiplier: number; // Pay multiplier for hours worked on a special non-working day
+  regular_holiday_unworked_pay_rate: number; // Fraction of a standard day paid when a regular holiday is not worked
+  special_holiday_unworked_pay_rate: number; // Fraction of a standard day paid when a special day is not worked
+  rest_days: number[]; // Days of the week treated as rest days, 0 = Sunday
+  rest_day_multiplier: number;
+  special_holiday_rest_day_multiplier: number; // Replaces special_holiday_multiplier when the holiday falls on a rest day
+  regular_holiday_rest_day_multiplier: number; // Replaces regular_holiday_multiplier when the holiday falls on a rest day
+  night_differential_start_hour: number; // 0-23, in the attendance timezone
+  night_differential_end_hour: number; // 0-23, may be earlier than the start hour to wrap past midnight
+  night_differential_multiplier: number;
+}
+
+export interface PayPeriodRange {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+}
+
+// Inputs beyond attendance and rules that affect a payroll calculation
+export interface PayrollCalculationContext {
+  period?: PayPeriodRange;
+  holidays?: Holiday[];
+  attendanceSettings?: AttendanceSettings; // Timezone for night differential windows
+  tardiness?: TardinessPolicy; // Defaults to rules.late_deduction_amount per late day
+  adjustments?: PayrollAdjustment[]; // Ledger entries to apply to net pay in this period
+  earnings?: ScheduledEarning[]; // Allowances and bonuses due in this period
+  recurringDeductions?: ScheduledDeduction[]; // Loan and cash advance installments due in this period
+  leave?: ScheduledLeaveDay[]; // Approved leave days in this period
+  netPayFloor?: number; // Defaults to 0
+}
+
+// Pay Calendar Types
+export type PayFrequency = 'weekly' | 'bi_weekly' | 'semi_monthly' | 'monthly';
+
+export interface PaySchedule {
+  frequency: PayFrequency;
+  anchor_date: string; // YYYY-MM-DD first day of any weekly or bi-weekly period
+  semi_monthly_cutoffs: [number, number]; // Days of the month the two periods end on; clamped to month end
+  pay_date_offset_days: number; // Days from the cutoff to the pay date
+}
+
+export interface PayPeriod extends PayPeriodRange {
+  label: string;
+  cutoff_date: string; // YYYY-MM-DD last day of attendance counted in the period
+  pay_date: string; // YYYY-MM-DD
+}
+
+export type PayPeriodPreset = 'current' | 'previous' | PayPeriod;
+
+// Payroll Run Types
+// draft -> approved -> paid; approved and paid runs are locked
+export type PayrollRunStatus = 'draft' | 'approved' | 'paid';
+
+// 'regular': one per pay period for all active employees; 'off_cycle' and 'final_pay': selected
+// employees over arbitrary dates, alongside the regular runs; 'thirteenth_month': the year's
+// 13th month payout
+export type PayrollRunKind = 'regular' | 'off_cycle' | 'final_pay' | 'thirteenth_month';
+
+// Everything a run was calculated from, frozen when the run is created or recalculated
+export interface PayrollRunInputs {
+  employees: Employee[];
+  attendance_logs: AttendanceLog[];
+  holidays: Holiday[];
+  rules: PayrollRules;
+  attendance_settings: AttendanceSettings;
+  tardiness?: TardinessPolicy;
+  breaks?: BreakSettings;
+  vocabulary?: VocabularyEntry[];
+  leave?: ScheduledLeaveDay[];
+}
+
+export interface PayrollRun extends PayPeriodRange {
+  id: string;
+  status: PayrollRunStatus;
+  kind?: PayrollRunKind; // Defaults to 'regular'
+  label?: string;
+  employee_ids?: string[]; // Employees an off-cycle run is scoped to
+  inputs: PayrollRunInputs;
+  summaries: PayrollSummary[];
+  calculated_at: string; // ISO timestamp the summaries were frozen
+  approved_at?: string;
+  approved_by?: string;
+  paid_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Adjustment Ledger Types
+export type AdjustmentType = 'earning' | 'deduction';
+
+// 'manual': a one-off entry; 'retro': the difference found by re-running a locked period;
+// 'final_pay': a line added by the final pay template; 'thirteenth_month': 13th month pay, from a
+// payout run or final pay
+export type AdjustmentSource = 'manual' | 'retro' | 'final_pay' | 'thirteenth_month';
+
+export interface PayrollAdjustment {
+  id: string;
+  employee_id: string;
+  type: AdjustmentType;
+  amount: number; // Always positive; type decides whether it adds to or reduces net pay
+  label: string;
+  source: AdjustmentSource;
+  source_run_id?: string; // The locked run a retro difference was computed against
+  apply_from: string; // YYYY-MM-DD; applied in the first open period ending on or after this date
+  applied_run_id?: string; // Set once a run that includes the adjustment is approved
+  created_by?: string;
+  created_at: string;
+}
+
+export interface AdjustmentFormData {
+  employee_id: string;
+  type: AdjustmentType;
+  amount: string;
+  label: string;
+  apply_from: string;
+  created_by?: string;
+}
+
+// An employee whose live calculation no longer matches a run's frozen results
+export interface PayrollRunDrift {
+  employee_id: string;
+  employee_name: string;
+  frozen_net_pay?: number; // Missing when the employee was not in the run
+  live_net_pay?: number; // Missing when the employee has no live result
+}
+
+// Earnings Types
+// 'fixed': the same amount every pay period; 'per_day': the amount for each day attended in
+// the period; 'one_off': paid once, in the pay period containing the assignment's start date
+export type EarningCalculation = 'fixed' | 'per_day' | 'one_off';
+
+// A catalog entry such as an internet allowance or a referral bonus
+export interface EarningType {
+  id: string;
+  name: string;
+  taxable: boolean; // Taxable earnings count toward statutory contributions and withholding tax
+  calculation: EarningCalculation;
+  default_amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EarningTypeFormData {
+  name: string;
+  taxable: boolean;
+  calculation: EarningCalculation;
+  default_amount: string;
+}
+
+// A catalog earning given to one employee from start_date, until end_date when set
+export interface EarningAssignment {
+  id: string;
+  earning_type_id: string;
+  employee_id: string;
+  amount: number;
+  start_date: string;
+  end_date?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EarningAssignmentFormData {
+  earning_type_id: string;
+  employee_id: string;
+  amount: string;
+  start_date: string;
+  end_date: string; // Empty for open-ended
+  created_by?: string;
+}
+
+// An assignment due in a pay period, resolved against the catalog
+export interface ScheduledEarning {
+  assignment_id: string;
+  earning_type_id: string;
+  employee_id: string;
+  name: string;
+  taxable: boolean;
+  calculation: EarningCalculation;
+  rate: number;
+  start_date: string; // Assignment window; per-day earnings only count days inside it
+  end_date?: string;
+}
+
+export interface EarningLine extends ScheduledEarning {
+  quantity: number; // Days attended within the assignment window for per-day earnings, otherwise 1
+  amount: number;
+}
+
+// Recurring Deduction Types
+export type RecurringDeductionKind = 'cash_advance' | 'loan';
+
+// 'active': deducted every period until the balance is repaid; 'completed': fully repaid;
+// 'cancelled': stopped early, the remaining balance is written off
+export type RecurringDeductionStatus = 'active' | 'completed' | 'cancelled';
+
+// One installment taken by a locked payroll run
+export interface RecurringDeductionPayment {
+  run_id: string;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD
+  amount: number;
+  recorded_at: string; // ISO timestamp
+}
+
+export interface RecurringDeduction {
+  id: string;
+  employee_id: string;
+  kind: RecurringDeductionKind;
+  label: string;
+  principal: number;
+  installment_amount: number; // Per period; the final installment takes whatever balance is left
+  start_date: string; // YYYY-MM-DD, deducted from the pay period containing this date onward
+  status: RecurringDeductionStatus;
+  payments: RecurringDeductionPayment[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringDeductionFormData {
+  employee_id: string;
+  kind: RecurringDeductionKind;
+  label: string;
+  principal: string;
+  installment_mode: 'amount' | 'count'; // A fixed amount per period, or the principal split over a number of periods
+  installment_value: string;
+  start_date: string;
+  created_by?: string;
+}
+
+// An installment due in a period, before the net pay floor is applied
+export interface ScheduledDeduction {
+  deduction_id: string;
+  employee_id: string;
+  label: string;
+  scheduled_amount: number;
+  balance: number; // Remaining before this period
+}
+
+// An installment as deducted in a payroll summary
+export interface RecurringDeductionLine extends ScheduledDeduction {
+  amount: number; // Capped so net pay stays at or above the floor
+  remaining_balance: number; // After this period
+}
+
+export interface DeductionSettings {
+  net_pay_floor: number; // Recurring deductions stop short of taking net pay below this amount
+}
+
+// Leave Types
+export type LeaveType = 'vacation' | 'sick' | 'emergency' | 'unpaid';
+
+// Leave types drawn from an accrued balance
+export type PaidLeaveType = Exclude<LeaveType, 'unpaid'>;
+
+// 'pending' until an approver decides; only approved leave is paid and taken off balances
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface LeaveRequest {
+  id: string;
+  employee_id: string;
+  leave_type: LeaveType;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  days: number; // Workdays in the range; rest days are not charged
+  reason?: string;
+  status: LeaveRequestStatus;
+  approver?: string;
+  approval_code?: string; // As posted in Slack, e.g. "JSP Approved"
+  decided_at?: string; // ISO timestamp of the approval or rejection
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeaveRequestFormData {
+  employee_id: string;
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  approval_code: string;
+}
+
+// Days credited to every employee at the end of each month of service, up to max_balance
+export interface LeaveAccrualRule {
+  leave_type: PaidLeaveType;
+  days_per_month: number;
+  max_balance: number | null; // Null for no cap
+}
+
+export interface LeaveSettings {
+  accrual_rules: LeaveAccrualRule[];
+}
+
+export interface LeaveBalance {
+  leave_type: PaidLeaveType;
+  accrued: number;
+  used: number; // Approved leave, including days booked ahead
+  pending: number; // Requested but not yet decided
+  available: number;
+}
+
+// One approved leave day as payroll sees it
+export interface ScheduledLeaveDay {
+  leave_request_id: string;
+  employee_id: string;
+  date: string; // YYYY-MM-DD
+  leave_type: LeaveType;
+  is_paid: boolean;
+}
+
+// 13th Month Pay Types
+// Basic pay accumulated in locked runs for one calendar year
+export interface ThirteenthMonthAccrual {
+  employee_id: string;
+  employee_name: string;
+  employee_status: 'active' | 'inactive';
+  first_paid_date?: string; // First and last days with basic pay, showing partial-year employees
+  last_paid_date?: string;
+  basic_pay: number;
+  thirteenth_month_pay: number; // Total basic pay / 12
+  already_paid: number; // Paid by earlier payout or final pay runs in the year
+  balance: number;
+}
+
+// Holiday Calendar Types
+export type HolidayType = 'regular' | 'special_non_working';
+
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  type: HolidayType;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HolidayFormData {
+  date: string;
+  name: string;
+  type: HolidayType;
+}
+
+// Statutory Deduction Types (Philippines)
+export interface SSSContributionTable {
+  effective_from: string;
+  employee_rate: number;
+  employer_rate: number;
+  min_salary_credit: number;
+  max_salary_credit: number;
+  salary_credit_step: number;
+  ec_threshold: number; // Employees' Compensation: ec_low below this credit, ec_high at or above
+  ec_low: number;
+  ec_high: number;
+}
+
+export interface PhilHealthContributionTable {
+  effective_from: string;
+  premium_rate: number;
+  income_floor: number;
+  income_ceiling: number;
+  employee_share: number; // Fraction of the premium paid by the employee
+}
+
+export interface PagIbigContributionTable {
+  effective_from: string;
+  max_fund_salary: number;
+  low_income_threshold: number;
+  employee_rate_low: number;
+  employee_rate: number;
+  employer_rate: number;
+}
+
+export interface WithholdingTaxBracket {
+  over: number; // Monthly taxable compensation lower bound
+  base_tax: number;
+  rate: number; // Applied to the excess over `over`
+}
+
+export interface WithholdingTaxTable {
+  effective_from: string;
+  brackets: WithholdingTaxBracket[];
+}
+
+export interface StatutoryTables {
+  sss: SSSContributionTable[];
+  philhealth: PhilHealthContributionTable[];
+  pagibig: PagIbigContributionTable[];
+  withholding_tax: WithholdingTaxTable[];
+}
+
+export interface StatutoryDeductions {
+  sss_employee: number;
+  sss_employer: number;
+  philhealth_employee: number;
+  philhealth_employer: number;
+  pagibig_employee: number;
+  pagibig_employer: number;
+  withholding_tax: number;
+  total_employee: number;
+  total_employer: number;
 }
 
 export interface StaffManagementState {
@@ -79,12 +673,26 @@ export interface EmployeeFormData {
   email: string;
   slack_user_id: string;
   hourly_rate: string;
+  compensation_type?: CompensationType;
+  daily_rate?: string;
+  monthly_salary?: string;
+  hire_date?: string; // YYYY-MM-DD, blank when unknown
   notes: string;
+  // Attendance overrides; blank means use the workspace setting
+  start_time?: string;
+  timezone?: string;
+  grace_period_minutes?: string;
+  // Recorded in the rate history when hourly_rate changes
+  rate_effective_from?: string;
+  rate_change_reason?: string;
+  rate_changed_by?: string;
+  aliases?: string; // Comma-separated
 }
 
 // Slack Text Parser Types
 export type AttendanceStatus = 
   | 'check_in'
+  | 'check_out'
   | 'approved_out' 
   | 'work_from_home'
   | 'eta_delayed'
@@ -103,15 +711,31 @@ export interface ParsedAttendanceEntry {
   deduction_amount: number;
   deduction_reason?: string;
   eta_time?: string; // For ETA messages
+  // An ETA's check_in_time is when it was posted; these come from the same person's later IN that day
+  arrival_time?: string;
+  eta_variance_minutes?: number; // Arrival minus ETA; positive when later than promised
+  suspected_no_show?: boolean; // Posted an ETA but no IN followed
+  missing_leave_request?: boolean; // Approved out, but no approved leave request covers the day
   approval_code?: string; // For approved absences
+  candidates: NameMatchCandidate[]; // Employees the name could be, best first
+  is_ambiguous?: boolean; // Left unmatched because the top candidates scored too close together
+}
+
+export interface NameMatchCandidate {
+  employee_id: string;
+  employee_name: string;
+  score: number; // 0-1
+  matched_on: string; // The employee's name or alias that scored best
 }
 
 export interface AttendanceParseResult {
   date: string;
+  holiday?: Holiday; // Set when the attendance date falls on a holiday
   entries: ParsedAttendanceEntry[];
   unmatched_names: string[];
   parsing_errors: string[];
   no_show_employees: string[]; // Employees expected but not found
+  suspected_no_show_employees: string[]; // Posted an ETA but never checked in
   summary: {
     total_entries: number;
     check_ins: number;
@@ -119,21 +743,111 @@ export interface AttendanceParseResult {
     work_from_home: number;
     late_arrivals: number;
     no_shows: number;
+    suspected_no_shows: number;
     unmatched: number;
     total_deductions: number;
   };
 }
 
+// Attendance Review Types
+// Pasted entries the parser was unsure about wait in a review queue until someone decides on them
+export type ReviewReason = 'unmatched' | 'low_confidence' | 'unknown_status' | 'duplicate' | 'suspected_no_show' | 'no_leave_request';
+
+// 'accept' imports the entry as parsed, 'discard' keeps it out of payroll
+export type ReviewAction = 'accept' | 'reassign' | 'correct_time' | 'discard';
+
+export interface ReviewQueueItem {
+  entry_index: number; // Position in AttendanceParseResult.entries
+  reasons: ReviewReason[];
+}
+
+export interface ReviewDecision {
+  action: ReviewAction;
+  employee_id?: string; // For 'reassign'
+  check_in_time?: string; // For 'correct_time', e.g. "9:40 AM"
+}
+
+// A decision as recorded when the reviewed attendance is imported
+export interface AttendanceReviewRecord {
+  id: string;
+  attendance_date: string; // YYYY-MM-DD
+  raw_name: string;
+  reasons: ReviewReason[];
+  action: ReviewAction;
+  original_employee_id?: string;
+  employee_id?: string; // After the decision; unset when discarded
+  original_check_in_time?: string;
+  check_in_time?: string;
+  confidence_score: number; // The parser's name match score
+  resolved_at: string; // ISO timestamp
+}
+
 export interface AttendanceSettings {
   default_start_time: string; // "10:00 AM"
   timezone: string; // "Asia/Manila"
   grace_period_minutes: number; // 5
-  late_penalty_per_minute: number; // 0
+  review_confidence_threshold: number; // 0-1; pasted names matched below this wait in the review queue
 }
 
-// Enhanced Employee with start time overrides
-export interface EmployeeWithSettings extends Employee {
-  start_time?: string; // Override default start time
-  timezone?: string; // Employee-specific timezone
-  grace_period_minutes?: number; // Individual grace period
+// Tardiness Types
+// 'flat': flat_amount per late day; 'per_minute': minutes late (and left early) at the employee's
+// per-minute rate; 'tiered': like per_minute, but minutes falling in a bracket are charged as the
+// bracket's charged_minutes
+export type TardinessMode = 'flat' | 'per_minute' | 'tiered';
+
+export interface TardinessBracket {
+  from_minutes: number;
+  to_minutes: number;
+  charged_minutes: number;
+}
+
+export interface TardinessPolicy {
+  mode: TardinessMode;
+  flat_amount: number;
+  brackets: TardinessBracket[];
+  include_undertime: boolean; // Also charge minutes left before the scheduled end of the day
+}
+
+// Break Types
+// Markers starting with ":" are emoji matched anywhere in a message; others are whole words.
+// When a message has both a start and an end marker, the one that appears first wins.
+export interface BreakSettings {
+  start_markers: string[]; // [":brb:", ":lunch:", "lunch", "brb", "break"]; word markers must be the whole message
+  end_markers: string[]; // [":back:", "back"]
+  allowed_break_minutes: number; // Longer breaks are reported in the payroll summary
+  auto_deduct_after_hours: number; // 0 turns the rule off
+  auto_deduct_minutes: number; // Deducted on days over auto_deduct_after_hours with no logged break
+}
+
+// Attendance Vocabulary Types
+// 'emoji': the text contains the pattern, e.g. ":in:"; 'keyword': the pattern appears as whole
+// words, e.g. "offline muna"; 'regex': a case-insensitive regular expression
+export type VocabularyMatchType = 'emoji' | 'keyword' | 'regex';
+
+// Which parser an entry applies to: 'slack_text' is the pasted daily thread, 'slack_messages'
+// the imported message export
+export type VocabularyScope = 'all' | 'slack_text' | 'slack_messages';
+
+// One way of saying a status; entries are tried in list order and the first match wins
+export interface VocabularyEntry {
+  id: string;
+  pattern: string;
+  match_type: VocabularyMatchType;
+  status: AttendanceStatus;
+  scope: VocabularyScope;
+}
+
+// Attendance overrides now live on Employee itself
+export type EmployeeWithSettings = Employee;
+
+// Workspace-wide settings, persisted by settingsRepository
+export interface AppSettings {
+  attendance: AttendanceSettings;
+  pay_schedule: PaySchedule;
+  deductions: DeductionSettings;
+  tardiness: TardinessPolicy;
+  breaks: BreakSettings;
+  vocabulary: VocabularyEntry[];
+  leave: LeaveSettings;
+  payroll_rules: PayrollRules;
 } 
\ No newline at end of file
@@ -0,0 +1,330 @@
+import {
+  AttendanceAnomaly,
+  AttendanceEvent,
+  AttendanceEventType,
+  AttendanceLog,
+  AttendanceSettings,
+  BreakPeriod,
+  BreakSettings,
+  Employee,
+  SlackMessage,
+  VocabularyEntry,
+  WorkSegment
+} from '../types';
+import { DEFAULT_ATTENDANCE_SETTINGS, resolveAttendanceSettings } from './attendanceSettings';
+import { DEFAULT_BREAK_SETTINGS, getBreakEventType } from './breaks';
+import { addDaysToDateKey, getZonedDateString, parseClockTime, zonedDateTimeToUtc } from './timezone';
+import { DEFAULT_VOCABULARY, getMessageEventType } from './vocabulary';
+
+// An :in: left open longer than this is treated as a forgotten check-out rather than a shift
+export const MAX_SEGMENT_HOURS = 16;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Slack marks a deleted message with message_deleted, or tombstone when its thread lives on
+const DELETED_SUBTYPES = ['message_deleted', 'tombstone'];
+
+// "6pm", "6:30 p.m." or "18:30"
+const CLOCK_TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\b|\b(\d{1,2}):(\d{2})\b/i;
+
+const EVENT_LABELS: Record<AttendanceEventType, string> = {
+  in: 'Check-in',
+  out: 'Check-out',
+  break_start: 'Break start',
+  break_end: 'Break end'
+};
+
+/**
+ * Collapses Slack's message history to what the channel shows now: each message keeps only its
+ * latest edit, and deleted messages are dropped along with every earlier version.
+ */
+export function resolveMessageHistory(messages: SlackMessage[]): SlackMessage[] {
+  // Converted pasted text can give two people the same ts, so messages are keyed by author too
+  const getKey = (message: SlackMessage) => `${message.user}-${message.ts}`;
+  const deleted = new Set(
+    messages.filter(message => DELETED_SUBTYPES.includes(message.subtype || '')).map(getKey)
+  );
+  const latest = new Map<string, SlackMessage>();
+
+  messages.forEach(message => {
+    const key = getKey(message);
+    if (deleted.has(key)) return;
+
+    const current = latest.get(key);
+    if (!current || getEditTime(message) >= getEditTime(current)) {
+      latest.set(key, message);
+    }
+  });
+
+  return Array.from(latest.values());
+}
+
+// Each event is dated by the wall clock in the employee's timezone, not by the machine running payroll.
+// Check-in and check-out vocabulary takes precedence over break markers in the same message.
+// A thread reply that gives a time, such as "forgot to :out: at 6pm", logs the event at that time.
+export function extractAttendanceEvents(
+  messages: SlackMessage[],
+  employees: Employee[],
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS,
+  breakSettings: BreakSettings = DEFAULT_BREAK_SETTINGS,
+  vocabulary: VocabularyEntry[] = DEFAULT_VOCABULARY
+): AttendanceEvent[] {
+  const employeeMap = new Map(employees.map(emp => [emp.slack_user_id, emp]));
+  const events: AttendanceEvent[] = [];
+
+  resolveMessageHistory(messages).forEach(message => {
+    const employee = employeeMap.get(message.user);
+    if (!employee) return;
+
+    const type = getMessageEventType(message.text, vocabulary) || getBreakEventType(message.text, breakSettings);
+    if (!type) return;
+
+    const timeZone = resolveAttendanceSettings(employee, settings).timezone;
+    const postedAt = new Date(parseFloat(message.ts) * 1000);
+    const loggedTime = getThreadReplyTime(message, type, timeZone);
+    const timestamp = loggedTime || postedAt;
+    events.push({
+      employee_id: employee.id,
+      date: getZonedDateString(timestamp, timeZone),
+      type,
+      timestamp,
+      ...(loggedTime && { logged_at: postedAt })
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Pairs each employee's in/out events, in timestamp order, into work segments.
+ * An :in: followed by another :in:, an :out: with no open :in:, an :in: that is never closed,
+ * and a pair further apart than maxSegmentHours are reported as anomalies instead of segments.
+ * Break events are ignored here; see pairBreakEvents.
+ */
+export function pairAttendanceEvents(
+  events: AttendanceEvent[],
+  maxSegmentHours: number = MAX_SEGMENT_HOURS
+): { segments: WorkSegment[]; anomalies: AttendanceAnomaly[] } {
+  const { pairs, anomalies } = pairEvents(events, 'in', 'out', maxSegmentHours);
+
+  return {
+    segments: pairs.map(([start, end]) => ({
+      employee_id: end.employee_id,
+      date: start.date,
+      start: start.timestamp,
+      end: end.timestamp,
+      hours: (end.timestamp.getTime() - start.timestamp.getTime()) / HOUR_MS
+    })),
+    anomalies
+  };
+}
+
+// Pairs break start and end markers the same way check-ins and check-outs are paired
+export function pairBreakEvents(
+  events: AttendanceEvent[],
+  maxBreakHours: number = MAX_SEGMENT_HOURS
+): { breaks: BreakPeriod[]; anomalies: AttendanceAnomaly[] } {
+  const { pairs, anomalies } = pairEvents(events, 'break_start', 'break_end', maxBreakHours);
+
+  return {
+    breaks: pairs.map(([start, end]) => ({
+      employee_id: end.employee_id,
+      date: start.date,
+      start: start.timestamp,
+      end: end.timestamp,
+      minutes: Math.round((end.timestamp.getTime() - start.timestamp.getTime()) / (60 * 1000))
+    })),
+    anomalies
+  };
+}
+
+// Events logged after the fact from a thread reply, listed for review alongside the pairing anomalies
+export function flagLateLoggedEvents(events: AttendanceEvent[]): AttendanceAnomaly[] {
+  return events
+    .filter(event => event.logged_at)
+    .map(event => ({
+      employee_id: event.employee_id,
+      date: event.date,
+      type: 'late_logged',
+      timestamp: event.timestamp,
+      message: `${EVENT_LABELS[event.type]} logged afterwards in a thread reply`
+    }));
+}
+
+// Days an employee posted in the channel without any check-in, check-out or break marker
+export function findOfflineDays(
+  messages: SlackMessage[],
+  events: AttendanceEvent[],
+  employees: Employee[],
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): Array<{ employee_id: string; date: string }> {
+  const employeeMap = new Map(employees.map(emp => [emp.slack_user_id, emp]));
+  const getTimeZone = (employee?: Employee) => resolveAttendanceSettings(employee, settings).timezone;
+
+  // A thread reply logging an earlier event also counts for the day it was posted
+  const eventDays = new Set(events.flatMap(event => {
+    const employee = employees.find(emp => emp.id === event.employee_id);
+    return [
+      `${event.employee_id}-${event.date}`,
+      ...(event.logged_at ? [`${event.employee_id}-${getZonedDateString(event.logged_at, getTimeZone(employee))}`] : [])
+    ];
+  }));
+  const offlineDays = new Map<string, { employee_id: string; date: string }>();
+
+  resolveMessageHistory(messages).forEach(message => {
+    const employee = employeeMap.get(message.user);
+    if (!employee) return;
+
+    const date = getZonedDateString(new Date(parseFloat(message.ts) * 1000), getTimeZone(employee));
+    const key = `${employee.id}-${date}`;
+    if (!eventDays.has(key)) offlineDays.set(key, { employee_id: employee.id, date });
+  });
+
+  return Array.from(offlineDays.values());
+}
+
+/**
+ * Rolls segments and anomalies up into one attendance log per employee per day, plus an
+ * offline log with no hours for each of `offlineDays` (see findOfflineDays).
+ * `getMinutesLate` is called for each day that has a check-in.
+ */
+export function buildAttendanceLogs(
+  segments: WorkSegment[],
+  anomalies: AttendanceAnomaly[],
+  getMinutesLate: (log: AttendanceLog, firstCheckIn: Date) => number,
+  offlineDays: Array<{ employee_id: string; date: string }> = []
+): AttendanceLog[] {
+  const logMap = new Map<string, AttendanceLog>();
+
+  const getLog = (employeeId: string, date: string): AttendanceLog => {
+    const key = `${employeeId}-${date}`;
+    if (!logMap.has(key)) {
+      logMap.set(key, {
+        employee_id: employeeId,
+        date,
+        is_late: false,
+        is_offline: false,
+        hours_worked: 0,
+        segments: [],
+        anomalies: []
+      });
+    }
+    return logMap.get(key)!;
+  };
+
+  [...segments]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach(segment => {
+      const log = getLog(segment.employee_id, segment.date);
+      log.segments!.push(segment);
+      log.hours_worked += segment.hours;
+      log.check_in = log.check_in || segment.start;
+      log.check_out = segment.end;
+    });
+
+  anomalies.forEach(anomaly => {
+    getLog(anomaly.employee_id, anomaly.date).anomalies!.push(anomaly);
+  });
+
+  offlineDays
+    .filter(day => !logMap.has(`${day.employee_id}-${day.date}`))
+    .forEach(day => {
+      getLog(day.employee_id, day.date).is_offline = true;
+    });
+
+  return Array.from(logMap.values()).map(log => {
+    const minutesLate = log.check_in ? getMinutesLate(log, log.check_in) : 0;
+    return { ...log, is_late: minutesLate > 0, minutes_late: minutesLate };
+  });
+}
+
+function pairEvents(
+  events: AttendanceEvent[],
+  openType: AttendanceEventType,
+  closeType: AttendanceEventType,
+  maxHours: number
+): { pairs: [AttendanceEvent, AttendanceEvent][]; anomalies: AttendanceAnomaly[] } {
+  const pairs: [AttendanceEvent, AttendanceEvent][] = [];
+  const anomalies: AttendanceAnomaly[] = [];
+  const eventsByEmployee = new Map<string, AttendanceEvent[]>();
+  const openLabel = EVENT_LABELS[openType];
+  const closeLabel = EVENT_LABELS[closeType];
+
+  events
+    .filter(event => event.type === openType || event.type === closeType)
+    .forEach(event => {
+      eventsByEmployee.set(event.employee_id, [...(eventsByEmployee.get(event.employee_id) || []), event]);
+    });
+
+  eventsByEmployee.forEach(employeeEvents => {
+    const ordered = [...employeeEvents].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    let open: AttendanceEvent | null = null;
+
+    ordered.forEach(event => {
+      if (event.type === openType) {
+        if (open) {
+          anomalies.push(createAnomaly(open, `${openLabel} without a matching ${closeLabel.toLowerCase()}`));
+        }
+        open = event;
+        return;
+      }
+
+      if (!open) {
+        anomalies.push(createAnomaly(event, `${closeLabel} without a matching ${openLabel.toLowerCase()}`));
+        return;
+      }
+
+      const hours = (event.timestamp.getTime() - open.timestamp.getTime()) / HOUR_MS;
+      if (hours > maxHours) {
+        anomalies.push(createAnomaly(open, `${openLabel} without a ${closeLabel.toLowerCase()} within ${maxHours} hours`));
+        anomalies.push(createAnomaly(event, `${closeLabel} without a matching ${openLabel.toLowerCase()}`));
+      } else {
+        pairs.push([open, event]);
+      }
+      open = null;
+    });
+
+    if (open) {
+      anomalies.push(createAnomaly(open, `${openLabel} without a matching ${closeLabel.toLowerCase()}`));
+    }
+  });
+
+  return { pairs, anomalies };
+}
+
+function getEditTime(message: SlackMessage): number {
+  return message.edited ? parseFloat(message.edited.ts) : 0;
+}
+
+// The stated time is read on the day the thread started; a check-out or break end stated earlier
+// than the thread's first message belongs to the next day
+function getThreadReplyTime(message: SlackMessage, type: AttendanceEventType, timeZone: string): Date | null {
+  if (!message.thread_ts || message.thread_ts === message.ts) return null;
+
+  const match = message.text.match(CLOCK_TIME_PATTERN);
+  if (!match) return null;
+
+  const minutes = match[3]
+    ? parseClockTime(`${match[1]}:${match[2] || '00'} ${match[3]}M`)
+    : parseClockTime(`${match[4]}:${match[5]}`);
+  if (minutes === null) return null;
+
+  const threadStart = new Date(parseFloat(message.thread_ts) * 1000);
+  const threadDate = getZonedDateString(threadStart, timeZone);
+  const logged = zonedDateTimeToUtc(threadDate, minutes, timeZone);
+
+  if ((type === 'out' || type === 'break_end') && logged < threadStart) {
+    return zonedDateTimeToUtc(addDaysToDateKey(threadDate, 1), minutes, timeZone);
+  }
+  return logged;
+}
+
+function createAnomaly(event: AttendanceEvent, message: string): AttendanceAnomaly {
+  return {
+    employee_id: event.employee_id,
+    date: event.date,
+    type: `unpaired_${event.type}`,
+    timestamp: event.timestamp,
+    message
+  };
+}
@@ -0,0 +1,135 @@
+import { AttendanceSettings, Employee, EmployeeFormData, ValidationResult } from '../types';
+import { isValidTimeZone, parseClockTime, zonedDateTimeToUtc } from './timezone';
+
+export const DEFAULT_ATTENDANCE_SETTINGS: AttendanceSettings = {
+  default_start_time: '10:00 AM',
+  timezone: 'Asia/Manila',
+  grace_period_minutes: 5,
+  review_confidence_threshold: 0.8
+};
+
+// Applies the employee's start time, timezone and grace period overrides to the workspace settings
+export function resolveAttendanceSettings(
+  employee: Employee | undefined,
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): AttendanceSettings {
+  return {
+    ...settings,
+    default_start_time: employee?.start_time || settings.default_start_time,
+    timezone: employee?.timezone || settings.timezone,
+    grace_period_minutes: employee?.grace_period_minutes ?? settings.grace_period_minutes
+  };
+}
+
+// The instant the employee is expected to start work on the given YYYY-MM-DD date
+export function getScheduledStart(
+  date: string,
+  employee: Employee | undefined,
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): Date {
+  const resolved = resolveAttendanceSettings(employee, settings);
+  const startMinutes = parseClockTime(resolved.default_start_time)
+    ?? parseClockTime(DEFAULT_ATTENDANCE_SETTINGS.default_start_time)!;
+
+  return zonedDateTimeToUtc(date, startMinutes, resolved.timezone);
+}
+
+// The instant a clock time such as "9:40 AM" on the given date refers to, in the employee's timezone
+export function getClockTimeInstant(
+  date: string,
+  time: string,
+  employee: Employee | undefined,
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): Date | null {
+  const minutes = parseClockTime(time);
+  if (minutes === null) return null;
+
+  return zonedDateTimeToUtc(date, minutes, resolveAttendanceSettings(employee, settings).timezone);
+}
+
+// Whole minutes past the scheduled start plus grace period; 0 when on time
+export function calculateMinutesLate(
+  checkIn: Date,
+  date: string,
+  employee: Employee | undefined,
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): number {
+  const resolved = resolveAttendanceSettings(employee, settings);
+  const start = getScheduledStart(date, employee, settings);
+  const minutesAfterStart = (checkIn.getTime() - start.getTime()) / (1000 * 60);
+
+  return Math.round(Math.max(0, minutesAfterStart - resolved.grace_period_minutes));
+}
+
+// Whole minutes between the last check-out and the end of a standard day after the scheduled start; 0 when not early
+export function calculateMinutesUndertime(
+  checkOut: Date,
+  date: string,
+  employee: Employee | undefined,
+  standardWorkHours: number,
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): number {
+  const end = getScheduledStart(date, employee, settings).getTime() + standardWorkHours * 60 * 60 * 1000;
+  return Math.round(Math.max(0, (end - checkOut.getTime()) / (1000 * 60)));
+}
+
+export function validateAttendanceSettings(settings: AttendanceSettings): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (parseClockTime(settings.default_start_time) === null) {
+    errors.default_start_time = 'Start time must look like 9:00 AM or 21:00';
+  }
+
+  if (!isValidTimeZone(settings.timezone)) {
+    errors.timezone = 'Timezone must be an IANA name such as Asia/Manila';
+  }
+
+  if (!Number.isFinite(settings.grace_period_minutes) || settings.grace_period_minutes < 0 || settings.grace_period_minutes > 240) {
+    errors.grace_period_minutes = 'Grace period must be between 0 and 240 minutes';
+  }
+
+  if (
+    !Number.isFinite(settings.review_confidence_threshold) ||
+    settings.review_confidence_threshold < 0 ||
+    settings.review_confidence_threshold > 1
+  ) {
+    errors.review_confidence_threshold = 'Review threshold must be between 0% and 100%';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+// Validates the optional per-employee overrides on the staff form
+export function validateAttendanceOverrides(formData: EmployeeFormData): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (formData.start_time?.trim() && parseClockTime(formData.start_time) === null) {
+    errors.start_time = 'Start time must look like 9:00 AM or 21:00';
+  }
+
+  if (formData.timezone?.trim() && !isValidTimeZone(formData.timezone.trim())) {
+    errors.timezone = 'Timezone must be an IANA name such as Asia/Manila';
+  }
+
+  if (formData.grace_period_minutes?.trim()) {
+    const grace = Number(formData.grace_period_minutes);
+    if (!Number.isInteger(grace) || grace < 0 || grace > 240) {
+      errors.grace_period_minutes = 'Grace period must be a whole number between 0 and 240';
+    }
+  }
+
+  return errors;
+}
+
+export function parseAttendanceOverrides(
+  formData: EmployeeFormData
+): Pick<Employee, 'start_time' | 'timezone' | 'grace_period_minutes'> {
+  return {
+    start_time: formData.start_time?.trim() || undefined,
+    timezone: formData.timezone?.trim() || undefined,
+    grace_period_minutes: formData.grace_period_minutes?.trim() ? Number(formData.grace_period_minutes) : undefined
+  };
+}
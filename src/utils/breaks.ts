@@ -0,0 +1,167 @@
+import { AttendanceLog, BreakPeriod, BreakSettings, ValidationResult, WorkSegment } from '../types';
+import { findPattern } from './vocabulary';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_BREAK_SETTINGS: BreakSettings = {
+  start_markers: [':brb:', ':lunch:', 'lunch', 'brb', 'break'],
+  end_markers: [':back:', 'back'],
+  allowed_break_minutes: 60,
+  auto_deduct_after_hours: 0,
+  auto_deduct_minutes: 60
+};
+
+// Whether a message starts or ends a break; the earliest marker in the text decides.
+// Emoji markers such as :brb: match anywhere, but a word marker only counts as the whole message,
+// so chat like "back to the ticket" or "lunch meeting at 1" is not read as a break.
+export function getBreakEventType(text: string, settings: BreakSettings = DEFAULT_BREAK_SETTINGS): 'break_start' | 'break_end' | null {
+  const start = findFirstMarker(text, settings.start_markers);
+  const end = findFirstMarker(text, settings.end_markers);
+
+  if (start === -1 && end === -1) return null;
+  if (end === -1 || (start !== -1 && start < end)) return 'break_start';
+  return 'break_end';
+}
+
+/**
+ * Takes unpaid breaks out of each log's work segments so hours_worked, overtime and night
+ * differential all exclude them. A logged break applies to the log whose segments it overlaps.
+ * On a day with no logged break, the auto-deduct rule removes auto_deduct_minutes from the middle
+ * of the longest segment once hours_worked passes auto_deduct_after_hours.
+ */
+export function applyBreaks(
+  logs: AttendanceLog[],
+  breaks: BreakPeriod[],
+  settings: BreakSettings = DEFAULT_BREAK_SETTINGS
+): AttendanceLog[] {
+  return logs.map(log => {
+    const segments = log.segments || [];
+    const logged = breaks
+      .filter(entry => entry.employee_id === log.employee_id && segments.some(segment => overlaps(segment, entry)))
+      .map(entry => ({
+        ...entry,
+        overlong_minutes: entry.minutes > settings.allowed_break_minutes ? entry.minutes - settings.allowed_break_minutes : undefined
+      }));
+
+    const dayBreaks = logged.length > 0 ? logged : getAutoBreak(log, settings);
+    if (dayBreaks.length === 0) return log;
+
+    const remaining = dayBreaks.reduce(
+      (current, entry) => current.flatMap(segment => cutSegment(segment, entry.start, entry.end)),
+      segments
+    );
+    const removedHours = sumHours(segments) - sumHours(remaining);
+
+    return {
+      ...log,
+      segments: remaining,
+      hours_worked: Math.max(0, log.hours_worked - removedHours),
+      breaks: dayBreaks,
+      break_minutes: dayBreaks.reduce((sum, entry) => sum + entry.minutes, 0)
+    };
+  });
+}
+
+export function validateBreakSettings(settings: BreakSettings): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (settings.start_markers.length === 0) {
+    errors.start_markers = 'Add at least one break start marker';
+  }
+
+  if (settings.end_markers.length === 0) {
+    errors.end_markers = 'Add at least one break end marker';
+  }
+
+  const shared = settings.start_markers.filter(marker =>
+    settings.end_markers.some(other => other.toLowerCase() === marker.toLowerCase())
+  );
+  if (shared.length > 0) {
+    errors.end_markers = `${shared.join(', ')} cannot both start and end a break`;
+  }
+
+  if (!Number.isInteger(settings.allowed_break_minutes) || settings.allowed_break_minutes < 1 || settings.allowed_break_minutes > 480) {
+    errors.allowed_break_minutes = 'Allowed break must be a whole number between 1 and 480 minutes';
+  }
+
+  if (!Number.isFinite(settings.auto_deduct_after_hours) || settings.auto_deduct_after_hours < 0 || settings.auto_deduct_after_hours > 24) {
+    errors.auto_deduct_after_hours = 'Hours must be between 0 and 24';
+  }
+
+  if (!Number.isInteger(settings.auto_deduct_minutes) || settings.auto_deduct_minutes < 1 || settings.auto_deduct_minutes > 480) {
+    errors.auto_deduct_minutes = 'Break must be a whole number between 1 and 480 minutes';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+// Splits a comma-separated list of markers from the settings form
+export function parseBreakMarkers(value: string): string[] {
+  return value
+    .split(',')
+    .map(marker => marker.trim())
+    .filter(Boolean);
+}
+
+function findFirstMarker(text: string, markers: string[]): number {
+  const command = text.trim().replace(/[.!]+$/, '').toLowerCase();
+  const positions = markers.map(marker => marker.startsWith(':')
+    ? findPattern(text, marker, 'emoji')
+    : command === marker.toLowerCase() ? 0 : -1
+  );
+
+  const found = positions.filter(position => position !== -1);
+  return found.length > 0 ? Math.min(...found) : -1;
+}
+
+function getAutoBreak(log: AttendanceLog, settings: BreakSettings): BreakPeriod[] {
+  if (settings.auto_deduct_after_hours <= 0 || log.hours_worked <= settings.auto_deduct_after_hours) return [];
+
+  const breakMs = settings.auto_deduct_minutes * MINUTE_MS;
+  const longest = (log.segments || []).reduce<WorkSegment | null>(
+    (best, segment) => (!best || segment.hours > best.hours ? segment : best),
+    null
+  );
+  if (!longest || longest.end.getTime() - longest.start.getTime() <= breakMs) return [];
+
+  const start = new Date(longest.start.getTime() + (longest.end.getTime() - longest.start.getTime() - breakMs) / 2);
+  return [{
+    employee_id: log.employee_id,
+    date: log.date,
+    start,
+    end: new Date(start.getTime() + breakMs),
+    minutes: settings.auto_deduct_minutes,
+    is_auto: true
+  }];
+}
+
+function overlaps(a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+// The parts of a segment outside the break
+function cutSegment(segment: WorkSegment, start: Date, end: Date): WorkSegment[] {
+  if (!overlaps(segment, { start, end })) return [segment];
+
+  const pieces = [
+    { start: segment.start, end: start },
+    { start: end, end: segment.end }
+  ];
+
+  return pieces
+    .filter(piece => piece.end.getTime() > piece.start.getTime())
+    .map(piece => ({
+      ...segment,
+      start: piece.start,
+      end: piece.end,
+      hours: (piece.end.getTime() - piece.start.getTime()) / HOUR_MS
+    }));
+}
+
+function sumHours(segments: WorkSegment[]): number {
+  return segments.reduce((sum, segment) => sum + segment.hours, 0);
+}
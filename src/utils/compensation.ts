@@ -0,0 +1,129 @@
+import { CompensationType, Employee, EmployeeFormData, PayrollRules, RateChange } from '../types';
+import { isRestDay } from './holidayCalendar';
+
+export type CompensationFields = Pick<Employee, 'compensation_type' | 'hourly_rate' | 'daily_rate' | 'monthly_salary'>;
+
+// Rates for one day; daily and salaried pay is converted to an hourly equivalent for overtime and premiums
+export interface DayRates {
+  compensation_type: CompensationType;
+  hourly_rate: number;
+  daily_rate: number;
+}
+
+export const COMPENSATION_TYPE_LABELS: Record<CompensationType, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily rate',
+  salaried: 'Monthly salary'
+};
+
+const RATE_UNITS: Record<CompensationType, string> = {
+  hourly: '/hr',
+  daily: '/day',
+  salaried: '/mo'
+};
+
+const RATE_LIMITS: Record<CompensationType, { field: 'hourly_rate' | 'daily_rate' | 'monthly_salary'; label: string; min: number; max: number }> = {
+  hourly: { field: 'hourly_rate', label: 'Hourly rate', min: 0.01, max: 999.99 },
+  daily: { field: 'daily_rate', label: 'Daily rate', min: 0.01, max: 99999.99 },
+  salaried: { field: 'monthly_salary', label: 'Monthly salary', min: 1, max: 9999999.99 }
+};
+
+export function getCompensationType(employee: Employee): CompensationType {
+  return employee.compensation_type || 'hourly';
+}
+
+// The current pay amount in the unit of the employee's compensation type
+export function getCompensationRate(employee: Employee): number {
+  switch (getCompensationType(employee)) {
+    case 'daily':
+      return employee.daily_rate ?? 0;
+    case 'salaried':
+      return employee.monthly_salary ?? 0;
+    case 'hourly':
+    default:
+      return employee.hourly_rate;
+  }
+}
+
+export function toCompensationFields(type: CompensationType, rate: number): CompensationFields {
+  return {
+    compensation_type: type,
+    hourly_rate: type === 'hourly' ? rate : 0,
+    daily_rate: type === 'daily' ? rate : undefined,
+    monthly_salary: type === 'salaried' ? rate : undefined
+  };
+}
+
+export function formatCompensation(type: CompensationType, rate: number): string {
+  return `$${formatAmount(rate)}${RATE_UNITS[type]}`;
+}
+
+export function getDayRates(change: RateChange, date: string, rules: PayrollRules): DayRates {
+  const type = change.compensation_type || 'hourly';
+  let dailyRate: number;
+
+  switch (type) {
+    case 'daily':
+      dailyRate = change.rate;
+      break;
+    case 'salaried':
+      dailyRate = change.rate / getScheduledWorkDaysInMonth(date, rules);
+      break;
+    case 'hourly':
+    default:
+      dailyRate = change.rate * rules.standard_work_hours;
+  }
+
+  return {
+    compensation_type: type,
+    hourly_rate: type === 'hourly' ? change.rate : dailyRate / rules.standard_work_hours,
+    daily_rate: dailyRate
+  };
+}
+
+// Days in the month of the given YYYY-MM-DD date that are not rest days
+export function getScheduledWorkDaysInMonth(date: string, rules: PayrollRules): number {
+  const [year, month] = date.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  let workDays = 0;
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    if (!isRestDay(dateKey, rules)) workDays++;
+  }
+
+  // A schedule with every day off still needs a divisor
+  return Math.max(1, workDays);
+}
+
+// The compensation type and amount entered on the staff form
+export function getFormCompensation(formData: EmployeeFormData): { type: CompensationType; rate: number } {
+  const type = formData.compensation_type || 'hourly';
+  return { type, rate: parseFloat(formData[RATE_LIMITS[type].field] || '') };
+}
+
+export function validateCompensation(formData: EmployeeFormData): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const type = formData.compensation_type || 'hourly';
+
+  if (!RATE_LIMITS[type]) {
+    errors.compensation_type = 'Unknown compensation type';
+    return errors;
+  }
+
+  const { field, label, min, max } = RATE_LIMITS[type];
+  const value = formData[field]?.trim() || '';
+  const rate = parseFloat(value);
+
+  if (!value) {
+    errors[field] = `${label} is required`;
+  } else if (isNaN(rate) || rate < min || rate > max) {
+    errors[field] = `${label} must be between $${formatAmount(min)} and $${formatAmount(max)}`;
+  }
+
+  return errors;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
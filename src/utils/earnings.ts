@@ -0,0 +1,141 @@
+import {
+  EarningAssignment,
+  EarningAssignmentFormData,
+  EarningCalculation,
+  EarningLine,
+  EarningType,
+  EarningTypeFormData,
+  PayPeriodRange,
+  PayrollDayBreakdown,
+  ScheduledEarning,
+  ValidationResult
+} from '../types';
+import { roundCents } from './money';
+
+export const EARNING_CALCULATION_LABELS: Record<EarningCalculation, string> = {
+  fixed: 'Fixed per period',
+  per_day: 'Per day attended',
+  one_off: 'One-off'
+};
+
+/**
+ * Assignments due in a period. Fixed and per-day earnings are due in every period their date
+ * range overlaps; one-off earnings only in the period containing their start date, so they are
+ * paid once. Fixed earnings are paid in full for any period the range overlaps, not prorated.
+ */
+export function getScheduledEarnings(
+  earningTypes: EarningType[],
+  assignments: EarningAssignment[],
+  period: PayPeriodRange
+): ScheduledEarning[] {
+  const typeMap = new Map(earningTypes.map(type => [type.id, type]));
+
+  return assignments.flatMap(assignment => {
+    const type = typeMap.get(assignment.earning_type_id);
+    if (!type) return [];
+
+    const isDue = type.calculation === 'one_off'
+      ? assignment.start_date >= period.start && assignment.start_date <= period.end
+      : assignment.start_date <= period.end && (!assignment.end_date || assignment.end_date >= period.start);
+    if (!isDue) return [];
+
+    return [{
+      assignment_id: assignment.id,
+      earning_type_id: type.id,
+      employee_id: assignment.employee_id,
+      name: type.name,
+      taxable: type.taxable,
+      calculation: type.calculation,
+      rate: assignment.amount,
+      start_date: assignment.start_date,
+      end_date: assignment.end_date || undefined
+    }];
+  });
+}
+
+// Prices each earning; per-day earnings are paid for the days the employee checked in while assigned
+export function applyEarnings(
+  scheduled: ScheduledEarning[],
+  days: PayrollDayBreakdown[]
+): { lines: EarningLine[]; taxable: number; nonTaxable: number } {
+  const attendedDates = days.filter(day => day.is_attended).map(day => day.date);
+
+  const lines = scheduled.map(earning => {
+    const quantity = earning.calculation === 'per_day'
+      ? attendedDates.filter(date => date >= earning.start_date && (!earning.end_date || date <= earning.end_date)).length
+      : 1;
+    return { ...earning, quantity, amount: roundCents(earning.rate * quantity) };
+  });
+
+  const total = (taxable: boolean) =>
+    roundCents(lines.filter(line => line.taxable === taxable).reduce((sum, line) => sum + line.amount, 0));
+  return { lines, taxable: total(true), nonTaxable: total(false) };
+}
+
+// Distinct earning names across summaries, for itemized export columns
+export function getEarningColumns(lines: EarningLine[]): string[] {
+  return Array.from(new Set(lines.map(line => line.name))).sort();
+}
+
+export function validateEarningType(formData: EarningTypeFormData): ValidationResult {
+  const errors: Record<string, string> = {};
+  const amount = parseFloat(formData.default_amount);
+
+  if (!formData.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (formData.name.trim().length > 100) {
+    errors.name = 'Name must be 100 characters or fewer';
+  }
+
+  if (!(formData.calculation in EARNING_CALCULATION_LABELS)) {
+    errors.calculation = 'Calculation must be fixed, per day or one-off';
+  }
+
+  if (!formData.default_amount.trim()) {
+    errors.default_amount = 'Default amount is required';
+  } else if (isNaN(amount) || amount < 0 || amount > 999999.99) {
+    errors.default_amount = 'Default amount must be between $0 and $999,999.99';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+export function validateEarningAssignment(formData: EarningAssignmentFormData): ValidationResult {
+  const errors: Record<string, string> = {};
+  const amount = parseFloat(formData.amount);
+  const isDate = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
+
+  if (!formData.employee_id) {
+    errors.employee_id = 'Employee is required';
+  }
+
+  if (!formData.earning_type_id) {
+    errors.earning_type_id = 'Earning is required';
+  }
+
+  if (!formData.amount.trim()) {
+    errors.amount = 'Amount is required';
+  } else if (isNaN(amount) || amount < 0.01 || amount > 999999.99) {
+    errors.amount = 'Amount must be between $0.01 and $999,999.99';
+  }
+
+  if (!isDate(formData.start_date)) {
+    errors.start_date = 'Start date must be in YYYY-MM-DD format';
+  }
+
+  if (formData.end_date) {
+    if (!isDate(formData.end_date)) {
+      errors.end_date = 'End date must be in YYYY-MM-DD format';
+    } else if (!errors.start_date && formData.end_date < formData.start_date) {
+      errors.end_date = 'End date must be on or after the start date';
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
@@ -1,4 +1,8 @@
 import { Employee, ValidationResult, EmployeeFormData } from '../types';
+import { parseAttendanceOverrides, validateAttendanceOverrides } from './attendanceSettings';
+import { applyFormRate, validateRateChange } from './rateHistory';
+import { validateCompensation } from './compensation';
+import { parseAliases, parseAliasList, validateAliases } from './nameMatching';
 
 const STORAGE_KEYS = {
   EMPLOYEES: 'pgmn-ops-employees',
@@ -62,22 +66,28 @@ export function validateEmployee(formData: EmployeeFormData, employees: Employee
     }
   }
 
-  // Hourly rate validation
-  const hourlyRate = parseFloat(formData.hourly_rate);
-  if (!formData.hourly_rate.trim()) {
-    errors.hourly_rate = 'Hourly rate is required';
-  } else if (isNaN(hourlyRate) || hourlyRate < 0.01 || hourlyRate > 999.99) {
-    errors.hourly_rate = 'Hourly rate must be between $0.01 and $999.99';
+  // Hire date validation
+  const hireDate = formData.hire_date?.trim();
+  if (hireDate && (!/^\d{4}-\d{2}-\d{2}$/.test(hireDate) || isNaN(Date.parse(hireDate)))) {
+    errors.hire_date = 'Hire date must be in YYYY-MM-DD format';
   }
 
+  Object.assign(
+    errors,
+    validateCompensation(formData),
+    validateRateChange(formData),
+    validateAttendanceOverrides(formData),
+    validateAliases(parseAliasList(formData.aliases || ''), employees, editingId)
+  );
+
   return {
     isValid: Object.keys(errors).length === 0,
     errors
   };
 }
 
-// Convert form data to Employee object
-export function createEmployeeFromForm(formData: EmployeeFormData, id?: string): Employee {
+// Convert form data to Employee object; pass the existing employee to keep its rate history
+export function createEmployeeFromForm(formData: EmployeeFormData, id?: string, existing?: Employee): Employee {
   const now = new Date().toISOString();
   
   return {
@@ -85,11 +95,14 @@ export function createEmployeeFromForm(formData: EmployeeFormData, id?: string):
     name: formData.name.trim(),
     email: formData.email.trim().toLowerCase(),
     slack_user_id: formData.slack_user_id.trim(),
-    hourly_rate: parseFloat(formData.hourly_rate),
+    ...applyFormRate(formData, existing),
     status: 'active',
     created_at: now,
     updated_at: now,
-    notes: formData.notes.trim() || undefined
+    hire_date: formData.hire_date?.trim() || undefined,
+    notes: formData.notes.trim() || undefined,
+    ...parseAttendanceOverrides(formData),
+    ...parseAliases(formData)
   };
 }
 
@@ -99,8 +112,16 @@ export function employeeToFormData(employee: Employee): EmployeeFormData {
     name: employee.name,
     email: employee.email,
     slack_user_id: employee.slack_user_id,
-    hourly_rate: employee.hourly_rate.toString(),
-    notes: employee.notes || ''
+    hourly_rate: employee.hourly_rate ? employee.hourly_rate.toString() : '',
+    compensation_type: employee.compensation_type || 'hourly',
+    daily_rate: employee.daily_rate?.toString() ?? '',
+    monthly_salary: employee.monthly_salary?.toString() ?? '',
+    hire_date: employee.hire_date || '',
+    notes: employee.notes || '',
+    start_time: employee.start_time || '',
+    timezone: employee.timezone || '',
+    grace_period_minutes: employee.grace_period_minutes?.toString() ?? '',
+    aliases: (employee.aliases || []).join(', ')
   };
 }
 
@@ -164,10 +185,10 @@ export function saveEmployee(employee: Employee, employees: Employee[]): Employe
 }
 
 // Soft delete employee
-export function deleteEmployee(id: string, employees: Employee[]): Employee[] {
+export function deleteEmployee(id: string, employees: Employee[], separationDate?: string): Employee[] {
   const updatedEmployees = employees.map(emp => 
     emp.id === id 
-      ? { ...emp, status: 'inactive' as const, updated_at: new Date().toISOString() }
+      ? { ...emp, status: 'inactive' as const, separation_date: separationDate ?? emp.separation_date, updated_at: new Date().toISOString() }
       : emp
   );
   
@@ -0,0 +1,114 @@
+import {
+  Employee,
+  Holiday,
+  LeaveRequest,
+  LeaveSettings,
+  PayPeriodRange,
+  PayrollAdjustment,
+  PayrollRules,
+  PayrollRun,
+  PayrollSummary,
+  PaySchedule
+} from '../types';
+import { getPayPeriodContaining } from './payCalendar';
+import { isRegularRun, isRunLocked } from './payrollRuns';
+import { getDayRates } from './compensation';
+import { getRateChangeOnDate } from './rateHistory';
+import { calculateProratedThirteenthMonth, getBasicPay, getBasicPayFromRuns, getThirteenthMonthPaid } from './thirteenthMonth';
+import { addDaysToDateKey } from './timezone';
+import { roundCents } from './money';
+import { calculateLeaveBalances } from './leave';
+
+export interface FinalPayOptions {
+  separation_date: string; // YYYY-MM-DD last working day
+  unused_leave_days: number; // Leave days converted to cash at the daily rate
+}
+
+// From the day after the last locked regular run that paid the employee through the last
+// working day; without one, from the start of the pay period the employee left in
+export function getFinalPayPeriod(
+  employee: Employee,
+  separationDate: string,
+  runs: PayrollRun[],
+  schedule: PaySchedule
+): PayPeriodRange {
+  const paidThrough = runs
+    .filter(run => isRegularRun(run) && isRunLocked(run) && run.end < separationDate)
+    .filter(run => run.summaries.some(summary => summary.employee.id === employee.id))
+    .map(run => run.end)
+    .sort()
+    .pop();
+
+  return {
+    start: paidThrough ? addDaysToDateKey(paidThrough, 1) : getPayPeriodContaining(separationDate, schedule).start,
+    end: separationDate
+  };
+}
+
+// Paid leave still available on the last working day, across every paid leave type. Prefills
+// the final pay form; HR can change it before the run is created.
+export function getUnusedLeaveDays(
+  employee: Employee,
+  requests: LeaveRequest[],
+  settings: LeaveSettings,
+  separationDate: string,
+  rules: PayrollRules,
+  holidays: Holiday[]
+): number {
+  return calculateLeaveBalances(employee, requests, settings, separationDate, rules, holidays)
+    .reduce((sum, balance) => sum + balance.available, 0);
+}
+
+// Final pay lines on top of the prorated pay for the last days worked. `summary` is the
+// employee's calculation for the final pay period, used for the 13th month basic pay.
+export function buildFinalPayLines(
+  employee: Employee,
+  summary: PayrollSummary | undefined,
+  runs: PayrollRun[],
+  options: FinalPayOptions,
+  rules: PayrollRules,
+  now: Date = new Date()
+): PayrollAdjustment[] {
+  const { separation_date: separationDate, unused_leave_days: leaveDays } = options;
+  const year = Number(separationDate.slice(0, 4));
+  const line = (key: string, label: string, amount: number, source: PayrollAdjustment['source'] = 'final_pay'): PayrollAdjustment => ({
+    id: `final_${employee.id}_${key}`,
+    employee_id: employee.id,
+    type: 'earning',
+    amount,
+    label,
+    source,
+    apply_from: separationDate,
+    created_at: now.toISOString()
+  });
+  const lines: PayrollAdjustment[] = [];
+
+  if (leaveDays > 0) {
+    const { daily_rate: dailyRate } = getDayRates(getRateChangeOnDate(employee, separationDate), separationDate, rules);
+    const amount = roundCents(leaveDays * dailyRate);
+    lines.push(line('leave', `Unused leave conversion (${leaveDays} ${leaveDays === 1 ? 'day' : 'days'})`, amount));
+  }
+
+  const basicPay = getBasicPayFromRuns(employee.id, runs, year) + (summary ? getBasicPay(summary, year) : 0);
+  // Less anything a 13th month payout already covered this year
+  const thirteenthMonth = roundCents(calculateProratedThirteenthMonth(basicPay) - getThirteenthMonthPaid(employee.id, runs, year));
+  if (thirteenthMonth > 0) {
+    lines.push(line('13th_month', `Prorated 13th month pay (${year})`, thirteenthMonth, 'thirteenth_month'));
+  }
+
+  return lines;
+}
+
+export function validateFinalPayOptions(options: FinalPayOptions): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(options.separation_date) || isNaN(Date.parse(options.separation_date))) {
+    errors.separation_date = 'Last working day must be a valid date';
+  }
+
+  if (isNaN(options.unused_leave_days) || options.unused_leave_days < 0 || options.unused_leave_days > 365) {
+    errors.unused_leave_days = 'Unused leave must be between 0 and 365 days';
+  }
+
+  return errors;
+}
@@ -0,0 +1,114 @@
+import { Holiday, HolidayFormData, HolidayType, PayPeriodRange, PayrollRules } from '../types';
+
+export function findHoliday(holidays: Holiday[], date: string): Holiday | undefined {
+  return holidays.find(holiday => holiday.date === date);
+}
+
+export function getHolidaysInPeriod(holidays: Holiday[], period: PayPeriodRange): Holiday[] {
+  return holidays
+    .filter(holiday => holiday.date >= period.start && holiday.date <= period.end)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Pay multiplier for hours worked on the given day type; 1 on ordinary days
+export function getHolidayMultiplier(type: HolidayType | undefined, rules: PayrollRules): number {
+  if (type === 'regular') return rules.regular_holiday_multiplier;
+  if (type === 'special_non_working') return rules.special_holiday_multiplier;
+  return 1;
+}
+
+// Combined multiplier for hours worked on the day, including the rest-day premium
+export function getDayMultiplier(type: HolidayType | undefined, restDay: boolean, rules: PayrollRules): number {
+  if (!restDay) return getHolidayMultiplier(type, rules);
+  if (type === 'regular') return rules.regular_holiday_rest_day_multiplier;
+  if (type === 'special_non_working') return rules.special_holiday_rest_day_multiplier;
+  return rules.rest_day_multiplier;
+}
+
+export function isRestDay(date: string, rules: PayrollRules): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  return rules.rest_days.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+}
+
+// Fraction of a standard day paid when the holiday is not worked
+export function getUnworkedHolidayPayRate(type: HolidayType, rules: PayrollRules): number {
+  return type === 'regular' ? rules.regular_holiday_unworked_pay_rate : rules.special_holiday_unworked_pay_rate;
+}
+
+/**
+ * Parses a JSON holiday list: an array of { date, name, type } objects.
+ * `type` accepts "regular" or "special" / "special_non_working" and defaults to regular.
+ */
+export function parseHolidayJSON(content: string): HolidayFormData[] {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid holiday file. Expected an array of holidays.');
+  }
+
+  return data.map((item, index) => {
+    if (!item || typeof item.date !== 'string' || typeof item.name !== 'string') {
+      throw new Error(`Invalid holiday at position ${index + 1}: date and name are required`);
+    }
+
+    return {
+      date: item.date,
+      name: item.name.trim(),
+      type: normalizeHolidayType(item.type)
+    };
+  });
+}
+
+/**
+ * Parses all-day VEVENTs from an iCalendar (.ics) file.
+ * Events whose SUMMARY or CATEGORIES mention "special" are imported as special non-working days.
+ */
+export function parseHolidayICS(content: string, defaultType: HolidayType = 'regular'): HolidayFormData[] {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const holidays: HolidayFormData[] = [];
+  let current: { date?: string; name?: string; categories?: string } | null = null;
+
+  lines.forEach(line => {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      current = {};
+      return;
+    }
+
+    if (line.startsWith('END:VEVENT')) {
+      if (current?.date && current.name) {
+        const hint = `${current.name} ${current.categories || ''}`;
+        holidays.push({
+          date: current.date,
+          name: current.name,
+          type: /special/i.test(hint) ? 'special_non_working' : /regular/i.test(hint) ? 'regular' : defaultType
+        });
+      }
+      current = null;
+      return;
+    }
+
+    if (!current) return;
+
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) return;
+
+    const property = line.slice(0, separatorIndex).split(';')[0].toUpperCase();
+    const value = line.slice(separatorIndex + 1).trim();
+
+    if (property === 'DTSTART') {
+      const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+      if (match) current.date = `${match[1]}-${match[2]}-${match[3]}`;
+    } else if (property === 'SUMMARY') {
+      current.name = value.replace(/\\,/g, ',').replace(/\\;/g, ';');
+    } else if (property === 'CATEGORIES') {
+      current.categories = value;
+    }
+  });
+
+  return holidays;
+}
+
+function normalizeHolidayType(type: unknown): HolidayType {
+  if (typeof type === 'string' && /special/i.test(type)) return 'special_non_working';
+  return 'regular';
+}
@@ -0,0 +1,276 @@
+import {
+  AttendanceParseResult,
+  Employee,
+  Holiday,
+  LeaveAccrualRule,
+  LeaveBalance,
+  LeaveRequest,
+  LeaveRequestFormData,
+  LeaveRequestStatus,
+  LeaveSettings,
+  LeaveType,
+  PaidLeaveType,
+  PayPeriodRange,
+  PayrollRules,
+  ScheduledLeaveDay,
+  ValidationResult
+} from '../types';
+import { findHoliday, isRestDay } from './holidayCalendar';
+import { addDaysToDateKey } from './timezone';
+import { roundCents as roundDays } from './money';
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  vacation: 'Vacation',
+  sick: 'Sick',
+  emergency: 'Emergency',
+  unpaid: 'Unpaid'
+};
+
+export const LEAVE_STATUS_LABELS: Record<LeaveRequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+export const PAID_LEAVE_TYPES: PaidLeaveType[] = ['vacation', 'sick', 'emergency'];
+
+export const DEFAULT_LEAVE_SETTINGS: LeaveSettings = {
+  accrual_rules: [
+    { leave_type: 'vacation', days_per_month: 1.25, max_balance: 15 },
+    { leave_type: 'sick', days_per_month: 1.25, max_balance: 15 },
+    { leave_type: 'emergency', days_per_month: 0.25, max_balance: 3 }
+  ]
+};
+
+// The workdays in an inclusive date range; rest days and holidays are not charged as leave
+export function getLeaveDates(startDate: string, endDate: string, rules: PayrollRules, holidays: Holiday[]): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDaysToDateKey(date, 1)) {
+    if (!isRestDay(date, rules) && !findHoliday(holidays, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Each paid leave type's balance on a date. Days are credited at the end of every month of
+ * service, counted from the employee's hire date (or the day they were added when it is unset),
+ * and stop at the rule's cap; approved leave is taken off on the days it falls, so leave booked
+ * ahead already reduces what is available.
+ */
+export function calculateLeaveBalances(
+  employee: Employee,
+  requests: LeaveRequest[],
+  settings: LeaveSettings,
+  asOf: string,
+  rules: PayrollRules,
+  holidays: Holiday[]
+): LeaveBalance[] {
+  const serviceStart = employee.hire_date || employee.created_at.slice(0, 10);
+  const employeeRequests = requests.filter(request => request.employee_id === employee.id);
+
+  return PAID_LEAVE_TYPES.map(leaveType => {
+    const rule = getAccrualRule(settings, leaveType);
+    const ofType = employeeRequests.filter(request => request.leave_type === leaveType);
+
+    // Credits sort ahead of leave taken on the same day
+    const events = [
+      ...getAccrualDates(serviceStart, asOf).map(date => ({ date, credit: true })),
+      ...ofType
+        .filter(request => request.status === 'approved')
+        .flatMap(request => getLeaveDates(request.start_date, request.end_date, rules, holidays))
+        .map(date => ({ date, credit: false }))
+    ].sort((a, b) => a.date.localeCompare(b.date) || Number(b.credit) - Number(a.credit));
+
+    let balance = 0;
+    let accrued = 0;
+    let used = 0;
+    events.forEach(event => {
+      if (!event.credit) {
+        balance -= 1;
+        used += 1;
+        return;
+      }
+      const credit = rule.max_balance === null
+        ? rule.days_per_month
+        : Math.max(0, Math.min(rule.days_per_month, rule.max_balance - balance));
+      balance += credit;
+      accrued += credit;
+    });
+
+    return {
+      leave_type: leaveType,
+      accrued: roundDays(accrued),
+      used,
+      pending: ofType.filter(request => request.status === 'pending').reduce((sum, request) => sum + request.days, 0),
+      available: roundDays(balance)
+    };
+  });
+}
+
+export function validateLeaveRequest(formData: LeaveRequestFormData, rules: PayrollRules, holidays: Holiday[]): ValidationResult {
+  const errors: Record<string, string> = {};
+  const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+  if (!formData.employee_id) {
+    errors.employee_id = 'Employee is required';
+  }
+
+  if (!(formData.leave_type in LEAVE_TYPE_LABELS)) {
+    errors.leave_type = 'Leave type must be vacation, sick, emergency or unpaid';
+  }
+
+  if (!isDate(formData.start_date)) {
+    errors.start_date = 'Start date must be in YYYY-MM-DD format';
+  }
+
+  if (!isDate(formData.end_date)) {
+    errors.end_date = 'End date must be in YYYY-MM-DD format';
+  } else if (isDate(formData.start_date)) {
+    if (formData.end_date < formData.start_date) {
+      errors.end_date = 'End date must be on or after the start date';
+    } else if (getLeaveDates(formData.start_date, formData.end_date, rules, holidays).length === 0) {
+      errors.end_date = 'Leave must include at least one workday';
+    }
+  }
+
+  if (formData.reason.trim().length > 200) {
+    errors.reason = 'Reason must be 200 characters or fewer';
+  }
+
+  if (formData.approval_code.trim().length > 50) {
+    errors.approval_code = 'Approval code must be 50 characters or fewer';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+export function validateLeaveSettings(settings: LeaveSettings): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  settings.accrual_rules.forEach(rule => {
+    if (isNaN(rule.days_per_month) || rule.days_per_month < 0 || rule.days_per_month > 31) {
+      errors[`${rule.leave_type}_days_per_month`] = `${LEAVE_TYPE_LABELS[rule.leave_type]} accrual must be between 0 and 31 days a month`;
+    }
+    if (rule.max_balance !== null && (isNaN(rule.max_balance) || rule.max_balance < 0 || rule.max_balance > 365)) {
+      errors[`${rule.leave_type}_max_balance`] = `${LEAVE_TYPE_LABELS[rule.leave_type]} cap must be between 0 and 365 days`;
+    }
+  });
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+// Why a request cannot be approved, or null when it can
+export function validateLeaveApproval(
+  request: LeaveRequest,
+  employee: Employee,
+  requests: LeaveRequest[],
+  settings: LeaveSettings,
+  approver: string,
+  rules: PayrollRules,
+  holidays: Holiday[]
+): string | null {
+  if (!approver.trim()) {
+    return 'Approver is required';
+  }
+
+  const overlapping = requests.find(other =>
+    other.id !== request.id &&
+    other.employee_id === request.employee_id &&
+    other.status === 'approved' &&
+    other.start_date <= request.end_date &&
+    other.end_date >= request.start_date
+  );
+  if (overlapping) {
+    return `Overlaps approved leave from ${overlapping.start_date} to ${overlapping.end_date}`;
+  }
+
+  if (request.leave_type === 'unpaid') return null;
+
+  // Checked against the balance on the last day of the leave, so credits earned before then count
+  const balance = calculateLeaveBalances(employee, requests, settings, request.end_date, rules, holidays)
+    .find(entry => entry.leave_type === request.leave_type)!;
+  if (request.days > balance.available) {
+    return `Only ${balance.available} ${LEAVE_TYPE_LABELS[request.leave_type].toLowerCase()} leave days available`;
+  }
+
+  return null;
+}
+
+// Approved leave days falling in a pay period, for payroll
+export function getScheduledLeave(
+  requests: LeaveRequest[],
+  period: PayPeriodRange,
+  rules: PayrollRules,
+  holidays: Holiday[]
+): ScheduledLeaveDay[] {
+  return requests
+    .filter(request => request.status === 'approved' && request.start_date <= period.end && request.end_date >= period.start)
+    .flatMap(request =>
+      getLeaveDates(request.start_date, request.end_date, rules, holidays)
+        .filter(date => date >= period.start && date <= period.end)
+        .map(date => ({
+          leave_request_id: request.id,
+          employee_id: request.employee_id,
+          date,
+          leave_type: request.leave_type,
+          is_paid: request.leave_type !== 'unpaid'
+        }))
+    );
+}
+
+// An approved request covering the day, with the same approval code when both carry one
+export function findLeaveRequestForDate(
+  requests: LeaveRequest[],
+  employeeId: string,
+  date: string,
+  approvalCode?: string
+): LeaveRequest | undefined {
+  return requests.find(request =>
+    request.employee_id === employeeId &&
+    request.status === 'approved' &&
+    request.start_date <= date &&
+    request.end_date >= date &&
+    (!approvalCode || !request.approval_code || normalizeCode(request.approval_code) === normalizeCode(approvalCode))
+  );
+}
+
+// Flags pasted "approved out" entries that no approved leave request accounts for
+export function flagMissingLeaveRequests(results: AttendanceParseResult[], requests: LeaveRequest[]): AttendanceParseResult[] {
+  return results.map(result => ({
+    ...result,
+    entries: result.entries.map(entry => {
+      if (entry.status !== 'approved_out' || !entry.employee_id) return entry;
+      const missing = !findLeaveRequestForDate(requests, entry.employee_id, result.date, entry.approval_code);
+      return { ...entry, missing_leave_request: missing || undefined };
+    })
+  }));
+}
+
+function getAccrualRule(settings: LeaveSettings, leaveType: PaidLeaveType): LeaveAccrualRule {
+  return settings.accrual_rules.find(rule => rule.leave_type === leaveType)
+    || { leave_type: leaveType, days_per_month: 0, max_balance: 0 };
+}
+
+// The same day of each following month, clamped to shorter months, up to asOf
+function getAccrualDates(serviceStart: string, asOf: string): string[] {
+  const [year, month, day] = serviceStart.split('-').map(Number);
+  const dates: string[] = [];
+
+  for (let months = 1; ; months++) {
+    const daysInMonth = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    const date = new Date(Date.UTC(year, month - 1 + months, Math.min(day, daysInMonth)));
+    const dateKey = date.toISOString().slice(0, 10);
+    if (dateKey > asOf) return dates;
+    dates.push(dateKey);
+  }
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toLowerCase().replace(/\s+/g, ' ');
+}
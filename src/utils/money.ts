@@ -0,0 +1,4 @@
+// Rounds a currency amount to whole cents
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
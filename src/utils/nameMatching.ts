@@ -0,0 +1,133 @@
+import { Employee, EmployeeFormData, NameMatchCandidate } from '../types';
+
+// Candidates scoring below this are not offered at all
+export const MIN_MATCH_SCORE = 0.5;
+
+// A best match this close to the runner-up is ambiguous and left for the user to resolve
+export const AMBIGUOUS_MATCH_MARGIN = 0.1;
+
+// Names shorter than this only match exactly; "El" should not land on "Michelle" by substring
+const MIN_PARTIAL_LENGTH = 3;
+
+/**
+ * Scores every employee against a name as written in Slack, best first. Each employee is scored on
+ * their name and saved aliases: an exact match scores 1, a whole word of the name 0.85, the start
+ * of a word 0.7, and a spelling one or two letters off 0.75 or 0.6.
+ */
+export function rankEmployeeMatches(rawName: string, employees: Employee[]): NameMatchCandidate[] {
+  const raw = normalizeName(rawName);
+  if (!raw) return [];
+
+  return employees
+    .map(employee => {
+      const best = [employee.name, ...(employee.aliases || [])]
+        .map(name => ({ name, score: scoreName(raw, normalizeName(name)) }))
+        .reduce((top, current) => (current.score > top.score ? current : top));
+
+      return {
+        employee_id: employee.id,
+        employee_name: employee.name,
+        score: Math.round(best.score * 100) / 100,
+        matched_on: best.name
+      };
+    })
+    .filter(candidate => candidate.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.employee_name.localeCompare(b.employee_name));
+}
+
+// The clear winner among ranked candidates, or null when there is none or it is too close to call
+export function pickBestMatch(candidates: NameMatchCandidate[]): NameMatchCandidate | null {
+  const [best, runnerUp] = candidates;
+  if (!best) return null;
+  if (runnerUp && best.score - runnerUp.score < AMBIGUOUS_MATCH_MARGIN) return null;
+  return best;
+}
+
+export function isAmbiguousMatch(candidates: NameMatchCandidate[]): boolean {
+  return candidates.length > 1 && pickBestMatch(candidates) === null;
+}
+
+// Comma-separated on the staff form
+export function parseAliasList(value: string): string[] {
+  const aliases = value.split(',').map(alias => alias.trim()).filter(Boolean);
+  return aliases.filter((alias, index) => aliases.findIndex(other => normalizeName(other) === normalizeName(alias)) === index);
+}
+
+// Leaves the saved aliases alone when the form data does not carry them
+export function parseAliases(formData: EmployeeFormData): Pick<Employee, 'aliases'> {
+  if (formData.aliases === undefined) return {};
+  const aliases = parseAliasList(formData.aliases);
+  return { aliases: aliases.length > 0 ? aliases : undefined };
+}
+
+// An alias may not be another employee's name or alias, or matching it would be a coin toss
+export function validateAliases(aliases: string[], employees: Employee[], editingId?: string): Record<string, string> {
+  const tooLong = aliases.find(alias => alias.length > 50);
+  if (tooLong) {
+    return { aliases: `"${tooLong}" is longer than 50 characters` };
+  }
+
+  const taken = aliases.find(alias =>
+    employees.some(emp =>
+      emp.id !== editingId &&
+      [emp.name, ...(emp.aliases || [])].some(name => normalizeName(name) === normalizeName(alias))
+    )
+  );
+  if (taken) {
+    return { aliases: `"${taken}" is already used by another employee` };
+  }
+
+  return {};
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+(jr|sr|iii?|iv)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function scoreName(raw: string, name: string): number {
+  if (!name) return 0;
+  if (raw === name) return 1;
+  if (raw.length < MIN_PARTIAL_LENGTH) return 0;
+
+  const words = name.split(' ');
+  if (words.includes(raw)) return 0.85;
+  if (words.some(word => word.startsWith(raw))) return 0.7;
+
+  // Near spellings of the whole name or of a single word, for typos such as "Jhon"
+  const distance = Math.min(
+    calculateLevenshteinDistance(raw, name),
+    ...words.map(word => calculateLevenshteinDistance(raw, word))
+  );
+  const maxDistance = raw.length > MIN_PARTIAL_LENGTH ? 2 : 1;
+  return distance <= maxDistance ? 0.9 - 0.15 * distance : 0;
+}
+
+function calculateLevenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i += 1) {
+    matrix[0][i] = i;
+  }
+
+  for (let j = 0; j <= str2.length; j += 1) {
+    matrix[j][0] = j;
+  }
+
+  for (let j = 1; j <= str2.length; j += 1) {
+    for (let i = 1; i <= str1.length; i += 1) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1, // deletion
+        matrix[j - 1][i] + 1, // insertion
+        matrix[j - 1][i - 1] + indicator // substitution
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
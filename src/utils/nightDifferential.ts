@@ -0,0 +1,72 @@
+import { AttendanceLog, PayrollRules } from '../types';
+import { addDaysToDateKey, getZonedDateString, zonedDateTimeToUtc } from './timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours between start and end that fall inside the nightly window, read on the wall clock of
+// timeZone; the window may wrap past midnight
+export function getNightHours(start: Date, end: Date, startHour: number, endHour: number, timeZone: string): number {
+  if (end <= start || startHour === endHour) return 0;
+
+  const wrapsMidnight = endHour < startHour;
+  const lastDateKey = getZonedDateString(end, timeZone);
+  let nightMs = 0;
+
+  // Start a day early so a window opened the previous evening is counted
+  for (
+    let dateKey = addDaysToDateKey(getZonedDateString(start, timeZone), -1);
+    dateKey <= lastDateKey;
+    dateKey = addDaysToDateKey(dateKey, 1)
+  ) {
+    const windowStart = zonedDateTimeToUtc(dateKey, startHour * 60, timeZone);
+    const windowEnd = zonedDateTimeToUtc(wrapsMidnight ? addDaysToDateKey(dateKey, 1) : dateKey, endHour * 60, timeZone);
+
+    const overlap = Math.min(end.getTime(), windowEnd.getTime()) - Math.max(start.getTime(), windowStart.getTime());
+    nightMs += Math.max(0, overlap);
+  }
+
+  return nightMs / HOUR_MS;
+}
+
+/**
+ * Splits a day's night hours between its regular and overtime portions.
+ * Shifts are walked in order; the first `regularHours` worked count as regular and the rest as
+ * overtime, so a late shift that runs long earns night differential on its overtime hours.
+ * Paired segments are used when a log has them; otherwise the log's check-in and check-out
+ * bound a single shift. Logs with neither contribute no night hours.
+ */
+export function splitNightHours(
+  logs: AttendanceLog[],
+  regularHours: number,
+  rules: PayrollRules,
+  timeZone: string
+): { night_hours: number; night_overtime_hours: number } {
+  const shifts = logs
+    .flatMap(getShifts)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  let remainingRegularMs = regularHours * HOUR_MS;
+  let nightHours = 0;
+  let nightOvertimeHours = 0;
+
+  shifts.forEach(({ start, end }) => {
+    const split = new Date(Math.min(end.getTime(), start.getTime() + remainingRegularMs));
+
+    nightHours += getNightHours(start, split, rules.night_differential_start_hour, rules.night_differential_end_hour, timeZone);
+    nightOvertimeHours += getNightHours(split, end, rules.night_differential_start_hour, rules.night_differential_end_hour, timeZone);
+    remainingRegularMs = Math.max(0, remainingRegularMs - (split.getTime() - start.getTime()));
+  });
+
+  return { night_hours: nightHours, night_overtime_hours: nightOvertimeHours };
+}
+
+function getShifts(log: AttendanceLog): { start: Date; end: Date }[] {
+  if (log.segments && log.segments.length > 0) {
+    return log.segments.map(segment => ({ start: segment.start, end: segment.end }));
+  }
+
+  if (!log.check_in || !log.check_out || log.hours_worked <= 0) return [];
+
+  const end = new Date(Math.min(log.check_out.getTime(), log.check_in.getTime() + log.hours_worked * HOUR_MS));
+  return [{ start: log.check_in, end }];
+}
@@ -0,0 +1,205 @@
+import { PayFrequency, PayPeriod, PaySchedule, ValidationResult } from '../types';
+import { addDaysToDateKey, parseDateKey } from './timezone';
+
+export const DEFAULT_PAY_SCHEDULE: PaySchedule = {
+  frequency: 'semi_monthly',
+  anchor_date: '2025-01-06', // A Monday
+  semi_monthly_cutoffs: [15, 31],
+  pay_date_offset_days: 5
+};
+
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: 'Weekly',
+  bi_weekly: 'Bi-weekly',
+  semi_monthly: 'Semi-monthly',
+  monthly: 'Monthly'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The pay period containing the given YYYY-MM-DD date
+export function getPayPeriodContaining(date: string, schedule: PaySchedule = DEFAULT_PAY_SCHEDULE): PayPeriod {
+  switch (schedule.frequency) {
+    case 'weekly':
+      return getFixedLengthPeriod(date, schedule, 7);
+    case 'bi_weekly':
+      return getFixedLengthPeriod(date, schedule, 14);
+    case 'monthly': {
+      const [year, month] = splitDateKey(date);
+      return buildPayPeriod(formatDateKey(year, month, 1), formatDateKey(year, month, daysInMonth(year, month)), schedule);
+    }
+    case 'semi_monthly':
+    default:
+      return getSemiMonthlyPeriod(date, schedule);
+  }
+}
+
+export function getPreviousPayPeriod(period: PayPeriod, schedule: PaySchedule = DEFAULT_PAY_SCHEDULE): PayPeriod {
+  return getPayPeriodContaining(addDaysToDateKey(period.start, -1), schedule);
+}
+
+export function getNextPayPeriod(period: PayPeriod, schedule: PaySchedule = DEFAULT_PAY_SCHEDULE): PayPeriod {
+  return getPayPeriodContaining(addDaysToDateKey(period.end, 1), schedule);
+}
+
+// Consecutive pay periods starting with the one containing fromDate
+export function generatePayPeriods(
+  fromDate: string,
+  count: number,
+  schedule: PaySchedule = DEFAULT_PAY_SCHEDULE
+): PayPeriod[] {
+  const periods: PayPeriod[] = [];
+  let period = getPayPeriodContaining(fromDate, schedule);
+
+  for (let i = 0; i < count; i++) {
+    periods.push(period);
+    period = getNextPayPeriod(period, schedule);
+  }
+
+  return periods;
+}
+
+// The current period with a few periods either side, oldest first
+export function getPayPeriodsAround(
+  date: string,
+  schedule: PaySchedule = DEFAULT_PAY_SCHEDULE,
+  before: number = 4,
+  after: number = 2
+): PayPeriod[] {
+  let first = getPayPeriodContaining(date, schedule);
+  for (let i = 0; i < before; i++) {
+    first = getPreviousPayPeriod(first, schedule);
+  }
+
+  return generatePayPeriods(first.start, before + 1 + after, schedule);
+}
+
+export function validatePaySchedule(schedule: PaySchedule): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!PAY_FREQUENCY_LABELS[schedule.frequency]) {
+    errors.frequency = 'Unknown pay frequency';
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(schedule.anchor_date) || isNaN(parseDateKey(schedule.anchor_date).getTime())) {
+    errors.anchor_date = 'Anchor date must be a valid date';
+  }
+
+  const [firstCutoff, secondCutoff] = schedule.semi_monthly_cutoffs;
+  if (!isDayOfMonth(firstCutoff) || !isDayOfMonth(secondCutoff) || firstCutoff >= secondCutoff) {
+    errors.semi_monthly_cutoffs = 'Cutoffs must be two days of the month, the first before the second';
+  }
+
+  if (!Number.isInteger(schedule.pay_date_offset_days) || schedule.pay_date_offset_days < 0 || schedule.pay_date_offset_days > 31) {
+    errors.pay_date_offset_days = 'Pay date offset must be between 0 and 31 days';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+// Month-based presets used before pay schedules were configurable
+export function getDateRange(period: 'first-half' | 'second-half' | 'full-month', date: Date = new Date()) {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  switch (period) {
+    case 'first-half':
+      return {
+        start: new Date(year, month, 1),
+        end: new Date(year, month, 15)
+      };
+    case 'second-half':
+      return {
+        start: new Date(year, month, 16),
+        end: new Date(year, month + 1, 0) // Last day of month
+      };
+    case 'full-month':
+    default:
+      return {
+        start: new Date(year, month, 1),
+        end: new Date(year, month + 1, 0)
+      };
+  }
+}
+
+function getFixedLengthPeriod(date: string, schedule: PaySchedule, lengthDays: number): PayPeriod {
+  const offset = daysBetween(schedule.anchor_date, date);
+  // Floor toward negative infinity so dates before the anchor land in earlier periods
+  const periodIndex = Math.floor(offset / lengthDays);
+  const start = addDaysToDateKey(schedule.anchor_date, periodIndex * lengthDays);
+
+  return buildPayPeriod(start, addDaysToDateKey(start, lengthDays - 1), schedule);
+}
+
+function getSemiMonthlyPeriod(date: string, schedule: PaySchedule): PayPeriod {
+  const [year, month, day] = splitDateKey(date);
+  const [firstCutoff, secondCutoff] = schedule.semi_monthly_cutoffs;
+  const firstEnd = Math.min(firstCutoff, daysInMonth(year, month));
+  const secondEnd = Math.min(secondCutoff, daysInMonth(year, month));
+
+  if (day <= firstEnd) {
+    // Runs from the day after last month's second cutoff
+    const [prevYear, prevMonth] = month === 1 ? [year - 1, 12] : [year, month - 1];
+    const prevEnd = formatDateKey(prevYear, prevMonth, Math.min(secondCutoff, daysInMonth(prevYear, prevMonth)));
+    return buildPayPeriod(addDaysToDateKey(prevEnd, 1), formatDateKey(year, month, firstEnd), schedule);
+  }
+
+  if (day <= secondEnd) {
+    return buildPayPeriod(formatDateKey(year, month, firstEnd + 1), formatDateKey(year, month, secondEnd), schedule);
+  }
+
+  // After the second cutoff: the period ends on next month's first cutoff
+  const [nextYear, nextMonth] = month === 12 ? [year + 1, 1] : [year, month + 1];
+  return buildPayPeriod(
+    formatDateKey(year, month, secondEnd + 1),
+    formatDateKey(nextYear, nextMonth, Math.min(firstCutoff, daysInMonth(nextYear, nextMonth))),
+    schedule
+  );
+}
+
+function buildPayPeriod(start: string, end: string, schedule: PaySchedule): PayPeriod {
+  return {
+    start,
+    end,
+    label: formatPeriodLabel(start, end),
+    cutoff_date: end,
+    pay_date: addDaysToDateKey(end, schedule.pay_date_offset_days)
+  };
+}
+
+function formatPeriodLabel(start: string, end: string): string {
+  const format = (dateKey: string, withYear: boolean) =>
+    parseDateKey(dateKey).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear ? { year: 'numeric' } : {})
+    });
+
+  return `${format(start, start.slice(0, 4) !== end.slice(0, 4))} - ${format(end, true)}`;
+}
+
+function splitDateKey(dateKey: string): [number, number, number] {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return [year, month, day];
+}
+
+function formatDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = splitDateKey(from);
+  const [toYear, toMonth, toDay] = splitDateKey(to);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+function isDayOfMonth(day: number): boolean {
+  return Number.isInteger(day) && day >= 1 && day <= 31;
+}
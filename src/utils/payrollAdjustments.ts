@@ -0,0 +1,110 @@
+import { AdjustmentFormData, AdjustmentType, PayPeriodRange, PayrollAdjustment, PayrollRun, PayrollSummary, ValidationResult } from '../types';
+import { isRunLocked } from './payrollRuns';
+import { roundCents } from './money';
+
+export const ADJUSTMENT_TYPE_LABELS: Record<AdjustmentType, string> = {
+  earning: 'Earning',
+  deduction: 'Deduction'
+};
+
+export type AdjustmentDraft = Omit<PayrollAdjustment, 'id' | 'created_at'>;
+
+// Positive for earnings, negative for deductions
+export function getSignedAmount(adjustment: PayrollAdjustment): number {
+  return adjustment.type === 'earning' ? adjustment.amount : -adjustment.amount;
+}
+
+// A locked run keeps the adjustments it was approved with; an open period picks up every
+// pending adjustment that is due by its end date
+export function getAdjustmentsForPeriod(
+  adjustments: PayrollAdjustment[],
+  period: PayPeriodRange,
+  run?: PayrollRun
+): PayrollAdjustment[] {
+  if (run && isRunLocked(run)) {
+    return adjustments.filter(adjustment => adjustment.applied_run_id === run.id);
+  }
+
+  return adjustments.filter(adjustment => !adjustment.applied_run_id && adjustment.apply_from <= period.end);
+}
+
+// Adjustments frozen into a draft that another run has since paid. Open drafts all pick up the
+// same pending entries, so whichever is approved second must be recalculated first.
+export function findAlreadyAppliedAdjustments(run: PayrollRun, adjustments: PayrollAdjustment[]): PayrollAdjustment[] {
+  const frozenIds = new Set(run.summaries.flatMap(summary => (summary.adjustments || []).map(adjustment => adjustment.id)));
+  return adjustments.filter(adjustment =>
+    frozenIds.has(adjustment.id) && adjustment.applied_run_id !== undefined && adjustment.applied_run_id !== run.id
+  );
+}
+
+// Every unpaid adjustment for an employee regardless of due date, settled by an off-cycle or final pay run
+export function getOutstandingAdjustments(adjustments: PayrollAdjustment[], employeeIds: string[]): PayrollAdjustment[] {
+  return adjustments.filter(adjustment => !adjustment.applied_run_id && employeeIds.includes(adjustment.employee_id));
+}
+
+// Retro differences between a locked run and a re-run of the same period with corrected data.
+// Differences already carried forward are subtracted, and employees missing from either side are
+// skipped since they were not paid in, or are no longer part of, the period.
+export function computeRetroAdjustments(
+  run: PayrollRun,
+  correctedSummaries: PayrollSummary[],
+  existing: PayrollAdjustment[],
+  applyFrom: string
+): AdjustmentDraft[] {
+  const frozen = new Map(run.summaries.map(summary => [summary.employee.id, summary]));
+
+  return correctedSummaries.flatMap(corrected => {
+    const original = frozen.get(corrected.employee.id);
+    if (!original) return [];
+
+    const alreadyCarried = existing
+      .filter(adjustment => adjustment.source === 'retro' && adjustment.source_run_id === run.id && adjustment.employee_id === corrected.employee.id)
+      .reduce((sum, adjustment) => sum + getSignedAmount(adjustment), 0);
+    const difference = roundCents(corrected.net_pay - original.net_pay - alreadyCarried);
+    if (Math.abs(difference) < 0.01) return [];
+
+    return [{
+      employee_id: corrected.employee.id,
+      type: difference > 0 ? 'earning' : 'deduction',
+      amount: Math.abs(difference),
+      label: `Retro correction for ${run.start} to ${run.end}`,
+      source: 'retro',
+      source_run_id: run.id,
+      apply_from: applyFrom
+    }];
+  });
+}
+
+export function validateAdjustment(formData: AdjustmentFormData): ValidationResult {
+  const errors: Record<string, string> = {};
+  const amount = parseFloat(formData.amount);
+
+  if (!formData.employee_id) {
+    errors.employee_id = 'Employee is required';
+  }
+
+  if (formData.type !== 'earning' && formData.type !== 'deduction') {
+    errors.type = 'Type must be earning or deduction';
+  }
+
+  if (!formData.amount.trim()) {
+    errors.amount = 'Amount is required';
+  } else if (isNaN(amount) || amount < 0.01 || amount > 999999.99) {
+    errors.amount = 'Amount must be between $0.01 and $999,999.99';
+  }
+
+  if (!formData.label.trim()) {
+    errors.label = 'Label is required';
+  } else if (formData.label.trim().length > 100) {
+    errors.label = 'Label must be 100 characters or fewer';
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(formData.apply_from) || isNaN(Date.parse(formData.apply_from))) {
+    errors.apply_from = 'Apply date must be in YYYY-MM-DD format';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
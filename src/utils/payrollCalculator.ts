@@ -1,92 +1,172 @@
-import { Employee, SlackMessage, AttendanceLog, PayrollSummary, PayrollRules } from '../types';
+import {
+  Employee,
+  SlackMessage,
+  AttendanceLog,
+  PayrollSummary,
+  PayrollRules,
+  PayrollDayBreakdown,
+  PayrollCalculationContext,
+  PayPeriodRange,
+  Holiday,
+  ScheduledLeaveDay,
+  AttendanceSettings,
+  BreakSettings,
+  OvertimeMode,
+  ValidationResult,
+  VocabularyEntry
+} from '../types';
+import { calculateStatutoryDeductions, EMPTY_STATUTORY_DEDUCTIONS } from './statutoryDeductions';
+import {
+  findHoliday,
+  getDayMultiplier,
+  getHolidaysInPeriod,
+  getHolidayMultiplier,
+  getUnworkedHolidayPayRate,
+  isRestDay
+} from './holidayCalendar';
+import { splitNightHours } from './nightDifferential';
+import {
+  buildAttendanceLogs,
+  extractAttendanceEvents,
+  findOfflineDays,
+  flagLateLoggedEvents,
+  pairAttendanceEvents,
+  pairBreakEvents
+} from './attendanceEvents';
+import { applyBreaks, DEFAULT_BREAK_SETTINGS } from './breaks';
+import { DEFAULT_VOCABULARY } from './vocabulary';
+import {
+  calculateMinutesLate,
+  calculateMinutesUndertime,
+  DEFAULT_ATTENDANCE_SETTINGS,
+  resolveAttendanceSettings
+} from './attendanceSettings';
+import { getRateChangeOnDate } from './rateHistory';
+import { DayRates, getCompensationRate, getCompensationType, getDayRates } from './compensation';
+import { addDaysToDateKey } from './timezone';
+import { applyRecurringDeductions } from './recurringDeductions';
+import { applyEarnings, getEarningColumns } from './earnings';
+import { calculateTardinessDeductions, DEFAULT_TARDINESS_POLICY } from './tardiness';
 
 export const DEFAULT_PAYROLL_RULES: PayrollRules = {
   standard_work_hours: 8,
   overtime_multiplier: 1.5,
-  late_grace_period_minutes: 5,
+  overtime_mode: 'daily',
+  weekly_overtime_threshold_hours: 40,
+  week_start_day: 1,
   late_deduction_amount: 10.0,
   offline_deduction_amount: 50.0,
+  statutory_deductions_enabled: false,
+  regular_holiday_multiplier: 2.0,
+  special_holiday_multiplier: 1.3,
+  regular_holiday_unworked_pay_rate: 1.0,
+  special_holiday_unworked_pay_rate: 0,
+  rest_days: [0],
+  rest_day_multiplier: 1.3,
+  special_holiday_rest_day_multiplier: 1.5,
+  regular_holiday_rest_day_multiplier: 2.6,
+  night_differential_start_hour: 22,
+  night_differential_end_hour: 6,
+  night_differential_multiplier: 1.1,
 };
 
-export function parseSlackMessages(
-  messages: SlackMessage[],
-  employees: Employee[]
-): AttendanceLog[] {
-  const employeeMap = new Map(employees.map(emp => [emp.slack_user_id, emp]));
-  const attendanceMap = new Map<string, Partial<AttendanceLog>>();
-
-  // Group messages by user and date
-  messages.forEach(message => {
-    const employee = employeeMap.get(message.user);
-    if (!employee) return;
-
-    const key = `${employee.id}-${message.date}`;
-    const timestamp = new Date(parseFloat(message.ts) * 1000);
-    
-    if (!attendanceMap.has(key)) {
-      attendanceMap.set(key, {
-        employee_id: employee.id,
-        date: message.date,
-        is_late: false,
-        is_offline: false,
-        hours_worked: 0,
-      });
-    }
+export const OVERTIME_MODE_LABELS: Record<OvertimeMode, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  daily_and_weekly: 'Daily and weekly'
+};
 
-    const log = attendanceMap.get(key)!;
+export function validatePayrollRules(rules: PayrollRules): ValidationResult {
+  const errors: Record<string, string> = {};
 
-    if (message.text.includes(':in:')) {
-      log.check_in = timestamp;
-    } else if (message.text.includes(':out:')) {
-      log.check_out = timestamp;
-    }
-  });
+  if (!(rules.overtime_mode in OVERTIME_MODE_LABELS)) {
+    errors.overtime_mode = 'Overtime mode must be daily, weekly or daily and weekly';
+  }
 
-  // Calculate attendance details
-  return Array.from(attendanceMap.values()).map(log => {
-    if (!log.check_in || !log.check_out) {
-      return {
-        ...log,
-        is_offline: !log.check_in && !log.check_out,
-        hours_worked: 0,
-      } as AttendanceLog;
-    }
+  if (isNaN(rules.standard_work_hours) || rules.standard_work_hours <= 0 || rules.standard_work_hours > 24) {
+    errors.standard_work_hours = 'Standard work hours must be more than 0 and at most 24';
+  }
 
-    const hoursWorked = (log.check_out.getTime() - log.check_in.getTime()) / (1000 * 60 * 60);
-    const startOfDay = new Date(log.check_in);
-    startOfDay.setHours(9, 0, 0, 0); // Assuming 9 AM standard start
-    
-    const isLate = log.check_in > new Date(startOfDay.getTime() + DEFAULT_PAYROLL_RULES.late_grace_period_minutes * 60 * 1000);
+  if (isNaN(rules.weekly_overtime_threshold_hours) || rules.weekly_overtime_threshold_hours <= 0 || rules.weekly_overtime_threshold_hours > 168) {
+    errors.weekly_overtime_threshold_hours = 'Weekly overtime threshold must be more than 0 and at most 168 hours';
+  }
 
-    return {
-      ...log,
-      is_late: isLate,
-      hours_worked: Math.max(0, hoursWorked),
-    } as AttendanceLog;
-  });
+  if (!Number.isInteger(rules.week_start_day) || rules.week_start_day < 0 || rules.week_start_day > 6) {
+    errors.week_start_day = 'Week start day must be a day of the week';
+  }
+
+  if (isNaN(rules.overtime_multiplier) || rules.overtime_multiplier < 1 || rules.overtime_multiplier > 5) {
+    errors.overtime_multiplier = 'Overtime multiplier must be between 1 and 5';
+  }
+
+  if (isNaN(rules.rest_day_multiplier) || rules.rest_day_multiplier < 1 || rules.rest_day_multiplier > 5) {
+    errors.rest_day_multiplier = 'Rest day multiplier must be between 1 and 5';
+  }
+
+  // The window may wrap past midnight, so only equal hours leave it empty
+  const isHour = (hour: number) => Number.isInteger(hour) && hour >= 0 && hour <= 23;
+  if (!isHour(rules.night_differential_start_hour)) {
+    errors.night_differential_start_hour = 'Night differential start must be an hour from 0 to 23';
+  }
+  if (!isHour(rules.night_differential_end_hour)) {
+    errors.night_differential_end_hour = 'Night differential end must be an hour from 0 to 23';
+  } else if (rules.night_differential_end_hour === rules.night_differential_start_hour) {
+    errors.night_differential_end_hour = 'Night differential end must differ from its start';
+  }
+
+  if (isNaN(rules.night_differential_multiplier) || rules.night_differential_multiplier < 1 || rules.night_differential_multiplier > 5) {
+    errors.night_differential_multiplier = 'Night differential multiplier must be between 1 and 5';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+// Pairs check-in and check-out messages (:in:/:out: and the rest of the vocabulary) into work segments (including ones that cross midnight)
+// and rolls them up into one attendance log per employee per day, less unpaid breaks. A day the employee posted
+// without checking in or out is logged offline.
+// Days and lateness are evaluated in each employee's configured timezone.
+export function parseSlackMessages(
+  messages: SlackMessage[],
+  employees: Employee[],
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS,
+  breakSettings: BreakSettings = DEFAULT_BREAK_SETTINGS,
+  vocabulary: VocabularyEntry[] = DEFAULT_VOCABULARY
+): AttendanceLog[] {
+  const employeeMap = new Map(employees.map(emp => [emp.id, emp]));
+  const events = extractAttendanceEvents(messages, employees, settings, breakSettings, vocabulary);
+  const { segments, anomalies } = pairAttendanceEvents(events);
+  const { breaks, anomalies: breakAnomalies } = pairBreakEvents(events);
+
+  const reviewAnomalies = [...anomalies, ...breakAnomalies, ...flagLateLoggedEvents(events)];
+
+  const logs = buildAttendanceLogs(
+    segments,
+    reviewAnomalies,
+    (log, firstCheckIn) => calculateMinutesLate(firstCheckIn, log.date, employeeMap.get(log.employee_id), settings),
+    findOfflineDays(messages, events, employees, settings)
+  );
+  return applyBreaks(logs, breaks, breakSettings);
 }
 
 export function calculatePayrollSummary(
   attendanceLogs: AttendanceLog[],
   employees: Employee[],
-  rules: PayrollRules = DEFAULT_PAYROLL_RULES
+  rules: PayrollRules = DEFAULT_PAYROLL_RULES,
+  context: PayrollCalculationContext = {}
 ): PayrollSummary[] {
+  const period = context.period || inferPayPeriod(attendanceLogs);
+  const holidays = context.holidays || [];
+  const tardiness = context.tardiness || { ...DEFAULT_TARDINESS_POLICY, flat_amount: rules.late_deduction_amount };
   const summaryMap = new Map<string, PayrollSummary>();
+  const logsByEmployee = new Map<string, AttendanceLog[]>();
 
   // Initialize summaries
   employees.forEach(employee => {
-    summaryMap.set(employee.id, {
-      employee,
-      total_hours: 0,
-      regular_hours: 0,
-      overtime_hours: 0,
-      late_days: 0,
-      offline_days: 0,
-      late_deductions: 0,
-      offline_deductions: 0,
-      gross_pay: 0,
-      net_pay: 0,
-    });
+    summaryMap.set(employee.id, createEmptySummary(employee));
+    logsByEmployee.set(employee.id, []);
   });
 
   // Process attendance logs
@@ -94,13 +174,41 @@ export function calculatePayrollSummary(
     const summary = summaryMap.get(log.employee_id);
     if (!summary) return;
 
+    logsByEmployee.get(log.employee_id)!.push(log);
     summary.total_hours += log.hours_worked;
-    
+
+    // Lateness and early departures are charged by the tardiness policy at the day's rate
+    const minutesUndertime = log.check_out && !log.is_offline
+      ? calculateMinutesUndertime(log.check_out, log.date, summary.employee, rules.standard_work_hours, context.attendanceSettings)
+      : 0;
+    const rates = getDayRates(getRateChangeOnDate(summary.employee, log.date), log.date, rules);
+    const charged = calculateTardinessDeductions(
+      { is_late: log.is_late, minutes_late: log.minutes_late, minutes_undertime: minutesUndertime },
+      rates,
+      tardiness
+    );
+
     if (log.is_late) {
       summary.late_days += 1;
-      summary.late_deductions += rules.late_deduction_amount;
+      summary.late_minutes = (summary.late_minutes || 0) + (log.minutes_late || 0);
+      summary.late_deductions += charged.late;
     }
-    
+
+    if (tardiness.include_undertime && minutesUndertime > 0) {
+      summary.undertime_minutes = (summary.undertime_minutes || 0) + minutesUndertime;
+      summary.undertime_deductions = (summary.undertime_deductions || 0) + charged.undertime;
+    }
+
+    if (log.break_minutes) {
+      const overlong = (log.breaks || []).filter(entry => entry.overlong_minutes);
+      summary.break_minutes = (summary.break_minutes || 0) + log.break_minutes;
+      if (overlong.length > 0) {
+        summary.overlong_breaks = (summary.overlong_breaks || 0) + overlong.length;
+        summary.overlong_break_minutes = (summary.overlong_break_minutes || 0) +
+          overlong.reduce((sum, entry) => sum + (entry.overlong_minutes || 0), 0);
+      }
+    }
+
     if (log.is_offline) {
       summary.offline_days += 1;
       summary.offline_deductions += rules.offline_deduction_amount;
@@ -109,38 +217,390 @@ export function calculatePayrollSummary(
 
   // Calculate pay
   return Array.from(summaryMap.values()).map(summary => {
-    const regularHours = Math.min(summary.total_hours, rules.standard_work_hours * 5); // 5 work days
-    const overtimeHours = Math.max(0, summary.total_hours - regularHours);
-    
-    const regularPay = regularHours * summary.employee.hourly_rate;
-    const overtimePay = overtimeHours * summary.employee.hourly_rate * rules.overtime_multiplier;
-    const grossPay = regularPay + overtimePay;
-    const totalDeductions = summary.late_deductions + summary.offline_deductions;
-    const netPay = Math.max(0, grossPay - totalDeductions);
+    const { timezone } = resolveAttendanceSettings(summary.employee, context.attendanceSettings);
+    const dailyBreakdown = buildDailyBreakdown(logsByEmployee.get(summary.employee.id) || [], rules, timezone);
+    addUnworkedHolidays(dailyBreakdown, holidays, period);
+    addLeaveDays(dailyBreakdown, (context.leave || []).filter(leave => leave.employee_id === summary.employee.id));
+    if (getCompensationType(summary.employee) === 'salaried') {
+      addSalariedAbsences(dailyBreakdown, rules, period);
+    }
+    dailyBreakdown.forEach(day =>
+      applyDayPay(day, getDayRates(getRateChangeOnDate(summary.employee, day.date), day.date, rules), rules)
+    );
+
+    const regularHours = dailyBreakdown.reduce((sum, day) => sum + day.regular_hours, 0);
+    const overtimeHours = dailyBreakdown.reduce((sum, day) => sum + day.overtime_hours, 0);
+    const holidayHours = dailyBreakdown
+      .filter(day => day.holiday_type)
+      .reduce((sum, day) => sum + day.hours_worked, 0);
+
+    const absentDays = dailyBreakdown.filter(day => day.is_absent).length;
+    const leaveDays = dailyBreakdown.filter(day => day.leave_type);
+    const paidLeaveDays = leaveDays.filter(day => day.is_paid_leave);
+    const restDayHours = dailyBreakdown
+      .filter(day => day.is_rest_day)
+      .reduce((sum, day) => sum + day.hours_worked, 0);
+    const nightDifferentialHours = dailyBreakdown.reduce((sum, day) => sum + day.night_hours + day.night_overtime_hours, 0);
+
+    const regularPay = dailyBreakdown.reduce((sum, day) => sum + day.regular_pay, 0);
+    const overtimePay = dailyBreakdown.reduce((sum, day) => sum + day.overtime_pay, 0);
+    const holidayPay = dailyBreakdown.reduce((sum, day) => sum + day.holiday_pay, 0);
+    const restDayPay = dailyBreakdown.reduce((sum, day) => sum + day.rest_day_pay, 0);
+    const nightDifferentialPay = dailyBreakdown.reduce((sum, day) => sum + day.night_differential_pay, 0);
+    // Allowances and bonuses are part of gross pay, but only taxable ones count toward statutory deductions
+    const earnings = applyEarnings(
+      (context.earnings || []).filter(earning => earning.employee_id === summary.employee.id),
+      dailyBreakdown
+    );
+    const basicGrossPay = regularPay + overtimePay + holidayPay + restDayPay + nightDifferentialPay;
+    const grossPay = basicGrossPay + earnings.taxable + earnings.nonTaxable;
+    const attendanceDeductions = summary.late_deductions + (summary.undertime_deductions || 0) + summary.offline_deductions;
+    const statutory = rules.statutory_deductions_enabled && period
+      ? calculateStatutoryDeductions(Math.max(0, basicGrossPay + earnings.taxable - attendanceDeductions), period)
+      : EMPTY_STATUTORY_DEDUCTIONS;
+    const totalDeductions = attendanceDeductions + statutory.total_employee;
+
+    // Ledger adjustments are settled after tax: retro differences are already net amounts
+    const adjustments = (context.adjustments || []).filter(adjustment => adjustment.employee_id === summary.employee.id);
+    const adjustmentEarnings = adjustments
+      .filter(adjustment => adjustment.type === 'earning')
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    const adjustmentDeductions = adjustments
+      .filter(adjustment => adjustment.type === 'deduction')
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    // Not clamped: deductions beyond gross pay show up as negative net pay for review
+    const netBeforeInstallments = grossPay - totalDeductions + adjustmentEarnings - adjustmentDeductions;
+
+    // Loan and cash advance installments come last, capped by the net pay floor
+    const recurring = applyRecurringDeductions(
+      netBeforeInstallments,
+      (context.recurringDeductions || []).filter(installment => installment.employee_id === summary.employee.id),
+      context.netPayFloor || 0
+    );
+    const netPay = netBeforeInstallments - recurring.total;
 
     return {
       ...summary,
       regular_hours: regularHours,
       overtime_hours: overtimeHours,
+      absent_days: absentDays,
+      paid_leave_days: paidLeaveDays.length,
+      unpaid_leave_days: leaveDays.length - paidLeaveDays.length,
+      leave_pay: paidLeaveDays.reduce((sum, day) => sum + day.regular_pay, 0),
+      holiday_hours: holidayHours,
+      holiday_pay: holidayPay,
+      rest_day_hours: restDayHours,
+      rest_day_pay: restDayPay,
+      night_differential_hours: nightDifferentialHours,
+      night_differential_pay: nightDifferentialPay,
       gross_pay: grossPay,
+      sss_employee: statutory.sss_employee,
+      sss_employer: statutory.sss_employer,
+      philhealth_employee: statutory.philhealth_employee,
+      philhealth_employer: statutory.philhealth_employer,
+      pagibig_employee: statutory.pagibig_employee,
+      pagibig_employer: statutory.pagibig_employer,
+      withholding_tax: statutory.withholding_tax,
+      statutory_deductions: statutory.total_employee,
+      earnings: earnings.lines,
+      taxable_earnings: earnings.taxable,
+      non_taxable_earnings: earnings.nonTaxable,
+      adjustments,
+      adjustment_earnings: adjustmentEarnings,
+      adjustment_deductions: adjustmentDeductions,
+      recurring_deductions: recurring.lines,
+      recurring_deductions_total: recurring.total,
       net_pay: netPay,
+      daily_breakdown: dailyBreakdown,
     };
   });
 }
 
+// A summary with nothing worked or paid yet
+export function createEmptySummary(employee: Employee): PayrollSummary {
+  return {
+    employee,
+    total_hours: 0,
+    regular_hours: 0,
+    overtime_hours: 0,
+    late_days: 0,
+    offline_days: 0,
+    late_deductions: 0,
+    offline_deductions: 0,
+    holiday_hours: 0,
+    holiday_pay: 0,
+    rest_day_hours: 0,
+    rest_day_pay: 0,
+    night_differential_hours: 0,
+    night_differential_pay: 0,
+    gross_pay: 0,
+    sss_employee: 0,
+    sss_employer: 0,
+    philhealth_employee: 0,
+    philhealth_employer: 0,
+    pagibig_employee: 0,
+    pagibig_employer: 0,
+    withholding_tax: 0,
+    statutory_deductions: 0,
+    net_pay: 0,
+    daily_breakdown: [],
+  };
+}
+
+// Adds holiday days the employee did not work so they can receive holiday pay
+function addUnworkedHolidays(days: PayrollDayBreakdown[], holidays: Holiday[], period?: PayPeriodRange) {
+  days.forEach(day => {
+    day.holiday_type = findHoliday(holidays, day.date)?.type;
+  });
+
+  if (!period) return;
+
+  getHolidaysInPeriod(holidays, period).forEach(holiday => {
+    if (days.some(day => day.date === holiday.date)) return;
+
+    days.push({
+      ...createEmptyDay(holiday.date),
+      holiday_type: holiday.type,
+    });
+  });
+
+  days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Marks approved leave on days without attendance; holidays keep their own pay
+function addLeaveDays(days: PayrollDayBreakdown[], leave: ScheduledLeaveDay[]) {
+  leave.forEach(leaveDay => {
+    const existing = days.find(day => day.date === leaveDay.date);
+    if (existing && (existing.is_attended || existing.hours_worked > 0 || existing.holiday_type)) return;
+
+    const day = existing || createEmptyDay(leaveDay.date);
+    day.leave_type = leaveDay.leave_type;
+    day.is_paid_leave = leaveDay.is_paid;
+    if (!existing) days.push(day);
+  });
+
+  days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Adds the scheduled workdays a salaried employee missed. Their salary accrues per scheduled
+ * workday (monthly salary / workdays in the month), so these days are left unpaid and the
+ * period's pay comes out as the prorated salary minus absences.
+ */
+function addSalariedAbsences(days: PayrollDayBreakdown[], rules: PayrollRules, period?: PayPeriodRange) {
+  if (!period) return;
+
+  for (let date = period.start; date <= period.end; date = addDaysToDateKey(date, 1)) {
+    if (isRestDay(date, rules) || days.some(day => day.date === date)) continue;
+
+    days.push({
+      ...createEmptyDay(date),
+      is_absent: true,
+    });
+  }
+
+  days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Prices one day's hours. Premiums stack multiplicatively: the holiday / rest-day multiplier
+ * scales the day's regular and overtime pay, and night differential applies on top of the
+ * rate already in effect for that hour (day type and overtime included).
+ */
+function applyDayPay(day: PayrollDayBreakdown, rates: DayRates, rules: PayrollRules) {
+  const hourlyRate = rates.hourly_rate;
+  day.hourly_rate = hourlyRate;
+  day.is_rest_day = isRestDay(day.date, rules);
+  day.overtime_pay = day.overtime_hours * hourlyRate * rules.overtime_multiplier;
+  day.holiday_pay = 0;
+  day.rest_day_pay = 0;
+  day.night_differential_pay = 0;
+
+  // Hourly staff are paid for regular hours; daily and salaried staff earn a day's rate for attending
+  const worked = rates.compensation_type === 'hourly' ? day.hours_worked > 0 : !!day.is_attended;
+  if (rates.compensation_type === 'hourly') {
+    day.regular_pay = day.regular_hours * hourlyRate;
+  } else {
+    day.regular_pay = worked ? rates.daily_rate : 0;
+  }
+
+  if (!worked) {
+    if (day.leave_type) {
+      day.regular_pay = day.is_paid_leave ? rates.daily_rate : 0;
+    } else if (day.holiday_type) {
+      // A monthly salary already covers holidays, so salaried staff keep their day's pay instead
+      if (rates.compensation_type === 'salaried') {
+        day.regular_pay = rates.daily_rate;
+      } else {
+        day.holiday_pay = rates.daily_rate * getUnworkedHolidayPayRate(day.holiday_type, rules);
+      }
+    }
+    return;
+  }
+
+  const basePay = day.regular_pay + day.overtime_pay;
+  const holidayMultiplier = getHolidayMultiplier(day.holiday_type, rules);
+  const dayMultiplier = getDayMultiplier(day.holiday_type, day.is_rest_day, rules);
+  day.holiday_pay = basePay * (holidayMultiplier - 1);
+  day.rest_day_pay = basePay * (dayMultiplier - holidayMultiplier);
+
+  const nightBasePay = (day.night_hours + day.night_overtime_hours * rules.overtime_multiplier) * hourlyRate;
+  day.night_differential_pay = nightBasePay * dayMultiplier * (rules.night_differential_multiplier - 1);
+}
+
+// Checked in, even if a missing check-out leaves no hours
+function isAttended(log: AttendanceLog): boolean {
+  return !log.is_offline && (log.hours_worked > 0 || !!log.check_in);
+}
+
+function createEmptyDay(date: string): PayrollDayBreakdown {
+  return {
+    date,
+    hours_worked: 0,
+    regular_hours: 0,
+    overtime_hours: 0,
+    is_late: false,
+    is_offline: false,
+    anomalies: [],
+    is_rest_day: false,
+    night_hours: 0,
+    night_overtime_hours: 0,
+    hourly_rate: 0,
+    regular_pay: 0,
+    overtime_pay: 0,
+    holiday_pay: 0,
+    rest_day_pay: 0,
+    night_differential_pay: 0,
+  };
+}
+
+// Splits each attendance day into regular and overtime hours according to rules.overtime_mode,
+// then finds the night differential hours within each portion
+export function buildDailyBreakdown(
+  attendanceLogs: AttendanceLog[],
+  rules: PayrollRules = DEFAULT_PAYROLL_RULES,
+  timeZone: string = DEFAULT_ATTENDANCE_SETTINGS.timezone
+): PayrollDayBreakdown[] {
+  const dayMap = new Map<string, PayrollDayBreakdown>();
+  const logsByDate = new Map<string, AttendanceLog[]>();
+
+  attendanceLogs.forEach(log => {
+    logsByDate.set(log.date, [...(logsByDate.get(log.date) || []), log]);
+
+    const existing = dayMap.get(log.date);
+    if (existing) {
+      existing.hours_worked += log.hours_worked;
+      existing.is_late = existing.is_late || log.is_late;
+      existing.is_offline = existing.is_offline && log.is_offline;
+      existing.is_attended = existing.is_attended || isAttended(log);
+      existing.anomalies.push(...(log.anomalies || []));
+      return;
+    }
+
+    dayMap.set(log.date, {
+      ...createEmptyDay(log.date),
+      hours_worked: log.hours_worked,
+      is_late: log.is_late,
+      is_offline: log.is_offline,
+      is_attended: isAttended(log),
+      anomalies: [...(log.anomalies || [])],
+    });
+  });
+
+  const days = Array.from(dayMap.values()).sort((a, b) => a.date.localeCompare(b.date));
+  const useDaily = rules.overtime_mode !== 'weekly';
+  const useWeekly = rules.overtime_mode !== 'daily';
+
+  days.forEach(day => {
+    const dailyOvertime = useDaily ? Math.max(0, day.hours_worked - rules.standard_work_hours) : 0;
+    day.regular_hours = day.hours_worked - dailyOvertime;
+    day.overtime_hours = dailyOvertime;
+  });
+
+  if (useWeekly) {
+    // Regular hours accumulate per workweek; whatever spills past the threshold becomes overtime
+    const weeklyRegularHours = new Map<string, number>();
+
+    days.forEach(day => {
+      const weekKey = getWorkweekStart(day.date, rules.week_start_day);
+      const accumulated = weeklyRegularHours.get(weekKey) || 0;
+      const remaining = Math.max(0, rules.weekly_overtime_threshold_hours - accumulated);
+      const weeklyOvertime = Math.max(0, day.regular_hours - remaining);
+
+      day.regular_hours -= weeklyOvertime;
+      day.overtime_hours += weeklyOvertime;
+      weeklyRegularHours.set(weekKey, accumulated + day.regular_hours);
+    });
+  }
+
+  days.forEach(day => {
+    const nightHours = splitNightHours(logsByDate.get(day.date) || [], day.regular_hours, rules, timeZone);
+    day.night_hours = nightHours.night_hours;
+    day.night_overtime_hours = nightHours.night_overtime_hours;
+  });
+
+  return days;
+}
+
+// Falls back to the span of the attendance data when no pay period is given
+function inferPayPeriod(attendanceLogs: AttendanceLog[]): PayPeriodRange | undefined {
+  if (attendanceLogs.length === 0) return undefined;
+
+  const dates = attendanceLogs.map(log => log.date).sort();
+  return { start: dates[0], end: dates[dates.length - 1] };
+}
+
+// Returns the YYYY-MM-DD date on which the workweek containing dateStr starts
+export function getWorkweekStart(dateStr: string, weekStartDay: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const offset = (date.getUTCDay() - weekStartDay + 7) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().split('T')[0];
+}
+
 export function exportToCSV(payrollSummaries: PayrollSummary[]): string {
+  // One column per allowance or bonus paid to anyone in the export
+  const earningColumns = getEarningColumns(payrollSummaries.flatMap(summary => summary.earnings || []));
+  const earningAmount = (summary: PayrollSummary, name: string) =>
+    (summary.earnings || []).filter(line => line.name === name).reduce((sum, line) => sum + line.amount, 0);
+
   const headers = [
     'Employee Name',
     'Total Hours',
     'Regular Hours',
     'Overtime Hours',
+    'Night Diff Hours',
+    'Rest Day Hours',
+    'Break Minutes',
+    'Overlong Breaks',
     'Late Days',
     'Offline Days',
-    'Hourly Rate',
+    'Absent Days',
+    'Paid Leave Days',
+    'Unpaid Leave Days',
+    'Pay Type',
+    'Rate',
+    'Holiday Pay',
+    'Rest Day Pay',
+    'Night Diff Pay',
+    ...earningColumns,
     'Gross Pay',
+    'Late Minutes',
     'Late Deductions',
+    'Undertime Minutes',
+    'Undertime Deductions',
     'Offline Deductions',
-    'Net Pay'
+    'SSS (EE)',
+    'PhilHealth (EE)',
+    'Pag-IBIG (EE)',
+    'Withholding Tax',
+    'Adjustments',
+    'Loans & Advances',
+    'Net Pay',
+    'SSS (ER)',
+    'PhilHealth (ER)',
+    'Pag-IBIG (ER)'
   ];
 
   const rows = payrollSummaries.map(summary => [
@@ -148,38 +608,40 @@ export function exportToCSV(payrollSummaries: PayrollSummary[]): string {
     summary.total_hours.toFixed(2),
     summary.regular_hours.toFixed(2),
     summary.overtime_hours.toFixed(2),
+    (summary.night_differential_hours || 0).toFixed(2),
+    (summary.rest_day_hours || 0).toFixed(2),
+    (summary.break_minutes || 0).toString(),
+    (summary.overlong_breaks || 0).toString(),
     summary.late_days.toString(),
     summary.offline_days.toString(),
-    `$${summary.employee.hourly_rate.toFixed(2)}`,
+    (summary.absent_days || 0).toString(),
+    (summary.paid_leave_days || 0).toString(),
+    (summary.unpaid_leave_days || 0).toString(),
+    getCompensationType(summary.employee),
+    `$${getCompensationRate(summary.employee).toFixed(2)}`,
+    `$${(summary.holiday_pay || 0).toFixed(2)}`,
+    `$${(summary.rest_day_pay || 0).toFixed(2)}`,
+    `$${(summary.night_differential_pay || 0).toFixed(2)}`,
+    ...earningColumns.map(name => `$${earningAmount(summary, name).toFixed(2)}`),
     `$${summary.gross_pay.toFixed(2)}`,
+    (summary.late_minutes || 0).toString(),
     `$${summary.late_deductions.toFixed(2)}`,
+    (summary.undertime_minutes || 0).toString(),
+    `$${(summary.undertime_deductions || 0).toFixed(2)}`,
     `$${summary.offline_deductions.toFixed(2)}`,
-    `$${summary.net_pay.toFixed(2)}`
+    `$${(summary.sss_employee || 0).toFixed(2)}`,
+    `$${(summary.philhealth_employee || 0).toFixed(2)}`,
+    `$${(summary.pagibig_employee || 0).toFixed(2)}`,
+    `$${(summary.withholding_tax || 0).toFixed(2)}`,
+    `$${((summary.adjustment_earnings || 0) - (summary.adjustment_deductions || 0)).toFixed(2)}`,
+    `$${(summary.recurring_deductions_total || 0).toFixed(2)}`,
+    `$${summary.net_pay.toFixed(2)}`,
+    `$${(summary.sss_employer || 0).toFixed(2)}`,
+    `$${(summary.philhealth_employer || 0).toFixed(2)}`,
+    `$${(summary.pagibig_employer || 0).toFixed(2)}`
   ]);
 
   return [headers, ...rows].map(row => row.join(',')).join('\n');
 }
 
-export function getDateRange(period: 'first-half' | 'second-half' | 'full-month', date: Date = new Date()) {
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  
-  switch (period) {
-    case 'first-half':
-      return {
-        start: new Date(year, month, 1),
-        end: new Date(year, month, 15)
-      };
-    case 'second-half':
-      return {
-        start: new Date(year, month, 16),
-        end: new Date(year, month + 1, 0) // Last day of month
-      };
-    case 'full-month':
-    default:
-      return {
-        start: new Date(year, month, 1),
-        end: new Date(year, month + 1, 0)
-      };
-  }
-} 
\ No newline at end of file
+export { getDateRange } from './payCalendar';
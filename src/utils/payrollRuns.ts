@@ -0,0 +1,58 @@
+import { PayPeriodRange, PayrollRun, PayrollRunDrift, PayrollRunKind, PayrollRunStatus, PayrollSummary } from '../types';
+
+export const PAYROLL_RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  paid: 'Paid'
+};
+
+export const PAYROLL_RUN_KIND_LABELS: Record<PayrollRunKind, string> = {
+  regular: 'Regular',
+  off_cycle: 'Off-cycle',
+  final_pay: 'Final pay',
+  thirteenth_month: '13th month'
+};
+
+// Runs only move forward; a locked run is never reopened
+const NEXT_STATUS: Record<PayrollRunStatus, PayrollRunStatus | undefined> = {
+  draft: 'approved',
+  approved: 'paid',
+  paid: undefined
+};
+
+export function canTransitionRun(from: PayrollRunStatus, to: PayrollRunStatus): boolean {
+  return NEXT_STATUS[from] === to;
+}
+
+// Approved and paid runs keep their frozen inputs and results
+export function isRunLocked(run: PayrollRun): boolean {
+  return run.status !== 'draft';
+}
+
+export function isRegularRun(run: PayrollRun): boolean {
+  return (run.kind || 'regular') === 'regular';
+}
+
+// The regular run for a pay period; off-cycle runs may share its dates
+export function findRunForPeriod(runs: PayrollRun[], period: PayPeriodRange): PayrollRun | undefined {
+  return runs.find(run => isRegularRun(run) && run.start === period.start && run.end === period.end);
+}
+
+// Employees whose live net pay differs from the run's frozen net pay, or who were added or dropped
+export function diffPayrollRun(run: PayrollRun, liveSummaries: PayrollSummary[]): PayrollRunDrift[] {
+  const frozen = new Map(run.summaries.map(summary => [summary.employee.id, summary]));
+  const live = new Map(liveSummaries.map(summary => [summary.employee.id, summary]));
+  const employeeIds = [...new Set([...frozen.keys(), ...live.keys()])];
+
+  return employeeIds
+    .map(id => ({ frozenSummary: frozen.get(id), liveSummary: live.get(id) }))
+    .filter(({ frozenSummary, liveSummary }) =>
+      !frozenSummary || !liveSummary || Math.abs(frozenSummary.net_pay - liveSummary.net_pay) >= 0.01
+    )
+    .map(({ frozenSummary, liveSummary }) => ({
+      employee_id: (frozenSummary || liveSummary)!.employee.id,
+      employee_name: (frozenSummary || liveSummary)!.employee.name,
+      frozen_net_pay: frozenSummary?.net_pay,
+      live_net_pay: liveSummary?.net_pay
+    }));
+}
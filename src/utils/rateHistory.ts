@@ -0,0 +1,108 @@
+import { Employee, EmployeeFormData, RateChange } from '../types';
+import {
+  CompensationFields,
+  getCompensationRate,
+  getCompensationType,
+  getFormCompensation,
+  toCompensationFields
+} from './compensation';
+import { addDaysToDateKey, toDateKey } from './timezone';
+
+// Rate changes oldest first. Employees saved before rate history existed get a single entry
+// for their current rate.
+export function getRateHistory(employee: Employee): RateChange[] {
+  if (employee.rate_history && employee.rate_history.length > 0) {
+    return [...employee.rate_history].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  }
+
+  return [{
+    rate: getCompensationRate(employee),
+    compensation_type: getCompensationType(employee),
+    effective_from: employee.created_at.slice(0, 10),
+    changed_at: employee.created_at
+  }];
+}
+
+// The rate change in effect on a YYYY-MM-DD date; days before the first entry use the earliest rate
+export function getRateChangeOnDate(employee: Employee, date: string): RateChange {
+  const history = getRateHistory(employee);
+  const inEffect = history.filter(change => change.effective_from <= date);
+
+  return inEffect[inEffect.length - 1] || history[0];
+}
+
+// The rate in effect on a YYYY-MM-DD date, in the unit of the compensation type at the time
+export function getRateOnDate(employee: Employee, date: string): number {
+  return getRateChangeOnDate(employee, date).rate;
+}
+
+// Records a rate change, replacing any change that takes effect the same day
+export function addRateChange(
+  employee: Employee,
+  change: RateChange
+): CompensationFields & Pick<Employee, 'rate_history'> {
+  let history = getRateHistory(employee);
+
+  // A starting rate saved before rate history existed has no real start date, so keep it
+  // ahead of a backdated change instead of letting it override the new rate
+  if (!employee.rate_history?.length && history[0].effective_from >= change.effective_from) {
+    history = [{ ...history[0], effective_from: addDaysToDateKey(change.effective_from, -1) }];
+  }
+
+  const rateHistory = [
+    ...history.filter(existing => existing.effective_from !== change.effective_from),
+    change
+  ].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  const latest = rateHistory[rateHistory.length - 1];
+  return {
+    ...toCompensationFields(latest.compensation_type || 'hourly', latest.rate),
+    rate_history: rateHistory
+  };
+}
+
+// Pay fields for an employee saved from the staff form: new employees start a history, and
+// existing employees get a history entry only when the compensation type or rate changes
+export function applyFormRate(
+  formData: EmployeeFormData,
+  existing?: Employee,
+  now: Date = new Date()
+): CompensationFields & Pick<Employee, 'rate_history'> {
+  const { type, rate } = getFormCompensation(formData);
+
+  if (existing && getCompensationType(existing) === type && getCompensationRate(existing) === rate) {
+    return {
+      compensation_type: existing.compensation_type,
+      hourly_rate: existing.hourly_rate,
+      daily_rate: existing.daily_rate,
+      monthly_salary: existing.monthly_salary,
+      rate_history: existing.rate_history
+    };
+  }
+
+  const change: RateChange = {
+    rate,
+    compensation_type: type,
+    effective_from: formData.rate_effective_from?.trim() || toDateKey(now),
+    reason: formData.rate_change_reason?.trim() || (existing ? undefined : 'Starting rate'),
+    changed_by: formData.rate_changed_by?.trim() || undefined,
+    changed_at: now.toISOString()
+  };
+
+  return existing ? addRateChange(existing, change) : { ...toCompensationFields(type, rate), rate_history: [change] };
+}
+
+export function validateRateChange(formData: EmployeeFormData): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const effectiveFrom = formData.rate_effective_from?.trim();
+
+  if (effectiveFrom && (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom) || isNaN(Date.parse(effectiveFrom)))) {
+    errors.rate_effective_from = 'Effective date must be a valid date';
+  }
+
+  if ((formData.rate_change_reason?.trim().length || 0) > 200) {
+    errors.rate_change_reason = 'Reason must be 200 characters or fewer';
+  }
+
+  return errors;
+}
@@ -0,0 +1,178 @@
+import {
+  DeductionSettings,
+  PayPeriodRange,
+  PayrollRun,
+  RecurringDeduction,
+  RecurringDeductionFormData,
+  RecurringDeductionKind,
+  RecurringDeductionLine,
+  RecurringDeductionStatus,
+  ScheduledDeduction,
+  ValidationResult
+} from '../types';
+import { isRunLocked } from './payrollRuns';
+import { roundCents } from './money';
+
+export const RECURRING_DEDUCTION_KIND_LABELS: Record<RecurringDeductionKind, string> = {
+  cash_advance: 'Cash advance',
+  loan: 'Loan'
+};
+
+export const RECURRING_DEDUCTION_STATUS_LABELS: Record<RecurringDeductionStatus, string> = {
+  active: 'Active',
+  completed: 'Repaid',
+  cancelled: 'Cancelled'
+};
+
+export const DEFAULT_DEDUCTION_SETTINGS: DeductionSettings = {
+  net_pay_floor: 0
+};
+
+export function getRepaidAmount(deduction: RecurringDeduction): number {
+  return roundCents(deduction.payments.reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+export function getRemainingBalance(deduction: RecurringDeduction): number {
+  return Math.max(0, roundCents(deduction.principal - getRepaidAmount(deduction)));
+}
+
+// Splitting by count rounds each installment up to the cent, so the last one is the smallest
+export function getInstallmentAmount(principal: number, mode: RecurringDeductionFormData['installment_mode'], value: number): number {
+  return mode === 'count' ? Math.ceil((principal / value) * 100) / 100 : roundCents(value);
+}
+
+/**
+ * Installments due in a period. A locked run keeps the installments it took; an open period is
+ * due the next installment of every active deduction that has started. `settleInFull` schedules
+ * the whole remaining balance instead, for final pay.
+ */
+export function getScheduledDeductions(
+  deductions: RecurringDeduction[],
+  period: PayPeriodRange,
+  run?: PayrollRun,
+  settleInFull = false
+): ScheduledDeduction[] {
+  if (run && isRunLocked(run)) {
+    return deductions.flatMap(deduction => {
+      const index = deduction.payments.findIndex(payment => payment.run_id === run.id);
+      if (index === -1) return [];
+
+      const earlier = deduction.payments.slice(0, index).reduce((sum, payment) => sum + payment.amount, 0);
+      return [toScheduled(deduction, deduction.payments[index].amount, roundCents(deduction.principal - earlier))];
+    });
+  }
+
+  return deductions
+    .filter(deduction => deduction.status === 'active' && deduction.start_date <= period.end)
+    .filter(deduction => !deduction.payments.some(payment => payment.period_start === period.start && payment.period_end === period.end))
+    .flatMap(deduction => {
+      const balance = getRemainingBalance(deduction);
+      if (balance <= 0) return [];
+
+      return [toScheduled(deduction, settleInFull ? balance : Math.min(deduction.installment_amount, balance), balance)];
+    });
+}
+
+// Installments frozen into a draft that were paid since it was calculated: another run recorded a
+// payment for an overlapping period, or the balance has dropped below what the draft started from
+export function findAlreadyPaidInstallments(run: PayrollRun, deductions: RecurringDeduction[]): RecurringDeductionLine[] {
+  return run.summaries
+    .flatMap(summary => summary.recurring_deductions || [])
+    .filter(line => line.amount > 0)
+    .filter(line => {
+      const deduction = deductions.find(candidate => candidate.id === line.deduction_id);
+      if (!deduction) return false;
+
+      const paidForPeriod = deduction.payments.some(payment =>
+        payment.run_id !== run.id && payment.period_start <= run.end && payment.period_end >= run.start
+      );
+      return paidForPeriod || getRemainingBalance(deduction) < line.balance;
+    });
+}
+
+// Takes each installment in order, cutting it short once net pay would drop below the floor
+export function applyRecurringDeductions(
+  netPay: number,
+  scheduled: ScheduledDeduction[],
+  netPayFloor: number
+): { lines: RecurringDeductionLine[]; total: number } {
+  let available = Math.max(0, roundCents(netPay - netPayFloor));
+
+  const lines = scheduled.map(installment => {
+    const amount = Math.min(installment.scheduled_amount, available);
+    available = roundCents(available - amount);
+    return { ...installment, amount, remaining_balance: roundCents(installment.balance - amount) };
+  });
+
+  return { lines, total: roundCents(lines.reduce((sum, line) => sum + line.amount, 0)) };
+}
+
+export function validateRecurringDeduction(formData: RecurringDeductionFormData): ValidationResult {
+  const errors: Record<string, string> = {};
+  const principal = parseFloat(formData.principal);
+  const installment = parseFloat(formData.installment_value);
+
+  if (!formData.employee_id) {
+    errors.employee_id = 'Employee is required';
+  }
+
+  if (formData.kind !== 'cash_advance' && formData.kind !== 'loan') {
+    errors.kind = 'Type must be cash advance or loan';
+  }
+
+  if (!formData.label.trim()) {
+    errors.label = 'Label is required';
+  } else if (formData.label.trim().length > 100) {
+    errors.label = 'Label must be 100 characters or fewer';
+  }
+
+  if (!formData.principal.trim()) {
+    errors.principal = 'Principal is required';
+  } else if (isNaN(principal) || principal < 0.01 || principal > 999999.99) {
+    errors.principal = 'Principal must be between $0.01 and $999,999.99';
+  }
+
+  if (!formData.installment_value.trim()) {
+    errors.installment_value = formData.installment_mode === 'count' ? 'Number of installments is required' : 'Installment amount is required';
+  } else if (formData.installment_mode === 'count') {
+    if (!Number.isInteger(installment) || installment < 1 || installment > 120) {
+      errors.installment_value = 'Number of installments must be a whole number from 1 to 120';
+    }
+  } else if (isNaN(installment) || installment < 0.01) {
+    errors.installment_value = 'Installment amount must be at least $0.01';
+  } else if (!isNaN(principal) && installment > principal) {
+    errors.installment_value = 'Installment amount cannot exceed the principal';
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(formData.start_date) || isNaN(Date.parse(formData.start_date))) {
+    errors.start_date = 'Start date must be in YYYY-MM-DD format';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+export function validateDeductionSettings(settings: DeductionSettings): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (isNaN(settings.net_pay_floor) || settings.net_pay_floor < 0 || settings.net_pay_floor > 999999.99) {
+    errors.net_pay_floor = 'Net pay floor must be between $0 and $999,999.99';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+function toScheduled(deduction: RecurringDeduction, scheduledAmount: number, balance: number): ScheduledDeduction {
+  return {
+    deduction_id: deduction.id,
+    employee_id: deduction.employee_id,
+    label: deduction.label,
+    scheduled_amount: scheduledAmount,
+    balance
+  };
+}
@@ -0,0 +1,140 @@
+import {
+  AttendanceReviewRecord,
+  ParsedAttendanceEntry,
+  ReviewAction,
+  ReviewDecision,
+  ReviewQueueItem,
+  ReviewReason
+} from '../types';
+import { parseClockTime } from './timezone';
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  unmatched: 'No employee match',
+  low_confidence: 'Low-confidence match',
+  unknown_status: 'Unknown status',
+  duplicate: 'Listed more than once',
+  suspected_no_show: 'ETA with no IN',
+  no_leave_request: 'Approved out, no leave request'
+};
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  accept: 'Accept',
+  reassign: 'Reassign',
+  correct_time: 'Correct time',
+  discard: 'Discard'
+};
+
+type EntryChanges = Pick<ReviewDecision, 'employee_id' | 'check_in_time'>;
+
+/**
+ * Pasted entries that need a decision before import: no employee match (ambiguous names included),
+ * a match scored below the threshold, a status no vocabulary pattern recognized, an employee
+ * who appears more than once, an ETA nobody followed up with an IN, or an "approved out" that no
+ * approved leave request covers.
+ */
+export function buildReviewQueue(entries: ParsedAttendanceEntry[], confidenceThreshold: number): ReviewQueueItem[] {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => {
+    if (entry.employee_id) counts.set(entry.employee_id, (counts.get(entry.employee_id) || 0) + 1);
+  });
+
+  return entries
+    .map((entry, index) => {
+      const reasons: ReviewReason[] = [];
+      if (!entry.employee_id) {
+        reasons.push('unmatched');
+      } else if (entry.confidence_score < confidenceThreshold) {
+        reasons.push('low_confidence');
+      }
+      if (entry.status === 'unknown') reasons.push('unknown_status');
+      if (entry.employee_id && counts.get(entry.employee_id)! > 1) reasons.push('duplicate');
+      if (entry.suspected_no_show) reasons.push('suspected_no_show');
+      if (entry.missing_leave_request) reasons.push('no_leave_request');
+
+      return { entry_index: index, reasons };
+    })
+    .filter(item => item.reasons.length > 0);
+}
+
+export function getUnresolvedItems(queue: ReviewQueueItem[], decisions: Record<number, ReviewDecision>): ReviewQueueItem[] {
+  return queue.filter(item => !decisions[item.entry_index]);
+}
+
+// An entry without an employee can only be reassigned or discarded
+export function validateReviewDecision(entry: ParsedAttendanceEntry, decision: ReviewDecision): string | null {
+  if (decision.action === 'reassign' && !decision.employee_id) {
+    return 'Choose the employee this entry belongs to';
+  }
+  if (decision.action === 'correct_time' && (!decision.check_in_time || parseClockTime(decision.check_in_time) === null)) {
+    return 'Time must look like 9:00 AM or 21:00';
+  }
+  if ((decision.action === 'accept' || decision.action === 'correct_time') && !entry.employee_id) {
+    return 'Reassign or discard entries without an employee';
+  }
+  return null;
+}
+
+/**
+ * The entries that go to payroll: everything outside the queue, plus queued entries as decided.
+ * `revise` recomputes lateness and deductions for a new employee or time. Throws while any queued
+ * entry is still undecided, so nothing unreviewed can be imported.
+ */
+export function applyReviewDecisions(
+  entries: ParsedAttendanceEntry[],
+  queue: ReviewQueueItem[],
+  decisions: Record<number, ReviewDecision>,
+  revise: (entry: ParsedAttendanceEntry, changes: EntryChanges) => ParsedAttendanceEntry
+): ParsedAttendanceEntry[] {
+  const unresolved = getUnresolvedItems(queue, decisions);
+  if (unresolved.length > 0) {
+    throw new Error(`${unresolved.length} ${unresolved.length === 1 ? 'entry needs' : 'entries need'} review before import`);
+  }
+
+  const queued = new Set(queue.map(item => item.entry_index));
+  return entries.flatMap((entry, index) => {
+    if (!queued.has(index)) return [entry];
+
+    const decision = decisions[index];
+    switch (decision.action) {
+      case 'discard':
+        return [];
+      case 'reassign':
+        return [revise(entry, { employee_id: decision.employee_id, check_in_time: decision.check_in_time })];
+      case 'correct_time':
+        return [revise(entry, { check_in_time: decision.check_in_time })];
+      default:
+        return [entry];
+    }
+  });
+}
+
+export function createReviewRecords(
+  date: string,
+  entries: ParsedAttendanceEntry[],
+  queue: ReviewQueueItem[],
+  decisions: Record<number, ReviewDecision>
+): AttendanceReviewRecord[] {
+  const resolvedAt = new Date().toISOString();
+
+  return queue
+    .filter(item => decisions[item.entry_index])
+    .map(item => {
+      const entry = entries[item.entry_index];
+      const decision = decisions[item.entry_index];
+      const employeeId = decision.action === 'discard' ? undefined : decision.employee_id || entry.employee_id;
+
+      return {
+        id: `review_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        attendance_date: date,
+        raw_name: entry.raw_name,
+        reasons: item.reasons,
+        action: decision.action,
+        original_employee_id: entry.employee_id,
+        employee_id: employeeId,
+        original_check_in_time: entry.check_in_time,
+        check_in_time: decision.check_in_time || (decision.action === 'discard' ? undefined : entry.check_in_time),
+        confidence_score: entry.confidence_score,
+        resolved_at: resolvedAt
+      };
+    });
+}
@@ -1,46 +1,205 @@
-import { Employee, EmployeeWithSettings, AttendanceStatus, ParsedAttendanceEntry, AttendanceParseResult, AttendanceSettings } from '../types';
+import { Employee, AttendanceStatus, ParsedAttendanceEntry, AttendanceParseResult, AttendanceSettings, Holiday, PayrollRules, TardinessPolicy, VocabularyEntry } from '../types';
+import { findHoliday } from './holidayCalendar';
+import { DEFAULT_ATTENDANCE_SETTINGS, calculateMinutesLate, getClockTimeInstant } from './attendanceSettings';
+import { addDaysToDateKey, getZonedDateString, parseClockTime } from './timezone';
+import { calculateTardinessDeductions, DEFAULT_TARDINESS_POLICY } from './tardiness';
+import { getDayRates } from './compensation';
+import { getRateChangeOnDate } from './rateHistory';
+import { DEFAULT_PAYROLL_RULES } from './payrollCalculator';
+import { DEFAULT_VOCABULARY, findVocabularyMatch } from './vocabulary';
+import { AMBIGUOUS_MATCH_MARGIN, isAmbiguousMatch, pickBestMatch, rankEmployeeMatches } from './nameMatching';
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// When the person actually arrived; an ETA's own time is only when it was posted
+export function getArrivalTime(entry: ParsedAttendanceEntry): string | undefined {
+  return entry.status === 'eta_delayed' ? entry.arrival_time : entry.check_in_time;
+}
 
 export class SlackAttendanceTextParser {
-  private defaultSettings: AttendanceSettings = {
-    default_start_time: "10:00 AM",
-    timezone: "Asia/Manila",
-    grace_period_minutes: 5,
-    late_penalty_per_minute: 0
-  };
-
-  private statusPatterns = {
-    approved_out: /OUT\s*-\s*JSP\s*Approved|Approved\s*Leave|Sick\s*Leave\s*-\s*Approved/i,
-    work_from_home: /WFH|Work\s*from\s*Home|Remote/i,
-    eta_delayed: /ETA\s*(\d{1,2}:\d{2})/i,
-    check_in: /\bIN\b|\bin\b/i
-  };
+  private defaultSettings: AttendanceSettings = { ...DEFAULT_ATTENDANCE_SETTINGS };
 
+  private etaPattern = /ETA\s*(\d{1,2}:\d{2}(?:\s*[AP]M)?)/i;
   private datePattern = /start\s+date\s+(\d{1,2}\/\d{1,2}\/\d{2,4})/i;
   private timePattern = /\[?(\d{1,2}:\d{2}\s*(?:AM|PM))\]?/i;
   private namePattern = /^([^[\d\n]+?)(?=\s*\[?\d|\s*$)/m;
-
-  constructor(private employees: Employee[], settings?: Partial<AttendanceSettings>) {
+  // Slack's day dividers as copied from the channel, alone on their line: "Today", "Yesterday",
+  // "Monday, June 9th", or "Monday, December 30th, 2024" for another year. A bare "June 9" is chat.
+  private dayDividerPattern = /^(?:(today|yesterday)|(?:mon|tues|wednes|thurs|fri|satur|sun)day,\s+([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?(?:,\s+(\d{4}))?)$/i;
+
+  constructor(
+    private employees: Employee[],
+    settings?: Partial<AttendanceSettings>,
+    private holidays: Holiday[] = [],
+    private tardiness: TardinessPolicy = DEFAULT_TARDINESS_POLICY,
+    private vocabulary: VocabularyEntry[] = DEFAULT_VOCABULARY,
+    private payrollRules: PayrollRules = DEFAULT_PAYROLL_RULES
+  ) {
     this.defaultSettings = { ...this.defaultSettings, ...settings };
   }
 
+  // Reads the whole paste as one day, dated by its first "start date" header
   parseSlackText(text: string): AttendanceParseResult {
-    const date = this.extractDate(text);
+    const date = this.extractDate(text) || getZonedDateString(new Date(), this.defaultSettings.timezone);
+    return this.parseDay(text, date);
+  }
+
+  /**
+   * Reads a paste that may span several days, one result per day in date order. Days start at a
+   * "start date M/D/YY" header or a Slack day divider; lines before the first header belong to the
+   * first day, and a paste without headers is today's. Sections under the same date are merged.
+   */
+  parseSlackTextByDay(text: string, now: Date = new Date()): AttendanceParseResult[] {
+    return this.splitIntoDays(text, getZonedDateString(now, this.defaultSettings.timezone))
+      .map(day => this.parseDay(day.text, day.date));
+  }
+
+  private parseDay(text: string, date: string): AttendanceParseResult {
+    const holiday = findHoliday(this.holidays, date);
     const sections = this.splitIntoEmployeeSections(text);
-    const entries = sections
-      .map(section => this.parseEmployeeSection(section))
-      .filter((entry): entry is ParsedAttendanceEntry => entry !== null);
-    const noShowEmployees = this.identifyNoShowEmployees(entries);
+    const entries = this.reconcileEtaEntries(
+      sections
+        .map(section => this.parseEmployeeSection(section, date))
+        .filter((entry): entry is ParsedAttendanceEntry => entry !== null),
+      date,
+      !!holiday
+    );
+    // Nobody is expected to show up on a holiday
+    const noShowEmployees = holiday ? [] : this.identifyNoShowEmployees(entries);
+    const suspectedNoShowEmployees = entries
+      .filter(entry => entry.suspected_no_show)
+      .map(entry => this.employees.find(emp => emp.id === entry.employee_id)?.name || entry.raw_name);
     
     return {
-      date: date || new Date().toISOString().split('T')[0],
+      date,
+      holiday,
       entries,
       unmatched_names: entries.filter(e => !e.employee_id).map(e => e.raw_name),
       parsing_errors: this.validateEntries(entries),
       no_show_employees: noShowEmployees,
+      suspected_no_show_employees: suspectedNoShowEmployees,
       summary: this.generateSummary(entries, noShowEmployees)
     };
   }
 
+  // Recomputes lateness and deductions after a reviewer reassigns an entry or corrects its time
+  reviseEntry(
+    entry: ParsedAttendanceEntry,
+    date: string,
+    changes: { employee_id?: string; check_in_time?: string }
+  ): ParsedAttendanceEntry {
+    const employee = this.employees.find(emp => emp.id === (changes.employee_id || entry.employee_id));
+
+    // An ETA's corrected time is when the person actually arrived
+    if (entry.status === 'eta_delayed') {
+      return this.applyEtaArrival({
+        ...entry,
+        employee_id: employee?.id,
+        confidence_score: changes.employee_id ? 1 : entry.confidence_score,
+        is_ambiguous: undefined
+      }, date, changes.check_in_time || entry.arrival_time);
+    }
+
+    const checkInTime = changes.check_in_time || entry.check_in_time;
+    const latenessInfo = this.calculateLateness(date, checkInTime, employee, entry.status);
+
+    return {
+      ...entry,
+      employee_id: employee?.id,
+      check_in_time: checkInTime,
+      is_late: latenessInfo.isLate,
+      minutes_late: latenessInfo.minutesLate,
+      // A reviewer's pick is certain
+      confidence_score: changes.employee_id ? 1 : entry.confidence_score,
+      is_ambiguous: undefined,
+      deduction_amount: this.calculateDeductions(entry.status, latenessInfo, date, employee),
+      deduction_reason: latenessInfo.isLate ? `Late by ${latenessInfo.minutesLate} minutes` : undefined
+    };
+  }
+
+  /**
+   * Links each ETA to the same person's next IN that day and folds the IN into it, so lateness is
+   * charged from the actual arrival rather than from when the ETA was posted. An ETA with no IN
+   * after it is a suspected no-show, except on holidays when nobody is expected.
+   */
+  private reconcileEtaEntries(entries: ParsedAttendanceEntry[], date: string, isHoliday: boolean): ParsedAttendanceEntry[] {
+    const followUps = new Set<number>();
+
+    const reconciled = entries.map((entry, index) => {
+      if (entry.status !== 'eta_delayed' || !entry.employee_id) return entry;
+
+      const followUpIndex = entries.findIndex((other, otherIndex) =>
+        otherIndex > index &&
+        !followUps.has(otherIndex) &&
+        other.employee_id === entry.employee_id &&
+        other.status === 'check_in' &&
+        !!other.check_in_time &&
+        !this.isBefore(other.check_in_time, entry.check_in_time)
+      );
+      if (followUpIndex === -1) {
+        return isHoliday ? entry : this.applyEtaArrival(entry, date, undefined);
+      }
+
+      followUps.add(followUpIndex);
+      return this.applyEtaArrival(entry, date, entries[followUpIndex].check_in_time);
+    });
+
+    return reconciled.filter((_, index) => !followUps.has(index));
+  }
+
+  private applyEtaArrival(entry: ParsedAttendanceEntry, date: string, arrivalTime?: string): ParsedAttendanceEntry {
+    if (!arrivalTime) {
+      return {
+        ...entry,
+        arrival_time: undefined,
+        eta_variance_minutes: undefined,
+        suspected_no_show: true,
+        is_late: false,
+        minutes_late: 0,
+        day_rate_applicable: false,
+        deduction_amount: 0,
+        deduction_reason: undefined
+      };
+    }
+
+    const employee = this.employees.find(emp => emp.id === entry.employee_id);
+    const latenessInfo = this.calculateLateness(date, arrivalTime, employee, entry.status);
+
+    return {
+      ...entry,
+      arrival_time: arrivalTime,
+      eta_variance_minutes: this.getEtaVariance(entry, arrivalTime),
+      suspected_no_show: undefined,
+      is_late: latenessInfo.isLate,
+      minutes_late: latenessInfo.minutesLate,
+      day_rate_applicable: true,
+      deduction_amount: this.calculateDeductions(entry.status, latenessInfo, date, employee),
+      deduction_reason: latenessInfo.isLate ? `Late by ${latenessInfo.minutesLate} minutes` : undefined
+    };
+  }
+
+  // Minutes between the promised and actual arrival; "ETA 1:30" posted at 11:50 AM means 1:30 PM
+  private getEtaVariance(entry: ParsedAttendanceEntry, arrivalTime: string): number | undefined {
+    const arrival = parseClockTime(arrivalTime);
+    const posted = entry.check_in_time ? parseClockTime(entry.check_in_time) : null;
+    let eta = entry.eta_time ? parseClockTime(entry.eta_time) : null;
+    if (arrival === null || eta === null) return undefined;
+
+    if (!/[AP]M/i.test(entry.eta_time!) && posted !== null && eta < posted && eta < 12 * 60) {
+      eta += 12 * 60;
+    }
+    return arrival - eta;
+  }
+
+  private isBefore(time: string, other?: string): boolean {
+    const minutes = parseClockTime(time);
+    const otherMinutes = other ? parseClockTime(other) : null;
+    return minutes !== null && otherMinutes !== null && minutes < otherMinutes;
+  }
+
   private extractDate(text: string): string | null {
     const match = text.match(this.datePattern);
     if (match) {
@@ -56,20 +215,75 @@ export class SlackAttendanceTextParser {
     return null;
   }
 
+  private splitIntoDays(text: string, today: string): { date: string; text: string }[] {
+    const days = new Map<string, string[]>();
+    const leading: string[] = [];
+    let current: string[] = leading;
+
+    text.split('\n').forEach(line => {
+      const date = this.extractDayHeader(line.trim(), today);
+      if (!date) {
+        current.push(line);
+        return;
+      }
+      if (!days.has(date)) days.set(date, []);
+      current = days.get(date)!;
+    });
+
+    if (days.size === 0) {
+      return [{ date: today, text }];
+    }
+
+    const [firstDate] = days.keys();
+    days.get(firstDate)!.unshift(...leading);
+
+    const parsed = Array.from(days.entries())
+      .map(([date, lines]) => ({ date, text: lines.join('\n') }))
+      .filter(day => day.text.trim().length > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return parsed.length > 0 ? parsed : [{ date: firstDate, text: '' }];
+  }
+
+  // The date a header line starts, or null when the line is not a header
+  private extractDayHeader(line: string, today: string): string | null {
+    const startDate = line.match(this.datePattern);
+    if (startDate && startDate.index === 0) {
+      return this.extractDate(line);
+    }
+
+    const divider = line.match(this.dayDividerPattern);
+    if (!divider) return null;
+
+    const [, relative, monthName, day, year] = divider;
+    if (relative) {
+      return relative.toLowerCase() === 'today' ? today : addDaysToDateKey(today, -1);
+    }
+
+    const month = MONTH_NAMES.indexOf(monthName.toLowerCase()) + 1;
+    if (month === 0 || Number(day) < 1 || Number(day) > 31) return null;
+
+    // Without a year Slack means the current one; a date later than today must be from last year
+    const monthDay = `${String(month).padStart(2, '0')}-${day.padStart(2, '0')}`;
+    if (year) return `${year}-${monthDay}`;
+    const thisYear = `${today.slice(0, 4)}-${monthDay}`;
+    return thisYear <= today ? thisYear : `${Number(today.slice(0, 4)) - 1}-${monthDay}`;
+  }
+
   private splitIntoEmployeeSections(text: string): string[] {
     // Remove the header line and split by double newlines or employee patterns
     const cleanText = text.replace(/start\s+date[^\n]*\n/i, '');
     
-    // Split by employee name patterns (names followed by time or status)
+    // Split by employee name patterns (names followed by time or status); an "ETA 10:15" line
+    // belongs to the person above it
     const sections = cleanText
-      .split(/\n(?=\w+.*(?:\[?\d{1,2}:\d{2}|IN|OUT|WFH|ETA))/i)
+      .split(/\n(?!\s*ETA\b)(?=\w+.*(?:\[?\d{1,2}:\d{2}|IN|OUT|WFH|ETA))/i)
       .filter(section => section.trim().length > 0)
       .map(section => section.trim());
 
     return sections;
   }
 
-  private parseEmployeeSection(section: string): ParsedAttendanceEntry | null {
+  private parseEmployeeSection(section: string, date: string): ParsedAttendanceEntry | null {
     if (!section.trim()) return null;
 
     const lines = section.split('\n').map(line => line.trim()).filter(Boolean);
@@ -86,12 +300,14 @@ export class SlackAttendanceTextParser {
     // Determine status
     const status = this.determineAttendanceStatus(section);
     
-    // Match employee
-    const employee = this.matchEmployeeName(rawName);
-    const confidenceScore = employee ? this.calculateNameMatchScore(rawName, employee.name) : 0;
+    // Match employee; a name that fits several people equally well is left for the user to resolve
+    const candidates = rankEmployeeMatches(rawName, this.employees);
+    const bestMatch = pickBestMatch(candidates);
+    const employee = bestMatch ? this.employees.find(emp => emp.id === bestMatch.employee_id) || null : null;
+    const confidenceScore = bestMatch ? bestMatch.score : 0;
 
     // Calculate lateness
-    const latenessInfo = this.calculateLateness(checkInTime, employee || undefined, status);
+    const latenessInfo = this.calculateLateness(date, checkInTime, employee || undefined, status);
 
     return {
       raw_name: rawName,
@@ -102,134 +318,57 @@ export class SlackAttendanceTextParser {
       minutes_late: latenessInfo.minutesLate,
       confidence_score: confidenceScore,
       day_rate_applicable: this.isDayRateApplicable(status),
-      deduction_amount: this.calculateDeductions(status, latenessInfo.minutesLate),
+      deduction_amount: this.calculateDeductions(status, latenessInfo, date, employee || undefined),
       deduction_reason: latenessInfo.isLate ? `Late by ${latenessInfo.minutesLate} minutes` : undefined,
       eta_time: this.extractETATime(section),
-      approval_code: this.extractApprovalCode(section)
+      approval_code: this.extractApprovalCode(section),
+      candidates,
+      ...(isAmbiguousMatch(candidates) && { is_ambiguous: true })
     };
   }
 
   private determineAttendanceStatus(section: string): AttendanceStatus {
-    if (this.statusPatterns.approved_out.test(section)) return 'approved_out';
-    if (this.statusPatterns.work_from_home.test(section)) return 'work_from_home';
-    if (this.statusPatterns.eta_delayed.test(section)) return 'eta_delayed';
-    if (this.statusPatterns.check_in.test(section)) return 'check_in';
-    return 'unknown';
-  }
-
-  private matchEmployeeName(rawName: string): Employee | null {
-    // Exact match first
-    const exactMatch = this.employees.find(emp => 
-      emp.name.toLowerCase() === rawName.toLowerCase()
-    );
-    if (exactMatch) return exactMatch;
-
-    // Fuzzy match by checking if employee name contains or is contained in raw name
-    const fuzzyMatch = this.employees.find(emp => {
-      const empName = emp.name.toLowerCase();
-      const raw = rawName.toLowerCase();
-      
-      // Check if names match when removing common suffixes/prefixes
-      const cleanEmpName = empName.replace(/\s+(jr|sr|iii?|iv)\b/g, '').trim();
-      const cleanRawName = raw.replace(/\s+(jr|sr|iii?|iv)\b/g, '').trim();
-      
-      return cleanEmpName.includes(cleanRawName) || 
-             cleanRawName.includes(cleanEmpName) ||
-             this.calculateLevenshteinDistance(cleanEmpName, cleanRawName) <= 2;
-    });
-
-    return fuzzyMatch || null;
-  }
-
-  private calculateNameMatchScore(rawName: string, employeeName: string): number {
-    const raw = rawName.toLowerCase();
-    const emp = employeeName.toLowerCase();
-    
-    if (raw === emp) return 1.0;
-    
-    const distance = this.calculateLevenshteinDistance(raw, emp);
-    const maxLength = Math.max(raw.length, emp.length);
-    
-    return Math.max(0, 1 - (distance / maxLength));
-  }
-
-  private calculateLevenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i += 1) {
-      matrix[0][i] = i;
-    }
-
-    for (let j = 0; j <= str2.length; j += 1) {
-      matrix[j][0] = j;
-    }
-
-    for (let j = 1; j <= str2.length; j += 1) {
-      for (let i = 1; i <= str1.length; i += 1) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // deletion
-          matrix[j - 1][i] + 1, // insertion
-          matrix[j - 1][i - 1] + indicator // substitution
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
+    return findVocabularyMatch(section, this.vocabulary, 'slack_text')?.status || 'unknown';
   }
 
-  private calculateLateness(checkInTime?: string, employee?: Employee, status?: AttendanceStatus): { isLate: boolean; minutesLate: number } {
-    if (!checkInTime || status === 'approved_out' || status === 'work_from_home') {
+  private calculateLateness(date: string, checkInTime?: string, employee?: Employee, status?: AttendanceStatus): { isLate: boolean; minutesLate: number } {
+    if (!checkInTime || status === 'approved_out' || status === 'work_from_home' || status === 'check_out') {
       return { isLate: false, minutesLate: 0 };
     }
 
-    const employeeWithSettings = employee as EmployeeWithSettings;
-    const startTime = employeeWithSettings?.start_time || this.defaultSettings.default_start_time;
-    const gracePeriod = employeeWithSettings?.grace_period_minutes || this.defaultSettings.grace_period_minutes;
-
-    try {
-      const checkIn = this.parseTime(checkInTime);
-      const start = this.parseTime(startTime);
-      
-      const diffMinutes = (checkIn.getTime() - start.getTime()) / (1000 * 60);
-      const minutesLate = Math.max(0, diffMinutes - gracePeriod);
-      
-      return {
-        isLate: minutesLate > 0,
-        minutesLate: Math.round(minutesLate)
-      };
-    } catch (error) {
+    // Both times are read on the attendance date in the employee's timezone
+    const checkIn = getClockTimeInstant(date, checkInTime, employee, this.defaultSettings);
+    if (!checkIn) {
       return { isLate: false, minutesLate: 0 };
     }
-  }
 
-  private parseTime(timeStr: string): Date {
-    const today = new Date();
-    const [time, period] = timeStr.toUpperCase().split(/\s*(AM|PM)/);
-    const [hours, minutes] = time.split(':').map(Number);
-    
-    let hour24 = hours;
-    if (period === 'PM' && hours !== 12) hour24 += 12;
-    if (period === 'AM' && hours === 12) hour24 = 0;
-    
-    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate(), hour24, minutes);
-    return date;
+    const minutesLate = calculateMinutesLate(checkIn, date, employee, this.defaultSettings);
+    return {
+      isLate: minutesLate > 0,
+      minutesLate
+    };
   }
 
   private isDayRateApplicable(status: AttendanceStatus): boolean {
     return status !== 'no_show';
   }
 
-  private calculateDeductions(status: AttendanceStatus, minutesLate: number): number {
+  private calculateDeductions(
+    status: AttendanceStatus,
+    lateness: { isLate: boolean; minutesLate: number },
+    date: string,
+    employee?: Employee
+  ): number {
     if (status === 'no_show') return 1.0; // 100% deduction
-    if (status === 'approved_out' || status === 'work_from_home') return 0; // No deduction
-    
-    // Late penalty (configurable per minute)
-    return minutesLate * this.defaultSettings.late_penalty_per_minute;
+    if (status === 'approved_out' || status === 'work_from_home' || status === 'check_out' || !employee) return 0; // No deduction
+
+    // Same tardiness policy as payroll calculation; a pasted check-in has no check-out, so no undertime
+    const rates = getDayRates(getRateChangeOnDate(employee, date), date, this.payrollRules);
+    return calculateTardinessDeductions({ is_late: lateness.isLate, minutes_late: lateness.minutesLate }, rates, this.tardiness).late;
   }
 
   private extractETATime(section: string): string | undefined {
-    const match = section.match(this.statusPatterns.eta_delayed);
+    const match = section.match(this.etaPattern);
     return match ? match[1] : undefined;
   }
 
@@ -251,7 +390,12 @@ export class SlackAttendanceTextParser {
     const errors: string[] = [];
     
     entries.forEach(entry => {
-      if (!entry.employee_id && entry.raw_name) {
+      if (entry.is_ambiguous) {
+        const names = entry.candidates
+          .filter(candidate => entry.candidates[0].score - candidate.score < AMBIGUOUS_MATCH_MARGIN)
+          .map(candidate => candidate.employee_name);
+        errors.push(`Ambiguous name: ${entry.raw_name} could be ${names.join(' or ')}`);
+      } else if (!entry.employee_id && entry.raw_name) {
         errors.push(`Unknown employee: ${entry.raw_name}`);
       }
       
@@ -271,6 +415,7 @@ export class SlackAttendanceTextParser {
       work_from_home: entries.filter(e => e.status === 'work_from_home').length,
       late_arrivals: entries.filter(e => e.is_late).length,
       no_shows: noShowEmployees.length,
+      suspected_no_shows: entries.filter(e => e.suspected_no_show).length,
       unmatched: entries.filter(e => !e.employee_id).length,
       total_deductions: entries.reduce((sum, e) => sum + e.deduction_amount, 0)
     };
@@ -0,0 +1,165 @@
+import {
+  AttendanceSettings,
+  Employee,
+  EmployeeFormData,
+  SlackExport,
+  SlackExportChannel,
+  SlackExportMessage,
+  SlackExportUser,
+  SlackMessage,
+  SlackUserMatch
+} from '../types';
+import { DEFAULT_ATTENDANCE_SETTINGS, resolveAttendanceSettings } from './attendanceSettings';
+import { getZonedDateString } from './timezone';
+import { readZipTextFiles } from './zipArchive';
+
+const DAY_FILE_PATTERN = /^([^/]+)\/(\d{4}-\d{2}-\d{2})\.json$/;
+
+// Thread replies also sent to the channel; other subtypes are joins, bots and system notices
+const IMPORTED_SUBTYPES = ['thread_broadcast'];
+
+/**
+ * Reads a Slack workspace export zip: users.json, channels.json (and groups.json for private
+ * channels), and one folder per channel holding a JSON file of messages per day. The export may
+ * sit inside a top-level folder.
+ */
+export async function readSlackExport(buffer: ArrayBuffer): Promise<SlackExport> {
+  const files = await readZipTextFiles(buffer, name => name.endsWith('.json'));
+  const usersPath = Array.from(files.keys()).find(name => name === 'users.json' || name.endsWith('/users.json'));
+  if (!usersPath) {
+    throw new Error('No users.json found. Is this a Slack workspace export?');
+  }
+
+  const root = usersPath.slice(0, usersPath.length - 'users.json'.length);
+  const users = parseJsonFile<SlackExportUser[]>(files, `${root}users.json`) || [];
+  const channels = [
+    ...(parseJsonFile<SlackExportChannel[]>(files, `${root}channels.json`) || []),
+    ...(parseJsonFile<SlackExportChannel[]>(files, `${root}groups.json`) || []).map(channel => ({ ...channel, is_private: true }))
+  ];
+
+  const messages: Record<string, SlackExportMessage[]> = {};
+  files.forEach((_, path) => {
+    if (!path.startsWith(root)) return;
+    const match = path.slice(root.length).match(DAY_FILE_PATTERN);
+    if (!match) return;
+
+    const dayMessages = parseJsonFile<SlackExportMessage[]>(files, path) || [];
+    messages[match[1]] = [...(messages[match[1]] || []), ...dayMessages];
+  });
+  Object.values(messages).forEach(list => list.sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts)));
+
+  return { users, channels, messages };
+}
+
+// Channels that have messages, busiest first
+export function getExportChannels(slackExport: SlackExport): { name: string; message_count: number; is_private: boolean }[] {
+  return Object.entries(slackExport.messages)
+    .map(([name, messages]) => ({
+      name,
+      message_count: messages.length,
+      is_private: !!slackExport.channels.find(channel => channel.name === name)?.is_private
+    }))
+    .sort((a, b) => b.message_count - a.message_count || a.name.localeCompare(b.name));
+}
+
+// The channel to preselect: one named like "attendance", otherwise the busiest
+export function suggestAttendanceChannel(slackExport: SlackExport): string | undefined {
+  const channels = getExportChannels(slackExport);
+  return (channels.find(channel => /attendance/i.test(channel.name)) || channels[0])?.name;
+}
+
+/**
+ * Converts a channel's messages into the SlackMessage shape the attendance parsers read, dating
+ * each by the wall clock in the poster's timezone. Edit and thread details are carried over;
+ * join, leave, bot and other system messages are skipped.
+ */
+export function convertSlackExportMessages(
+  messages: SlackExportMessage[],
+  employees: Employee[],
+  settings: AttendanceSettings = DEFAULT_ATTENDANCE_SETTINGS
+): SlackMessage[] {
+  const employeeMap = new Map(employees.map(emp => [emp.slack_user_id, emp]));
+
+  return messages
+    .filter(isPersonMessage)
+    .map(message => {
+      const timeZone = resolveAttendanceSettings(employeeMap.get(message.user!), settings).timezone;
+      return {
+        user: message.user!,
+        text: message.text || '',
+        ts: message.ts,
+        date: getZonedDateString(new Date(parseFloat(message.ts) * 1000), timeZone),
+        ...(message.subtype && { subtype: message.subtype }),
+        ...(message.edited && { edited: message.edited }),
+        ...(message.thread_ts && { thread_ts: message.thread_ts })
+      };
+    });
+}
+
+// Lines up everyone who posted in the channel with the staff list, most active first
+export function matchSlackUsers(
+  users: SlackExportUser[],
+  employees: Employee[],
+  messages: SlackExportMessage[]
+): SlackUserMatch[] {
+  const counts = new Map<string, number>();
+  messages
+    .filter(isPersonMessage)
+    .forEach(message => counts.set(message.user!, (counts.get(message.user!) || 0) + 1));
+
+  return users
+    .filter(user => !user.is_bot && counts.has(user.id))
+    .map(user => ({ user, message_count: counts.get(user.id)!, ...findEmployee(user, employees) }))
+    .sort((a, b) => b.message_count - a.message_count);
+}
+
+export function getSlackUserName(user: SlackExportUser): string {
+  return user.profile?.real_name || user.real_name || user.profile?.display_name || user.name;
+}
+
+// A new employee for a Slack user; their Slack timezone becomes an override when it differs
+export function slackUserToEmployeeForm(user: SlackExportUser, hourlyRate: string, workspaceTimeZone: string): EmployeeFormData {
+  return {
+    name: getSlackUserName(user).slice(0, 50),
+    email: user.profile?.email || '',
+    slack_user_id: user.id,
+    hourly_rate: hourlyRate,
+    compensation_type: 'hourly',
+    notes: 'Imported from Slack export',
+    timezone: user.tz && user.tz !== workspaceTimeZone ? user.tz : ''
+  };
+}
+
+function isPersonMessage(message: SlackExportMessage): boolean {
+  return !!message.user && (!message.subtype || IMPORTED_SUBTYPES.includes(message.subtype));
+}
+
+function findEmployee(user: SlackExportUser, employees: Employee[]): Pick<SlackUserMatch, 'employee' | 'match_type'> {
+  const bySlackId = employees.find(emp => emp.slack_user_id === user.id);
+  if (bySlackId) return { employee: bySlackId, match_type: 'slack_id' };
+
+  const email = user.profile?.email?.toLowerCase();
+  const byEmail = email ? employees.find(emp => emp.email.toLowerCase() === email) : undefined;
+  if (byEmail) return { employee: byEmail, match_type: 'email' };
+
+  const names = [user.profile?.real_name, user.real_name, user.profile?.display_name, user.name]
+    .filter((name): name is string => !!name)
+    .map(name => name.trim().toLowerCase());
+  const byName = employees.find(emp =>
+    [emp.name, ...(emp.aliases || [])].some(name => names.includes(name.trim().toLowerCase()))
+  );
+  if (byName) return { employee: byName, match_type: 'name' };
+
+  return {};
+}
+
+function parseJsonFile<T>(files: Map<string, string>, path: string): T | null {
+  const content = files.get(path);
+  if (content === undefined) return null;
+
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    throw new Error(`${path} is not valid JSON: ${(error as Error).message}`);
+  }
+}
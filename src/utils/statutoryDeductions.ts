@@ -0,0 +1,133 @@
+import {
+  PayPeriodRange,
+  StatutoryDeductions,
+  StatutoryTables,
+  WithholdingTaxBracket
+} from '../types';
+import statutoryTablesData from '../data/statutory-tables.json';
+import { roundCents } from './money';
+
+export const STATUTORY_TABLES: StatutoryTables = statutoryTablesData;
+
+export const EMPTY_STATUTORY_DEDUCTIONS: StatutoryDeductions = {
+  sss_employee: 0,
+  sss_employer: 0,
+  philhealth_employee: 0,
+  philhealth_employer: 0,
+  pagibig_employee: 0,
+  pagibig_employer: 0,
+  withholding_tax: 0,
+  total_employee: 0,
+  total_employer: 0
+};
+
+/**
+ * Computes SSS, PhilHealth, Pag-IBIG and BIR withholding tax for one pay period.
+ * Contributions are monthly obligations, so the period's compensation is scaled up to a
+ * monthly equivalent, looked up in the tables in effect on the period start, and the
+ * resulting monthly amounts are scaled back down to the period's share of the month.
+ */
+export function calculateStatutoryDeductions(
+  periodCompensation: number,
+  period: PayPeriodRange,
+  tables: StatutoryTables = STATUTORY_TABLES
+): StatutoryDeductions {
+  if (periodCompensation <= 0) {
+    return { ...EMPTY_STATUTORY_DEDUCTIONS };
+  }
+
+  const share = getMonthlyPeriodShare(period);
+  const monthlyCompensation = periodCompensation / share;
+
+  const sss = getEffectiveTable(tables.sss, period.start);
+  const philhealth = getEffectiveTable(tables.philhealth, period.start);
+  const pagibig = getEffectiveTable(tables.pagibig, period.start);
+  const tax = getEffectiveTable(tables.withholding_tax, period.start);
+
+  let monthly = { ...EMPTY_STATUTORY_DEDUCTIONS };
+
+  if (sss) {
+    const salaryCredit = Math.min(
+      sss.max_salary_credit,
+      Math.max(
+        sss.min_salary_credit,
+        Math.floor((monthlyCompensation + sss.salary_credit_step / 2) / sss.salary_credit_step) * sss.salary_credit_step
+      )
+    );
+    const ec = salaryCredit < sss.ec_threshold ? sss.ec_low : sss.ec_high;
+    monthly.sss_employee = salaryCredit * sss.employee_rate;
+    monthly.sss_employer = salaryCredit * sss.employer_rate + ec;
+  }
+
+  if (philhealth) {
+    const base = Math.min(philhealth.income_ceiling, Math.max(philhealth.income_floor, monthlyCompensation));
+    const premium = base * philhealth.premium_rate;
+    monthly.philhealth_employee = premium * philhealth.employee_share;
+    monthly.philhealth_employer = premium - monthly.philhealth_employee;
+  }
+
+  if (pagibig) {
+    const fundSalary = Math.min(pagibig.max_fund_salary, monthlyCompensation);
+    const employeeRate = monthlyCompensation <= pagibig.low_income_threshold
+      ? pagibig.employee_rate_low
+      : pagibig.employee_rate;
+    monthly.pagibig_employee = fundSalary * employeeRate;
+    monthly.pagibig_employer = fundSalary * pagibig.employer_rate;
+  }
+
+  if (tax) {
+    // Mandatory employee contributions are excluded from taxable compensation
+    const taxableCompensation = monthlyCompensation
+      - monthly.sss_employee
+      - monthly.philhealth_employee
+      - monthly.pagibig_employee;
+    monthly.withholding_tax = calculateWithholdingTax(taxableCompensation, tax.brackets);
+  }
+
+  monthly = {
+    ...monthly,
+    sss_employee: roundCents(monthly.sss_employee * share),
+    sss_employer: roundCents(monthly.sss_employer * share),
+    philhealth_employee: roundCents(monthly.philhealth_employee * share),
+    philhealth_employer: roundCents(monthly.philhealth_employer * share),
+    pagibig_employee: roundCents(monthly.pagibig_employee * share),
+    pagibig_employer: roundCents(monthly.pagibig_employer * share),
+    withholding_tax: roundCents(monthly.withholding_tax * share)
+  };
+
+  return {
+    ...monthly,
+    total_employee: roundCents(
+      monthly.sss_employee + monthly.philhealth_employee + monthly.pagibig_employee + monthly.withholding_tax
+    ),
+    total_employer: roundCents(monthly.sss_employer + monthly.philhealth_employer + monthly.pagibig_employer)
+  };
+}
+
+export function calculateWithholdingTax(monthlyTaxableCompensation: number, brackets: WithholdingTaxBracket[]): number {
+  const bracket = [...brackets]
+    .sort((a, b) => b.over - a.over)
+    .find(b => monthlyTaxableCompensation > b.over);
+
+  if (!bracket) return 0;
+  return bracket.base_tax + (monthlyTaxableCompensation - bracket.over) * bracket.rate;
+}
+
+// Picks the latest table version whose effective_from is on or before the given date
+export function getEffectiveTable<T extends { effective_from: string }>(versions: T[], date: string): T | undefined {
+  return versions
+    .filter(version => version.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+}
+
+// Fraction of a month covered by the period, e.g. 0.5 for the 1st-15th of a 30-day month
+export function getMonthlyPeriodShare(period: PayPeriodRange): number {
+  const [startYear, startMonth, startDay] = period.start.split('-').map(Number);
+  const [endYear, endMonth, endDay] = period.end.split('-').map(Number);
+  const start = Date.UTC(startYear, startMonth - 1, startDay);
+  const end = Date.UTC(endYear, endMonth - 1, endDay);
+  const periodDays = Math.round((end - start) / (1000 * 60 * 60 * 24)) + 1;
+  const daysInMonth = new Date(Date.UTC(startYear, startMonth, 0)).getUTCDate();
+
+  return Math.min(1, Math.max(periodDays, 1) / daysInMonth);
+}
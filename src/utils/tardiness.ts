@@ -0,0 +1,103 @@
+import { TardinessBracket, TardinessMode, TardinessPolicy, ValidationResult } from '../types';
+import { DayRates } from './compensation';
+import { roundCents } from './money';
+
+export const TARDINESS_MODE_LABELS: Record<TardinessMode, string> = {
+  flat: 'Flat amount per late day',
+  per_minute: 'Per minute at the employee\'s rate',
+  tiered: 'Tiered brackets at the employee\'s rate'
+};
+
+export const DEFAULT_TARDINESS_POLICY: TardinessPolicy = {
+  mode: 'flat',
+  flat_amount: 10,
+  brackets: [
+    { from_minutes: 1, to_minutes: 15, charged_minutes: 15 },
+    { from_minutes: 16, to_minutes: 30, charged_minutes: 30 },
+    { from_minutes: 31, to_minutes: 60, charged_minutes: 60 }
+  ],
+  include_undertime: false
+};
+
+// Minutes charged for a late arrival or early departure; minutes outside every bracket are charged as is
+export function getChargedMinutes(minutes: number, policy: TardinessPolicy): number {
+  if (minutes <= 0) return 0;
+  if (policy.mode !== 'tiered') return minutes;
+
+  const bracket = policy.brackets.find(entry => minutes >= entry.from_minutes && minutes <= entry.to_minutes);
+  return bracket ? bracket.charged_minutes : minutes;
+}
+
+/**
+ * One day's tardiness and undertime deductions. Shared by payroll calculation and the pasted
+ * Slack text preview so both charge a late day the same way. Hourly staff are only paid for the
+ * hours they worked, so the minutes they missed are already unpaid; they are charged just the
+ * penalty minutes a bracket adds on top.
+ */
+export function calculateTardinessDeductions(
+  day: { is_late: boolean; minutes_late?: number; minutes_undertime?: number },
+  rates: DayRates,
+  policy: TardinessPolicy
+): { late: number; undertime: number } {
+  if (policy.mode === 'flat') {
+    return { late: day.is_late ? policy.flat_amount : 0, undertime: 0 };
+  }
+
+  const perMinute = rates.hourly_rate / 60;
+  const charge = (minutes: number) => {
+    const charged = getChargedMinutes(minutes, policy);
+    return (rates.compensation_type === 'hourly' ? charged - Math.max(0, minutes) : charged) * perMinute;
+  };
+  const late = day.is_late ? charge(day.minutes_late || 0) : 0;
+  const undertime = policy.include_undertime ? charge(day.minutes_undertime || 0) : 0;
+  return { late: roundCents(late), undertime: roundCents(undertime) };
+}
+
+export function validateTardinessPolicy(policy: TardinessPolicy): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!(policy.mode in TARDINESS_MODE_LABELS)) {
+    errors.mode = 'Mode must be flat, per minute or tiered';
+  }
+
+  if (!Number.isFinite(policy.flat_amount) || policy.flat_amount < 0 || policy.flat_amount > 99999.99) {
+    errors.flat_amount = 'Flat amount must be between $0 and $99,999.99';
+  }
+
+  if (policy.mode === 'tiered') {
+    const bracketError = validateBrackets(policy.brackets);
+    if (bracketError) {
+      errors.brackets = bracketError;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+function validateBrackets(brackets: TardinessBracket[]): string | null {
+  if (brackets.length === 0) {
+    return 'Add at least one bracket';
+  }
+
+  const isWhole = (value: number) => Number.isInteger(value) && value >= 0;
+  for (const bracket of brackets) {
+    if (!isWhole(bracket.from_minutes) || !isWhole(bracket.to_minutes) || !isWhole(bracket.charged_minutes)) {
+      return 'Bracket minutes must be whole numbers';
+    }
+    if (bracket.from_minutes < 1 || bracket.to_minutes < bracket.from_minutes) {
+      return `Bracket ${bracket.from_minutes}–${bracket.to_minutes} min must start at 1 or more and end after it starts`;
+    }
+  }
+
+  const ordered = [...brackets].sort((a, b) => a.from_minutes - b.from_minutes);
+  for (let i = 1; i < ordered.length; i++) {
+    if (ordered[i].from_minutes <= ordered[i - 1].to_minutes) {
+      return `Brackets ${ordered[i - 1].from_minutes}–${ordered[i - 1].to_minutes} and ${ordered[i].from_minutes}–${ordered[i].to_minutes} min overlap`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,131 @@
+import { Employee, PayrollAdjustment, PayrollRun, PayrollSummary, ThirteenthMonthAccrual } from '../types';
+import { isRunLocked } from './payrollRuns';
+import { createEmptySummary } from './payrollCalculator';
+import { roundCents } from './money';
+
+// Basic pay is regular pay only: overtime, premiums and adjustments do not count toward 13th month,
+// and late and offline deductions do not reduce it
+export function getBasicPay(summary: PayrollSummary, year: number): number {
+  return (summary.daily_breakdown || [])
+    .filter(day => day.date.startsWith(`${year}-`))
+    .reduce((sum, day) => sum + day.regular_pay, 0);
+}
+
+// Basic pay an employee was paid in locked runs during the calendar year
+export function getBasicPayFromRuns(employeeId: string, runs: PayrollRun[], year: number): number {
+  return getLockedSummaries(employeeId, runs).reduce((sum, summary) => sum + getBasicPay(summary, year), 0);
+}
+
+// 13th month pay for the year already paid in locked payout or final pay runs
+export function getThirteenthMonthPaid(employeeId: string, runs: PayrollRun[], year: number): number {
+  return getLockedSummaries(employeeId, runs)
+    .flatMap(summary => summary.adjustments || [])
+    .filter(adjustment => adjustment.source === 'thirteenth_month' && adjustment.apply_from.startsWith(`${year}-`))
+    .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+}
+
+// One twelfth of the basic pay earned in the year so far
+export function calculateProratedThirteenthMonth(basicPay: number): number {
+  return roundCents(basicPay / 12);
+}
+
+// Every employee with basic pay or a 13th month payout in the year. Employees who joined or left
+// mid-year accrue only on what they earned, so partial years need no special handling.
+export function getThirteenthMonthAccruals(
+  employees: Employee[],
+  runs: PayrollRun[],
+  year: number
+): ThirteenthMonthAccrual[] {
+  return employees
+    .map(employee => {
+      const paidDates = getLockedSummaries(employee.id, runs)
+        .flatMap(summary => summary.daily_breakdown || [])
+        .filter(day => day.date.startsWith(`${year}-`) && day.regular_pay > 0)
+        .map(day => day.date)
+        .sort();
+      const basicPay = roundCents(getBasicPayFromRuns(employee.id, runs, year));
+      const thirteenthMonthPay = calculateProratedThirteenthMonth(basicPay);
+      const alreadyPaid = getThirteenthMonthPaid(employee.id, runs, year);
+
+      return {
+        employee_id: employee.id,
+        employee_name: employee.name,
+        employee_status: employee.status,
+        first_paid_date: paidDates[0],
+        last_paid_date: paidDates[paidDates.length - 1],
+        basic_pay: basicPay,
+        thirteenth_month_pay: thirteenthMonthPay,
+        already_paid: alreadyPaid,
+        balance: Math.max(0, roundCents(thirteenthMonthPay - alreadyPaid))
+      };
+    })
+    .filter(accrual => accrual.basic_pay > 0 || accrual.already_paid > 0)
+    .sort((a, b) => a.employee_name.localeCompare(b.employee_name));
+}
+
+// Payout summaries holding only the 13th month balance. No attendance is priced, so late and
+// offline deductions and statutory contributions never touch the amount.
+export function buildThirteenthMonthSummaries(
+  accruals: ThirteenthMonthAccrual[],
+  employees: Employee[],
+  year: number,
+  now: Date = new Date()
+): PayrollSummary[] {
+  return accruals
+    .filter(accrual => accrual.balance > 0)
+    .flatMap(accrual => {
+      const employee = employees.find(candidate => candidate.id === accrual.employee_id);
+      if (!employee) return [];
+
+      const line: PayrollAdjustment = {
+        id: `13th_${year}_${employee.id}`,
+        employee_id: employee.id,
+        type: 'earning',
+        amount: accrual.balance,
+        label: `13th month pay (${year})`,
+        source: 'thirteenth_month',
+        apply_from: `${year}-12-31`,
+        created_at: now.toISOString()
+      };
+
+      return [{
+        ...createEmptySummary(employee),
+        adjustments: [line],
+        adjustment_earnings: line.amount,
+        adjustment_deductions: 0,
+        net_pay: line.amount
+      }];
+    });
+}
+
+export function exportThirteenthMonthCSV(accruals: ThirteenthMonthAccrual[]): string {
+  const headers = [
+    'Employee Name',
+    'Status',
+    'First Paid Day',
+    'Last Paid Day',
+    'Basic Pay',
+    '13th Month Pay',
+    'Already Paid',
+    'Balance'
+  ];
+
+  const rows = accruals.map(accrual => [
+    accrual.employee_name,
+    accrual.employee_status,
+    accrual.first_paid_date || '',
+    accrual.last_paid_date || '',
+    `$${accrual.basic_pay.toFixed(2)}`,
+    `$${accrual.thirteenth_month_pay.toFixed(2)}`,
+    `$${accrual.already_paid.toFixed(2)}`,
+    `$${accrual.balance.toFixed(2)}`
+  ]);
+
+  return [headers, ...rows].map(row => row.join(',')).join('\n');
+}
+
+function getLockedSummaries(employeeId: string, runs: PayrollRun[]): PayrollSummary[] {
+  return runs
+    .filter(isRunLocked)
+    .flatMap(run => run.summaries.filter(summary => summary.employee.id === employeeId));
+}
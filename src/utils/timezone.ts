@@ -0,0 +1,129 @@
+// Wall-clock helpers for IANA timezones, built on Intl so results don't depend on the
+// timezone of the machine running payroll
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+// The YYYY-MM-DD calendar date of the instant in the given timezone
+export function getZonedDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return formatDateKey(year, month, day);
+}
+
+// Minutes the timezone is ahead of UTC at the given instant, e.g. 480 for Asia/Manila
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant at which the wall clock in timeZone reads `minutesOfDay` past midnight on dateKey
+export function zonedDateTimeToUtc(dateKey: string, minutesOfDay: number, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000;
+
+  // Re-check the offset at the first guess so times near a DST transition resolve correctly
+  return new Date(wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
+
+/**
+ * Parses a clock time such as "10:00 AM", "9:05pm" or "21:30" into minutes past midnight.
+ * Returns null when the string is not a valid time.
+ */
+export function parseClockTime(time: string): number | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const period = match[3]?.toUpperCase();
+
+  if (minutes > 59) return null;
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+// YYYY-MM-DD for a Date's local calendar day; used for dates built with the local Date constructor
+export function toDateKey(date: Date): string {
+  return formatDateKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+// Local midnight on the given YYYY-MM-DD date
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function formatDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
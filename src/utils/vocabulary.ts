@@ -0,0 +1,120 @@
+import { AttendanceEventType, AttendanceStatus, ValidationResult, VocabularyEntry, VocabularyMatchType, VocabularyScope } from '../types';
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  check_in: 'Check In',
+  check_out: 'Check Out',
+  approved_out: 'Approved Out',
+  work_from_home: 'WFH',
+  eta_delayed: 'ETA Delayed',
+  no_show: 'No Show',
+  unknown: 'Unknown'
+};
+
+// Statuses a vocabulary entry can map to; no_show and unknown are what the parsers fall back to
+export const VOCABULARY_STATUSES: AttendanceStatus[] = ['check_in', 'check_out', 'approved_out', 'work_from_home', 'eta_delayed'];
+
+export const VOCABULARY_MATCH_LABELS: Record<VocabularyMatchType, string> = {
+  emoji: 'Emoji',
+  keyword: 'Word or phrase',
+  regex: 'Regular expression'
+};
+
+export const VOCABULARY_SCOPE_LABELS: Record<VocabularyScope, string> = {
+  all: 'Both parsers',
+  slack_text: 'Pasted text only',
+  slack_messages: 'Slack messages only'
+};
+
+// Reproduces the patterns the parsers used to hardcode, plus common Taglish check-ins and check-outs
+export const DEFAULT_VOCABULARY: VocabularyEntry[] = [
+  { id: 'vocab_approved_out', pattern: 'OUT\\s*-\\s*JSP\\s*Approved|Approved\\s*Leave|Sick\\s*Leave\\s*-\\s*Approved', match_type: 'regex', status: 'approved_out', scope: 'slack_text' },
+  { id: 'vocab_wfh', pattern: 'WFH|Work\\s*from\\s*Home|Remote', match_type: 'regex', status: 'work_from_home', scope: 'slack_text' },
+  { id: 'vocab_eta', pattern: 'ETA\\s*\\d{1,2}:\\d{2}', match_type: 'regex', status: 'eta_delayed', scope: 'slack_text' },
+  { id: 'vocab_in_emoji', pattern: ':in:', match_type: 'emoji', status: 'check_in', scope: 'all' },
+  { id: 'vocab_out_emoji', pattern: ':out:', match_type: 'emoji', status: 'check_out', scope: 'all' },
+  { id: 'vocab_in', pattern: 'in', match_type: 'keyword', status: 'check_in', scope: 'slack_text' },
+  { id: 'vocab_pasok', pattern: 'pasok', match_type: 'keyword', status: 'check_in', scope: 'all' },
+  { id: 'vocab_offline_muna', pattern: 'offline muna', match_type: 'keyword', status: 'check_out', scope: 'all' }
+];
+
+// Position of the first match in the text, or -1; an invalid regular expression never matches
+export function findPattern(text: string, pattern: string, matchType: VocabularyMatchType): number {
+  const lower = text.toLowerCase();
+  if (matchType === 'emoji') return lower.indexOf(pattern.toLowerCase());
+
+  const regex = matchType === 'keyword'
+    ? new RegExp(`\\b${escapeRegExp(pattern.toLowerCase())}\\b`)
+    : compileRegex(pattern);
+  const match = regex ? regex.exec(matchType === 'keyword' ? lower : text) : null;
+  return match ? match.index : -1;
+}
+
+// The highest-priority entry that applies to the parser and matches the text
+export function findVocabularyMatch(
+  text: string,
+  vocabulary: VocabularyEntry[],
+  scope: Exclude<VocabularyScope, 'all'>,
+  statuses: AttendanceStatus[] = VOCABULARY_STATUSES
+): VocabularyEntry | null {
+  return vocabulary.find(entry =>
+    (entry.scope === 'all' || entry.scope === scope) &&
+    statuses.includes(entry.status) &&
+    findPattern(text, entry.pattern, entry.match_type) !== -1
+  ) || null;
+}
+
+// Whether an imported Slack message checks in or out; other statuses do not pair into shifts
+export function getMessageEventType(text: string, vocabulary: VocabularyEntry[]): Extract<AttendanceEventType, 'in' | 'out'> | null {
+  const entry = findVocabularyMatch(text, vocabulary, 'slack_messages', ['check_in', 'check_out']);
+  if (!entry) return null;
+  return entry.status === 'check_in' ? 'in' : 'out';
+}
+
+// Text that the message parser reads as the status, for turning pasted text into messages
+export function getMessageMarker(status: 'check_in' | 'check_out', vocabulary: VocabularyEntry[]): string {
+  const entry = vocabulary.find(candidate =>
+    candidate.status === status && candidate.scope !== 'slack_text' && candidate.match_type !== 'regex' &&
+    getMessageEventType(candidate.pattern, vocabulary) === (status === 'check_in' ? 'in' : 'out')
+  );
+  return entry ? entry.pattern : status === 'check_in' ? ':in:' : ':out:';
+}
+
+export function validateVocabulary(vocabulary: VocabularyEntry[]): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  vocabulary.forEach(entry => {
+    if (!entry.pattern.trim()) {
+      errors[entry.id] = 'Pattern is required';
+    } else if (entry.match_type === 'regex' && !compileRegex(entry.pattern)) {
+      errors[entry.id] = `"${entry.pattern}" is not a valid regular expression`;
+    } else if (entry.match_type === 'emoji' && !/^:[^:\s]+:$/.test(entry.pattern.trim())) {
+      errors[entry.id] = 'Emoji must look like :name:';
+    } else if (!VOCABULARY_STATUSES.includes(entry.status)) {
+      errors[entry.id] = 'Choose the status this pattern means';
+    }
+  });
+
+  (['check_in', 'check_out'] as AttendanceStatus[]).forEach(status => {
+    const hasEntry = vocabulary.some(entry => entry.status === status && entry.scope !== 'slack_text');
+    if (!hasEntry) {
+      errors[status] = `Add at least one ${ATTENDANCE_STATUS_LABELS[status]} pattern for Slack messages`;
+    }
+  });
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+function compileRegex(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'im');
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
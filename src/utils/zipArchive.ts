@@ -0,0 +1,135 @@
+// Minimal zip reader for archives such as Slack workspace exports. Reads the central directory and
+// supports stored and deflated entries, inflating with the browser's DecompressionStream.
+// ZIP64 archives and encrypted entries are not supported.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Reads every file in the archive whose name passes `include` as UTF-8 text, keyed by its path
+ * inside the archive. Directories are skipped.
+ */
+export async function readZipTextFiles(
+  buffer: ArrayBuffer,
+  include: (name: string) => boolean = () => true
+): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder('utf-8');
+  const files = new Map<string, string>();
+
+  for (const entry of readCentralDirectory(view, bytes)) {
+    if (entry.name.endsWith('/') || !include(entry.name)) continue;
+
+    if (entry.flags & 0x1) {
+      throw new Error(`${entry.name} is encrypted`);
+    }
+
+    if (view.getUint32(entry.localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`${entry.name} has a damaged header`);
+    }
+    const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+    const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+    const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+    const data = bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) {
+      files.set(entry.name, decoder.decode(data));
+    } else if (entry.method === METHOD_DEFLATED) {
+      files.set(entry.name, decoder.decode(await inflateRaw(data)));
+    } else {
+      throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+    }
+  }
+
+  return files;
+}
+
+function readCentralDirectory(view: DataView, bytes: Uint8Array): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  const directoryOffset = view.getUint32(endOffset + 16, true);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The zip file is damaged');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// The end of central directory record sits at the very end, before an optional comment
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(0, view.byteLength - 22 - MAX_COMMENT_LENGTH);
+
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new Error('Not a zip file');
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  // Not awaited: the writes only settle once the output below is read
+  writer.write(data).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+}